@@ -0,0 +1,82 @@
+import Kernel32, { type Kernel32Symbol } from 'bun-kernel32';
+
+/**
+ * Cold-start cost of binding exports, measured in a fresh process per run:
+ *
+ * - `lazy`: each export binds on its first call.
+ * - `preload-subset`: `Preload(Subset)` binds the exports in one batch, then they are called.
+ * - `preload-all`: `Preload()` binds every export that exists, then the subset is called.
+ *
+ * Usage: `bun run bench [--runs N]`
+ */
+
+// Side-effect-free exports that take no arguments, so every scenario can call them.
+const Subset: Kernel32Symbol[] = [
+  'GetACP',
+  'GetCommandLineW',
+  'GetConsoleWindow',
+  'GetCurrentProcess',
+  'GetCurrentProcessId',
+  'GetCurrentProcessorNumber',
+  'GetCurrentThread',
+  'GetCurrentThreadId',
+  'GetLastError',
+  'GetOEMCP',
+  'GetProcessHeap',
+  'GetSystemDefaultLangID',
+  'GetTickCount',
+  'GetTickCount64',
+  'GetUserDefaultLCID',
+  'IsDebuggerPresent',
+];
+
+const Scenarios: Record<string, () => void> = {
+  lazy: () => {},
+  'preload-all': () => void Kernel32.Preload(undefined, { skipUnavailable: true }),
+  'preload-subset': () => void Kernel32.Preload(Subset),
+};
+
+const scenarioIndex = process.argv.indexOf('--scenario');
+
+if (scenarioIndex !== -1) {
+  const scenario = Scenarios[process.argv[scenarioIndex + 1]!]!;
+
+  const start = performance.now();
+
+  scenario();
+
+  for (const method of Subset) {
+    (Kernel32[method] as () => unknown)();
+  }
+
+  const end = performance.now();
+
+  console.log(end - start);
+  process.exit(0);
+}
+
+if (process.platform !== 'win32') {
+  console.error('The benchmark binds kernel32.dll and must run on Windows.');
+  process.exit(1);
+}
+
+const runsIndex = process.argv.indexOf('--runs');
+const runs = runsIndex === -1 ? 10 : Number(process.argv[runsIndex + 1]);
+
+console.log('Cold start, %d runs per scenario, %d exports called:\n', runs, Subset.length);
+
+for (const name of Object.keys(Scenarios)) {
+  const samples: number[] = [];
+
+  for (let run = 0; run < runs; run++) {
+    const { stdout } = Bun.spawnSync([process.execPath, import.meta.path, '--scenario', name]);
+
+    samples.push(Number(stdout.toString()));
+  }
+
+  samples.sort((a, b) => a - b);
+
+  const median = samples[Math.floor(samples.length / 2)]!;
+
+  console.log('%s  min %sms  median %sms  max %sms', name.padEnd(14), samples[0]!.toFixed(2), median.toFixed(2), samples.at(-1)!.toFixed(2));
+}
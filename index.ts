@@ -2,5 +2,41 @@ import './runtime/extensions';
 
 import Kernel32 from './structs/Kernel32';
 
+export { default as AsyncFile } from './structs/AsyncFile';
+export { default as Clock } from './structs/Clock';
+export { default as CodePage } from './structs/CodePage';
+export { default as ConsoleModes } from './structs/ConsoleModes';
+export { default as Coord } from './structs/Coord';
+export { default as EnvironmentBlock } from './structs/EnvironmentBlock';
+export { default as FakeBackend } from './structs/FakeBackend';
+export { default as FFIBackend } from './structs/FFIBackend';
+export { default as File } from './structs/File';
+export { default as FileTime } from './structs/FileTime';
+export { default as Flags } from './structs/Flags';
+export { default as IoCompletionPort } from './structs/IoCompletionPort';
+export { default as Kernel32Checked } from './structs/Kernel32Checked';
+export { default as LargeInteger } from './structs/LargeInteger';
+export { default as Layouts } from './structs/Layouts';
+export { default as MultiString } from './structs/MultiString';
+export { default as RecordingBackend } from './structs/RecordingBackend';
+export { default as ReplayBackend } from './structs/ReplayBackend';
+export { default as SafeHandle } from './structs/SafeHandle';
+export { default as Stopwatch } from './structs/Stopwatch';
+export { default as Struct } from './structs/Struct';
+export { default as StructArray } from './structs/StructArray';
+export { default as SymbolUnavailableError } from './structs/SymbolUnavailableError';
+export { default as Tracer } from './structs/Tracer';
+export { default as WideString } from './structs/WideString';
+export { default as Win32Error } from './structs/Win32Error';
+
+export * from './types/Backend';
+export * from './types/CodePage';
+export * from './types/File';
+export * from './types/IoCompletionPort';
 export * from './types/Kernel32';
+export * from './types/Metadata';
+export * from './types/Replay';
+export * from './types/Struct';
+export * from './types/Time';
+export * from './types/Trace';
 export default Kernel32;
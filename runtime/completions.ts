@@ -0,0 +1,57 @@
+import './extensions';
+
+import IoCompletionPort from '../structs/IoCompletionPort';
+import Win32Error from '../structs/Win32Error';
+
+import type { IoCompletionPacket } from '../types/IoCompletionPort';
+import { type HANDLE, INFINITE } from '../types/Kernel32';
+
+/**
+ * Sent once by `IoCompletionPort.run({ worker: true })` to start the worker.
+ */
+export interface CompletionWorkerRequest {
+  batchSize: number;
+  port: HANDLE;
+}
+
+/**
+ * Sent by the worker for each batch it dequeues, or with the error code that ended it.
+ */
+export type CompletionWorkerMessage = { packets: IoCompletionPacket[] } | { code: number };
+
+declare const self: Worker & { close(): void };
+
+/**
+ * Completion port worker.
+ *
+ * Waits in `GetQueuedCompletionStatusEx` on the port it is given and posts every batch back
+ * to the thread that started it, which dispatches the packets. It closes itself after the
+ * batch holding a packet posted with `IoCompletionPort.StopKey`, or after reporting the error
+ * code once the port can no longer be read.
+ */
+self.onmessage = ({ data }: MessageEvent<CompletionWorkerRequest>) => {
+  for (;;) {
+    let packets: IoCompletionPacket[];
+
+    try {
+      packets = IoCompletionPort.Dequeue(data.port, data.batchSize, INFINITE);
+    } catch (error) {
+      if (!(error instanceof Win32Error)) {
+        throw error;
+      }
+
+      postMessage({ code: error.code } satisfies CompletionWorkerMessage);
+      self.close();
+
+      return;
+    }
+
+    postMessage({ packets } satisfies CompletionWorkerMessage);
+
+    if (packets.some((packet) => packet.key === IoCompletionPort.StopKey && packet.overlapped === null)) {
+      self.close();
+
+      return;
+    }
+  }
+};
@@ -179,10 +179,21 @@ declare global {
   }
 }
 
+/**
+ * Memory whose `ptr` has been read, keyed by the returned address, while `tracked` is set.
+ *
+ * Lets `RecordingBackend` find the JS buffer behind a pointer argument so it can capture
+ * what a native call wrote into it. Entries hold the memory strongly, so it cannot be
+ * collected before the call that receives the pointer is recorded; the recorder removes
+ * them then, and resets `tracked` to `null` (the default, tracking disabled) when it stops.
+ */
+export const Pointers: { tracked: Map<Pointer, ArrayBuffer | ArrayBufferView | SharedArrayBuffer> | null } = { tracked: null };
+
 /**
  * Installs the `ptr` property on all supported binary view prototypes.
  *
- * The property is non-enumerable and non-configurable. The getter calls `ptr(this)`.
+ * The property is non-enumerable and non-configurable. The getter calls `ptr(this)` and
+ * records the result in `Pointers.tracked` when tracking is enabled.
  */
 const constructors = [ArrayBuffer, BigInt64Array, BigUint64Array, Buffer, DataView, Float32Array, Float64Array, Int16Array, Int32Array, Int8Array, SharedArrayBuffer, Uint16Array, Uint32Array, Uint8Array, Uint8ClampedArray] as const;
 
@@ -202,9 +213,11 @@ constructors.forEach(
        * ```
        */
       get(this): Pointer {
-        return ptr(this);
+        const pointer = ptr(this);
+
+        Pointers.tracked?.set(pointer, this);
+
+        return pointer;
       },
     })
 );
-
-export {};
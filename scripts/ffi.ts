@@ -0,0 +1,99 @@
+import { readFileSync } from 'node:fs';
+import { join } from 'node:path';
+
+/**
+ * Win32 type → `FFIType` resolution shared by the code generator and the signature checker.
+ *
+ * Type aliases are read from `types/Kernel32.ts`, so adding `export type PFOO = Pointer;` there
+ * is all it takes for `PFOO` to resolve to `ptr`.
+ */
+
+export const root = join(import.meta.dir, '..');
+
+// Structs passed by value, packed into a register by `Kernel32` before the call.
+export const ByValue: Record<string, string> = {
+  COORD: 'u32',
+};
+
+// Integer widths for the Win32 scalar typedefs used by the bindings.
+const Scalars: Record<string, string> = {
+  ACCESS_MASK: 'u32',
+  BOOL: 'i32',
+  BOOLEAN: 'u8',
+  BYTE: 'u8',
+  CHAR: 'i8',
+  DWORD: 'u32',
+  HRESULT: 'i32',
+  INT: 'i32',
+  LCID: 'u32',
+  LONG: 'i32',
+  SHORT: 'i16',
+  UINT: 'u32',
+  ULONG: 'u32',
+  USHORT: 'u16',
+  WCHAR: 'u16',
+  WORD: 'u16',
+};
+
+const Signed64 = new Set<string>(['INT_PTR', 'LARGE_INTEGER', 'LONG_PTR', 'LONGLONG', 'LPARAM', 'LRESULT']);
+
+export const Narrow = new Set<string>(['i8', 'i16', 'i32', 'u8', 'u16', 'u32']);
+
+const aliases = new Map<string, string>();
+
+// `export type HFIND = Handle<'HFIND'>;` resolves through `Handle`, itself declared as `Pointer & { ... }`.
+for (const [, name, target] of readFileSync(join(root, 'types', 'Kernel32.ts'), 'utf8').matchAll(/^export type (\w+)(?:<[^>]+>)? = (\w+)(?:;|<| &)/gm)) {
+  aliases.set(name!, target!);
+}
+
+/**
+ * Follows an alias chain (`LPARAM` → `LONG_PTR` → `bigint`) and returns every name on the way.
+ */
+export function chain(type: string): string[] {
+  const result = [type];
+
+  while (aliases.has(result.at(-1)!) && aliases.get(result.at(-1)!) !== result.at(-1)) {
+    result.push(aliases.get(result.at(-1)!)!);
+  }
+
+  return result;
+}
+
+/**
+ * Whether a Win32 type is as wide as a pointer: `LP*`, `P*`, `H*`, anything aliased to
+ * `Pointer`, or the `SIZE_T` family.
+ */
+export function isPointerWidth(type: string): boolean {
+  const resolved = chain(type);
+
+  if (resolved.includes('Pointer') || resolved.includes('bigint')) {
+    return true;
+  }
+
+  return /^(H|LP|P)[A-Z]/.test(type) && type !== 'HRESULT';
+}
+
+/**
+ * Returns the FFI type a Win32 type should be declared with, or `null` when it cannot be derived.
+ */
+export function expected(type: string): string | null {
+  const resolved = chain(type);
+
+  if (ByValue[type] !== undefined) {
+    return ByValue[type];
+  }
+
+  if (resolved.includes('Pointer')) {
+    return 'ptr';
+  }
+
+  if (resolved.includes('bigint')) {
+    return resolved.some((name) => Signed64.has(name)) ? 'i64' : 'u64';
+  }
+
+  if (resolved.includes('void')) {
+    return 'void';
+  }
+
+  return resolved.map((name) => Scalars[name]).find((ffi) => ffi !== undefined) ?? null;
+}
@@ -0,0 +1,233 @@
+import { readFileSync, writeFileSync } from 'node:fs';
+import { join } from 'node:path';
+
+import { ByValue, expected, root } from './ffi';
+
+/**
+ * Code generator for the bindings.
+ *
+ * `metadata/Kernel32.json` is the source of truth for every export: its header, documentation
+ * link, parameters (Win32 type and direction), return type, failure convention and, for exports
+ * newer than Windows 10 RTM, the minimum Windows build that provides it. This script
+ * regenerates the parts of the tree derived from it:
+ *
+ * - `structs/Kernel32.ts`: the `types` import, the `ByValue`, `MinimumBuilds` and `Symbols`
+ *   tables and the static methods.
+ * - `structs/Kernel32Checked.ts`: the `Failures` table.
+ *
+ * `FFIType`s are never written by hand; they are resolved from the Win32 types (see `ffi.ts`).
+ * With `--check` nothing is written and the script exits non-zero if a checked-in file differs
+ * from the generator output.
+ *
+ * @example
+ * ```sh
+ * bun run generate        # after editing metadata/Kernel32.json
+ * bun run check:generated # verify it in CI
+ * ```
+ */
+
+type Direction = 'in' | 'inout' | 'out';
+
+interface Parameter {
+  direction: Direction;
+  name: string;
+  type: string;
+}
+
+interface Export {
+  disabled?: boolean;
+  documentation?: string;
+  failure?: string;
+  header: string;
+  minimumBuild?: number;
+  parameters: Parameter[];
+  returns: string;
+}
+
+// Matches `.prettierrc`; signatures longer than this are split one parameter per line.
+const PrintWidth = 240;
+
+const exports: Record<string, Export> = JSON.parse(readFileSync(join(root, 'metadata', 'Kernel32.json'), 'utf8'));
+
+const problems: string[] = [];
+
+function ffi(name: string, type: string): string {
+  const result = expected(type);
+
+  if (result === null) {
+    problems.push(`${name}: cannot resolve an FFIType for ${type}; add it to types/Kernel32.ts`);
+  }
+
+  return result ?? 'ptr';
+}
+
+function symbol(name: string, { disabled, parameters, returns }: Export): string {
+  const args = parameters.map((parameter) => `FFIType.${ffi(name, parameter.type)}`).join(', ');
+
+  return `    ${disabled ? '// ' : ''}${name}: { args: [${args}], returns: FFIType.${ffi(name, returns)} },`;
+}
+
+function method(name: string, { disabled, documentation, parameters, returns }: Export): string {
+  const comment = disabled ? '// ' : '';
+  const lines: string[] = [];
+
+  if (documentation !== undefined) {
+    lines.push(`  // ${documentation}`);
+  }
+
+  const signature = `  ${comment}public static ${name}(${parameters.map(({ name, type }) => `${name}: ${type}`).join(', ')}): ${returns} {`;
+
+  if (signature.length <= PrintWidth) {
+    lines.push(signature);
+  } else {
+    lines.push(`  ${comment}public static ${name}(`);
+    lines.push(...parameters.map(({ name, type }, index) => `  ${comment}  ${name}: ${type}${index === parameters.length - 1 ? '' : ','}`));
+    lines.push(`  ${comment}): ${returns} {`);
+  }
+
+  lines.push(`  ${comment}  return Kernel32.Load('${name}')(${parameters.map(({ name }) => name).join(', ')});`);
+  lines.push(`  ${comment}}`);
+
+  return lines.join('\n');
+}
+
+/**
+ * Replaces the text between two anchors, which must both occur exactly once.
+ */
+function replace(file: string, source: string, start: string, end: string, content: string): string {
+  const from = source.indexOf(start);
+  const to = source.indexOf(end, from + start.length);
+
+  if (from === -1 || to === -1 || source.indexOf(start, from + 1) !== -1) {
+    problems.push(`${file}: could not locate the generated region starting at ${JSON.stringify(start)}`);
+    return source;
+  }
+
+  return source.slice(0, from + start.length) + content + source.slice(to);
+}
+
+const entries = Object.entries(exports);
+const enabled = entries.filter(([, entry]) => !entry.disabled);
+
+// structs/Kernel32.ts
+
+const kernel32Path = join(root, 'structs', 'Kernel32.ts');
+const kernel32Current = readFileSync(kernel32Path, 'utf8');
+
+const ImportStart = 'import type {\n';
+const ImportEnd = "} from '../types/Kernel32';";
+const SymbolsStart = 'private static readonly Symbols = {\n';
+const SymbolsEnd = '  } as const satisfies Record<string, FFIFunction>;';
+const MethodsStart = `${SymbolsEnd}\n\n`;
+const MethodsEnd = '\n}\n\nexport default Kernel32;\n';
+const MinimumBuildsStart = 'private static readonly MinimumBuilds: Readonly<Record<string, number>> = {\n';
+const MinimumBuildsEnd = '  };';
+const ByValueStart = 'private static readonly ByValue: Record<string, number[]> = {\n';
+const ByValueEnd = '  };';
+
+let kernel32 = kernel32Current;
+
+kernel32 = replace(
+  'structs/Kernel32.ts',
+  kernel32,
+  MinimumBuildsStart,
+  MinimumBuildsEnd,
+  enabled
+    .filter(([, { minimumBuild }]) => minimumBuild !== undefined)
+    .map(([name, { minimumBuild }]) => `    ${name}: ${minimumBuild},\n`)
+    .join('')
+);
+
+kernel32 = replace(
+  'structs/Kernel32.ts',
+  kernel32,
+  ByValueStart,
+  ByValueEnd,
+  enabled
+    .map(([name, { parameters }]) => [name, parameters.flatMap(({ type }, index) => (ByValue[type] === undefined ? [] : [index]))] as const)
+    .filter(([, positions]) => positions.length !== 0)
+    .map(([name, positions]) => `    ${name}: [${positions.join(', ')}],\n`)
+    .join('')
+);
+
+kernel32 = replace('structs/Kernel32.ts', kernel32, SymbolsStart, SymbolsEnd, entries.map(([name, entry]) => symbol(name, entry)).join('\n') + '\n');
+kernel32 = replace('structs/Kernel32.ts', kernel32, MethodsStart, MethodsEnd, entries.map(([name, entry]) => method(name, entry)).join('\n\n'));
+
+// Import every alias the generated signatures use, plus any the hand-written members reference.
+const exported = new Set([...readFileSync(join(root, 'types', 'Kernel32.ts'), 'utf8').matchAll(/^export type (\w+) =/gm)].map(([, name]) => name!));
+const handWritten = kernel32.slice(0, kernel32.indexOf(SymbolsStart)).replace(/import type \{\n[^}]*\} from '\.\.\/types\/Kernel32';/, '');
+
+const imports = new Set<string>(enabled.flatMap(([, { parameters, returns }]) => [returns, ...parameters.map(({ type }) => type)]));
+
+for (const [identifier] of handWritten.matchAll(/\b[A-Z][A-Z0-9_]+\b/g)) {
+  if (exported.has(identifier)) {
+    imports.add(identifier);
+  }
+}
+
+for (const type of imports) {
+  if (!exported.has(type)) {
+    problems.push(`types/Kernel32.ts does not export ${type}`);
+  }
+}
+
+kernel32 = replace(
+  'structs/Kernel32.ts',
+  kernel32,
+  ImportStart,
+  ImportEnd,
+  [...imports]
+    .sort()
+    .map((type) => `  ${type},\n`)
+    .join('')
+);
+
+// structs/Kernel32Checked.ts
+
+const checkedPath = join(root, 'structs', 'Kernel32Checked.ts');
+const checkedCurrent = readFileSync(checkedPath, 'utf8');
+
+const checked = replace(
+  'structs/Kernel32Checked.ts',
+  checkedCurrent,
+  'const Failures = {\n',
+  '} as const satisfies Partial<Record<Kernel32Symbol, FailureConvention>>;',
+  enabled
+    .filter(([, { failure }]) => failure !== undefined)
+    .map(([name, { failure }]) => `  ${name}: '${failure}',\n`)
+    .join('')
+);
+
+const outputs = [
+  { content: kernel32, current: kernel32Current, file: 'structs/Kernel32.ts', path: kernel32Path },
+  { content: checked, current: checkedCurrent, file: 'structs/Kernel32Checked.ts', path: checkedPath },
+];
+
+for (const problem of problems) {
+  console.error(problem);
+}
+
+if (problems.length !== 0) {
+  process.exit(1);
+}
+
+const stale = outputs.filter(({ content, current }) => content !== current);
+
+if (process.argv.includes('--check')) {
+  for (const { file } of stale) {
+    console.error('%s is out of date with metadata/Kernel32.json; run `bun run generate`', file);
+  }
+
+  if (stale.length !== 0) {
+    process.exit(1);
+  }
+
+  console.log('Generated files match metadata/Kernel32.json (%d exports).', entries.length);
+} else {
+  for (const { content, file, path } of stale) {
+    writeFileSync(path, content);
+    console.log('Wrote %s.', file);
+  }
+
+  console.log('Generated %d exports.', entries.length);
+}
@@ -0,0 +1,56 @@
+import Layouts from '../structs/Layouts';
+import Struct from '../structs/Struct';
+
+import { SDK } from './sdk';
+
+/**
+ * Struct layout checker.
+ *
+ * Compares the size and field offsets of every structure in `structs/Layouts.ts` against
+ * the values the Windows SDK produces for x64 (`sizeof`/`offsetof` from a 64-bit MSVC build),
+ * and exits non-zero on any difference or on a structure missing from either side.
+ *
+ * @example
+ * ```sh
+ * bun run check:layouts
+ * ```
+ */
+
+const layouts = Object.entries(Layouts) as [string, Struct<any>][];
+const problems: string[] = [];
+
+for (const [name, layout] of layouts) {
+  const expected = SDK[name];
+
+  if (expected === undefined) {
+    problems.push(`${name}: no SDK reference size in scripts/sdk.ts`);
+    continue;
+  }
+
+  if (Struct.SizeOf(layout) !== expected.size) {
+    problems.push(`${name}: sizeof is ${Struct.SizeOf(layout)}, SDK says ${expected.size}`);
+  }
+
+  for (const [field, offset] of Object.entries(expected.offsets)) {
+    if (Struct.OffsetOf(layout, field) !== offset) {
+      problems.push(`${name}: offsetof(${field}) is ${Struct.OffsetOf(layout, field)}, SDK says ${offset}`);
+    }
+  }
+}
+
+for (const name of Object.keys(SDK)) {
+  if (!layouts.some(([layout]) => layout === name)) {
+    problems.push(`${name}: missing from structs/Layouts.ts`);
+  }
+}
+
+for (const problem of problems) {
+  console.error(problem);
+}
+
+if (problems.length !== 0) {
+  console.error('%d layout problem(s) found.', problems.length);
+  process.exit(1);
+}
+
+console.log('%d layouts match the Windows SDK.', layouts.length);
@@ -0,0 +1,31 @@
+/**
+ * Reference x64 layouts of the structures in `structs/Layouts.ts`: `sizeof` and the `offsetof`
+ * of every field, as produced by a 64-bit MSVC build against the Windows SDK.
+ *
+ * Shared by `layouts.ts` and the layout tests.
+ */
+
+export interface Expected {
+  offsets: Record<string, number>;
+  size: number;
+}
+
+// prettier-ignore
+export const SDK: Record<string, Expected> = {
+  BY_HANDLE_FILE_INFORMATION: { offsets: { dwFileAttributes: 0, ftCreationTime: 4, ftLastAccessTime: 12, ftLastWriteTime: 20, dwVolumeSerialNumber: 28, nFileSizeHigh: 32, nFileSizeLow: 36, nNumberOfLinks: 40, nFileIndexHigh: 44, nFileIndexLow: 48 }, size: 52 },
+  CONSOLE_SCREEN_BUFFER_INFO: { offsets: { dwSize: 0, dwCursorPosition: 4, wAttributes: 8, srWindow: 10, dwMaximumWindowSize: 18 }, size: 22 },
+  COORD: { offsets: { X: 0, Y: 2 }, size: 4 },
+  CPINFOEXW: { offsets: { MaxCharSize: 0, DefaultChar: 4, LeadByte: 6, UnicodeDefaultChar: 18, CodePage: 20, CodePageName: 24 }, size: 544 },
+  FILETIME: { offsets: { dwLowDateTime: 0, dwHighDateTime: 4 }, size: 8 },
+  MEMORY_BASIC_INFORMATION: { offsets: { BaseAddress: 0, AllocationBase: 8, AllocationProtect: 16, PartitionId: 20, RegionSize: 24, State: 32, Protect: 36, Type: 40 }, size: 48 },
+  OVERLAPPED: { offsets: { Internal: 0, InternalHigh: 8, DUMMYUNIONNAME: 16, hEvent: 24 }, size: 32 },
+  OVERLAPPED_ENTRY: { offsets: { lpCompletionKey: 0, lpOverlapped: 8, Internal: 16, dwNumberOfBytesTransferred: 24 }, size: 32 },
+  PROCESS_INFORMATION: { offsets: { hProcess: 0, hThread: 8, dwProcessId: 16, dwThreadId: 20 }, size: 24 },
+  PROCESSENTRY32W: { offsets: { dwSize: 0, cntUsage: 4, th32ProcessID: 8, th32DefaultHeapID: 16, th32ModuleID: 24, cntThreads: 28, th32ParentProcessID: 32, pcPriClassBase: 36, dwFlags: 40, szExeFile: 44 }, size: 568 },
+  SECURITY_ATTRIBUTES: { offsets: { nLength: 0, lpSecurityDescriptor: 8, bInheritHandle: 16 }, size: 24 },
+  SMALL_RECT: { offsets: { Left: 0, Top: 2, Right: 4, Bottom: 6 }, size: 8 },
+  STARTUPINFOW: { offsets: { cb: 0, lpReserved: 8, lpDesktop: 16, lpTitle: 24, dwX: 32, dwY: 36, dwXSize: 40, dwYSize: 44, dwXCountChars: 48, dwYCountChars: 52, dwFillAttribute: 56, dwFlags: 60, wShowWindow: 64, cbReserved2: 66, lpReserved2: 72, hStdInput: 80, hStdOutput: 88, hStdError: 96 }, size: 104 },
+  SYSTEM_INFO: { offsets: { DUMMYUNIONNAME: 0, dwPageSize: 4, lpMinimumApplicationAddress: 8, lpMaximumApplicationAddress: 16, dwActiveProcessorMask: 24, dwNumberOfProcessors: 32, dwProcessorType: 36, dwAllocationGranularity: 40, wProcessorLevel: 44, wProcessorRevision: 46 }, size: 48 },
+  SYSTEMTIME: { offsets: { wYear: 0, wMonth: 2, wDayOfWeek: 4, wDay: 6, wHour: 8, wMinute: 10, wSecond: 12, wMilliseconds: 14 }, size: 16 },
+  WIN32_FIND_DATAW: { offsets: { dwFileAttributes: 0, ftCreationTime: 4, ftLastAccessTime: 12, ftLastWriteTime: 20, nFileSizeHigh: 28, nFileSizeLow: 32, dwReserved0: 36, dwReserved1: 40, cFileName: 44, cAlternateFileName: 564 }, size: 592 },
+};
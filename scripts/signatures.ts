@@ -0,0 +1,115 @@
+import { readFileSync, writeFileSync } from 'node:fs';
+import { join } from 'node:path';
+
+import { expected, isPointerWidth, Narrow, root } from './ffi';
+
+/**
+ * Signature manifest generator and checker.
+ *
+ * Reads the `Symbols` table and the typed static methods from `structs/Kernel32.ts`, resolves
+ * every Win32 type alias through `types/Kernel32.ts`, and writes the result to
+ * `metadata/signatures.json`. With `--check` the manifest is not written; instead the script
+ * exits non-zero if the manifest is stale or if any signature is inconsistent:
+ *
+ * - A pointer-width type (`LP*`, `P*`, `H*`, anything aliased to `Pointer`, or the `SIZE_T`
+ *   family) declared narrower than 64 bits in `Symbols` — the bug class that silently
+ *   truncates addresses above 4 GiB.
+ * - An FFI type that does not match what the Win32 type resolves to.
+ *
+ * @example
+ * ```sh
+ * bun run signatures        # regenerate metadata/signatures.json
+ * bun run check:signatures  # verify it in CI
+ * ```
+ */
+
+interface Parameter {
+  ffi: string;
+  name: string;
+  type: string;
+}
+
+interface Signature {
+  parameters: Parameter[];
+  returns: Omit<Parameter, 'name'>;
+}
+
+const manifestPath = join(root, 'metadata', 'signatures.json');
+
+const source = readFileSync(join(root, 'structs', 'Kernel32.ts'), 'utf8');
+
+const methods = new Map<string, { parameters: [string, string][]; returns: string }>();
+
+for (const [, name, parameters, returns] of source.matchAll(/^  public static (\w+)\(([^()]*)\): (\w+) \{$/gm)) {
+  methods.set(name!, {
+    parameters: [...parameters!.matchAll(/(\w+): (\w+)/g)].map(([, parameter, type]) => [parameter!, type!]),
+    returns: returns!,
+  });
+}
+
+const manifest: Record<string, Signature> = {};
+const problems: string[] = [];
+
+for (const [, name, args, returns] of source.matchAll(/^    (\w+): \{ args: \[(.*)\], returns: FFIType\.(\w+) \},?$/gm)) {
+  const method = methods.get(name!);
+
+  if (method === undefined) {
+    problems.push(`${name}: symbol has no matching static method`);
+    continue;
+  }
+
+  const ffis = [...args!.matchAll(/FFIType\.(\w+)/g)].map(([, ffi]) => ffi!);
+
+  if (ffis.length !== method.parameters.length) {
+    problems.push(`${name}: Symbols declares ${ffis.length} argument(s), method declares ${method.parameters.length}`);
+    continue;
+  }
+
+  const signature: Signature = {
+    parameters: method.parameters.map(([parameter, type], index) => ({ ffi: ffis[index]!, name: parameter, type })),
+    returns: { ffi: returns!, type: method.returns },
+  };
+
+  for (const { ffi, name: parameter, type } of [...signature.parameters, { ...signature.returns, name: 'return value' }]) {
+    if (isPointerWidth(type) && Narrow.has(ffi)) {
+      problems.push(`${name}: ${parameter} is ${type} (pointer-width) but declared FFIType.${ffi}`);
+    } else if (expected(type) !== null && expected(type) !== ffi) {
+      problems.push(`${name}: ${parameter} is ${type} (expected FFIType.${expected(type)}) but declared FFIType.${ffi}`);
+    }
+  }
+
+  manifest[name!] = signature;
+}
+
+const serialized = JSON.stringify(manifest, null, 2) + '\n';
+
+if (process.argv.includes('--check')) {
+  let current: string | null = null;
+
+  try {
+    current = readFileSync(manifestPath, 'utf8');
+  } catch {}
+
+  if (current !== serialized) {
+    problems.push('metadata/signatures.json is out of date; run `bun run signatures`');
+  }
+
+  for (const problem of problems) {
+    console.error(problem);
+  }
+
+  if (problems.length !== 0) {
+    console.error('%d signature problem(s) found.', problems.length);
+    process.exit(1);
+  }
+
+  console.log('%d signatures OK.', Object.keys(manifest).length);
+} else {
+  writeFileSync(manifestPath, serialized);
+
+  for (const problem of problems) {
+    console.warn(problem);
+  }
+
+  console.log('Wrote %d signatures to metadata/signatures.json.', Object.keys(manifest).length);
+}
@@ -0,0 +1,235 @@
+import IoCompletionPort from './IoCompletionPort';
+import Kernel32 from './Kernel32';
+import Kernel32Checked from './Kernel32Checked';
+import SafeHandle from './SafeHandle';
+import WideString from './WideString';
+import Win32Error from './Win32Error';
+
+import type { Pointer } from 'bun:ffi';
+
+import type { AsyncFileIOOptions, FileOpenOptions } from '../types/File';
+import { type BOOL, FileAccess, FileAttributes, FileCreationDisposition, FileFlags, FileShareMode, type HANDLE, NULL, Win32ErrorCode } from '../types/Kernel32';
+
+/**
+ * A file opened for overlapped I/O (`FILE_FLAG_OVERLAPPED`), whose reads and writes return
+ * promises instead of blocking the thread.
+ *
+ * Each operation gets its own `OVERLAPPED` carrying the file offset, so every read and write
+ * is positional and any number may be in flight at once. Files are associated with one
+ * `IoCompletionPort` shared by every `AsyncFile`, created with the first and run on a
+ * `Worker` that waits in `GetQueuedCompletionStatusEx`, so a completion settles its promise
+ * as soon as it is dequeued. The port holds the `OVERLAPPED` and the caller's buffer until
+ * then, so neither is collected while the kernel is still writing to it; the caller must not
+ * reuse the buffer before the promise settles. The port keeps the process alive only while
+ * operations are in flight.
+ *
+ * An operation is cancelled with `CancelIoEx` when its `AbortSignal` aborts. `close()`
+ * cancels whatever is still in flight and waits for it to finish before closing the
+ * handle, so an `AsyncFile` can be declared with `await using`.
+ *
+ * @example
+ * ```ts
+ * await using file = AsyncFile.Open('C:\\data\\log.bin', {
+ *   access: FileAccess.GENERIC_READ | FileAccess.GENERIC_WRITE,
+ *   disposition: FileCreationDisposition.OPEN_ALWAYS,
+ * });
+ *
+ * await file.write(new TextEncoder().encode('hello'), file.size());
+ *
+ * const header = new Uint8Array(16);
+ * const read = await file.read(header, 0, { signal: AbortSignal.timeout(1_000) });
+ * ```
+ */
+class AsyncFile implements AsyncDisposable {
+  private static readonly Out = new BigInt64Array(1);
+
+  private static Port: IoCompletionPort | null = null;
+
+  private closing: Promise<void> | null = null;
+
+  private readonly operations = new Set<Promise<number>>();
+
+  private readonly owner: SafeHandle;
+
+  /**
+   * Takes ownership of an open file handle and associates it with the shared completion
+   * port; it is closed with the `AsyncFile`.
+   *
+   * @param handle Handle opened with `FILE_FLAG_OVERLAPPED`, not yet associated with a completion port.
+   * @throws {Win32Error} If the handle cannot be associated; it is then left open.
+   */
+  public constructor(handle: HANDLE) {
+    AsyncFile.Completions.associate(handle);
+
+    this.owner = new SafeHandle(handle);
+  }
+
+  /**
+   * Opens or creates a file for overlapped I/O with `CreateFileW`. `FILE_FLAG_OVERLAPPED`
+   * is added to `options.flags`.
+   *
+   * @param path File path.
+   * @param options Access, sharing, disposition and flags; see `FileOpenOptions` for defaults.
+   * @throws {Win32Error} If the file cannot be opened, e.g. `ERROR_FILE_NOT_FOUND` or `ERROR_SHARING_VIOLATION`.
+   */
+  public static Open(path: string, options: FileOpenOptions = {}): AsyncFile {
+    const { access = FileAccess.GENERIC_READ, disposition = FileCreationDisposition.OPEN_EXISTING, flags = FileAttributes.FILE_ATTRIBUTE_NORMAL, share = FileShareMode.FILE_SHARE_READ } = options;
+
+    const name = WideString.Encode(path);
+    const handle = Kernel32Checked.CreateFileW(name.ptr, access >>> 0, share, NULL, disposition, (flags | FileFlags.FILE_FLAG_OVERLAPPED) >>> 0, NULL);
+
+    try {
+      return new AsyncFile(handle);
+    } catch (error) {
+      Kernel32.CloseHandle(handle);
+
+      throw error;
+    }
+  }
+
+  // Port shared by every `AsyncFile`, dispatching from a worker for the life of the process.
+  private static get Completions(): IoCompletionPort {
+    if (AsyncFile.Port === null) {
+      AsyncFile.Port = IoCompletionPort.Create();
+      AsyncFile.Port.run({ keepAlive: false, worker: true });
+    }
+
+    return AsyncFile.Port;
+  }
+
+  /**
+   * The file handle.
+   *
+   * @throws {Error} If the file has been closed.
+   */
+  public get handle(): HANDLE {
+    return this.owner.handle;
+  }
+
+  /**
+   * Number of reads and writes still in flight.
+   */
+  public get inFlight(): number {
+    return this.operations.size;
+  }
+
+  public get isClosed(): boolean {
+    return this.owner.isClosed;
+  }
+
+  /**
+   * Cancels every operation in flight on this handle (`CancelIoEx`). Their promises reject
+   * with a `Win32Error` for `ERROR_OPERATION_ABORTED`, or with their signal's reason if it
+   * has aborted, unless they complete first.
+   *
+   * @throws {Win32Error} If cancellation fails for a reason other than there being nothing to cancel.
+   */
+  public cancel(): void {
+    if (Kernel32.CancelIoEx(this.handle, NULL)) {
+      return;
+    }
+
+    const code = Kernel32.LastError;
+
+    if (code !== Win32ErrorCode.ERROR_NOT_FOUND) {
+      throw new Win32Error('CancelIoEx', code);
+    }
+  }
+
+  /**
+   * Cancels the operations in flight, waits for them to settle, then closes the handle.
+   * Reads and writes started afterwards reject. Calling it again returns the same promise.
+   *
+   * @throws {Win32Error} If `CancelIoEx` or `CloseHandle` fails.
+   */
+  public close(): Promise<void> {
+    this.closing ??= this.drain();
+
+    return this.closing;
+  }
+
+  /**
+   * Reads up to `buffer.length` bytes at a file offset (`ReadFile`).
+   *
+   * @param buffer Destination; it must not be touched until the promise settles.
+   * @param position File offset to read from.
+   * @param options Abort signal.
+   * @returns Bytes read; 0 at or past the end of the file.
+   * @throws {Win32Error} If the read fails.
+   */
+  public async read(buffer: Uint8Array, position: bigint | number, options: AsyncFileIOOptions = {}): Promise<number> {
+    try {
+      return await this.submit('ReadFile', buffer, position, options.signal, (lpOverlapped) => Kernel32.ReadFile(this.handle, buffer.ptr, Math.min(buffer.length, 0xffff_ffff), NULL, lpOverlapped));
+    } catch (error) {
+      // Reads at or past the end fail, either straight away or on completion, instead of returning 0 bytes.
+      if (error instanceof Win32Error && error.code === Win32ErrorCode.ERROR_HANDLE_EOF) {
+        return 0;
+      }
+
+      throw error;
+    }
+  }
+
+  /**
+   * Size of the file in bytes (`GetFileSizeEx`).
+   *
+   * @throws {Win32Error} If the size cannot be read.
+   */
+  public size(): bigint {
+    Kernel32Checked.GetFileSizeEx(this.handle, AsyncFile.Out.ptr);
+
+    return AsyncFile.Out[0]!;
+  }
+
+  /**
+   * Writes `data` at a file offset (`WriteFile`). Writing past the end extends the file.
+   *
+   * @param data Bytes to write; they must not be changed until the promise settles.
+   * @param position File offset to write at.
+   * @param options Abort signal.
+   * @returns Bytes written.
+   * @throws {Win32Error} If the write fails, e.g. `ERROR_DISK_FULL`.
+   */
+  public write(data: Uint8Array, position: bigint | number, options: AsyncFileIOOptions = {}): Promise<number> {
+    return this.submit('WriteFile', data, position, options.signal, (lpOverlapped) => Kernel32.WriteFile(this.handle, data.ptr, Math.min(data.length, 0xffff_ffff), NULL, lpOverlapped));
+  }
+
+  public [Symbol.asyncDispose](): Promise<void> {
+    return this.close();
+  }
+
+  private async drain(): Promise<void> {
+    if (this.owner.isClosed) {
+      return;
+    }
+
+    if (this.operations.size !== 0) {
+      this.cancel();
+
+      await Promise.allSettled(this.operations);
+    }
+
+    this.owner.close();
+  }
+
+  // Starts an operation through the shared port and tracks it until it settles.
+  private submit(api: string, buffer: Uint8Array, position: bigint | number, signal: AbortSignal | undefined, start: (lpOverlapped: Pointer) => BOOL): Promise<number> {
+    if (this.closing !== null) {
+      return Promise.reject(new Error('AsyncFile: the file is closing'));
+    }
+
+    if (buffer.length === 0) {
+      return signal?.aborted ? Promise.reject(signal.reason) : Promise.resolve(0);
+    }
+
+    const settled = AsyncFile.Completions.submit(api, this.handle, position, start, { pin: [buffer], signal });
+    const forget = () => this.operations.delete(settled);
+
+    this.operations.add(settled);
+    settled.then(forget, forget);
+
+    return settled;
+  }
+}
+
+export default AsyncFile;
@@ -0,0 +1,313 @@
+import { type Pointer, read, toArrayBuffer } from 'bun:ffi';
+
+import Kernel32 from './Kernel32';
+import Kernel32Checked from './Kernel32Checked';
+import Layouts from './Layouts';
+import SymbolUnavailableError from './SymbolUnavailableError';
+import WideString from './WideString';
+import Win32Error from './Win32Error';
+
+import type { Backend } from '../types/Backend';
+import type { CodePageDecodeOptions, CodePageEncodeOptions, CodePageEncoding, CodePageInfo } from '../types/CodePage';
+import { CodePageIdentifier, MultiByteFlags, NULL, WideCharFlags, Win32ErrorCode } from '../types/Kernel32';
+
+/**
+ * Converts between JS strings and text in an ANSI, OEM or other Windows code page, for the
+ * `*A` exports and for bytes read from files, pipes and consoles.
+ *
+ * Conversions go through `MultiByteToWideChar`/`WideCharToMultiByte`, sized with a first
+ * call and filled with a second. When those exports are unavailable (e.g. under a
+ * `FakeBackend`, or off Windows) code pages 1252, 437 and 65001 are converted by built-in
+ * tables instead, with `CP_ACP` and `CP_OEMCP` taken to be 1252 and 437. The tables map
+ * exactly, as if `WC_NO_BEST_FIT_CHARS` were always set. Other code pages then throw a
+ * `SymbolUnavailableError`. Availability is checked on the first conversion, and again after
+ * `Kernel32.Configure` changes the backend.
+ *
+ * @example
+ * ```ts
+ * const { bytes, usedDefaultChar } = CodePage.Ansi.encode('Grüße', { flags: WideCharFlags.WC_NO_BEST_FIT_CHARS });
+ *
+ * Kernel32.SetConsoleTitleA(bytes.ptr);
+ *
+ * const text = CodePage.Oem.decode(outputFromChildProcess);
+ * ```
+ */
+class CodePage {
+  /**
+   * The system ANSI code page (`CP_ACP`).
+   */
+  public static readonly Ansi = new CodePage(CodePageIdentifier.CP_ACP);
+
+  /**
+   * The system OEM code page (`CP_OEMCP`), used by console programs.
+   */
+  public static readonly Oem = new CodePage(CodePageIdentifier.CP_OEMCP);
+
+  /**
+   * UTF-8 (`CP_UTF8`).
+   */
+  public static readonly Utf8 = new CodePage(CodePageIdentifier.CP_UTF8);
+
+  // Characters for bytes 0x80-0xFF of the single-byte code pages with built-in tables.
+  private static readonly Tables: Record<number, number[]> = {
+    437: [
+      0x00c7, 0x00fc, 0x00e9, 0x00e2, 0x00e4, 0x00e0, 0x00e5, 0x00e7, 0x00ea, 0x00eb, 0x00e8, 0x00ef, 0x00ee, 0x00ec, 0x00c4, 0x00c5, 0x00c9, 0x00e6, 0x00c6, 0x00f4, 0x00f6, 0x00f2, 0x00fb, 0x00f9, 0x00ff, 0x00d6, 0x00dc, 0x00a2, 0x00a3,
+      0x00a5, 0x20a7, 0x0192, 0x00e1, 0x00ed, 0x00f3, 0x00fa, 0x00f1, 0x00d1, 0x00aa, 0x00ba, 0x00bf, 0x2310, 0x00ac, 0x00bd, 0x00bc, 0x00a1, 0x00ab, 0x00bb, 0x2591, 0x2592, 0x2593, 0x2502, 0x2524, 0x2561, 0x2562, 0x2556, 0x2555, 0x2563,
+      0x2551, 0x2557, 0x255d, 0x255c, 0x255b, 0x2510, 0x2514, 0x2534, 0x252c, 0x251c, 0x2500, 0x253c, 0x255e, 0x255f, 0x255a, 0x2554, 0x2569, 0x2566, 0x2560, 0x2550, 0x256c, 0x2567, 0x2568, 0x2564, 0x2565, 0x2559, 0x2558, 0x2552, 0x2553,
+      0x256b, 0x256a, 0x2518, 0x250c, 0x2588, 0x2584, 0x258c, 0x2590, 0x2580, 0x03b1, 0x00df, 0x0393, 0x03c0, 0x03a3, 0x03c3, 0x00b5, 0x03c4, 0x03a6, 0x0398, 0x03a9, 0x03b4, 0x221e, 0x03c6, 0x03b5, 0x2229, 0x2261, 0x00b1, 0x2265, 0x2264,
+      0x2320, 0x2321, 0x00f7, 0x2248, 0x00b0, 0x2219, 0x00b7, 0x221a, 0x207f, 0x00b2, 0x25a0, 0x00a0,
+    ],
+    // Unassigned 0x81, 0x8D, 0x8F, 0x90 and 0x9D map to the C1 controls, as Windows does; 0xA0-0xFF match Latin-1.
+    1252: [
+      0x20ac, 0x0081, 0x201a, 0x0192, 0x201e, 0x2026, 0x2020, 0x2021, 0x02c6, 0x2030, 0x0160, 0x2039, 0x0152, 0x008d, 0x017d, 0x008f, 0x0090, 0x2018, 0x2019, 0x201c, 0x201d, 0x2022, 0x2013, 0x2014, 0x02dc, 0x2122, 0x0161, 0x203a, 0x0153,
+      0x009d, 0x017e, 0x0178,
+    ].concat(Array.from({ length: 0x60 }, (_, index) => 0xa0 + index)),
+  };
+
+  private static readonly Names: Record<number, string> = {
+    437: '437   (OEM - United States)',
+    1252: '1252  (ANSI - Latin I)',
+    65001: '65001 (UTF-8)',
+  };
+
+  // Result of the last `Native` probe and the backend it was made against; `null` until then.
+  private static NativeAvailable: { backend: Backend; native: boolean } | null = null;
+
+  private static readonly Reverse = new Map<number, Map<number, number>>();
+
+  /**
+   * @param id Code page identifier, e.g. `1252` or `CodePageIdentifier.CP_OEMCP`.
+   */
+  public constructor(public readonly id: number) {}
+
+  // Whether conversions can go through the native exports. Probed on the first conversion through each backend.
+  private static get Native(): boolean {
+    const backend = Kernel32.ActiveBackend;
+
+    if (CodePage.NativeAvailable?.backend !== backend) {
+      let native: boolean;
+
+      try {
+        native = Kernel32.IsAvailable('MultiByteToWideChar') && Kernel32.IsAvailable('WideCharToMultiByte');
+      } catch {
+        native = false;
+      }
+
+      CodePage.NativeAvailable = { backend, native };
+    }
+
+    return CodePage.NativeAvailable.native;
+  }
+
+  /**
+   * Decodes text in this code page, stopping at the first NUL byte.
+   *
+   * @param bytes Encoded text.
+   * @param options `MultiByteToWideChar` flags.
+   * @throws {Win32Error} If the text is invalid and `MB_ERR_INVALID_CHARS` is set, or the conversion fails.
+   */
+  public decode(bytes: ArrayBuffer | ArrayBufferView, options: CodePageDecodeOptions = {}): string {
+    const view = ArrayBuffer.isView(bytes) ? new Uint8Array(bytes.buffer, bytes.byteOffset, bytes.byteLength) : new Uint8Array(bytes);
+    const end = view.indexOf(0);
+    const input = end === -1 ? view : view.subarray(0, end);
+    const flags = options.flags ?? 0;
+
+    if (input.length === 0) {
+      return '';
+    }
+
+    if (!CodePage.Native) {
+      return this.fallbackDecode(input, flags);
+    }
+
+    const length = Kernel32Checked.MultiByteToWideChar(this.id, flags, input.ptr, input.length, NULL, 0);
+    const buffer = new Uint16Array(length);
+
+    Kernel32Checked.MultiByteToWideChar(this.id, flags, input.ptr, input.length, buffer.ptr, length);
+
+    return WideString.Decode(buffer);
+  }
+
+  /**
+   * Encodes a string in this code page, reporting whether any character had to be replaced.
+   *
+   * @param text Text to encode.
+   * @param options `WideCharToMultiByte` flags and the replacement character.
+   * @throws {Win32Error} If the text is invalid and `WC_ERR_INVALID_CHARS` is set, or the conversion fails.
+   */
+  public encode(text: string, options: CodePageEncodeOptions = {}): CodePageEncoding {
+    const flags = options.flags ?? 0;
+
+    if (text === '') {
+      return { bytes: new Uint8Array(1), usedDefaultChar: false };
+    }
+
+    if (!CodePage.Native) {
+      return this.fallbackEncode(text, flags, options.defaultChar);
+    }
+
+    // UTF-7 and UTF-8 reject lpDefaultChar and lpUsedDefaultChar.
+    const unicode = this.id === CodePageIdentifier.CP_UTF7 || this.id === CodePageIdentifier.CP_UTF8;
+
+    const wide = WideString.Encode(text);
+    const defaultChar = options.defaultChar === undefined || unicode ? null : this.encode(options.defaultChar).bytes;
+    const usedDefaultChar = unicode ? null : new Int32Array(1);
+
+    const length = Kernel32Checked.WideCharToMultiByte(this.id, flags, wide.ptr, text.length, NULL, 0, defaultChar?.ptr ?? NULL, usedDefaultChar?.ptr ?? NULL);
+    const bytes = new Uint8Array(length + 1);
+
+    Kernel32Checked.WideCharToMultiByte(this.id, flags, wide.ptr, text.length, bytes.ptr, length, defaultChar?.ptr ?? NULL, usedDefaultChar?.ptr ?? NULL);
+
+    return { bytes, usedDefaultChar: (usedDefaultChar?.[0] ?? 0) !== 0 };
+  }
+
+  /**
+   * Describes this code page with `GetCPInfoExW`, or from the built-in tables.
+   *
+   * @throws {Win32Error} If the code page is not installed.
+   */
+  public info(): CodePageInfo {
+    if (!CodePage.Native) {
+      const codePage = this.fallbackId('GetCPInfoExW');
+
+      return {
+        codePage,
+        defaultChar: Uint8Array.of(0x3f),
+        leadByteRanges: [],
+        maxCharSize: codePage === CodePageIdentifier.CP_UTF8 ? 4 : 1,
+        name: CodePage.Names[codePage]!,
+        unicodeDefaultChar: codePage === CodePageIdentifier.CP_UTF8 ? '\ufffd' : '?',
+      };
+    }
+
+    const info = Layouts.CPINFOEXW.create();
+
+    Kernel32Checked.GetCPInfoExW(this.id, 0, info.bytes.ptr);
+
+    const leadBytes = info.LeadByte.toArray();
+    const leadByteRanges: [number, number][] = [];
+
+    for (let index = 0; index < leadBytes.length && leadBytes[index] !== 0; index += 2) {
+      leadByteRanges.push([leadBytes[index]!, leadBytes[index + 1]!]);
+    }
+
+    const defaultChar = info.DefaultChar.toArray();
+
+    return {
+      codePage: info.CodePage,
+      defaultChar: Uint8Array.from(defaultChar[1] === 0 ? defaultChar.slice(0, 1) : defaultChar),
+      leadByteRanges,
+      maxCharSize: info.MaxCharSize,
+      name: info.CodePageName,
+      unicodeDefaultChar: String.fromCharCode(info.UnicodeDefaultChar),
+    };
+  }
+
+  /**
+   * Whether a byte starts a double-byte character in this code page (`IsDBCSLeadByteEx`).
+   *
+   * @param byte Byte to test.
+   */
+  public isLeadByte(byte: number): boolean {
+    if (!CodePage.Native) {
+      this.fallbackId('IsDBCSLeadByteEx');
+
+      return false;
+    }
+
+    return Kernel32.IsDBCSLeadByteEx(this.id, byte) !== 0;
+  }
+
+  /**
+   * Decodes a NUL-terminated string in this code page from native memory, such as an `LPSTR` an `*A` export filled.
+   *
+   * @param pointer Address of the first byte; NULL reads as `''`.
+   * @param length Maximum number of bytes to read; unbounded when omitted.
+   */
+  public read(pointer: Pointer, length = Infinity): string {
+    if (!pointer) {
+      return '';
+    }
+
+    let size = 0;
+
+    while (size < length && read.u8(pointer, size) !== 0) {
+      size++;
+    }
+
+    return size === 0 ? '' : this.decode(new Uint8Array(toArrayBuffer(pointer, 0, size)).slice());
+  }
+
+  private fallbackDecode(input: Uint8Array, flags: number): string {
+    const codePage = this.fallbackId('MultiByteToWideChar');
+
+    if (codePage === CodePageIdentifier.CP_UTF8) {
+      try {
+        return new TextDecoder('utf-8', { fatal: (flags & MultiByteFlags.MB_ERR_INVALID_CHARS) !== 0, ignoreBOM: true }).decode(input);
+      } catch {
+        throw new Win32Error('MultiByteToWideChar', Win32ErrorCode.ERROR_NO_UNICODE_TRANSLATION);
+      }
+    }
+
+    const table = CodePage.Tables[codePage]!;
+
+    return WideString.Decode(Uint16Array.from(input, (byte) => (byte < 0x80 ? byte : table[byte - 0x80]!)));
+  }
+
+  private fallbackEncode(text: string, flags: number, defaultChar = '?'): CodePageEncoding {
+    const codePage = this.fallbackId('WideCharToMultiByte');
+
+    if (codePage === CodePageIdentifier.CP_UTF8) {
+      if ((flags & WideCharFlags.WC_ERR_INVALID_CHARS) !== 0 && !text.isWellFormed()) {
+        throw new Win32Error('WideCharToMultiByte', Win32ErrorCode.ERROR_NO_UNICODE_TRANSLATION);
+      }
+
+      const encoded = new TextEncoder().encode(text);
+      const bytes = new Uint8Array(encoded.length + 1);
+
+      bytes.set(encoded);
+
+      return { bytes, usedDefaultChar: false };
+    }
+
+    if (!CodePage.Reverse.has(codePage)) {
+      CodePage.Reverse.set(codePage, new Map(CodePage.Tables[codePage]!.map((code, index) => [code, 0x80 + index])));
+    }
+
+    const reverse = CodePage.Reverse.get(codePage)!;
+    const fallback = defaultChar.charCodeAt(0) < 0x80 ? defaultChar.charCodeAt(0) : reverse.get(defaultChar.charCodeAt(0)) ?? 0x3f;
+    const bytes: number[] = [];
+
+    let usedDefaultChar = false;
+
+    for (const character of text) {
+      const code = character.charCodeAt(0);
+      const byte = character.length === 1 ? (code < 0x80 ? code : reverse.get(code)) : undefined;
+
+      usedDefaultChar ||= byte === undefined;
+
+      bytes.push(byte ?? fallback);
+    }
+
+    bytes.push(0);
+
+    return { bytes: Uint8Array.from(bytes), usedDefaultChar };
+  }
+
+  /**
+   * Resolves the code page the built-in tables should use.
+   *
+   * @param api Export the conversion would need, reported if there is no table.
+   */
+  private fallbackId(api: string): number {
+    const codePage = this.id === CodePageIdentifier.CP_ACP || this.id === CodePageIdentifier.CP_THREAD_ACP ? 1252 : this.id === CodePageIdentifier.CP_OEMCP ? 437 : this.id;
+
+    if (CodePage.Names[codePage] === undefined) {
+      throw new SymbolUnavailableError(api, null);
+    }
+
+    return codePage;
+  }
+}
+
+export default CodePage;
@@ -0,0 +1,146 @@
+import Flags from './Flags';
+import Kernel32Checked from './Kernel32Checked';
+
+import { AsHandle, ConsoleInputMode, ConsoleOutputMode, STD_HANDLE } from '../types/Kernel32';
+import type { HCONSOLEINPUT, HCONSOLEOUTPUT } from '../types/Kernel32';
+
+/**
+ * Typed `GetConsoleMode`/`SetConsoleMode` for console input and screen buffers.
+ *
+ * Input and output buffers take different mode flags that reuse the same bits
+ * (`ENABLE_ECHO_INPUT` and `ENABLE_VIRTUAL_TERMINAL_PROCESSING` are both `0x4`), so each
+ * helper is overloaded on the handle kind: an `HCONSOLEINPUT` reads and writes
+ * `ConsoleInputMode`, an `HCONSOLEOUTPUT` `ConsoleOutputMode`. Get typed handles from
+ * `StdInput`/`StdOutput`/`StdError`, or with `AsHandle` for `CONIN$`/`CONOUT$`.
+ * `ConsoleModes.Input` and `ConsoleModes.Output` decode mode values into flag names.
+ *
+ * @example
+ * ```ts
+ * const hStdOut = ConsoleModes.StdOutput();
+ *
+ * const previous = ConsoleModes.Enable(hStdOut, ConsoleOutputMode.ENABLE_VIRTUAL_TERMINAL_PROCESSING);
+ *
+ * console.log(ConsoleModes.Output.format(ConsoleModes.Get(hStdOut))); // 'ENABLE_PROCESSED_OUTPUT | ENABLE_WRAP_AT_EOL_OUTPUT | ENABLE_VIRTUAL_TERMINAL_PROCESSING'
+ *
+ * ConsoleModes.Set(hStdOut, previous);
+ * ```
+ */
+class ConsoleModes {
+  /**
+   * Composes and decodes input buffer modes.
+   */
+  public static readonly Input = new Flags(ConsoleInputMode);
+
+  /**
+   * Composes and decodes screen buffer modes.
+   */
+  public static readonly Output = new Flags(ConsoleOutputMode);
+
+  private static readonly Out = new Uint32Array(1);
+
+  /**
+   * Clears mode flags, keeping the others.
+   *
+   * @param handle Console input or screen buffer.
+   * @param flags Flags to clear.
+   * @returns The previous mode, e.g. to restore later with `Set`.
+   * @throws {Win32Error} If the handle is not a console buffer.
+   */
+  public static Disable(handle: HCONSOLEINPUT, ...flags: ConsoleInputMode[]): ConsoleInputMode;
+  public static Disable(handle: HCONSOLEOUTPUT, ...flags: ConsoleOutputMode[]): ConsoleOutputMode;
+  public static Disable(handle: HCONSOLEINPUT | HCONSOLEOUTPUT, ...flags: number[]): number {
+    const previous = ConsoleModes.Read(handle);
+
+    ConsoleModes.Write(handle, (previous & ~ConsoleModes.Combine(flags)) >>> 0);
+
+    return previous;
+  }
+
+  /**
+   * Sets mode flags, keeping the others.
+   *
+   * @param handle Console input or screen buffer.
+   * @param flags Flags to set.
+   * @returns The previous mode, e.g. to restore later with `Set`.
+   * @throws {Win32Error} If the handle is not a console buffer or the console rejects the mode,
+   * as older consoles do for `ENABLE_VIRTUAL_TERMINAL_PROCESSING`.
+   */
+  public static Enable(handle: HCONSOLEINPUT, ...flags: ConsoleInputMode[]): ConsoleInputMode;
+  public static Enable(handle: HCONSOLEOUTPUT, ...flags: ConsoleOutputMode[]): ConsoleOutputMode;
+  public static Enable(handle: HCONSOLEINPUT | HCONSOLEOUTPUT, ...flags: number[]): number {
+    const previous = ConsoleModes.Read(handle);
+
+    ConsoleModes.Write(handle, (previous | ConsoleModes.Combine(flags)) >>> 0);
+
+    return previous;
+  }
+
+  /**
+   * Reads the current mode.
+   *
+   * @param handle Console input or screen buffer.
+   * @throws {Win32Error} If the handle is not a console buffer, e.g. standard output redirected to a file.
+   */
+  public static Get(handle: HCONSOLEINPUT): ConsoleInputMode;
+  public static Get(handle: HCONSOLEOUTPUT): ConsoleOutputMode;
+  public static Get(handle: HCONSOLEINPUT | HCONSOLEOUTPUT): number {
+    return ConsoleModes.Read(handle);
+  }
+
+  /**
+   * Replaces the mode. Changing `ENABLE_QUICK_EDIT_MODE` or `ENABLE_INSERT_MODE` requires
+   * `ENABLE_EXTENDED_FLAGS` in the same call.
+   *
+   * @param handle Console input or screen buffer.
+   * @param mode New mode.
+   * @throws {Win32Error} If the handle is not a console buffer or the console rejects the mode.
+   */
+  public static Set(handle: HCONSOLEINPUT, mode: ConsoleInputMode): void;
+  public static Set(handle: HCONSOLEOUTPUT, mode: ConsoleOutputMode): void;
+  public static Set(handle: HCONSOLEINPUT | HCONSOLEOUTPUT, mode: number): void {
+    ConsoleModes.Write(handle, mode);
+  }
+
+  /**
+   * The standard error handle, typed as a screen buffer.
+   *
+   * @throws {Win32Error} If the handle cannot be retrieved.
+   */
+  public static StdError(): HCONSOLEOUTPUT {
+    return AsHandle<HCONSOLEOUTPUT>(Kernel32Checked.GetStdHandle(STD_HANDLE.ERROR));
+  }
+
+  /**
+   * The standard input handle, typed as an input buffer.
+   *
+   * @throws {Win32Error} If the handle cannot be retrieved.
+   */
+  public static StdInput(): HCONSOLEINPUT {
+    return AsHandle<HCONSOLEINPUT>(Kernel32Checked.GetStdHandle(STD_HANDLE.INPUT));
+  }
+
+  /**
+   * The standard output handle, typed as a screen buffer.
+   *
+   * @throws {Win32Error} If the handle cannot be retrieved.
+   */
+  public static StdOutput(): HCONSOLEOUTPUT {
+    return AsHandle<HCONSOLEOUTPUT>(Kernel32Checked.GetStdHandle(STD_HANDLE.OUTPUT));
+  }
+
+  private static Combine(flags: number[]): number {
+    return flags.reduce((mode, flag) => mode | flag, 0);
+  }
+
+  private static Read(handle: HCONSOLEINPUT | HCONSOLEOUTPUT): number {
+    Kernel32Checked.GetConsoleMode(handle, ConsoleModes.Out.ptr);
+
+    return ConsoleModes.Out[0]!;
+  }
+
+  private static Write(handle: HCONSOLEINPUT | HCONSOLEOUTPUT, mode: number): void {
+    Kernel32Checked.SetConsoleMode(handle, mode);
+  }
+}
+
+export default ConsoleModes;
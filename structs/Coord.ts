@@ -0,0 +1,59 @@
+import type { COORD, DWORD, SHORT } from '../types/Kernel32';
+
+/**
+ * Character-cell coordinates for the console APIs.
+ *
+ * Win32 passes `COORD` by value: two signed 16-bit fields packed into one 32-bit
+ * register, `X` in the low word and `Y` in the high word. `Kernel32` packs `COORD`
+ * arguments automatically, so either a `Coord` or a plain `{ X, Y }` object can be
+ * passed straight to methods such as `SetConsoleCursorPosition`.
+ *
+ * @example
+ * ```ts
+ * Kernel32.SetConsoleCursorPosition(hStdOut, { X: 0, Y: 10 });
+ * Kernel32.ResizePseudoConsole(hPC, new Coord(120, 30));
+ *
+ * const { X, Y } = Coord.Unpack(Kernel32.GetLargestConsoleWindowSize(hStdOut));
+ * ```
+ */
+class Coord implements COORD {
+  /**
+   * @param X Column, from 0.
+   * @param Y Row, from 0.
+   */
+  public constructor(public readonly X: SHORT, public readonly Y: SHORT) {}
+
+  /**
+   * Packs a `COORD` into the 32-bit value the ABI expects. Numbers are assumed to be
+   * packed already and pass through unchanged.
+   *
+   * @param coord Coordinates to pack.
+   * @returns `Y << 16 | X`, unsigned.
+   */
+  public static Pack(coord: COORD | DWORD): DWORD {
+    if (typeof coord === 'number') {
+      return coord;
+    }
+
+    return (((coord.Y & 0xffff) << 16) | (coord.X & 0xffff)) >>> 0;
+  }
+
+  /**
+   * Unpacks a 32-bit value returned by an API such as `GetLargestConsoleWindowSize`.
+   *
+   * @param value Packed coordinates.
+   * @returns The sign-extended `X` and `Y` fields.
+   */
+  public static Unpack(value: DWORD): Coord {
+    return new Coord((value << 16) >> 16, value >> 16);
+  }
+
+  /**
+   * Lets a `Coord` be passed anywhere a packed `DWORD` is accepted.
+   */
+  public valueOf(): DWORD {
+    return Coord.Pack(this);
+  }
+}
+
+export default Coord;
@@ -0,0 +1,107 @@
+import Kernel32 from './Kernel32';
+import MultiString from './MultiString';
+import Win32Error from './Win32Error';
+
+/**
+ * Codec for Unicode environment blocks: `NAME=VALUE` strings in a double-NUL-terminated list.
+ *
+ * Windows requires blocks passed to `CreateProcessW` (with `CREATE_UNICODE_ENVIRONMENT`) or
+ * `SetEnvironmentStringsW` to be sorted by name, case-insensitively and without regard to
+ * locale; `Encode` sorts for you. The per-drive working directories cmd.exe keeps as hidden
+ * variables (`=C:=C:\\Users\\me`) are ordinary entries whose name starts with `=`; they sort
+ * first and survive a round trip.
+ *
+ * @example
+ * ```ts
+ * const environment = { ...EnvironmentBlock.Current(), BUILD_ID: '42' };
+ * const block = EnvironmentBlock.Encode(environment);
+ *
+ * Kernel32.CreateProcessW(NULL, commandLine.ptr, NULL, NULL, 0, ProcessCreationFlags.CREATE_UNICODE_ENVIRONMENT, block.ptr, NULL, startupInfo.ptr, processInformation.ptr);
+ * ```
+ */
+class EnvironmentBlock {
+  /**
+   * Reads the calling process's environment with `GetEnvironmentStringsW` and frees the block.
+   *
+   * @throws {Win32Error} If the environment could not be read.
+   */
+  public static Current(): Record<string, string> {
+    const pointer = Kernel32.GetEnvironmentStringsW();
+
+    if (!pointer) {
+      throw Win32Error.FromLastError('GetEnvironmentStringsW');
+    }
+
+    try {
+      return EnvironmentBlock.Parse(MultiString.Read(pointer));
+    } finally {
+      Kernel32.FreeEnvironmentStringsW(pointer);
+    }
+  }
+
+  /**
+   * Decodes an environment block held in memory.
+   *
+   * @param source Memory holding the block.
+   * @param length Number of code units to consider; defaults to the whole view.
+   */
+  public static Decode(source: ArrayBuffer | ArrayBufferView, length?: number): Record<string, string> {
+    return EnvironmentBlock.Parse(MultiString.Decode(source, length));
+  }
+
+  /**
+   * Encodes variables as an environment block, sorted the way Windows requires.
+   *
+   * @param variables Variables by name; `undefined` values are left out.
+   * @throws {Error} If a name is empty, contains `=` after its first character, or occurs
+   * twice ignoring case, or if a name or value contains a NUL.
+   */
+  public static Encode(variables: Record<string, string | undefined> | Iterable<[string, string | undefined]>): Uint16Array {
+    const entries = (Symbol.iterator in variables ? [...variables] : Object.entries(variables)).filter((entry): entry is [string, string] => entry[1] !== undefined);
+    const seen = new Set<string>();
+
+    for (const [name, value] of entries) {
+      if (name === '' || name.includes('=', 1) || name.includes('\0') || value.includes('\0')) {
+        throw new Error(`EnvironmentBlock: ${JSON.stringify(name)} is not a valid environment variable`);
+      }
+
+      if (seen.has(name.toUpperCase())) {
+        throw new Error(`EnvironmentBlock: ${JSON.stringify(name)} is defined more than once`);
+      }
+
+      seen.add(name.toUpperCase());
+    }
+
+    entries.sort(([a], [b]) => EnvironmentBlock.Compare(a, b));
+
+    return MultiString.Encode(entries.map(([name, value]) => `${name}=${value}`));
+  }
+
+  /**
+   * Orders names the way Windows sorts environment blocks: by upper-cased UTF-16 code units.
+   */
+  private static Compare(a: string, b: string): number {
+    const left = a.toUpperCase();
+    const right = b.toUpperCase();
+
+    return left < right ? -1 : left > right ? 1 : 0;
+  }
+
+  private static Parse(strings: string[]): Record<string, string> {
+    const variables: Record<string, string> = {};
+
+    for (const entry of strings) {
+      const separator = entry.indexOf('=', 1);
+
+      if (separator === -1) {
+        variables[entry] = '';
+      } else {
+        variables[entry.slice(0, separator)] = entry.slice(separator + 1);
+      }
+    }
+
+    return variables;
+  }
+}
+
+export default EnvironmentBlock;
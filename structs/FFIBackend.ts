@@ -0,0 +1,107 @@
+import { type FFIFunction, FFIType, type Library, type Pointer, dlopen, linkSymbols } from 'bun:ffi';
+
+import type { Backend, BoundFunction } from '../types/Backend';
+
+/**
+ * Default backend that binds exports from a native library via `bun:ffi`.
+ *
+ * The library is loaded once per backend. Export addresses are resolved with
+ * `GetProcAddress` against that shared module handle and compiled with `linkSymbols`,
+ * so lazily binding many symbols does not open the library once per symbol, and a
+ * `Preload` compiles its whole batch in one pass.
+ *
+ * `close()` releases the module handle and the loader; functions bound through the backend
+ * must not be called afterwards, since the library may have been unloaded.
+ *
+ * @example
+ * ```ts
+ * import Kernel32, { FFIBackend } from 'bun-kernel32';
+ *
+ * Kernel32.Configure({ backend: new FFIBackend() });
+ *
+ * // A backend over another library, released once its exports are no longer needed
+ * using backend = new FFIBackend('kernelbase.dll');
+ * ```
+ */
+class FFIBackend implements Backend, Disposable {
+  // Exports of `kernel32.dll` used to load the library and resolve addresses in it.
+  private static readonly Loader = {
+    FreeLibrary: { args: [FFIType.ptr], returns: FFIType.i32 },
+    GetProcAddress: { args: [FFIType.ptr, FFIType.ptr], returns: FFIType.ptr },
+    LoadLibraryW: { args: [FFIType.ptr], returns: FFIType.ptr },
+  } as const satisfies Record<string, FFIFunction>;
+
+  private loader: { library: Library<typeof FFIBackend.Loader>; module: Pointer } | null = null;
+
+  /**
+   * @param path Library to open; defaults to `kernel32.dll`.
+   */
+  public constructor(public readonly path: string = 'kernel32.dll') {}
+
+  public bind<T extends Record<string, FFIFunction>>(symbols: T): { [K in keyof T]: BoundFunction } {
+    const linked = Object.fromEntries(
+      Object.entries(symbols).map(([name, definition]) => {
+        const address = this.address(name);
+
+        if (address === null) {
+          throw new Error(`FFIBackend: ${name} is not exported by ${this.path}`);
+        }
+
+        return [name, { ...definition, ptr: address }];
+      })
+    );
+
+    return linkSymbols(linked).symbols as unknown as { [K in keyof T]: BoundFunction };
+  }
+
+  /**
+   * Releases the module handle taken by `LoadLibraryW` (`FreeLibrary`) and closes the
+   * `kernel32.dll` loader. Does nothing if no export has been resolved yet, or if already
+   * closed; the library is loaded again if the backend is used afterwards.
+   */
+  public close(): void {
+    if (this.loader === null) {
+      return;
+    }
+
+    const { library, module } = this.loader;
+
+    this.loader = null;
+
+    library.symbols.FreeLibrary(module);
+    library.close();
+  }
+
+  public has(name: string): boolean {
+    return this.address(name) !== null;
+  }
+
+  public [Symbol.dispose](): void {
+    this.close();
+  }
+
+  /**
+   * Resolves an export's address in the shared module, loading it on first use.
+   *
+   * @param name Export name.
+   * @returns The address, or `null` if the library does not export `name`.
+   */
+  private address(name: string): Pointer | null {
+    if (this.loader === null) {
+      const library = dlopen('kernel32.dll', FFIBackend.Loader);
+      const module = library.symbols.LoadLibraryW(Buffer.from(`${this.path}\0`, 'utf16le')) as Pointer | null;
+
+      if (module === null) {
+        library.close();
+
+        throw new Error(`FFIBackend: could not load ${this.path}`);
+      }
+
+      this.loader = { library, module };
+    }
+
+    return this.loader.library.symbols.GetProcAddress(this.loader.module, Buffer.from(`${name}\0`, 'latin1')) as Pointer | null;
+  }
+}
+
+export default FFIBackend;
@@ -0,0 +1,114 @@
+import type { FFIFunction } from 'bun:ffi';
+
+import type { Backend, BoundFunction, Kernel32Stub, Kernel32Symbol } from '../types/Backend';
+
+/**
+ * In-memory backend for running `Kernel32` consumers without Windows.
+ *
+ * Each export can be stubbed with a JS implementation. Bound functions dispatch to
+ * the current stub at call time, so stubs may be added, replaced or removed after
+ * the symbol has been bound. Exports without a stub behave as if missing from the
+ * system: binding them throws, so `Kernel32` raises a `SymbolUnavailableError`.
+ *
+ * `GetLastError` and `SetLastError` default to reading and writing `lastError`, so stubs
+ * can report failures the same way native exports do.
+ *
+ * @example
+ * ```ts
+ * import Kernel32, { FakeBackend } from 'bun-kernel32';
+ *
+ * const backend = new FakeBackend().stub('GetCurrentProcessId', () => 1234);
+ *
+ * Kernel32.Configure({ backend });
+ *
+ * Kernel32.GetCurrentProcessId(); // 1234
+ *
+ * // Report failures through the fake thread last-error value
+ * backend.stub('CloseHandle', () => ((backend.lastError = 6), 0));
+ * ```
+ */
+class FakeBackend implements Backend {
+  private readonly implementations = new Map<string, BoundFunction>();
+
+  /**
+   * Fake thread last-error value, used by the default `GetLastError`/`SetLastError`.
+   */
+  public lastError = 0;
+
+  public bind<T extends Record<string, FFIFunction>>(symbols: T): { [K in keyof T]: BoundFunction } {
+    const missing = Object.keys(symbols).find((name) => !this.has(name));
+
+    if (missing !== undefined) {
+      throw new Error(`FakeBackend: no implementation stubbed for ${missing}`);
+    }
+
+    return Object.fromEntries(
+      Object.keys(symbols).map((name) => [name, (...args: unknown[]) => this.invoke(name, args)]) //
+    ) as { [K in keyof T]: BoundFunction };
+  }
+
+  /**
+   * Whether a stub is registered for the export, or it is `GetLastError`/`SetLastError`.
+   *
+   * @param name Export name.
+   */
+  public has(name: string): boolean {
+    return this.implementations.has(name) || name === 'GetLastError' || name === 'SetLastError';
+  }
+
+  /**
+   * Removes every registered stub and clears `lastError`.
+   */
+  public reset(): this {
+    this.implementations.clear();
+    this.lastError = 0;
+
+    return this;
+  }
+
+  /**
+   * Registers a JS implementation for an export, replacing any previous stub.
+   *
+   * @param name Export name.
+   * @param implementation Function with the same signature as the `Kernel32` static method,
+   *   except that `COORD` arguments are received packed into a `DWORD`.
+   */
+  public stub<T extends Kernel32Symbol>(name: T, implementation: Kernel32Stub<T>): this {
+    this.implementations.set(name, implementation as BoundFunction);
+
+    return this;
+  }
+
+  /**
+   * Removes the stub for an export, if any.
+   *
+   * @param name Export name.
+   */
+  public unstub(name: Kernel32Symbol): this {
+    this.implementations.delete(name);
+
+    return this;
+  }
+
+  private invoke(name: string, args: unknown[]): unknown {
+    const implementation = this.implementations.get(name);
+
+    if (implementation !== undefined) {
+      return implementation(...args);
+    }
+
+    if (name === 'GetLastError') {
+      return this.lastError;
+    }
+
+    if (name === 'SetLastError') {
+      this.lastError = args[0] as number;
+
+      return;
+    }
+
+    throw new Error(`FakeBackend: no implementation stubbed for ${name}`);
+  }
+}
+
+export default FakeBackend;
@@ -0,0 +1,215 @@
+import Kernel32Checked from './Kernel32Checked';
+import LargeInteger from './LargeInteger';
+import Layouts from './Layouts';
+import SafeHandle from './SafeHandle';
+import WideString from './WideString';
+import Win32Error from './Win32Error';
+
+import type { FileOpenOptions } from '../types/File';
+import { FileAccess, FileAttributes, FileCreationDisposition, FilePointerMoveMethod, FileShareMode, type HANDLE, LockFileFlags, NULL, Win32ErrorCode } from '../types/Kernel32';
+
+/**
+ * An open file, wrapping the `CreateFileW` handle and the calls made on it.
+ *
+ * Reads and writes go into and out of caller-supplied `Uint8Array`s. Given a `position`
+ * they are positional, passing the offset in an `OVERLAPPED`; without one they use the
+ * file pointer. Either way the file pointer ends up after the bytes transferred, as the
+ * handle is synchronous. Offsets and lengths accept numbers or bigints; sizes are bigints.
+ *
+ * The handle is owned by a `SafeHandle`, so a `File` can be declared with `using` and a
+ * leaked one is reported.
+ *
+ * @example
+ * ```ts
+ * using file = File.Open('C:\\data\\log.bin', {
+ *   access: FileAccess.GENERIC_READ | FileAccess.GENERIC_WRITE,
+ *   disposition: FileCreationDisposition.OPEN_ALWAYS,
+ * });
+ *
+ * file.write(new TextEncoder().encode('hello'), file.size());
+ *
+ * const header = new Uint8Array(16);
+ * const read = file.read(header, 0);
+ *
+ * file.lock(0, 16);
+ * file.unlock(0, 16);
+ * ```
+ */
+class File implements Disposable {
+  private static readonly Out = new BigInt64Array(1);
+
+  private static readonly Transferred = new Uint32Array(1);
+
+  private readonly owner: SafeHandle;
+
+  /**
+   * Takes ownership of an open file handle; it is closed with the `File`.
+   *
+   * @param handle Handle from `CreateFileW` or similar.
+   */
+  public constructor(handle: HANDLE) {
+    this.owner = new SafeHandle(handle);
+  }
+
+  /**
+   * Opens or creates a file with `CreateFileW`.
+   *
+   * @param path File path.
+   * @param options Access, sharing, disposition and flags; see `FileOpenOptions` for defaults.
+   * @throws {Win32Error} If the file cannot be opened, e.g. `ERROR_FILE_NOT_FOUND` or `ERROR_SHARING_VIOLATION`.
+   */
+  public static Open(path: string, options: FileOpenOptions = {}): File {
+    const { access = FileAccess.GENERIC_READ, disposition = FileCreationDisposition.OPEN_EXISTING, flags = FileAttributes.FILE_ATTRIBUTE_NORMAL, share = FileShareMode.FILE_SHARE_READ } = options;
+
+    const name = WideString.Encode(path);
+
+    return new File(Kernel32Checked.CreateFileW(name.ptr, access >>> 0, share, NULL, disposition, flags >>> 0, NULL));
+  }
+
+  // `OVERLAPPED` carrying a file offset, for positional I/O and byte-range locks.
+  private static Overlapped(position: bigint | number): Uint8Array {
+    const { HighPart, LowPart } = LargeInteger.Split(BigInt(position));
+
+    return Layouts.OVERLAPPED.create({ DUMMYUNIONNAME: { DUMMYSTRUCTNAME: { Offset: LowPart, OffsetHigh: HighPart >>> 0 } } }).bytes;
+  }
+
+  /**
+   * The file handle.
+   *
+   * @throws {Error} If the file has been closed.
+   */
+  public get handle(): HANDLE {
+    return this.owner.handle;
+  }
+
+  public get isClosed(): boolean {
+    return this.owner.isClosed;
+  }
+
+  /**
+   * Closes the handle. Calling it again does nothing.
+   *
+   * @throws {Win32Error} If `CloseHandle` fails.
+   */
+  public close(): void {
+    this.owner.close();
+  }
+
+  /**
+   * Writes buffered data through to the device (`FlushFileBuffers`).
+   *
+   * @throws {Win32Error} If the flush fails, e.g. the handle lacks write access.
+   */
+  public flush(): void {
+    Kernel32Checked.FlushFileBuffers(this.handle);
+  }
+
+  /**
+   * Locks a byte range (`LockFileEx`). Ranges may extend past the end of the file.
+   *
+   * @param offset First byte of the range.
+   * @param length Number of bytes.
+   * @param flags `LOCKFILE_EXCLUSIVE_LOCK` (the default) for a write lock, none for a shared
+   * lock; add `LOCKFILE_FAIL_IMMEDIATELY` to throw instead of waiting for a conflicting lock.
+   * @throws {Win32Error} `ERROR_LOCK_VIOLATION` if `LOCKFILE_FAIL_IMMEDIATELY` is set and the range is locked.
+   */
+  public lock(offset: bigint | number, length: bigint | number, flags: LockFileFlags = LockFileFlags.LOCKFILE_EXCLUSIVE_LOCK): void {
+    const { HighPart, LowPart } = LargeInteger.Split(BigInt(length));
+    const overlapped = File.Overlapped(offset);
+
+    Kernel32Checked.LockFileEx(this.handle, flags, 0, LowPart, HighPart >>> 0, overlapped.ptr);
+  }
+
+  /**
+   * Reads up to `buffer.length` bytes (`ReadFile`).
+   *
+   * @param buffer Destination.
+   * @param position File offset to read from; omit to read at the file pointer.
+   * @returns Bytes read; 0 at the end of the file.
+   * @throws {Win32Error} If the read fails.
+   */
+  public read(buffer: Uint8Array, position?: bigint | number): number {
+    if (buffer.length === 0) {
+      return 0;
+    }
+
+    const overlapped = position === undefined ? null : File.Overlapped(position);
+
+    try {
+      Kernel32Checked.ReadFile(this.handle, buffer.ptr, Math.min(buffer.length, 0xffff_ffff), File.Transferred.ptr, overlapped?.ptr ?? NULL);
+    } catch (error) {
+      // Positional reads at or past the end fail instead of returning 0 bytes.
+      if (error instanceof Win32Error && error.code === Win32ErrorCode.ERROR_HANDLE_EOF) {
+        return 0;
+      }
+
+      throw error;
+    }
+
+    return File.Transferred[0]!;
+  }
+
+  /**
+   * Size of the file in bytes (`GetFileSizeEx`).
+   *
+   * @throws {Win32Error} If the size cannot be read.
+   */
+  public size(): bigint {
+    Kernel32Checked.GetFileSizeEx(this.handle, File.Out.ptr);
+
+    return File.Out[0]!;
+  }
+
+  /**
+   * Sets the size of the file, cutting it short or extending it with unspecified bytes
+   * (`SetFilePointerEx` then `SetEndOfFile`). The file pointer is left at the new end.
+   *
+   * @param size New size in bytes; defaults to 0.
+   * @throws {Win32Error} If the size cannot be set, e.g. a locked range or a mapped view is in the way.
+   */
+  public truncate(size: bigint | number = 0): void {
+    Kernel32Checked.SetFilePointerEx(this.handle, BigInt(size), NULL, FilePointerMoveMethod.FILE_BEGIN);
+    Kernel32Checked.SetEndOfFile(this.handle);
+  }
+
+  /**
+   * Unlocks a byte range locked with `lock` (`UnlockFileEx`). The range must match exactly.
+   *
+   * @param offset First byte of the range.
+   * @param length Number of bytes.
+   * @throws {Win32Error} `ERROR_NOT_LOCKED` if the range is not locked.
+   */
+  public unlock(offset: bigint | number, length: bigint | number): void {
+    const { HighPart, LowPart } = LargeInteger.Split(BigInt(length));
+    const overlapped = File.Overlapped(offset);
+
+    Kernel32Checked.UnlockFileEx(this.handle, 0, LowPart, HighPart >>> 0, overlapped.ptr);
+  }
+
+  /**
+   * Writes `data` (`WriteFile`).
+   *
+   * @param data Bytes to write.
+   * @param position File offset to write at; omit to write at the file pointer. Writing past
+   * the end extends the file.
+   * @returns Bytes written.
+   * @throws {Win32Error} If the write fails, e.g. `ERROR_DISK_FULL`.
+   */
+  public write(data: Uint8Array, position?: bigint | number): number {
+    if (data.length === 0) {
+      return 0;
+    }
+
+    const overlapped = position === undefined ? null : File.Overlapped(position);
+
+    Kernel32Checked.WriteFile(this.handle, data.ptr, Math.min(data.length, 0xffff_ffff), File.Transferred.ptr, overlapped?.ptr ?? NULL);
+
+    return File.Transferred[0]!;
+  }
+
+  public [Symbol.dispose](): void {
+    this.close();
+  }
+}
+
+export default File;
@@ -0,0 +1,229 @@
+import type { USHORT } from '../types/Kernel32';
+import type { DosDateTime, FileTimeParts, InstantLike, SystemTimeFields } from '../types/Time';
+
+/**
+ * Converts `FILETIME` values (100-nanosecond ticks since 1601-01-01 UTC, held as a bigint)
+ * to and from their split-`DWORD` layout, `SYSTEMTIME` fields, FAT date/time, JS `Date`s and
+ * nanoseconds since the Unix epoch (`Temporal.Instant#epochNanoseconds`).
+ *
+ * The conversions are pure TypeScript and exact: calendar fields use the proleptic Gregorian
+ * calendar, as Windows does, and the accepted ranges match the native functions — ticks from
+ * 0 to `FileTime.Max` (`FileTimeToSystemTime`), years 1601 to 30827 (`SystemTimeToFileTime`)
+ * and 1980 to 2107 (`FileTimeToDosDateTime`). Values outside them throw a `RangeError`.
+ *
+ * Durations such as the kernel and user times of `GetProcessTimes` are ticks too; divide by
+ * `FileTime.TicksPerMillisecond` or `FileTime.TicksPerSecond`.
+ *
+ * @example
+ * ```ts
+ * const now = new BigUint64Array(1);
+ *
+ * Kernel32.GetSystemTimePreciseAsFileTime(now.ptr);
+ *
+ * FileTime.ToDate(now[0]!); // 2024-05-01T12:34:56.789Z
+ * FileTime.ToSystemTime(now[0]!).wDayOfWeek; // 3
+ * Temporal.Instant.fromEpochNanoseconds(FileTime.ToNanoseconds(now[0]!));
+ *
+ * const creationTime = Layouts.FILETIME.create(FileTime.ToParts(FileTime.FromDate(new Date('2020-02-29'))));
+ *
+ * Kernel32.SetFileTime(hFile, creationTime.bytes.ptr, NULL, NULL);
+ * ```
+ */
+class FileTime {
+  /**
+   * Largest value `FileTimeToSystemTime` accepts: 30828-09-14T02:48:05.4775807Z.
+   */
+  public static readonly Max = 0x7fff_ffff_ffff_ffffn;
+
+  public static readonly TicksPerMillisecond = 10_000n;
+
+  public static readonly TicksPerSecond = 10_000_000n;
+
+  /**
+   * 1970-01-01T00:00:00Z, in ticks.
+   */
+  public static readonly UnixEpoch = 116_444_736_000_000_000n;
+
+  /**
+   * Converts a JS `Date` or millisecond timestamp.
+   *
+   * @param date Date, or milliseconds since the Unix epoch.
+   * @throws {RangeError} If the date is invalid or before 1601.
+   */
+  public static FromDate(date: Date | number): bigint {
+    const milliseconds = typeof date === 'number' ? date : date.getTime();
+
+    if (!Number.isInteger(milliseconds)) {
+      throw new RangeError(`FileTime: ${milliseconds} is not a valid timestamp`);
+    }
+
+    return FileTime.Check(BigInt(milliseconds) * FileTime.TicksPerMillisecond + FileTime.UnixEpoch);
+  }
+
+  /**
+   * Converts a FAT timestamp, like `DosDateTimeToFileTime`. FAT timestamps carry no time
+   * zone; the result is in whatever zone they were written in, usually local time (see
+   * `LocalFileTimeToFileTime`).
+   *
+   * @param date FAT date.
+   * @param time FAT time.
+   * @throws {RangeError} If a field is out of range, e.g. day 0 or 62 seconds.
+   */
+  public static FromDosDateTime(date: USHORT, time: USHORT): bigint {
+    return FileTime.FromSystemTime({
+      wDay: date & 0x1f,
+      wHour: time >>> 11,
+      wMilliseconds: 0,
+      wMinute: (time >>> 5) & 0x3f,
+      wMonth: (date >>> 5) & 0x0f,
+      wSecond: (time & 0x1f) * 2,
+      wYear: 1980 + (date >>> 9),
+    });
+  }
+
+  /**
+   * Converts an instant, such as a `Temporal.Instant`, rounding down to a whole tick.
+   *
+   * @param instant Anything with `epochNanoseconds`.
+   * @throws {RangeError} If the instant is before 1601 or after `FileTime.Max`.
+   */
+  public static FromInstant(instant: InstantLike): bigint {
+    return FileTime.FromNanoseconds(instant.epochNanoseconds);
+  }
+
+  /**
+   * Converts nanoseconds since the Unix epoch, rounding down to a whole tick.
+   *
+   * @param nanoseconds Nanoseconds since 1970-01-01T00:00:00Z; negative before it.
+   * @throws {RangeError} If the time is before 1601 or after `FileTime.Max`.
+   */
+  public static FromNanoseconds(nanoseconds: bigint): bigint {
+    return FileTime.Check(FileTime.Floor(nanoseconds, 100n) + FileTime.UnixEpoch);
+  }
+
+  /**
+   * Joins the two halves of a `FILETIME`, e.g. a `Layouts.FILETIME` view.
+   *
+   * @param parts Low and high `DWORD`s.
+   */
+  public static FromParts(parts: FileTimeParts): bigint {
+    return (BigInt(parts.dwHighDateTime >>> 0) << 32n) | BigInt(parts.dwLowDateTime >>> 0);
+  }
+
+  /**
+   * Converts `SYSTEMTIME` fields, like `SystemTimeToFileTime`. `wDayOfWeek` is ignored.
+   *
+   * @param fields Calendar fields, e.g. a `Layouts.SYSTEMTIME` view.
+   * @throws {RangeError} If a field is out of range or the day does not exist in its month.
+   */
+  public static FromSystemTime(fields: Omit<SystemTimeFields, 'wDayOfWeek'>): bigint {
+    const { wDay, wHour, wMilliseconds, wMinute, wMonth, wSecond, wYear } = fields;
+
+    const valid =
+      FileTime.Within(wYear, 1601, 30827) &&
+      FileTime.Within(wMonth, 1, 12) &&
+      FileTime.Within(wDay, 1, new Date(Date.UTC(wYear, wMonth, 0)).getUTCDate()) &&
+      FileTime.Within(wHour, 0, 23) &&
+      FileTime.Within(wMinute, 0, 59) &&
+      FileTime.Within(wSecond, 0, 59) &&
+      FileTime.Within(wMilliseconds, 0, 999);
+
+    if (!valid) {
+      throw new RangeError(`FileTime: ${wYear}-${wMonth}-${wDay} ${wHour}:${wMinute}:${wSecond}.${wMilliseconds} is not a valid SYSTEMTIME`);
+    }
+
+    return FileTime.FromDate(Date.UTC(wYear, wMonth - 1, wDay, wHour, wMinute, wSecond, wMilliseconds));
+  }
+
+  /**
+   * Converts to a JS `Date`, rounding down to a whole millisecond.
+   *
+   * @param ticks `FILETIME` value.
+   * @throws {RangeError} If `ticks` is negative or above `FileTime.Max`.
+   */
+  public static ToDate(ticks: bigint): Date {
+    return new Date(Number(FileTime.Floor(FileTime.Check(ticks) - FileTime.UnixEpoch, FileTime.TicksPerMillisecond)));
+  }
+
+  /**
+   * Converts to a FAT timestamp, like `FileTimeToDosDateTime`, rounding down to an even second.
+   *
+   * @param ticks `FILETIME` value, in the zone the FAT timestamp should be in.
+   * @throws {RangeError} If the year is before 1980 or after 2107.
+   */
+  public static ToDosDateTime(ticks: bigint): DosDateTime {
+    const { wDay, wHour, wMinute, wMonth, wSecond, wYear } = FileTime.ToSystemTime(ticks);
+
+    if (!FileTime.Within(wYear, 1980, 2107)) {
+      throw new RangeError(`FileTime: year ${wYear} cannot be represented as a FAT date`);
+    }
+
+    return {
+      date: ((wYear - 1980) << 9) | (wMonth << 5) | wDay,
+      time: (wHour << 11) | (wMinute << 5) | (wSecond >>> 1),
+    };
+  }
+
+  /**
+   * Converts to nanoseconds since the Unix epoch, e.g. for `Temporal.Instant.fromEpochNanoseconds`.
+   *
+   * @param ticks `FILETIME` value.
+   * @throws {RangeError} If `ticks` is negative or above `FileTime.Max`.
+   */
+  public static ToNanoseconds(ticks: bigint): bigint {
+    return (FileTime.Check(ticks) - FileTime.UnixEpoch) * 100n;
+  }
+
+  /**
+   * Splits into the two halves of a `FILETIME`, e.g. to initialize a `Layouts.FILETIME`.
+   *
+   * @param ticks `FILETIME` value.
+   */
+  public static ToParts(ticks: bigint): FileTimeParts {
+    const value = BigInt.asUintN(64, ticks);
+
+    return { dwHighDateTime: Number(value >> 32n), dwLowDateTime: Number(value & 0xffff_ffffn) };
+  }
+
+  /**
+   * Converts to `SYSTEMTIME` fields, like `FileTimeToSystemTime`, rounding down to a whole millisecond.
+   *
+   * @param ticks `FILETIME` value.
+   * @throws {RangeError} If `ticks` is negative or above `FileTime.Max`.
+   */
+  public static ToSystemTime(ticks: bigint): SystemTimeFields {
+    const date = FileTime.ToDate(ticks);
+
+    return {
+      wDay: date.getUTCDate(),
+      wDayOfWeek: date.getUTCDay(),
+      wHour: date.getUTCHours(),
+      wMilliseconds: date.getUTCMilliseconds(),
+      wMinute: date.getUTCMinutes(),
+      wMonth: date.getUTCMonth() + 1,
+      wSecond: date.getUTCSeconds(),
+      wYear: date.getUTCFullYear(),
+    };
+  }
+
+  private static Check(ticks: bigint): bigint {
+    if (ticks < 0n || ticks > FileTime.Max) {
+      throw new RangeError(`FileTime: ${ticks} is outside the FILETIME range 0 to ${FileTime.Max}`);
+    }
+
+    return ticks;
+  }
+
+  // Bigint division rounds toward zero; times before the Unix epoch must round down.
+  private static Floor(dividend: bigint, divisor: bigint): bigint {
+    const quotient = dividend / divisor;
+
+    return dividend % divisor < 0n ? quotient - 1n : quotient;
+  }
+
+  private static Within(value: number, minimum: number, maximum: number): boolean {
+    return Number.isInteger(value) && value >= minimum && value <= maximum;
+  }
+}
+
+export default FileTime;
@@ -0,0 +1,127 @@
+/**
+ * Composes, tests and decodes the bit flags of one or more enums from `types/Kernel32.ts`.
+ *
+ * A `Flags` instance is bound to its enums, so only their members can be combined or
+ * tested: passing a `FileAccess` flag to a `Flags<ProcessCreationFlags>` is a type error.
+ * All results are unsigned 32-bit.
+ *
+ * @example
+ * ```ts
+ * const CreationFlags = new Flags(ProcessCreationFlags);
+ * const FileRights = new Flags<FileAccessRights | StandardAccessRights>(FileAccessRights, StandardAccessRights);
+ *
+ * const flags = CreationFlags.combine(ProcessCreationFlags.CREATE_SUSPENDED, ProcessCreationFlags.EXTENDED_STARTUPINFO_PRESENT);
+ *
+ * CreationFlags.has(flags, ProcessCreationFlags.CREATE_SUSPENDED); // true
+ * CreationFlags.format(flags); // 'CREATE_SUSPENDED | EXTENDED_STARTUPINFO_PRESENT'
+ *
+ * FileRights.format(FileRights.combine(FileAccessRights.FILE_GENERIC_READ, StandardAccessRights.DELETE)); // 'DELETE | FILE_GENERIC_READ'
+ * new Flags(FileAttributes).decode(0x8000_0003); // ['FILE_ATTRIBUTE_READONLY', 'FILE_ATTRIBUTE_HIDDEN', '0x80000000']
+ * ```
+ */
+class Flags<E extends number> {
+  // Members by descending bit count, so multi-bit members are matched before the bits they contain.
+  private readonly members: [string, number][];
+
+  /**
+   * @param enums Numeric enums whose members make up the flags.
+   */
+  public constructor(...enums: Readonly<Record<string, E | string>>[]) {
+    this.members = enums
+      .flatMap((flags) => Object.entries(flags).filter((member): member is [string, E] => typeof member[1] === 'number'))
+      .map(([name, flag]): [string, number] => [name, flag >>> 0])
+      .sort((a, b) => Flags.BitCount(b[1]) - Flags.BitCount(a[1]));
+  }
+
+  private static BitCount(value: number): number {
+    let count = 0;
+
+    for (let bits = value; bits !== 0; bits >>>= 1) {
+      count += bits & 1;
+    }
+
+    return count;
+  }
+
+  /**
+   * ORs flags together.
+   *
+   * @param flags Flags to set.
+   */
+  public combine(...flags: E[]): E {
+    let value = 0;
+
+    for (const flag of flags) {
+      value |= flag;
+    }
+
+    return (value >>> 0) as E;
+  }
+
+  /**
+   * Names the flags set in a value, for logging.
+   *
+   * Multi-bit members (`FILE_GENERIC_READ`, `PROCESS_ALL_ACCESS`, ...) are preferred over the
+   * single bits they contain; where several members share a value, the first declared is used.
+   * Bits no member accounts for are reported as one hex string. A zero value is named by the
+   * first zero-valued member, if any.
+   *
+   * @param value Value to decode.
+   * @returns Member names, ordered by value, then the hex remainder if any.
+   */
+  public decode(value: number): string[] {
+    const unsigned = value >>> 0;
+
+    if (unsigned === 0) {
+      const zero = this.members.find(([, flag]) => flag === 0);
+
+      return zero === undefined ? [] : [zero[0]];
+    }
+
+    const matched: [string, number][] = [];
+
+    let remaining = unsigned;
+
+    for (const [name, flag] of this.members) {
+      if (flag !== 0 && (unsigned & flag) >>> 0 === flag && (remaining & flag) !== 0) {
+        matched.push([name, flag]);
+        remaining = (remaining & ~flag) >>> 0;
+      }
+    }
+
+    const names = matched.sort((a, b) => a[1] - b[1]).map(([name]) => name);
+
+    return remaining === 0 ? names : [...names, `0x${remaining.toString(16)}`];
+  }
+
+  /**
+   * `decode` joined with `|`, or `'0'` when nothing is set and no member is zero.
+   *
+   * @param value Value to format.
+   */
+  public format(value: number): string {
+    return this.decode(value).join(' | ') || '0';
+  }
+
+  /**
+   * Whether every bit of `flag` is set in `value`. Zero flags are always set.
+   *
+   * @param value Value to test.
+   * @param flag Flag, or combination of flags, to look for.
+   */
+  public has(value: number, flag: E): boolean {
+    return (value & flag) >>> 0 === flag >>> 0;
+  }
+
+  /**
+   * Clears flags from a value.
+   *
+   * @param value Value to clear flags from.
+   * @param flags Flags to clear.
+   */
+  public remove(value: E, ...flags: E[]): E {
+    return ((value & ~this.combine(...flags)) >>> 0) as E;
+  }
+}
+
+export default Flags;
@@ -0,0 +1,561 @@
+import Kernel32 from './Kernel32';
+import Kernel32Checked from './Kernel32Checked';
+import LargeInteger from './LargeInteger';
+import Layouts from './Layouts';
+import SafeHandle from './SafeHandle';
+import Struct from './Struct';
+import Win32Error from './Win32Error';
+
+import type { Pointer } from 'bun:ffi';
+
+import type { CompletionWorkerMessage, CompletionWorkerRequest } from '../runtime/completions';
+import type { IoCompletionPacket, IoCompletionPortRunOptions, IoOperationOptions } from '../types/IoCompletionPort';
+import { type BOOL, type DWORD, type HANDLE, INVALID_HANDLE_VALUE, NULL, Win32ErrorCode } from '../types/Kernel32';
+
+interface Operation {
+  fail: (error: unknown) => void;
+  handle: HANDLE;
+  // Written by the kernel until the completion packet is dequeued, so it is kept reachable
+  // from the port until then, along with the operation's pinned buffers.
+  overlapped: ReturnType<typeof Layouts.OVERLAPPED.create>;
+  pinned: readonly object[];
+  settle: (packet: IoCompletionPacket) => void;
+  settled: Promise<number>;
+}
+
+interface Runner {
+  ref(): void;
+  stop(): Promise<void>;
+  unref(): void;
+}
+
+/**
+ * An I/O completion port that dispatches completions of overlapped operations to promises.
+ *
+ * Handles opened with `FILE_FLAG_OVERLAPPED` (files, pipes, sockets, directories) are
+ * associated with the port under a completion key. Operations are started with `submit`, or
+ * `read`/`write` for `ReadFile`/`WriteFile`; each gets its own `OVERLAPPED`, which, with the
+ * buffers it uses, is held by the port until its completion packet is dequeued. Packets are
+ * dequeued in batches of `OVERLAPPED_ENTRY` by `GetQueuedCompletionStatusEx`, either on
+ * demand with `poll`, or continuously after `run`: from timers on the calling thread, or on
+ * a `Worker` that blocks in the call so the main thread never does. Packets that do not
+ * belong to an operation, such as those sent with `post`, go to `onPacket`.
+ *
+ * A running port keeps the process alive until `stop` or `close`, or, with `keepAlive` off,
+ * only while operations are in flight. If the port can no longer be read, `run` stops and
+ * every operation in flight rejects with the `Win32Error`. `close` cancels the operations in
+ * flight and waits for them before closing the port, so a port can be declared with
+ * `await using`. Handles must not be set to `FILE_SKIP_COMPLETION_PORT_ON_SUCCESS`, as
+ * operations that complete straight away would then never settle.
+ *
+ * @example
+ * ```ts
+ * await using port = IoCompletionPort.Create();
+ * using file = new SafeHandle(Kernel32Checked.CreateFileW(path.ptr, FileAccess.GENERIC_READ, FileShareMode.FILE_SHARE_READ, NULL, FileCreationDisposition.OPEN_EXISTING, FileFlags.FILE_FLAG_OVERLAPPED, NULL));
+ *
+ * port.associate(file.handle, 1n);
+ * port.onPacket = ({ key, bytesTransferred }) => console.log('posted', key, bytesTransferred);
+ * port.run({ worker: true });
+ *
+ * const chunk = new Uint8Array(65_536);
+ * const read = await port.read(file.handle, chunk, 0, { signal: AbortSignal.timeout(5_000) });
+ * const info = await port.submit('DeviceIoControl', file.handle, 0, (lpOverlapped) => Kernel32.DeviceIoControl(file.handle, code, NULL, 0, out.ptr, out.length, NULL, lpOverlapped), { pin: [out] });
+ *
+ * port.post(2n, 42);
+ * ```
+ */
+class IoCompletionPort implements AsyncDisposable {
+  /**
+   * Longest wait, in milliseconds, between two polls of the port while `run` dispatches from timers.
+   */
+  public static MaxPollInterval = 16;
+
+  /**
+   * Completion key reserved for waking and stopping the `run` worker; it cannot be associated or posted.
+   */
+  public static readonly StopKey = 0xffff_ffff_ffff_ffffn;
+
+  private static Entries = new Uint8Array(0);
+
+  private static readonly EntrySize = Struct.SizeOf(Layouts.OVERLAPPED_ENTRY);
+
+  private static readonly Removed = new Uint32Array(1);
+
+  private static readonly Transferred = new Uint32Array(1);
+
+  /**
+   * Receives packets that belong to no operation submitted through this port: those sent
+   * with `post`, and completions of operations started elsewhere on an associated handle.
+   * They are dropped while it is `null`.
+   */
+  public onPacket: ((packet: IoCompletionPacket) => void) | null = null;
+
+  // Operations rejected by `fail` before their packets were dequeued, keyed by `OVERLAPPED`
+  // address. The kernel may still write to their `OVERLAPPED`s and buffers, so each is held
+  // until its packet is dequeued after all, or until the port is closed.
+  private readonly abandoned = new Map<Pointer, Operation>();
+
+  private closing: Promise<void> | null = null;
+
+  private keepAlive = true;
+
+  private readonly operations = new Map<Pointer, Operation>();
+
+  private readonly owner: SafeHandle;
+
+  private runner: Runner | null = null;
+
+  /**
+   * Takes ownership of a completion port handle; it is closed with the `IoCompletionPort`.
+   *
+   * @param handle Handle from `CreateIoCompletionPort`.
+   */
+  public constructor(handle: HANDLE) {
+    this.owner = new SafeHandle(handle);
+  }
+
+  /**
+   * Creates a completion port (`CreateIoCompletionPort`).
+   *
+   * @param concurrency Most threads the system lets process packets at once; 0 (the default) for one per processor.
+   * @throws {Win32Error} If the port cannot be created.
+   */
+  public static Create(concurrency: DWORD = 0): IoCompletionPort {
+    return new IoCompletionPort(Kernel32Checked.CreateIoCompletionPort(INVALID_HANDLE_VALUE, NULL, 0n, concurrency));
+  }
+
+  /**
+   * Dequeues up to `count` packets from a port (`GetQueuedCompletionStatusEx`), without
+   * dispatching them.
+   *
+   * @param port Completion port handle.
+   * @param count Most packets to dequeue.
+   * @param timeout Milliseconds to wait for the first packet; `INFINITE` to wait for ever.
+   * @returns The packets, in the order dequeued; none if the wait timed out.
+   * @throws {Win32Error} If the port cannot be read, e.g. `ERROR_ABANDONED_WAIT_0` once it is closed.
+   */
+  public static Dequeue(port: HANDLE, count: number, timeout: DWORD): IoCompletionPacket[] {
+    if (IoCompletionPort.Entries.length < count * IoCompletionPort.EntrySize) {
+      IoCompletionPort.Entries = new Uint8Array(count * IoCompletionPort.EntrySize);
+    }
+
+    // A timeout is the usual outcome of a poll, so it is checked before any `Win32Error` is built.
+    if (!Kernel32.GetQueuedCompletionStatusEx(port, IoCompletionPort.Entries.ptr, count, IoCompletionPort.Removed.ptr, timeout, 0)) {
+      const code = Kernel32.LastError;
+
+      if (code === Win32ErrorCode.WAIT_TIMEOUT) {
+        return [];
+      }
+
+      throw new Win32Error('GetQueuedCompletionStatusEx', code);
+    }
+
+    return Array.from({ length: IoCompletionPort.Removed[0]! }, (_, index) => {
+      const entry = Layouts.OVERLAPPED_ENTRY.from(IoCompletionPort.Entries, index * IoCompletionPort.EntrySize);
+
+      return { bytesTransferred: entry.dwNumberOfBytesTransferred, key: entry.lpCompletionKey, overlapped: entry.lpOverlapped || null, status: Number(entry.Internal & 0xffff_ffffn) };
+    });
+  }
+
+  /**
+   * The completion port handle.
+   *
+   * @throws {Error} If the port has been closed.
+   */
+  public get handle(): HANDLE {
+    return this.owner.handle;
+  }
+
+  /**
+   * Number of operations submitted through the port that have not completed yet.
+   */
+  public get inFlight(): number {
+    return this.operations.size;
+  }
+
+  public get isClosed(): boolean {
+    return this.owner.isClosed;
+  }
+
+  /**
+   * Whether `run` is dispatching packets.
+   */
+  public get isRunning(): boolean {
+    return this.runner !== null;
+  }
+
+  /**
+   * Associates a handle opened for overlapped I/O with the port (`CreateIoCompletionPort`),
+   * so completions of its operations are queued here. A handle can only be associated once.
+   *
+   * @param handle Handle opened with `FILE_FLAG_OVERLAPPED`.
+   * @param key Completion key reported with the handle's packets; defaults to 0.
+   * @throws {RangeError} If `key` is `IoCompletionPort.StopKey`.
+   * @throws {Win32Error} If the handle cannot be associated, e.g. it was not opened for overlapped I/O.
+   */
+  public associate(handle: HANDLE, key: bigint = 0n): void {
+    IoCompletionPort.CheckKey(key);
+
+    Kernel32Checked.CreateIoCompletionPort(handle, this.handle, key, 0);
+  }
+
+  /**
+   * Cancels the operations in flight, waits for them to settle, stops `run` and closes the
+   * port. Operations submitted afterwards reject. Calling it again returns the same promise.
+   *
+   * @throws {Win32Error} If `CloseHandle` fails.
+   */
+  public close(): Promise<void> {
+    this.closing ??= this.drain();
+
+    return this.closing;
+  }
+
+  /**
+   * Dequeues up to `batchSize` packets and dispatches them: completions to the promises of
+   * their operations, anything else to `onPacket`.
+   *
+   * @param timeout Milliseconds to wait for the first packet, blocking the thread; defaults to 0.
+   * @param batchSize Most packets to dequeue; defaults to 64.
+   * @returns Number of packets dispatched.
+   * @throws {Win32Error} If the port cannot be read.
+   */
+  public poll(timeout: DWORD = 0, batchSize = 64): number {
+    const packets = IoCompletionPort.Dequeue(this.handle, batchSize, timeout);
+
+    for (const packet of packets) {
+      this.dispatch(packet);
+    }
+
+    return packets.length;
+  }
+
+  /**
+   * Queues a packet of your own (`PostQueuedCompletionStatus`); it is dispatched to `onPacket`.
+   *
+   * @param key Completion key to report.
+   * @param bytesTransferred Value to report as the byte count; defaults to 0.
+   * @throws {RangeError} If `key` is `IoCompletionPort.StopKey`.
+   * @throws {Win32Error} If the packet cannot be queued.
+   */
+  public post(key: bigint, bytesTransferred: DWORD = 0): void {
+    IoCompletionPort.CheckKey(key);
+
+    Kernel32Checked.PostQueuedCompletionStatus(this.handle, bytesTransferred, key, NULL);
+  }
+
+  /**
+   * Reads up to `buffer.length` bytes at a file offset (`ReadFile`).
+   *
+   * @param handle Handle associated with the port.
+   * @param buffer Destination; it must not be touched until the promise settles.
+   * @param position File offset to read from; 0 for handles without one, such as pipes.
+   * @param options Abort signal and further objects to pin.
+   * @returns Bytes read; 0 at or past the end of the file.
+   * @throws {Win32Error} If the read fails.
+   */
+  public async read(handle: HANDLE, buffer: Uint8Array, position: bigint | number, options: IoOperationOptions = {}): Promise<number> {
+    try {
+      return await this.submit('ReadFile', handle, position, (lpOverlapped) => Kernel32.ReadFile(handle, buffer.ptr, Math.min(buffer.length, 0xffff_ffff), NULL, lpOverlapped), { ...options, pin: [buffer, ...(options.pin ?? [])] });
+    } catch (error) {
+      // Reads at or past the end fail, either straight away or on completion, instead of returning 0 bytes.
+      if (error instanceof Win32Error && error.code === Win32ErrorCode.ERROR_HANDLE_EOF) {
+        return 0;
+      }
+
+      throw error;
+    }
+  }
+
+  /**
+   * Dispatches packets continuously until `stop` or `close`.
+   *
+   * By default the port is polled from timers on the calling thread, without waiting,
+   * backing off to `IoCompletionPort.MaxPollInterval` ms while it is idle. With `worker` set,
+   * a `Worker` waits in `GetQueuedCompletionStatusEx` instead and forwards each batch, which
+   * is then dispatched on this thread. Does nothing if already running.
+   *
+   * Stops by itself if the port can no longer be read, rejecting every operation in flight
+   * with the `Win32Error`; packets that belong to no operation are then lost.
+   *
+   * @param options Batch size, whether to use a worker, and whether to keep the process alive while idle.
+   */
+  public run(options: IoCompletionPortRunOptions = {}): void {
+    const { batchSize = 64, keepAlive = true, worker = false } = options;
+
+    if (this.runner !== null) {
+      return;
+    }
+
+    this.keepAlive = keepAlive;
+    this.runner = worker ? this.runWorker(batchSize) : this.runTimers(batchSize);
+    this.reference();
+  }
+
+  /**
+   * Stops dispatching packets started by `run`. Resolves once a worker has exited.
+   */
+  public async stop(): Promise<void> {
+    const runner = this.runner;
+
+    this.runner = null;
+
+    await runner?.stop();
+  }
+
+  /**
+   * Starts an overlapped operation on an associated handle and resolves once its completion
+   * packet is dispatched.
+   *
+   * `start` is given a fresh `OVERLAPPED` holding `position`, must pass it to an export that
+   * takes `LPOVERLAPPED` through `Kernel32`, and returns the export's result. A zero result
+   * with `ERROR_IO_PENDING` is the usual outcome; with any other last-error value the promise
+   * rejects straight away, as the operation never started. So does an error thrown by `start`.
+   *
+   * @param api Export `start` calls, named in the `Win32Error` if it fails.
+   * @param handle Handle associated with the port, used to cancel the operation and to read its error.
+   * @param position File offset for the `OVERLAPPED`; 0 for handles without one.
+   * @param start Starts the operation, e.g. `(lpOverlapped) => Kernel32.DeviceIoControl(handle, ..., lpOverlapped)`.
+   * @param options Abort signal, and the buffers the operation uses, to pin until it completes.
+   * @returns Bytes transferred.
+   * @throws {Win32Error} If the operation fails.
+   */
+  public submit(api: string, handle: HANDLE, position: bigint | number, start: (lpOverlapped: Pointer) => BOOL, options: IoOperationOptions = {}): Promise<number> {
+    const { pin = [], signal } = options;
+
+    if (this.closing !== null) {
+      return Promise.reject(new Error('IoCompletionPort: the port is closing'));
+    }
+
+    if (signal?.aborted) {
+      return Promise.reject(signal.reason);
+    }
+
+    const { HighPart, LowPart } = LargeInteger.Split(BigInt(position));
+    const overlapped = Layouts.OVERLAPPED.create({ DUMMYUNIONNAME: { DUMMYSTRUCTNAME: { Offset: LowPart, OffsetHigh: HighPart >>> 0 } } });
+    const address = overlapped.bytes.ptr;
+
+    try {
+      // ERROR_IO_PENDING is the usual outcome: the operation was queued. Anything else failed outright.
+      if (!start(address)) {
+        const code = Kernel32.LastError;
+
+        if (code !== Win32ErrorCode.ERROR_IO_PENDING) {
+          return Promise.reject(new Win32Error(api, code));
+        }
+      }
+    } catch (error) {
+      return Promise.reject(error);
+    }
+
+    const { promise, reject, resolve } = Promise.withResolvers<number>();
+
+    // Nothing to do if the operation has already completed; its packet then settles it as usual.
+    const abort = () => Kernel32.CancelIoEx(handle, address);
+
+    const finish = () => {
+      this.operations.delete(address);
+      this.reference();
+      signal?.removeEventListener('abort', abort);
+    };
+
+    const fail = (error: unknown) => {
+      finish();
+      reject(error);
+    };
+
+    const settle = (packet: IoCompletionPacket) => {
+      finish();
+
+      if (packet.status === 0) {
+        resolve(packet.bytesTransferred);
+
+        return;
+      }
+
+      // Translates the NTSTATUS into the Win32 error code the export would have reported.
+      if (Kernel32.GetOverlappedResultEx(handle, address, IoCompletionPort.Transferred.ptr, 0, 0)) {
+        resolve(IoCompletionPort.Transferred[0]!);
+
+        return;
+      }
+
+      const code = Kernel32.LastError;
+
+      reject(signal?.aborted && code === Win32ErrorCode.ERROR_OPERATION_ABORTED ? signal.reason : new Win32Error(api, code));
+    };
+
+    this.operations.set(address, { fail, handle, overlapped, pinned: pin, settle, settled: promise });
+    this.reference();
+    signal?.addEventListener('abort', abort, { once: true });
+
+    return promise;
+  }
+
+  /**
+   * Writes `data` at a file offset (`WriteFile`).
+   *
+   * @param handle Handle associated with the port.
+   * @param data Bytes to write; they must not be changed until the promise settles.
+   * @param position File offset to write at; 0 for handles without one, such as pipes.
+   * @param options Abort signal and further objects to pin.
+   * @returns Bytes written.
+   * @throws {Win32Error} If the write fails.
+   */
+  public write(handle: HANDLE, data: Uint8Array, position: bigint | number, options: IoOperationOptions = {}): Promise<number> {
+    return this.submit('WriteFile', handle, position, (lpOverlapped) => Kernel32.WriteFile(handle, data.ptr, Math.min(data.length, 0xffff_ffff), NULL, lpOverlapped), { ...options, pin: [data, ...(options.pin ?? [])] });
+  }
+
+  public [Symbol.asyncDispose](): Promise<void> {
+    return this.close();
+  }
+
+  private static CheckKey(key: bigint): void {
+    if (key === IoCompletionPort.StopKey) {
+      throw new RangeError('IoCompletionPort: the completion key 0xffffffffffffffff is reserved');
+    }
+  }
+
+  private dispatch(packet: IoCompletionPacket): void {
+    const operation = packet.overlapped === null ? undefined : this.operations.get(packet.overlapped);
+
+    if (operation !== undefined) {
+      operation.settle(packet);
+    } else if (packet.overlapped !== null && this.abandoned.delete(packet.overlapped)) {
+      return;
+    } else if (packet.key !== IoCompletionPort.StopKey) {
+      this.onPacket?.(packet);
+    }
+  }
+
+  private async drain(): Promise<void> {
+    if (this.owner.isClosed) {
+      return;
+    }
+
+    if (this.operations.size !== 0) {
+      for (const { handle, overlapped } of this.operations.values()) {
+        Kernel32.CancelIoEx(handle, overlapped.bytes.ptr);
+      }
+
+      this.run();
+
+      await Promise.allSettled(Array.from(this.operations.values(), (operation) => operation.settled));
+    }
+
+    await this.stop();
+
+    this.owner.close();
+    this.abandoned.clear();
+  }
+
+  // Stops `run` and rejects every operation in flight once the port can no longer be read,
+  // since their packets will never be dispatched.
+  private fail(runner: Runner, error: unknown): void {
+    if (this.runner !== runner) {
+      return;
+    }
+
+    this.runner = null;
+
+    for (const operation of Array.from(this.operations.values())) {
+      Kernel32.CancelIoEx(operation.handle, operation.overlapped.bytes.ptr);
+      this.abandoned.set(operation.overlapped.bytes.ptr, operation);
+
+      operation.fail(error);
+    }
+  }
+
+  // With `keepAlive` off, lets the process exit while no operation is in flight.
+  private reference(): void {
+    if (this.keepAlive || this.runner === null) {
+      return;
+    }
+
+    if (this.operations.size === 0) {
+      this.runner.unref();
+    } else {
+      this.runner.ref();
+    }
+  }
+
+  private runTimers(batchSize: number): Runner {
+    let interval = 0;
+    let referenced = true;
+
+    const poll = () => {
+      try {
+        interval = this.poll(0, batchSize) === 0 ? Math.min(interval * 2 || 1, IoCompletionPort.MaxPollInterval) : 0;
+      } catch (error) {
+        this.fail(runner, error);
+
+        return;
+      }
+
+      timer = setTimeout(poll, interval);
+
+      if (!referenced) {
+        timer.unref();
+      }
+    };
+
+    let timer = setTimeout(poll, 0);
+
+    const runner: Runner = {
+      ref: () => {
+        referenced = true;
+        timer.ref();
+      },
+      stop: async () => clearTimeout(timer),
+      unref: () => {
+        referenced = false;
+        timer.unref();
+      },
+    };
+
+    return runner;
+  }
+
+  private runWorker(batchSize: number): Runner {
+    const worker = new Worker(new URL('../runtime/completions.ts', import.meta.url));
+    const exited = new Promise<void>((resolve) => worker.addEventListener('close', () => resolve(), { once: true }));
+
+    const runner: Runner = {
+      ref: () => worker.ref(),
+      stop: () => {
+        // Wakes the worker, which exits after forwarding the packets dequeued with this one.
+        Kernel32Checked.PostQueuedCompletionStatus(this.handle, 0, IoCompletionPort.StopKey, NULL);
+
+        return exited;
+      },
+      unref: () => worker.unref(),
+    };
+
+    // The worker exits after reporting an error, so the port stops running.
+    worker.onmessage = ({ data }: MessageEvent<CompletionWorkerMessage>) => {
+      if ('code' in data) {
+        this.fail(runner, new Win32Error('GetQueuedCompletionStatusEx', data.code));
+
+        return;
+      }
+
+      for (const packet of data.packets) {
+        this.dispatch(packet);
+      }
+    };
+
+    worker.onerror = (event) => {
+      event.preventDefault();
+
+      this.fail(runner, event.error ?? new Error(`IoCompletionPort: ${event.message}`));
+
+      worker.terminate();
+    };
+
+    worker.postMessage({ batchSize, port: this.handle } satisfies CompletionWorkerRequest);
+
+    return runner;
+  }
+}
+
+export default IoCompletionPort;
@@ -1,11 +1,31 @@
-import { type FFIFunction, FFIType, dlopen } from 'bun:ffi';
+import { type FFIFunction, FFIType } from 'bun:ffi';
+
+import Coord from './Coord';
+import FFIBackend from './FFIBackend';
+import SymbolUnavailableError from './SymbolUnavailableError';
+import Tracer from './Tracer';
+
+import type { Backend, BoundFunction, Kernel32Options, Kernel32Symbol, PreloadOptions, PreloadReport } from '../types/Backend';
 
 import type {
+  APPLICATION_RECOVERY_CALLBACK,
   BOOL,
   BOOLEAN,
+  BYTE,
+  CALINFO_ENUMPROCA,
+  CALINFO_ENUMPROCEXA,
+  CALINFO_ENUMPROCEXEX,
+  CALINFO_ENUMPROCEXW,
+  CALINFO_ENUMPROCW,
   CODEPAGE_ENUMPROC,
   COORD,
+  DATEFMT_ENUMPROCA,
+  DATEFMT_ENUMPROCEXA,
+  DATEFMT_ENUMPROCEXEX,
+  DATEFMT_ENUMPROCEXW,
+  DATEFMT_ENUMPROCW,
   DWORD,
+  DWORD_PTR,
   ENUMRESLANGPROCA,
   ENUMRESLANGPROCW,
   ENUMRESNAMEPROCA,
@@ -15,19 +35,34 @@ import type {
   GEO_ENUMNAMEPROC,
   GEO_ENUMPROC,
   HANDLE,
+  HCURSOR,
+  HFIND,
+  HFINDVOLUME,
+  HFINDVOLUMEMOUNTPOINT,
   HGLOBAL,
+  HHEAP,
+  HICON,
+  HLOCAL,
   HMODULE,
+  HPALETTE,
+  HPCON,
+  HPSS,
+  HPSSWALK,
   HRESULT,
   HRSRC,
   HWND,
   INT,
+  LANGGROUPLOCALE_ENUMPROCA,
+  LANGGROUPLOCALE_ENUMPROCW,
   LANGUAGEGROUP_ENUMPROCA,
   LANGUAGEGROUP_ENUMPROCW,
+  LARGE_INTEGER,
   LCID,
   LOCALE_ENUMPROCA,
   LOCALE_ENUMPROCEX,
   LOCALE_ENUMPROCW,
   LONG,
+  LONGLONG,
   LONG_PTR,
   LPARAM,
   LPBOOL,
@@ -38,19 +73,28 @@ import type {
   LPCSTR,
   LPCURRENCYFMTA,
   LPCURRENCYFMTW,
+  LPCVOID,
   LPCWSTR,
   LPDWORD,
+  LPFIBER_START_ROUTINE,
   LPHANDLE,
   LPNLSVERSIONINFO,
-  LPPROC_THREAD_ATTRIBUTE_LIST,
+  LPOVERLAPPED_COMPLETION_ROUTINE,
   LPPROCESS_INFORMATION,
+  LPPROC_THREAD_ATTRIBUTE_LIST,
+  LPPROGRESS_ROUTINE,
   LPSECURITY_ATTRIBUTES,
   LPSTARTUPINFOA,
   LPSTARTUPINFOW,
   LPSTR,
   LPTHREAD_START_ROUTINE,
+  LPTOP_LEVEL_EXCEPTION_FILTER,
   LPVOID,
   LPWSTR,
+  OOBE_COMPLETED_CALLBACK,
+  PACKAGE_VIRTUALIZATION_CONTEXT_HANDLE,
+  PAPCFUNC,
+  PBAD_MEMORY_CALLBACK_ROUTINE,
   PCONSOLE_CURSOR_INFO,
   PCONSOLE_FONT_INFO,
   PCONSOLE_FONT_INFOEX,
@@ -58,9 +102,33 @@ import type {
   PCONSOLE_SCREEN_BUFFER_INFO,
   PCONSOLE_SCREEN_BUFFER_INFOEX,
   PCONSOLE_SELECTION_INFO,
+  PENUM_PAGE_FILE_CALLBACKA,
+  PENUM_PAGE_FILE_CALLBACKW,
+  PFLS_CALLBACK_FUNCTION,
+  PGET_RUNTIME_FUNCTION_CALLBACK,
   PHANDLE,
+  PHANDLER_ROUTINE,
   PHPCON,
+  PINIT_ONCE_FN,
+  PLARGE_INTEGER,
+  PSECURE_MEMORY_CACHE_CALLBACK,
+  PSID,
+  PTIMERAPCROUTINE,
+  PTP_CALLBACK_INSTANCE,
+  PTP_CLEANUP_GROUP,
+  PTP_IO,
+  PTP_POOL,
+  PTP_SIMPLE_CALLBACK,
+  PTP_TIMER,
+  PTP_TIMER_CALLBACK,
+  PTP_WAIT,
+  PTP_WAIT_CALLBACK,
+  PTP_WIN32_IO_CALLBACK,
+  PTP_WORK,
+  PTP_WORK_CALLBACK,
   PULONG,
+  PVECTORED_EXCEPTION_HANDLER,
+  PVOID,
   SIZE_T,
   TIMEFMT_ENUMPROCA,
   TIMEFMT_ENUMPROCEX,
@@ -68,17 +136,22 @@ import type {
   UILANGUAGE_ENUMPROCA,
   UILANGUAGE_ENUMPROCW,
   UINT,
+  UINT_PTR,
   ULONGLONG,
+  ULONG_PTR,
   USHORT,
   VOID,
+  WAITORTIMERCALLBACK,
+  WCHAR,
 } from '../types/Kernel32';
 
 /**
  * Thin, lazy-loaded FFI bindings for `kernel32.dll`.
  *
  * Each static method corresponds one-to-one with a Win32 export declared in `Symbols`.
- * The first call to a method binds the underlying native symbol via `bun:ffi` and
- * memoizes it on the class for subsequent calls. For bulk, up-front binding, use `Preload`.
+ * The first call to a method binds the underlying native symbol via the configured
+ * backend (`bun:ffi` by default) and memoizes it on the class for subsequent calls.
+ * For bulk, up-front binding, use `Preload`; to swap the backend, use `Configure`.
  *
  * Symbols are defined with explicit `FFIType` signatures and kept alphabetized.
  * You normally do not access `Symbols` directly; call the static methods or preload
@@ -96,14 +169,186 @@ import type {
  * ```
  */
 class Kernel32 {
+  /**
+   * Backend that produces the functions memoized on the class.
+   */
+  private static Backend: Backend = new FFIBackend();
+
+  /**
+   * Original lazy static methods, keyed by export name, for every symbol currently bound.
+   *
+   * Used to skip already-bound symbols and to restore the lazy methods when `Configure` changes the backend.
+   */
+  private static readonly Bound = new Map<string, PropertyDescriptor>();
+
+  /**
+   * Argument positions that take a `COORD` by value, keyed by export name. Generated from the
+   * `COORD` parameters in `metadata/Kernel32.json`.
+   *
+   * Arguments at these positions are packed with `Coord.Pack` before reaching the backend.
+   */
+  private static readonly ByValue: Record<string, number[]> = {
+    CreatePseudoConsole: [0],
+    FillConsoleOutputAttribute: [3],
+    FillConsoleOutputCharacterA: [3],
+    FillConsoleOutputCharacterW: [3],
+    ReadConsoleOutputA: [2, 3],
+    ReadConsoleOutputAttribute: [3],
+    ReadConsoleOutputCharacterA: [3],
+    ReadConsoleOutputCharacterW: [3],
+    ReadConsoleOutputW: [2, 3],
+    ResizePseudoConsole: [1],
+    ScrollConsoleScreenBufferA: [3],
+    ScrollConsoleScreenBufferW: [3],
+    SetConsoleCursorPosition: [1],
+    SetConsoleScreenBufferSize: [1],
+    WriteConsoleOutputA: [2, 3],
+    WriteConsoleOutputAttribute: [3],
+    WriteConsoleOutputCharacterA: [3],
+    WriteConsoleOutputCharacterW: [3],
+    WriteConsoleOutputW: [2, 3],
+  };
+
+  /**
+   * Whether bound functions record the thread's last-error value after every call.
+   */
+  private static CaptureLastError = false;
+
+  /**
+   * Last-error value recorded after the most recent call, when capture is enabled.
+   */
+  private static CapturedLastError: DWORD = 0;
+
+  /**
+   * Unwrapped `GetLastError`, bound on demand for last-error capture.
+   */
+  private static LastErrorSource: BoundFunction | null = null;
+
+  /**
+   * Minimum Windows build of exports newer than Windows 10 RTM, keyed by export name.
+   *
+   * Generated from the `minimumBuild` fields of `metadata/Kernel32.json`.
+   */
+  private static readonly MinimumBuilds: Readonly<Record<string, number>> = {
+    AllocConsoleWithOptions: 26100,
+    BuildIoRingFlushFile: 22000,
+    BuildIoRingReadFileScatter: 22000,
+    BuildIoRingWriteFile: 22000,
+    BuildIoRingWriteFileGather: 22000,
+    ClosePseudoConsole: 17763,
+    CreateFile3: 26100,
+    CreatePseudoConsole: 17763,
+    GetFileInformationByName: 22621,
+    GetMachineTypeAttributes: 22000,
+    GetNumaNodeProcessorMask2: 20348,
+    GetProcessDefaultCpuSetMasks: 22000,
+    GetTempPath2A: 22000,
+    GetTempPath2W: 22000,
+    GetThreadDescription: 14393,
+    GetThreadSelectedCpuSetMasks: 22000,
+    IsUserCetAvailableInEnvironment: 19041,
+    IsWow64Process2: 16299,
+    QueueUserAPC2: 22000,
+    ReadDirectoryChangesExW: 16299,
+    ReleasePseudoConsole: 26100,
+    ResizePseudoConsole: 17763,
+    SetProcessDefaultCpuSetMasks: 22000,
+    SetProcessDynamicEHContinuationTargets: 19041,
+    SetProcessDynamicEnforcedCetCompatibleRanges: 19041,
+    SetThreadDescription: 14393,
+    SetThreadSelectedCpuSetMasks: 22000,
+  };
+
+  /**
+   * Tracer for calls made through bound functions, when tracing is enabled.
+   */
+  private static Tracer: Tracer | null = null;
+
+  /**
+   * The backend exports are currently bound through, as set by `Configure`.
+   */
+  public static get ActiveBackend(): Backend {
+    return Kernel32.Backend;
+  }
+
+  /**
+   * Thread last-error value captured immediately after the most recent native call.
+   *
+   * Only captured when `Configure({ captureLastError: true })` is in effect; otherwise this
+   * falls back to calling `GetLastError()`. Unlike calling `GetLastError()` later, the
+   * captured value cannot be clobbered by runtime work that happens between the failing
+   * call and the check.
+   *
+   * @example
+   * ```ts
+   * Kernel32.Configure({ captureLastError: true });
+   *
+   * if (Kernel32.CreateFileW(path, access, share, null, disposition, flags, null) === INVALID_HANDLE_VALUE) {
+   *   console.error('CreateFileW failed: %d', Kernel32.LastError);
+   * }
+   * ```
+   */
+  public static get LastError(): DWORD {
+    return Kernel32.CaptureLastError ? Kernel32.CapturedLastError : Kernel32.GetLastError();
+  }
+
+  /**
+   * Changes how exports are bound and discards every existing binding.
+   *
+   * Previously bound symbols are restored to their lazy static methods, so the next call
+   * (or `Preload`) binds them again through the new configuration.
+   *
+   * @param options Options to change; omitted options keep their current value.
+   * @example
+   * ```ts
+   * // Run against an in-memory fake instead of kernel32.dll
+   * const backend = new FakeBackend().stub('GetTickCount64', () => 42n);
+   *
+   * Kernel32.Configure({ backend });
+   * ```
+   */
+  public static Configure(options: Partial<Kernel32Options>): void {
+    Kernel32.Backend = options.backend ?? Kernel32.Backend;
+    Kernel32.CaptureLastError = options.captureLastError ?? Kernel32.CaptureLastError;
+    Kernel32.CapturedLastError = 0;
+    Kernel32.LastErrorSource = null;
+
+    if (options.trace !== undefined) {
+      Kernel32.Tracer = options.trace === null ? null : new Tracer(options.trace);
+    }
+
+    Kernel32.Bound.forEach((propertyDescriptor, method) => Object.defineProperty(Kernel32, method, propertyDescriptor));
+    Kernel32.Bound.clear();
+
+    return;
+  }
+
+  /**
+   * Whether an export can be bound on this system.
+   *
+   * Exports added in recent Windows builds (see `SymbolUnavailableError`) are missing on older
+   * ones; probe them before use to feature-detect instead of catching the error.
+   *
+   * @param method Exact export name from `Symbols`.
+   * @returns `true` if the export is already bound or the configured backend provides it.
+   * @example
+   * ```ts
+   * const path = Kernel32.IsAvailable('GetTempPath2W') ? tempPath2() : tempPath();
+   * ```
+   */
+  public static IsAvailable(method: keyof typeof Kernel32.Symbols): boolean {
+    return Kernel32.Bound.has(method) || Kernel32.Backend.has(method);
+  }
+
   /**
    * Lazily binds a single `kernel32.dll` export and memoizes it on the class.
    *
-   * If the symbol has already been bound (property is non-configurable), this is a no-op.
+   * If the symbol has already been bound, this is a no-op.
    * Subsequent calls go directly through the memoized native function.
    *
    * @param method Exact export name from `Symbols`.
    * @returns The bound native function, typed to the corresponding static method.
+   * @throws {SymbolUnavailableError} If the export does not exist on this system.
    * @example
    * ```ts
    * // Internal usage: public wrappers call Load on first invocation
@@ -111,16 +356,25 @@ class Kernel32 {
    * ```
    */
   private static Load<T extends keyof typeof Kernel32.Symbols>(method: T): (typeof Kernel32)[T] {
-    const skip = Object.getOwnPropertyDescriptor(Kernel32, method)?.configurable === false;
+    const skip = Kernel32.Bound.has(method);
 
     if (skip) {
       return Kernel32[method];
     }
 
-    const library = dlopen('kernel32.dll', { [method]: Kernel32.Symbols[method] });
-    const propertyDescriptor = { configurable: false, value: library.symbols[method] };
+    let symbols: Record<string, BoundFunction>;
 
-    Object.defineProperty(Kernel32, method, propertyDescriptor);
+    try {
+      symbols = Kernel32.Backend.bind({ [method]: Kernel32.Symbols[method] });
+    } catch (error) {
+      if (Kernel32.Backend.has(method)) {
+        throw error;
+      }
+
+      throw new SymbolUnavailableError(method, Kernel32.MinimumBuilds[method] ?? null, { cause: error });
+    }
+
+    Kernel32.Bind(symbols);
 
     return Kernel32[method];
   }
@@ -131,67 +385,179 @@ class Kernel32 {
    * Pass a subset of method names to bind only what you need for hot paths; when omitted,
    * all symbols declared in `Symbols` are bound. Already-bound symbols are skipped.
    *
+   * By default a single missing export fails the whole preload with a `SymbolUnavailableError`.
+   * With `skipUnavailable`, missing exports are left unbound and listed in the report instead,
+   * so startup code on older Windows builds can log the gaps and carry on.
+   *
    * @param methods Optional list of export names to bind.
+   * @param options Preload behavior.
+   * @returns Which exports were bound, already bound, or missing.
+   * @throws {SymbolUnavailableError} If an export is missing and `skipUnavailable` is not set.
    * @example
    * ```ts
    * // Bind a subset
    * Kernel32.Preload(['GetTickCount64', 'GetLastError']);
    *
-   * // Or bind everything once
-   * Kernel32.Preload();
+   * // Or bind everything that exists on this system
+   * const { missing } = Kernel32.Preload(undefined, { skipUnavailable: true });
+   *
+   * if (missing.length !== 0) {
+   *   console.warn('Unavailable: %s', missing.join(', '));
+   * }
    * ```
    */
-  public static Preload(methods?: (keyof typeof Kernel32.Symbols)[]): void {
-    methods ??= Object.keys(Kernel32.Symbols) as (keyof typeof Kernel32.Symbols)[];
+  public static Preload(methods?: Kernel32Symbol[], options: Partial<PreloadOptions> = {}): PreloadReport {
+    methods ??= Object.keys(Kernel32.Symbols) as Kernel32Symbol[];
 
-    const symbols = Object.fromEntries(
-      methods.filter((method) => Object.getOwnPropertyDescriptor(Kernel32, method)?.configurable !== false).map((method) => [method, Kernel32.Symbols[method]]) //
-    );
+    const alreadyBound = methods.filter((method) => Kernel32.Bound.has(method));
+    const pending = methods.filter((method) => !Kernel32.Bound.has(method));
+
+    let bound = pending;
+    let missing: Kernel32Symbol[] = [];
+
+    try {
+      Kernel32.Bind(Kernel32.Backend.bind(Object.fromEntries(pending.map((method) => [method, Kernel32.Symbols[method]]))));
+    } catch (error) {
+      missing = pending.filter((method) => !Kernel32.Backend.has(method));
+
+      if (missing.length === 0) {
+        throw error;
+      }
+
+      if (!options.skipUnavailable) {
+        throw new SymbolUnavailableError(missing[0]!, Kernel32.MinimumBuilds[missing[0]!] ?? null, { cause: error });
+      }
+
+      bound = pending.filter((method) => !missing.includes(method));
+
+      Kernel32.Bind(Kernel32.Backend.bind(Object.fromEntries(bound.map((method) => [method, Kernel32.Symbols[method]]))));
+    }
 
-    const library = dlopen('kernel32.dll', symbols);
+    return { alreadyBound, bound, missing };
+  }
 
+  /**
+   * Memoizes backend-bound functions on the class, remembering the lazy methods they replace.
+   *
+   * @param symbols Bound functions keyed by export name.
+   */
+  private static Bind(symbols: Record<string, BoundFunction>): void {
     const propertyDescriptorMap = Object.fromEntries(
-      Object.entries(library.symbols).map(([key, value]) => [key, { configurable: false, value }]) //
+      Object.entries(symbols).map(([key, value]) => [key, { configurable: true, value: Kernel32.Wrap(key, Kernel32.Pack(key, value)) }]) //
     );
 
+    Object.keys(propertyDescriptorMap).forEach((method) => Kernel32.Bound.set(method, Object.getOwnPropertyDescriptor(Kernel32, method)!));
+
     Object.defineProperties(Kernel32, propertyDescriptorMap);
 
     return;
   }
 
+  /**
+   * Packs by-value `COORD` arguments for exports listed in `ByValue`.
+   *
+   * @param method Export name.
+   * @param fn Function produced by the backend.
+   * @returns `fn` itself when the export takes no `COORD`, otherwise a packing wrapper.
+   */
+  private static Pack(method: string, fn: BoundFunction): BoundFunction {
+    const positions = Kernel32.ByValue[method];
+
+    if (positions === undefined) {
+      return fn;
+    }
+
+    return (...args) => {
+      for (const position of positions) {
+        args[position] = Coord.Pack(args[position] as COORD);
+      }
+
+      return fn(...args);
+    };
+  }
+
+  /**
+   * Applies the configured per-call instrumentation to a bound function.
+   *
+   * Returns the function unchanged when nothing is enabled for the export, keeping calls zero-overhead.
+   *
+   * @param method Export name.
+   * @param fn Function produced by the backend.
+   * @returns The function to memoize on the class.
+   */
+  private static Wrap(method: string, fn: BoundFunction): BoundFunction {
+    const tracer = Kernel32.Tracer?.matches(method) ? Kernel32.Tracer : null;
+
+    if (!Kernel32.CaptureLastError && tracer === null) {
+      return fn;
+    }
+
+    const getLastError = (Kernel32.LastErrorSource ??= Kernel32.Backend.bind({ GetLastError: Kernel32.Symbols.GetLastError }).GetLastError);
+
+    if (tracer === null) {
+      return (...args) => {
+        const result = fn(...args);
+
+        Kernel32.CapturedLastError = getLastError() as DWORD;
+
+        return result;
+      };
+    }
+
+    const definition = Kernel32.Symbols[method as keyof typeof Kernel32.Symbols];
+
+    return (...args) => {
+      const start = performance.now();
+      const result = fn(...args);
+      const end = performance.now();
+      const lastError = getLastError() as DWORD;
+
+      if (Kernel32.CaptureLastError) {
+        Kernel32.CapturedLastError = lastError;
+      }
+
+      tracer.emit(method, definition, args, result, lastError, end - start);
+
+      return result;
+    };
+  }
+
   /**
    * Raw symbol map for `dlopen('kernel32.dll', Symbols)`.
    *
    * Keys match exported function names; values define `args` and `returns`
-   * using `FFIType`. This map is consumed by `Load`/`Preload` and is not
-   * intended for direct use.
+   * using `FFIType`. This map is consumed by `Load`/`Preload` (through the
+   * configured backend) and is not intended for direct use.
+   *
+   * Generated from `metadata/Kernel32.json` along with the static methods below;
+   * edit the metadata and run `bun run generate` rather than editing by hand.
    */
   private static readonly Symbols = {
     _hread: { args: [FFIType.i32, FFIType.ptr, FFIType.i32], returns: FFIType.i32 },
-    _hwrite: { args: [FFIType.i32, FFIType.u32, FFIType.i32], returns: FFIType.i32 },
+    _hwrite: { args: [FFIType.i32, FFIType.ptr, FFIType.i32], returns: FFIType.i32 },
     _lclose: { args: [FFIType.i32], returns: FFIType.i32 },
-    _lcreat: { args: [FFIType.u32, FFIType.i32], returns: FFIType.i32 },
+    _lcreat: { args: [FFIType.ptr, FFIType.i32], returns: FFIType.i32 },
     _llseek: { args: [FFIType.i32, FFIType.i32, FFIType.i32], returns: FFIType.i32 },
-    _lopen: { args: [FFIType.u32, FFIType.i32], returns: FFIType.i32 },
+    _lopen: { args: [FFIType.ptr, FFIType.i32], returns: FFIType.i32 },
     _lread: { args: [FFIType.i32, FFIType.ptr, FFIType.u32], returns: FFIType.u32 },
-    _lwrite: { args: [FFIType.i32, FFIType.u32, FFIType.u32], returns: FFIType.u32 },
+    _lwrite: { args: [FFIType.i32, FFIType.ptr, FFIType.u32], returns: FFIType.u32 },
     AcquireSRWLockExclusive: { args: [FFIType.ptr], returns: FFIType.void },
     AcquireSRWLockShared: { args: [FFIType.ptr], returns: FFIType.void },
     ActivateActCtx: { args: [FFIType.ptr, FFIType.ptr], returns: FFIType.i32 },
-    ActivatePackageVirtualizationContext: { args: [FFIType.u32, FFIType.ptr], returns: FFIType.u32 },
-    AddAtomA: { args: [FFIType.u32], returns: FFIType.u16 },
+    ActivatePackageVirtualizationContext: { args: [FFIType.ptr, FFIType.ptr], returns: FFIType.u32 },
+    AddAtomA: { args: [FFIType.ptr], returns: FFIType.u16 },
     AddAtomW: { args: [FFIType.ptr], returns: FFIType.u16 },
-    AddConsoleAliasA: { args: [FFIType.u32, FFIType.u32, FFIType.u32], returns: FFIType.i32 },
+    AddConsoleAliasA: { args: [FFIType.ptr, FFIType.ptr, FFIType.ptr], returns: FFIType.i32 },
     AddConsoleAliasW: { args: [FFIType.ptr, FFIType.ptr, FFIType.ptr], returns: FFIType.i32 },
     AddDllDirectory: { args: [FFIType.ptr], returns: FFIType.ptr },
-    AddIntegrityLabelToBoundaryDescriptor: { args: [FFIType.ptr, FFIType.u32], returns: FFIType.i32 },
+    AddIntegrityLabelToBoundaryDescriptor: { args: [FFIType.ptr, FFIType.ptr], returns: FFIType.i32 },
     AddRefActCtx: { args: [FFIType.ptr], returns: FFIType.void },
-    AddResourceAttributeAce: { args: [FFIType.ptr, FFIType.u32, FFIType.u32, FFIType.u32, FFIType.u32, FFIType.ptr, FFIType.ptr], returns: FFIType.i32 },
-    AddScopedPolicyIDAce: { args: [FFIType.ptr, FFIType.u32, FFIType.u32, FFIType.u32, FFIType.u32], returns: FFIType.i32 },
-    AddSecureMemoryCacheCallback: { args: [FFIType.u32], returns: FFIType.i32 },
-    AddSIDToBoundaryDescriptor: { args: [FFIType.ptr, FFIType.u32], returns: FFIType.i32 },
-    AddVectoredContinueHandler: { args: [FFIType.u32, FFIType.u32], returns: FFIType.ptr },
-    AddVectoredExceptionHandler: { args: [FFIType.u32, FFIType.u32], returns: FFIType.ptr },
+    AddResourceAttributeAce: { args: [FFIType.ptr, FFIType.u32, FFIType.u32, FFIType.u32, FFIType.ptr, FFIType.ptr, FFIType.ptr], returns: FFIType.i32 },
+    AddScopedPolicyIDAce: { args: [FFIType.ptr, FFIType.u32, FFIType.u32, FFIType.u32, FFIType.ptr], returns: FFIType.i32 },
+    AddSecureMemoryCacheCallback: { args: [FFIType.ptr], returns: FFIType.i32 },
+    AddSIDToBoundaryDescriptor: { args: [FFIType.ptr, FFIType.ptr], returns: FFIType.i32 },
+    AddVectoredContinueHandler: { args: [FFIType.u32, FFIType.ptr], returns: FFIType.ptr },
+    AddVectoredExceptionHandler: { args: [FFIType.u32, FFIType.ptr], returns: FFIType.ptr },
     AdjustCalendarDate: { args: [FFIType.ptr, FFIType.u32, FFIType.i32], returns: FFIType.i32 },
     AllocateUserPhysicalPages: { args: [FFIType.ptr, FFIType.ptr, FFIType.ptr], returns: FFIType.i32 },
     AllocateUserPhysicalPagesNuma: { args: [FFIType.ptr, FFIType.ptr, FFIType.ptr, FFIType.u32], returns: FFIType.i32 },
@@ -215,56 +581,56 @@ class Kernel32 {
     BackupSeek: { args: [FFIType.ptr, FFIType.u32, FFIType.u32, FFIType.ptr, FFIType.ptr, FFIType.ptr], returns: FFIType.i32 },
     BackupWrite: { args: [FFIType.ptr, FFIType.ptr, FFIType.u32, FFIType.ptr, FFIType.i32, FFIType.i32, FFIType.ptr], returns: FFIType.i32 },
     Beep: { args: [FFIType.u32, FFIType.u32], returns: FFIType.i32 },
-    BeginUpdateResourceA: { args: [FFIType.u32, FFIType.i32], returns: FFIType.ptr },
+    BeginUpdateResourceA: { args: [FFIType.ptr, FFIType.i32], returns: FFIType.ptr },
     BeginUpdateResourceW: { args: [FFIType.ptr, FFIType.i32], returns: FFIType.ptr },
-    BindIoCompletionCallback: { args: [FFIType.ptr, FFIType.u32, FFIType.u32], returns: FFIType.i32 },
-    BuildCommDCBA: { args: [FFIType.u32, FFIType.ptr], returns: FFIType.i32 },
-    BuildCommDCBAndTimeoutsA: { args: [FFIType.u32, FFIType.ptr, FFIType.ptr], returns: FFIType.i32 },
+    BindIoCompletionCallback: { args: [FFIType.ptr, FFIType.ptr, FFIType.u32], returns: FFIType.i32 },
+    BuildCommDCBA: { args: [FFIType.ptr, FFIType.ptr], returns: FFIType.i32 },
+    BuildCommDCBAndTimeoutsA: { args: [FFIType.ptr, FFIType.ptr, FFIType.ptr], returns: FFIType.i32 },
     BuildCommDCBAndTimeoutsW: { args: [FFIType.ptr, FFIType.ptr, FFIType.ptr], returns: FFIType.i32 },
     BuildCommDCBW: { args: [FFIType.ptr, FFIType.ptr], returns: FFIType.i32 },
     BuildIoRingFlushFile: { args: [FFIType.u32, FFIType.u32, FFIType.u32, FFIType.ptr, FFIType.u32], returns: FFIType.u32 },
     BuildIoRingReadFileScatter: { args: [FFIType.u32, FFIType.u32, FFIType.u32, FFIType.ptr, FFIType.u32, FFIType.u64, FFIType.ptr, FFIType.u32], returns: FFIType.u32 },
     BuildIoRingWriteFile: { args: [FFIType.u32, FFIType.u32, FFIType.u32, FFIType.u32, FFIType.u64, FFIType.u32, FFIType.ptr, FFIType.u32], returns: FFIType.u32 },
     BuildIoRingWriteFileGather: { args: [FFIType.u32, FFIType.u32, FFIType.u32, FFIType.ptr, FFIType.u32, FFIType.u64, FFIType.u32, FFIType.ptr, FFIType.u32], returns: FFIType.u32 },
-    CallbackMayRunLong: { args: [FFIType.u32], returns: FFIType.i32 },
-    CallNamedPipeA: { args: [FFIType.u32, FFIType.ptr, FFIType.u32, FFIType.ptr, FFIType.u32, FFIType.ptr, FFIType.u32], returns: FFIType.i32 },
+    CallbackMayRunLong: { args: [FFIType.ptr], returns: FFIType.i32 },
+    CallNamedPipeA: { args: [FFIType.ptr, FFIType.ptr, FFIType.u32, FFIType.ptr, FFIType.u32, FFIType.ptr, FFIType.u32], returns: FFIType.i32 },
     CallNamedPipeW: { args: [FFIType.ptr, FFIType.ptr, FFIType.u32, FFIType.ptr, FFIType.u32, FFIType.ptr, FFIType.u32], returns: FFIType.i32 },
     CancelDeviceWakeupRequest: { args: [FFIType.ptr], returns: FFIType.i32 },
     CancelIo: { args: [FFIType.ptr], returns: FFIType.i32 },
     CancelIoEx: { args: [FFIType.ptr, FFIType.ptr], returns: FFIType.i32 },
     CancelSynchronousIo: { args: [FFIType.ptr], returns: FFIType.i32 },
-    CancelThreadpoolIo: { args: [FFIType.u32], returns: FFIType.void },
+    CancelThreadpoolIo: { args: [FFIType.ptr], returns: FFIType.void },
     CancelTimerQueueTimer: { args: [FFIType.ptr, FFIType.ptr], returns: FFIType.i32 },
     CancelWaitableTimer: { args: [FFIType.ptr], returns: FFIType.i32 },
     CeipIsOptedIn: { args: [], returns: FFIType.i32 },
     ChangeTimerQueueTimer: { args: [FFIType.ptr, FFIType.ptr, FFIType.u32, FFIType.u32], returns: FFIType.i32 },
     // CheckIsMSIXPackage: { args: [FFIType.ptr, FFIType.ptr], returns: FFIType.u32 },
-    CheckNameLegalDOS8Dot3A: { args: [FFIType.u32, FFIType.u32, FFIType.u32, FFIType.ptr, FFIType.ptr], returns: FFIType.i32 },
-    CheckNameLegalDOS8Dot3W: { args: [FFIType.ptr, FFIType.u32, FFIType.u32, FFIType.ptr, FFIType.ptr], returns: FFIType.i32 },
+    CheckNameLegalDOS8Dot3A: { args: [FFIType.ptr, FFIType.ptr, FFIType.u32, FFIType.ptr, FFIType.ptr], returns: FFIType.i32 },
+    CheckNameLegalDOS8Dot3W: { args: [FFIType.ptr, FFIType.ptr, FFIType.u32, FFIType.ptr, FFIType.ptr], returns: FFIType.i32 },
     CheckRemoteDebuggerPresent: { args: [FFIType.ptr, FFIType.ptr], returns: FFIType.i32 },
-    CheckTokenCapability: { args: [FFIType.ptr, FFIType.u32, FFIType.ptr], returns: FFIType.i32 },
-    CheckTokenMembershipEx: { args: [FFIType.ptr, FFIType.u32, FFIType.u32, FFIType.ptr], returns: FFIType.i32 },
+    CheckTokenCapability: { args: [FFIType.ptr, FFIType.ptr, FFIType.ptr], returns: FFIType.i32 },
+    CheckTokenMembershipEx: { args: [FFIType.ptr, FFIType.ptr, FFIType.u32, FFIType.ptr], returns: FFIType.i32 },
     ClearCommBreak: { args: [FFIType.ptr], returns: FFIType.i32 },
     ClearCommError: { args: [FFIType.ptr, FFIType.ptr, FFIType.ptr], returns: FFIType.i32 },
     CloseConsoleHandle: { args: [FFIType.ptr], returns: FFIType.i32 },
     CloseHandle: { args: [FFIType.ptr], returns: FFIType.i32 },
     ClosePackageInfo: { args: [FFIType.ptr], returns: FFIType.u32 },
     ClosePrivateNamespace: { args: [FFIType.ptr, FFIType.u32], returns: FFIType.u32 },
-    ClosePseudoConsole: { args: [FFIType.u32], returns: FFIType.void },
-    CloseThreadpool: { args: [FFIType.u32], returns: FFIType.void },
-    CloseThreadpoolCleanupGroup: { args: [FFIType.u32], returns: FFIType.void },
-    CloseThreadpoolCleanupGroupMembers: { args: [FFIType.u32, FFIType.i32, FFIType.ptr], returns: FFIType.void },
-    CloseThreadpoolIo: { args: [FFIType.u32], returns: FFIType.void },
-    CloseThreadpoolTimer: { args: [FFIType.u32], returns: FFIType.void },
-    CloseThreadpoolWait: { args: [FFIType.u32], returns: FFIType.void },
-    CloseThreadpoolWork: { args: [FFIType.u32], returns: FFIType.void },
-    CommConfigDialogA: { args: [FFIType.u32, FFIType.u32, FFIType.ptr], returns: FFIType.i32 },
-    CommConfigDialogW: { args: [FFIType.ptr, FFIType.u32, FFIType.ptr], returns: FFIType.i32 },
+    ClosePseudoConsole: { args: [FFIType.ptr], returns: FFIType.void },
+    CloseThreadpool: { args: [FFIType.ptr], returns: FFIType.void },
+    CloseThreadpoolCleanupGroup: { args: [FFIType.ptr], returns: FFIType.void },
+    CloseThreadpoolCleanupGroupMembers: { args: [FFIType.ptr, FFIType.i32, FFIType.ptr], returns: FFIType.void },
+    CloseThreadpoolIo: { args: [FFIType.ptr], returns: FFIType.void },
+    CloseThreadpoolTimer: { args: [FFIType.ptr], returns: FFIType.void },
+    CloseThreadpoolWait: { args: [FFIType.ptr], returns: FFIType.void },
+    CloseThreadpoolWork: { args: [FFIType.ptr], returns: FFIType.void },
+    CommConfigDialogA: { args: [FFIType.ptr, FFIType.ptr, FFIType.ptr], returns: FFIType.i32 },
+    CommConfigDialogW: { args: [FFIType.ptr, FFIType.ptr, FFIType.ptr], returns: FFIType.i32 },
     CompareFileTime: { args: [FFIType.ptr, FFIType.ptr], returns: FFIType.i32 },
-    CompareStringA: { args: [FFIType.u32, FFIType.u32, FFIType.ptr, FFIType.i32, FFIType.ptr, FFIType.i32], returns: FFIType.u32 },
-    CompareStringEx: { args: [FFIType.ptr, FFIType.u32, FFIType.ptr, FFIType.i32, FFIType.ptr, FFIType.i32, FFIType.ptr, FFIType.ptr, FFIType.u32], returns: FFIType.u32 },
-    CompareStringOrdinal: { args: [FFIType.ptr, FFIType.i32, FFIType.ptr, FFIType.i32, FFIType.i32], returns: FFIType.u32 },
-    CompareStringW: { args: [FFIType.u32, FFIType.u32, FFIType.ptr, FFIType.i32, FFIType.ptr, FFIType.i32], returns: FFIType.u32 },
+    CompareStringA: { args: [FFIType.u32, FFIType.u32, FFIType.ptr, FFIType.i32, FFIType.ptr, FFIType.i32], returns: FFIType.i32 },
+    CompareStringEx: { args: [FFIType.ptr, FFIType.u32, FFIType.ptr, FFIType.i32, FFIType.ptr, FFIType.i32, FFIType.ptr, FFIType.ptr, FFIType.i64], returns: FFIType.i32 },
+    CompareStringOrdinal: { args: [FFIType.ptr, FFIType.i32, FFIType.ptr, FFIType.i32, FFIType.i32], returns: FFIType.i32 },
+    CompareStringW: { args: [FFIType.u32, FFIType.u32, FFIType.ptr, FFIType.i32, FFIType.ptr, FFIType.i32], returns: FFIType.i32 },
     ConnectNamedPipe: { args: [FFIType.ptr, FFIType.ptr], returns: FFIType.i32 },
     ConsoleMenuControl: { args: [FFIType.ptr, FFIType.u32, FFIType.u32], returns: FFIType.u32 },
     ContinueDebugEvent: { args: [FFIType.u32, FFIType.u32, FFIType.u32], returns: FFIType.i32 },
@@ -276,96 +642,96 @@ class Kernel32 {
     ConvertThreadToFiberEx: { args: [FFIType.ptr, FFIType.u32], returns: FFIType.ptr },
     CopyContext: { args: [FFIType.ptr, FFIType.u32, FFIType.ptr], returns: FFIType.i32 },
     CopyFile2: { args: [FFIType.ptr, FFIType.ptr, FFIType.ptr], returns: FFIType.u32 },
-    CopyFileA: { args: [FFIType.u32, FFIType.u32, FFIType.i32], returns: FFIType.i32 },
-    CopyFileExA: { args: [FFIType.u32, FFIType.u32, FFIType.u32, FFIType.ptr, FFIType.ptr, FFIType.u32], returns: FFIType.i32 },
-    CopyFileExW: { args: [FFIType.ptr, FFIType.ptr, FFIType.u32, FFIType.ptr, FFIType.ptr, FFIType.u32], returns: FFIType.i32 },
-    CopyFileTransactedA: { args: [FFIType.u32, FFIType.u32, FFIType.u32, FFIType.ptr, FFIType.ptr, FFIType.u32, FFIType.ptr], returns: FFIType.i32 },
-    CopyFileTransactedW: { args: [FFIType.ptr, FFIType.ptr, FFIType.u32, FFIType.ptr, FFIType.ptr, FFIType.u32, FFIType.ptr], returns: FFIType.i32 },
+    CopyFileA: { args: [FFIType.ptr, FFIType.ptr, FFIType.i32], returns: FFIType.i32 },
+    CopyFileExA: { args: [FFIType.ptr, FFIType.ptr, FFIType.ptr, FFIType.ptr, FFIType.ptr, FFIType.u32], returns: FFIType.i32 },
+    CopyFileExW: { args: [FFIType.ptr, FFIType.ptr, FFIType.ptr, FFIType.ptr, FFIType.ptr, FFIType.u32], returns: FFIType.i32 },
+    CopyFileTransactedA: { args: [FFIType.ptr, FFIType.ptr, FFIType.ptr, FFIType.ptr, FFIType.ptr, FFIType.u32, FFIType.ptr], returns: FFIType.i32 },
+    CopyFileTransactedW: { args: [FFIType.ptr, FFIType.ptr, FFIType.ptr, FFIType.ptr, FFIType.ptr, FFIType.u32, FFIType.ptr], returns: FFIType.i32 },
     CopyFileW: { args: [FFIType.ptr, FFIType.ptr, FFIType.i32], returns: FFIType.i32 },
     CopyLZFile: { args: [FFIType.i32, FFIType.i32], returns: FFIType.i32 },
     CreateActCtxA: { args: [FFIType.ptr], returns: FFIType.ptr },
     CreateActCtxW: { args: [FFIType.ptr], returns: FFIType.ptr },
-    CreateBoundaryDescriptorA: { args: [FFIType.u32, FFIType.u32], returns: FFIType.ptr },
+    CreateBoundaryDescriptorA: { args: [FFIType.ptr, FFIType.u32], returns: FFIType.ptr },
     CreateBoundaryDescriptorW: { args: [FFIType.ptr, FFIType.u32], returns: FFIType.ptr },
     CreateConsoleScreenBuffer: { args: [FFIType.u32, FFIType.u32, FFIType.ptr, FFIType.u32, FFIType.ptr], returns: FFIType.ptr },
-    CreateDirectory2A: { args: [FFIType.u32, FFIType.u32, FFIType.u32, FFIType.u32, FFIType.ptr], returns: FFIType.ptr },
+    CreateDirectory2A: { args: [FFIType.ptr, FFIType.u32, FFIType.u32, FFIType.u32, FFIType.ptr], returns: FFIType.ptr },
     CreateDirectory2W: { args: [FFIType.ptr, FFIType.u32, FFIType.u32, FFIType.u32, FFIType.ptr], returns: FFIType.ptr },
-    CreateDirectoryA: { args: [FFIType.u32, FFIType.ptr], returns: FFIType.i32 },
-    CreateDirectoryExA: { args: [FFIType.u32, FFIType.u32, FFIType.ptr], returns: FFIType.i32 },
+    CreateDirectoryA: { args: [FFIType.ptr, FFIType.ptr], returns: FFIType.i32 },
+    CreateDirectoryExA: { args: [FFIType.ptr, FFIType.ptr, FFIType.ptr], returns: FFIType.i32 },
     CreateDirectoryExW: { args: [FFIType.ptr, FFIType.ptr, FFIType.ptr], returns: FFIType.i32 },
-    CreateDirectoryTransactedA: { args: [FFIType.u32, FFIType.u32, FFIType.ptr, FFIType.ptr], returns: FFIType.i32 },
+    CreateDirectoryTransactedA: { args: [FFIType.ptr, FFIType.ptr, FFIType.ptr, FFIType.ptr], returns: FFIType.i32 },
     CreateDirectoryTransactedW: { args: [FFIType.ptr, FFIType.ptr, FFIType.ptr, FFIType.ptr], returns: FFIType.i32 },
     CreateDirectoryW: { args: [FFIType.ptr, FFIType.ptr], returns: FFIType.i32 },
-    CreateEnclave: { args: [FFIType.ptr, FFIType.ptr, FFIType.ptr, FFIType.ptr, FFIType.u32, FFIType.ptr, FFIType.u32, FFIType.ptr], returns: FFIType.ptr },
-    CreateEventA: { args: [FFIType.ptr, FFIType.i32, FFIType.i32, FFIType.u32], returns: FFIType.ptr },
-    CreateEventExA: { args: [FFIType.ptr, FFIType.u32, FFIType.u32, FFIType.u32], returns: FFIType.ptr },
+    CreateEnclave: { args: [FFIType.ptr, FFIType.ptr, FFIType.u64, FFIType.u64, FFIType.u32, FFIType.ptr, FFIType.u32, FFIType.ptr], returns: FFIType.ptr },
+    CreateEventA: { args: [FFIType.ptr, FFIType.i32, FFIType.i32, FFIType.ptr], returns: FFIType.ptr },
+    CreateEventExA: { args: [FFIType.ptr, FFIType.ptr, FFIType.u32, FFIType.u32], returns: FFIType.ptr },
     CreateEventExW: { args: [FFIType.ptr, FFIType.ptr, FFIType.u32, FFIType.u32], returns: FFIType.ptr },
     CreateEventW: { args: [FFIType.ptr, FFIType.i32, FFIType.i32, FFIType.ptr], returns: FFIType.ptr },
-    CreateFiber: { args: [FFIType.ptr, FFIType.u32, FFIType.ptr], returns: FFIType.ptr },
-    CreateFiberEx: { args: [FFIType.ptr, FFIType.ptr, FFIType.u32, FFIType.u32, FFIType.ptr], returns: FFIType.ptr },
+    CreateFiber: { args: [FFIType.u64, FFIType.ptr, FFIType.ptr], returns: FFIType.ptr },
+    CreateFiberEx: { args: [FFIType.u64, FFIType.u64, FFIType.u32, FFIType.ptr, FFIType.ptr], returns: FFIType.ptr },
     CreateFile2: { args: [FFIType.ptr, FFIType.u32, FFIType.u32, FFIType.u32, FFIType.ptr], returns: FFIType.ptr },
     CreateFile3: { args: [FFIType.ptr, FFIType.u32, FFIType.u32, FFIType.u32, FFIType.ptr], returns: FFIType.ptr },
-    CreateFileA: { args: [FFIType.u32, FFIType.u32, FFIType.u32, FFIType.ptr, FFIType.u32, FFIType.u32, FFIType.ptr], returns: FFIType.ptr },
-    CreateFileMappingA: { args: [FFIType.ptr, FFIType.ptr, FFIType.u32, FFIType.u32, FFIType.u32, FFIType.u32], returns: FFIType.ptr },
+    CreateFileA: { args: [FFIType.ptr, FFIType.u32, FFIType.u32, FFIType.ptr, FFIType.u32, FFIType.u32, FFIType.ptr], returns: FFIType.ptr },
+    CreateFileMappingA: { args: [FFIType.ptr, FFIType.ptr, FFIType.u32, FFIType.u32, FFIType.u32, FFIType.ptr], returns: FFIType.ptr },
     CreateFileMappingFromApp: { args: [FFIType.ptr, FFIType.ptr, FFIType.u32, FFIType.u64, FFIType.ptr], returns: FFIType.ptr },
-    CreateFileMappingNumaA: { args: [FFIType.ptr, FFIType.ptr, FFIType.u32, FFIType.u32, FFIType.u32, FFIType.u32, FFIType.u32], returns: FFIType.ptr },
+    CreateFileMappingNumaA: { args: [FFIType.ptr, FFIType.ptr, FFIType.u32, FFIType.u32, FFIType.u32, FFIType.ptr, FFIType.u32], returns: FFIType.ptr },
     CreateFileMappingNumaW: { args: [FFIType.ptr, FFIType.ptr, FFIType.u32, FFIType.u32, FFIType.u32, FFIType.ptr, FFIType.u32], returns: FFIType.ptr },
     CreateFileMappingW: { args: [FFIType.ptr, FFIType.ptr, FFIType.u32, FFIType.u32, FFIType.u32, FFIType.ptr], returns: FFIType.ptr },
-    CreateFileTransactedA: { args: [FFIType.u32, FFIType.u32, FFIType.u32, FFIType.ptr, FFIType.u32, FFIType.u32, FFIType.ptr, FFIType.ptr, FFIType.ptr, FFIType.ptr], returns: FFIType.ptr },
+    CreateFileTransactedA: { args: [FFIType.ptr, FFIType.u32, FFIType.u32, FFIType.ptr, FFIType.u32, FFIType.u32, FFIType.ptr, FFIType.ptr, FFIType.ptr, FFIType.ptr], returns: FFIType.ptr },
     CreateFileTransactedW: { args: [FFIType.ptr, FFIType.u32, FFIType.u32, FFIType.ptr, FFIType.u32, FFIType.u32, FFIType.ptr, FFIType.ptr, FFIType.ptr, FFIType.ptr], returns: FFIType.ptr },
     CreateFileW: { args: [FFIType.ptr, FFIType.u32, FFIType.u32, FFIType.ptr, FFIType.u32, FFIType.u32, FFIType.ptr], returns: FFIType.ptr },
-    CreateHardLinkA: { args: [FFIType.u32, FFIType.u32, FFIType.ptr], returns: FFIType.i32 },
-    CreateHardLinkTransactedA: { args: [FFIType.u32, FFIType.u32, FFIType.ptr, FFIType.ptr], returns: FFIType.i32 },
+    CreateHardLinkA: { args: [FFIType.ptr, FFIType.ptr, FFIType.ptr], returns: FFIType.i32 },
+    CreateHardLinkTransactedA: { args: [FFIType.ptr, FFIType.ptr, FFIType.ptr, FFIType.ptr], returns: FFIType.i32 },
     CreateHardLinkTransactedW: { args: [FFIType.ptr, FFIType.ptr, FFIType.ptr, FFIType.ptr], returns: FFIType.i32 },
     CreateHardLinkW: { args: [FFIType.ptr, FFIType.ptr, FFIType.ptr], returns: FFIType.i32 },
-    CreateIoCompletionPort: { args: [FFIType.ptr, FFIType.ptr, FFIType.ptr, FFIType.u32], returns: FFIType.ptr },
-    CreateJobObjectA: { args: [FFIType.ptr, FFIType.u32], returns: FFIType.ptr },
+    CreateIoCompletionPort: { args: [FFIType.ptr, FFIType.ptr, FFIType.u64, FFIType.u32], returns: FFIType.ptr },
+    CreateJobObjectA: { args: [FFIType.ptr, FFIType.ptr], returns: FFIType.ptr },
     CreateJobObjectW: { args: [FFIType.ptr, FFIType.ptr], returns: FFIType.ptr },
     CreateJobSet: { args: [FFIType.u32, FFIType.ptr, FFIType.u32], returns: FFIType.i32 },
-    CreateMailslotA: { args: [FFIType.u32, FFIType.u32, FFIType.u32, FFIType.ptr], returns: FFIType.ptr },
+    CreateMailslotA: { args: [FFIType.ptr, FFIType.u32, FFIType.u32, FFIType.ptr], returns: FFIType.ptr },
     CreateMailslotW: { args: [FFIType.ptr, FFIType.u32, FFIType.u32, FFIType.ptr], returns: FFIType.ptr },
     CreateMemoryResourceNotification: { args: [FFIType.u32], returns: FFIType.ptr },
-    CreateMutexA: { args: [FFIType.ptr, FFIType.i32, FFIType.u32], returns: FFIType.ptr },
-    CreateMutexExA: { args: [FFIType.ptr, FFIType.u32, FFIType.u32, FFIType.u32], returns: FFIType.ptr },
+    CreateMutexA: { args: [FFIType.ptr, FFIType.i32, FFIType.ptr], returns: FFIType.ptr },
+    CreateMutexExA: { args: [FFIType.ptr, FFIType.ptr, FFIType.u32, FFIType.u32], returns: FFIType.ptr },
     CreateMutexExW: { args: [FFIType.ptr, FFIType.ptr, FFIType.u32, FFIType.u32], returns: FFIType.ptr },
     CreateMutexW: { args: [FFIType.ptr, FFIType.i32, FFIType.ptr], returns: FFIType.ptr },
-    CreateNamedPipeA: { args: [FFIType.u32, FFIType.u32, FFIType.u32, FFIType.u32, FFIType.u32, FFIType.u32, FFIType.u32, FFIType.ptr], returns: FFIType.ptr },
+    CreateNamedPipeA: { args: [FFIType.ptr, FFIType.u32, FFIType.u32, FFIType.u32, FFIType.u32, FFIType.u32, FFIType.u32, FFIType.ptr], returns: FFIType.ptr },
     CreateNamedPipeW: { args: [FFIType.ptr, FFIType.u32, FFIType.u32, FFIType.u32, FFIType.u32, FFIType.u32, FFIType.u32, FFIType.ptr], returns: FFIType.ptr },
     CreatePackageVirtualizationContext: { args: [FFIType.ptr, FFIType.ptr], returns: FFIType.u32 },
     CreatePipe: { args: [FFIType.ptr, FFIType.ptr, FFIType.ptr, FFIType.u32], returns: FFIType.i32 },
-    CreatePrivateNamespaceA: { args: [FFIType.ptr, FFIType.ptr, FFIType.u32], returns: FFIType.ptr },
+    CreatePrivateNamespaceA: { args: [FFIType.ptr, FFIType.ptr, FFIType.ptr], returns: FFIType.ptr },
     CreatePrivateNamespaceW: { args: [FFIType.ptr, FFIType.ptr, FFIType.ptr], returns: FFIType.ptr },
-    CreateProcessA: { args: [FFIType.u32, FFIType.u32, FFIType.ptr, FFIType.ptr, FFIType.i32, FFIType.u32, FFIType.ptr, FFIType.u32, FFIType.ptr, FFIType.ptr], returns: FFIType.i32 },
+    CreateProcessA: { args: [FFIType.ptr, FFIType.ptr, FFIType.ptr, FFIType.ptr, FFIType.i32, FFIType.u32, FFIType.ptr, FFIType.ptr, FFIType.ptr, FFIType.ptr], returns: FFIType.i32 },
     CreateProcessW: { args: [FFIType.ptr, FFIType.ptr, FFIType.ptr, FFIType.ptr, FFIType.i32, FFIType.u32, FFIType.ptr, FFIType.ptr, FFIType.ptr, FFIType.ptr], returns: FFIType.i32 },
-    CreatePseudoConsole: { args: [FFIType.u32, FFIType.ptr, FFIType.ptr, FFIType.u32, FFIType.ptr], returns: FFIType.u32 },
-    CreateRemoteThread: { args: [FFIType.ptr, FFIType.ptr, FFIType.ptr, FFIType.u32, FFIType.ptr, FFIType.u32, FFIType.ptr], returns: FFIType.ptr },
-    CreateRemoteThreadEx: { args: [FFIType.ptr, FFIType.ptr, FFIType.ptr, FFIType.u32, FFIType.ptr, FFIType.u32, FFIType.u32, FFIType.ptr], returns: FFIType.ptr },
-    CreateSemaphoreA: { args: [FFIType.ptr, FFIType.i32, FFIType.i32, FFIType.u32], returns: FFIType.ptr },
-    CreateSemaphoreExA: { args: [FFIType.ptr, FFIType.i32, FFIType.i32, FFIType.u32, FFIType.u32, FFIType.u32], returns: FFIType.ptr },
+    CreatePseudoConsole: { args: [FFIType.u32, FFIType.ptr, FFIType.ptr, FFIType.u32, FFIType.ptr], returns: FFIType.i32 },
+    CreateRemoteThread: { args: [FFIType.ptr, FFIType.ptr, FFIType.u64, FFIType.ptr, FFIType.ptr, FFIType.u32, FFIType.ptr], returns: FFIType.ptr },
+    CreateRemoteThreadEx: { args: [FFIType.ptr, FFIType.ptr, FFIType.u64, FFIType.ptr, FFIType.ptr, FFIType.u32, FFIType.ptr, FFIType.ptr], returns: FFIType.ptr },
+    CreateSemaphoreA: { args: [FFIType.ptr, FFIType.i32, FFIType.i32, FFIType.ptr], returns: FFIType.ptr },
+    CreateSemaphoreExA: { args: [FFIType.ptr, FFIType.i32, FFIType.i32, FFIType.ptr, FFIType.u32, FFIType.u32], returns: FFIType.ptr },
     CreateSemaphoreExW: { args: [FFIType.ptr, FFIType.i32, FFIType.i32, FFIType.ptr, FFIType.u32, FFIType.u32], returns: FFIType.ptr },
     CreateSemaphoreW: { args: [FFIType.ptr, FFIType.i32, FFIType.i32, FFIType.ptr], returns: FFIType.ptr },
-    CreateSymbolicLinkA: { args: [FFIType.u32, FFIType.u32, FFIType.u32], returns: FFIType.u32 },
-    CreateSymbolicLinkTransactedA: { args: [FFIType.u32, FFIType.u32, FFIType.u32, FFIType.ptr], returns: FFIType.u32 },
-    CreateSymbolicLinkTransactedW: { args: [FFIType.ptr, FFIType.ptr, FFIType.u32, FFIType.ptr], returns: FFIType.u32 },
-    CreateSymbolicLinkW: { args: [FFIType.ptr, FFIType.ptr, FFIType.u32], returns: FFIType.u32 },
+    CreateSymbolicLinkA: { args: [FFIType.ptr, FFIType.ptr, FFIType.u32], returns: FFIType.u8 },
+    CreateSymbolicLinkTransactedA: { args: [FFIType.ptr, FFIType.ptr, FFIType.u32, FFIType.ptr], returns: FFIType.u8 },
+    CreateSymbolicLinkTransactedW: { args: [FFIType.ptr, FFIType.ptr, FFIType.u32, FFIType.ptr], returns: FFIType.u8 },
+    CreateSymbolicLinkW: { args: [FFIType.ptr, FFIType.ptr, FFIType.u32], returns: FFIType.u8 },
     CreateTapePartition: { args: [FFIType.ptr, FFIType.u32, FFIType.u32, FFIType.u32], returns: FFIType.u32 },
-    CreateThread: { args: [FFIType.ptr, FFIType.ptr, FFIType.u32, FFIType.ptr, FFIType.u32, FFIType.ptr], returns: FFIType.ptr },
-    CreateThreadpool: { args: [FFIType.ptr], returns: FFIType.u32 },
-    CreateThreadpoolCleanupGroup: { args: [], returns: FFIType.u32 },
-    CreateThreadpoolIo: { args: [FFIType.ptr, FFIType.u32, FFIType.ptr, FFIType.ptr], returns: FFIType.u32 },
-    CreateThreadpoolTimer: { args: [FFIType.u32, FFIType.ptr, FFIType.ptr], returns: FFIType.u32 },
-    CreateThreadpoolWait: { args: [FFIType.u32, FFIType.ptr, FFIType.ptr], returns: FFIType.u32 },
-    CreateThreadpoolWork: { args: [FFIType.u32, FFIType.ptr, FFIType.ptr], returns: FFIType.u32 },
+    CreateThread: { args: [FFIType.ptr, FFIType.u64, FFIType.ptr, FFIType.ptr, FFIType.u32, FFIType.ptr], returns: FFIType.ptr },
+    CreateThreadpool: { args: [FFIType.ptr], returns: FFIType.ptr },
+    CreateThreadpoolCleanupGroup: { args: [], returns: FFIType.ptr },
+    CreateThreadpoolIo: { args: [FFIType.ptr, FFIType.ptr, FFIType.ptr, FFIType.ptr], returns: FFIType.ptr },
+    CreateThreadpoolTimer: { args: [FFIType.ptr, FFIType.ptr, FFIType.ptr], returns: FFIType.ptr },
+    CreateThreadpoolWait: { args: [FFIType.ptr, FFIType.ptr, FFIType.ptr], returns: FFIType.ptr },
+    CreateThreadpoolWork: { args: [FFIType.ptr, FFIType.ptr, FFIType.ptr], returns: FFIType.ptr },
     CreateTimerQueue: { args: [], returns: FFIType.ptr },
-    CreateTimerQueueTimer: { args: [FFIType.ptr, FFIType.ptr, FFIType.u32, FFIType.ptr, FFIType.u32, FFIType.u32, FFIType.u32], returns: FFIType.i32 },
+    CreateTimerQueueTimer: { args: [FFIType.ptr, FFIType.ptr, FFIType.ptr, FFIType.ptr, FFIType.u32, FFIType.u32, FFIType.u32], returns: FFIType.i32 },
     CreateToolhelp32Snapshot: { args: [FFIType.u32, FFIType.u32], returns: FFIType.ptr },
     CreateUmsCompletionList: { args: [FFIType.ptr], returns: FFIType.i32 },
     CreateUmsThreadContext: { args: [FFIType.ptr], returns: FFIType.i32 },
-    CreateWaitableTimerA: { args: [FFIType.ptr, FFIType.i32, FFIType.u32], returns: FFIType.ptr },
-    CreateWaitableTimerExA: { args: [FFIType.ptr, FFIType.u32, FFIType.u32, FFIType.u32], returns: FFIType.ptr },
+    CreateWaitableTimerA: { args: [FFIType.ptr, FFIType.i32, FFIType.ptr], returns: FFIType.ptr },
+    CreateWaitableTimerExA: { args: [FFIType.ptr, FFIType.ptr, FFIType.u32, FFIType.u32], returns: FFIType.ptr },
     CreateWaitableTimerExW: { args: [FFIType.ptr, FFIType.ptr, FFIType.u32, FFIType.u32], returns: FFIType.ptr },
     CreateWaitableTimerW: { args: [FFIType.ptr, FFIType.i32, FFIType.ptr], returns: FFIType.ptr },
-    DeactivateActCtx: { args: [FFIType.u32, FFIType.ptr], returns: FFIType.i32 },
+    DeactivateActCtx: { args: [FFIType.u32, FFIType.u64], returns: FFIType.i32 },
     DeactivatePackageVirtualizationContext: { args: [FFIType.ptr], returns: FFIType.void },
     DebugActiveProcess: { args: [FFIType.u32], returns: FFIType.i32 },
     DebugActiveProcessStop: { args: [FFIType.u32], returns: FFIType.i32 },
@@ -374,41 +740,41 @@ class Kernel32 {
     DebugSetProcessKillOnExit: { args: [FFIType.i32], returns: FFIType.i32 },
     DecodePointer: { args: [FFIType.ptr], returns: FFIType.ptr },
     DecodeSystemPointer: { args: [FFIType.ptr], returns: FFIType.ptr },
-    DefineDosDeviceA: { args: [FFIType.u32, FFIType.u32, FFIType.u32], returns: FFIType.i32 },
+    DefineDosDeviceA: { args: [FFIType.u32, FFIType.ptr, FFIType.ptr], returns: FFIType.i32 },
     DefineDosDeviceW: { args: [FFIType.u32, FFIType.ptr, FFIType.ptr], returns: FFIType.i32 },
     DeleteAtom: { args: [FFIType.u16], returns: FFIType.u16 },
     DeleteBoundaryDescriptor: { args: [FFIType.ptr], returns: FFIType.void },
     DeleteCriticalSection: { args: [FFIType.ptr], returns: FFIType.void },
     DeleteFiber: { args: [FFIType.ptr], returns: FFIType.void },
-    DeleteFile2A: { args: [FFIType.u32, FFIType.u32], returns: FFIType.i32 },
+    DeleteFile2A: { args: [FFIType.ptr, FFIType.u32], returns: FFIType.i32 },
     DeleteFile2W: { args: [FFIType.ptr, FFIType.u32], returns: FFIType.i32 },
-    DeleteFileA: { args: [FFIType.u32], returns: FFIType.i32 },
-    DeleteFileTransactedA: { args: [FFIType.u32, FFIType.ptr], returns: FFIType.i32 },
+    DeleteFileA: { args: [FFIType.ptr], returns: FFIType.i32 },
+    DeleteFileTransactedA: { args: [FFIType.ptr, FFIType.ptr], returns: FFIType.i32 },
     DeleteFileTransactedW: { args: [FFIType.ptr, FFIType.ptr], returns: FFIType.i32 },
     DeleteFileW: { args: [FFIType.ptr], returns: FFIType.i32 },
-    DeleteProcThreadAttributeList: { args: [FFIType.u32], returns: FFIType.void },
+    DeleteProcThreadAttributeList: { args: [FFIType.ptr], returns: FFIType.void },
     DeleteSynchronizationBarrier: { args: [FFIType.ptr], returns: FFIType.i32 },
     DeleteTimerQueue: { args: [FFIType.ptr], returns: FFIType.i32 },
     DeleteTimerQueueEx: { args: [FFIType.ptr, FFIType.ptr], returns: FFIType.i32 },
     DeleteTimerQueueTimer: { args: [FFIType.ptr, FFIType.ptr, FFIType.ptr], returns: FFIType.i32 },
     DeleteUmsCompletionList: { args: [FFIType.ptr], returns: FFIType.i32 },
     DeleteUmsThreadContext: { args: [FFIType.ptr], returns: FFIType.i32 },
-    DeleteVolumeMountPointA: { args: [FFIType.u32], returns: FFIType.i32 },
+    DeleteVolumeMountPointA: { args: [FFIType.ptr], returns: FFIType.i32 },
     DeleteVolumeMountPointW: { args: [FFIType.ptr], returns: FFIType.i32 },
     DequeueUmsCompletionListItems: { args: [FFIType.ptr, FFIType.u32, FFIType.ptr], returns: FFIType.i32 },
     DeviceIoControl: { args: [FFIType.ptr, FFIType.u32, FFIType.ptr, FFIType.u32, FFIType.ptr, FFIType.u32, FFIType.ptr, FFIType.ptr], returns: FFIType.i32 },
-    DisableThreadLibraryCalls: { args: [FFIType.u32], returns: FFIType.i32 },
+    DisableThreadLibraryCalls: { args: [FFIType.ptr], returns: FFIType.i32 },
     DisableThreadProfiling: { args: [FFIType.ptr], returns: FFIType.u32 },
-    DisassociateCurrentThreadFromCallback: { args: [FFIType.u32], returns: FFIType.void },
-    DiscardVirtualMemory: { args: [FFIType.ptr, FFIType.ptr], returns: FFIType.u32 },
+    DisassociateCurrentThreadFromCallback: { args: [FFIType.ptr], returns: FFIType.void },
+    DiscardVirtualMemory: { args: [FFIType.ptr, FFIType.u64], returns: FFIType.u32 },
     DisconnectNamedPipe: { args: [FFIType.ptr], returns: FFIType.i32 },
-    DnsHostnameToComputerNameA: { args: [FFIType.u32, FFIType.u32, FFIType.ptr], returns: FFIType.i32 },
+    DnsHostnameToComputerNameA: { args: [FFIType.ptr, FFIType.ptr, FFIType.ptr], returns: FFIType.i32 },
     DnsHostnameToComputerNameExW: { args: [FFIType.ptr, FFIType.ptr, FFIType.ptr], returns: FFIType.i32 },
     DnsHostnameToComputerNameW: { args: [FFIType.ptr, FFIType.ptr, FFIType.ptr], returns: FFIType.i32 },
     DosDateTimeToFileTime: { args: [FFIType.u16, FFIType.u16, FFIType.ptr], returns: FFIType.i32 },
     DuplicateConsoleHandle: { args: [FFIType.ptr, FFIType.u32, FFIType.i32, FFIType.u32], returns: FFIType.ptr },
     DuplicateHandle: { args: [FFIType.ptr, FFIType.ptr, FFIType.ptr, FFIType.ptr, FFIType.u32, FFIType.i32, FFIType.u32], returns: FFIType.i32 },
-    DuplicatePackageVirtualizationContext: { args: [FFIType.u32, FFIType.ptr], returns: FFIType.u32 },
+    DuplicatePackageVirtualizationContext: { args: [FFIType.ptr, FFIType.ptr], returns: FFIType.u32 },
     EnableProcessOptionalXStateFeatures: { args: [FFIType.u64], returns: FFIType.i32 },
     EnableThreadProfiling: { args: [FFIType.ptr, FFIType.u32, FFIType.u64, FFIType.ptr], returns: FFIType.u32 },
     EncodePointer: { args: [FFIType.ptr], returns: FFIType.ptr },
@@ -418,55 +784,55 @@ class Kernel32 {
     EnterCriticalSection: { args: [FFIType.ptr], returns: FFIType.void },
     EnterSynchronizationBarrier: { args: [FFIType.ptr, FFIType.u32], returns: FFIType.i32 },
     EnterUmsSchedulingMode: { args: [FFIType.ptr], returns: FFIType.i32 },
-    EnumCalendarInfoA: { args: [FFIType.u32, FFIType.u32, FFIType.u32, FFIType.u32], returns: FFIType.i32 },
-    EnumCalendarInfoExA: { args: [FFIType.u32, FFIType.u32, FFIType.u32, FFIType.u32], returns: FFIType.i32 },
-    EnumCalendarInfoExEx: { args: [FFIType.u32, FFIType.ptr, FFIType.u32, FFIType.ptr, FFIType.u32, FFIType.u32], returns: FFIType.i32 },
-    EnumCalendarInfoExW: { args: [FFIType.u32, FFIType.u32, FFIType.u32, FFIType.u32], returns: FFIType.i32 },
-    EnumCalendarInfoW: { args: [FFIType.u32, FFIType.u32, FFIType.u32, FFIType.u32], returns: FFIType.i32 },
-    EnumDateFormatsA: { args: [FFIType.u32, FFIType.u32, FFIType.u32], returns: FFIType.i32 },
-    EnumDateFormatsExA: { args: [FFIType.u32, FFIType.u32, FFIType.u32], returns: FFIType.i32 },
-    EnumDateFormatsExEx: { args: [FFIType.u32, FFIType.ptr, FFIType.u32, FFIType.u32], returns: FFIType.i32 },
-    EnumDateFormatsExW: { args: [FFIType.u32, FFIType.u32, FFIType.u32], returns: FFIType.i32 },
-    EnumDateFormatsW: { args: [FFIType.u32, FFIType.u32, FFIType.u32], returns: FFIType.i32 },
-    EnumLanguageGroupLocalesA: { args: [FFIType.u32, FFIType.u32, FFIType.u32, FFIType.ptr], returns: FFIType.i32 },
-    EnumLanguageGroupLocalesW: { args: [FFIType.u32, FFIType.u32, FFIType.u32, FFIType.ptr], returns: FFIType.i32 },
-    EnumResourceLanguagesA: { args: [FFIType.u32, FFIType.u32, FFIType.u32, FFIType.u32, FFIType.ptr], returns: FFIType.i32 },
-    EnumResourceLanguagesExA: { args: [FFIType.u32, FFIType.u32, FFIType.u32, FFIType.u32, FFIType.ptr, FFIType.u32, FFIType.u16], returns: FFIType.i32 },
-    EnumResourceLanguagesExW: { args: [FFIType.u32, FFIType.ptr, FFIType.ptr, FFIType.u32, FFIType.ptr, FFIType.u32, FFIType.u16], returns: FFIType.i32 },
-    EnumResourceLanguagesW: { args: [FFIType.u32, FFIType.ptr, FFIType.ptr, FFIType.u32, FFIType.ptr], returns: FFIType.i32 },
-    EnumResourceNamesA: { args: [FFIType.u32, FFIType.u32, FFIType.u32, FFIType.ptr], returns: FFIType.i32 },
-    EnumResourceNamesExA: { args: [FFIType.u32, FFIType.u32, FFIType.u32, FFIType.ptr, FFIType.u32, FFIType.u16], returns: FFIType.i32 },
-    EnumResourceNamesExW: { args: [FFIType.u32, FFIType.ptr, FFIType.u32, FFIType.ptr, FFIType.u32, FFIType.u16], returns: FFIType.i32 },
-    EnumResourceNamesW: { args: [FFIType.u32, FFIType.ptr, FFIType.u32, FFIType.ptr], returns: FFIType.i32 },
-    EnumResourceTypesA: { args: [FFIType.u32, FFIType.u32, FFIType.ptr], returns: FFIType.i32 },
-    EnumResourceTypesExA: { args: [FFIType.u32, FFIType.u32, FFIType.ptr, FFIType.u32, FFIType.u16], returns: FFIType.i32 },
-    EnumResourceTypesExW: { args: [FFIType.u32, FFIType.u32, FFIType.ptr, FFIType.u32, FFIType.u16], returns: FFIType.i32 },
-    EnumResourceTypesW: { args: [FFIType.u32, FFIType.u32, FFIType.ptr], returns: FFIType.i32 },
-    EnumSystemCodePagesA: { args: [FFIType.u32, FFIType.u32], returns: FFIType.i32 },
-    EnumSystemCodePagesW: { args: [FFIType.u32, FFIType.u32], returns: FFIType.i32 },
+    EnumCalendarInfoA: { args: [FFIType.ptr, FFIType.u32, FFIType.u32, FFIType.u32], returns: FFIType.i32 },
+    EnumCalendarInfoExA: { args: [FFIType.ptr, FFIType.u32, FFIType.u32, FFIType.u32], returns: FFIType.i32 },
+    EnumCalendarInfoExEx: { args: [FFIType.ptr, FFIType.ptr, FFIType.u32, FFIType.ptr, FFIType.u32, FFIType.i64], returns: FFIType.i32 },
+    EnumCalendarInfoExW: { args: [FFIType.ptr, FFIType.u32, FFIType.u32, FFIType.u32], returns: FFIType.i32 },
+    EnumCalendarInfoW: { args: [FFIType.ptr, FFIType.u32, FFIType.u32, FFIType.u32], returns: FFIType.i32 },
+    EnumDateFormatsA: { args: [FFIType.ptr, FFIType.u32, FFIType.u32], returns: FFIType.i32 },
+    EnumDateFormatsExA: { args: [FFIType.ptr, FFIType.u32, FFIType.u32], returns: FFIType.i32 },
+    EnumDateFormatsExEx: { args: [FFIType.ptr, FFIType.ptr, FFIType.u32, FFIType.i64], returns: FFIType.i32 },
+    EnumDateFormatsExW: { args: [FFIType.ptr, FFIType.u32, FFIType.u32], returns: FFIType.i32 },
+    EnumDateFormatsW: { args: [FFIType.ptr, FFIType.u32, FFIType.u32], returns: FFIType.i32 },
+    EnumLanguageGroupLocalesA: { args: [FFIType.ptr, FFIType.u32, FFIType.u32, FFIType.i64], returns: FFIType.i32 },
+    EnumLanguageGroupLocalesW: { args: [FFIType.ptr, FFIType.u32, FFIType.u32, FFIType.i64], returns: FFIType.i32 },
+    EnumResourceLanguagesA: { args: [FFIType.ptr, FFIType.ptr, FFIType.ptr, FFIType.ptr, FFIType.i64], returns: FFIType.i32 },
+    EnumResourceLanguagesExA: { args: [FFIType.ptr, FFIType.ptr, FFIType.ptr, FFIType.ptr, FFIType.i64, FFIType.u32, FFIType.u16], returns: FFIType.i32 },
+    EnumResourceLanguagesExW: { args: [FFIType.ptr, FFIType.ptr, FFIType.ptr, FFIType.ptr, FFIType.i64, FFIType.u32, FFIType.u16], returns: FFIType.i32 },
+    EnumResourceLanguagesW: { args: [FFIType.ptr, FFIType.ptr, FFIType.ptr, FFIType.ptr, FFIType.i64], returns: FFIType.i32 },
+    EnumResourceNamesA: { args: [FFIType.ptr, FFIType.ptr, FFIType.ptr, FFIType.i64], returns: FFIType.i32 },
+    EnumResourceNamesExA: { args: [FFIType.ptr, FFIType.ptr, FFIType.ptr, FFIType.i64, FFIType.u32, FFIType.u16], returns: FFIType.i32 },
+    EnumResourceNamesExW: { args: [FFIType.ptr, FFIType.ptr, FFIType.ptr, FFIType.i64, FFIType.u32, FFIType.u16], returns: FFIType.i32 },
+    EnumResourceNamesW: { args: [FFIType.ptr, FFIType.ptr, FFIType.ptr, FFIType.i64], returns: FFIType.i32 },
+    EnumResourceTypesA: { args: [FFIType.ptr, FFIType.ptr, FFIType.i64], returns: FFIType.i32 },
+    EnumResourceTypesExA: { args: [FFIType.ptr, FFIType.ptr, FFIType.i64, FFIType.u32, FFIType.u16], returns: FFIType.i32 },
+    EnumResourceTypesExW: { args: [FFIType.ptr, FFIType.ptr, FFIType.i64, FFIType.u32, FFIType.u16], returns: FFIType.i32 },
+    EnumResourceTypesW: { args: [FFIType.ptr, FFIType.ptr, FFIType.i64], returns: FFIType.i32 },
+    EnumSystemCodePagesA: { args: [FFIType.ptr, FFIType.u32], returns: FFIType.i32 },
+    EnumSystemCodePagesW: { args: [FFIType.ptr, FFIType.u32], returns: FFIType.i32 },
     EnumSystemFirmwareTables: { args: [FFIType.u32, FFIType.ptr, FFIType.u32], returns: FFIType.u32 },
-    EnumSystemGeoID: { args: [FFIType.u32, FFIType.i32, FFIType.u32], returns: FFIType.i32 },
-    EnumSystemGeoNames: { args: [FFIType.u32, FFIType.u32, FFIType.u32], returns: FFIType.i32 },
-    EnumSystemLanguageGroupsA: { args: [FFIType.u32, FFIType.u32, FFIType.ptr], returns: FFIType.i32 },
-    EnumSystemLanguageGroupsW: { args: [FFIType.u32, FFIType.u32, FFIType.ptr], returns: FFIType.i32 },
-    EnumSystemLocalesA: { args: [FFIType.u32, FFIType.u32], returns: FFIType.i32 },
-    EnumSystemLocalesEx: { args: [FFIType.u32, FFIType.u32, FFIType.u32, FFIType.ptr], returns: FFIType.i32 },
-    EnumSystemLocalesW: { args: [FFIType.u32, FFIType.u32], returns: FFIType.i32 },
-    EnumTimeFormatsA: { args: [FFIType.u32, FFIType.u32, FFIType.u32], returns: FFIType.i32 },
-    EnumTimeFormatsEx: { args: [FFIType.u32, FFIType.ptr, FFIType.u32, FFIType.u32], returns: FFIType.i32 },
-    EnumTimeFormatsW: { args: [FFIType.u32, FFIType.u32, FFIType.u32], returns: FFIType.i32 },
-    EnumUILanguagesA: { args: [FFIType.u32, FFIType.u32, FFIType.ptr], returns: FFIType.i32 },
-    EnumUILanguagesW: { args: [FFIType.u32, FFIType.u32, FFIType.ptr], returns: FFIType.i32 },
+    EnumSystemGeoID: { args: [FFIType.u32, FFIType.i32, FFIType.ptr], returns: FFIType.i32 },
+    EnumSystemGeoNames: { args: [FFIType.u32, FFIType.ptr, FFIType.i64], returns: FFIType.i32 },
+    EnumSystemLanguageGroupsA: { args: [FFIType.ptr, FFIType.u32, FFIType.i64], returns: FFIType.i32 },
+    EnumSystemLanguageGroupsW: { args: [FFIType.ptr, FFIType.u32, FFIType.i64], returns: FFIType.i32 },
+    EnumSystemLocalesA: { args: [FFIType.ptr, FFIType.u32], returns: FFIType.i32 },
+    EnumSystemLocalesEx: { args: [FFIType.ptr, FFIType.u32, FFIType.i64, FFIType.ptr], returns: FFIType.i32 },
+    EnumSystemLocalesW: { args: [FFIType.ptr, FFIType.u32], returns: FFIType.i32 },
+    EnumTimeFormatsA: { args: [FFIType.ptr, FFIType.u32, FFIType.u32], returns: FFIType.i32 },
+    EnumTimeFormatsEx: { args: [FFIType.ptr, FFIType.ptr, FFIType.u32, FFIType.i64], returns: FFIType.i32 },
+    EnumTimeFormatsW: { args: [FFIType.ptr, FFIType.u32, FFIType.u32], returns: FFIType.i32 },
+    EnumUILanguagesA: { args: [FFIType.ptr, FFIType.u32, FFIType.i64], returns: FFIType.i32 },
+    EnumUILanguagesW: { args: [FFIType.ptr, FFIType.u32, FFIType.i64], returns: FFIType.i32 },
     EraseTape: { args: [FFIType.ptr, FFIType.u32, FFIType.i32], returns: FFIType.u32 },
     EscapeCommFunction: { args: [FFIType.ptr, FFIType.u32], returns: FFIType.i32 },
     ExecuteUmsThread: { args: [FFIType.ptr], returns: FFIType.i32 },
     ExitProcess: { args: [FFIType.u32], returns: FFIType.void },
     ExitThread: { args: [FFIType.u32], returns: FFIType.void },
-    ExpandEnvironmentStringsA: { args: [FFIType.u32, FFIType.u32, FFIType.u32], returns: FFIType.u32 },
+    ExpandEnvironmentStringsA: { args: [FFIType.ptr, FFIType.ptr, FFIType.u32], returns: FFIType.u32 },
     ExpandEnvironmentStringsW: { args: [FFIType.ptr, FFIType.ptr, FFIType.u32], returns: FFIType.u32 },
-    ExpungeConsoleCommandHistoryA: { args: [FFIType.u32], returns: FFIType.void },
+    ExpungeConsoleCommandHistoryA: { args: [FFIType.ptr], returns: FFIType.void },
     ExpungeConsoleCommandHistoryW: { args: [FFIType.ptr], returns: FFIType.void },
-    FatalAppExitA: { args: [FFIType.u32, FFIType.u32], returns: FFIType.void },
+    FatalAppExitA: { args: [FFIType.u32, FFIType.ptr], returns: FFIType.void },
     FatalAppExitW: { args: [FFIType.u32, FFIType.ptr], returns: FFIType.void },
     FatalExit: { args: [FFIType.i32], returns: FFIType.void },
     FileTimeToDosDateTime: { args: [FFIType.ptr, FFIType.ptr, FFIType.ptr], returns: FFIType.i32 },
@@ -474,28 +840,28 @@ class Kernel32 {
     FileTimeToSystemTime: { args: [FFIType.ptr, FFIType.ptr], returns: FFIType.i32 },
     FillConsoleOutputAttribute: { args: [FFIType.ptr, FFIType.u16, FFIType.u32, FFIType.u32, FFIType.ptr], returns: FFIType.i32 },
     FillConsoleOutputCharacterA: { args: [FFIType.ptr, FFIType.u32, FFIType.u32, FFIType.u32, FFIType.ptr], returns: FFIType.i32 },
-    FillConsoleOutputCharacterW: { args: [FFIType.ptr, FFIType.ptr, FFIType.u32, FFIType.u32, FFIType.ptr], returns: FFIType.i32 },
+    FillConsoleOutputCharacterW: { args: [FFIType.ptr, FFIType.u16, FFIType.u32, FFIType.u32, FFIType.ptr], returns: FFIType.i32 },
     FindActCtxSectionGuid: { args: [FFIType.u32, FFIType.ptr, FFIType.u32, FFIType.ptr, FFIType.ptr], returns: FFIType.i32 },
-    FindActCtxSectionStringA: { args: [FFIType.u32, FFIType.ptr, FFIType.u32, FFIType.u32, FFIType.ptr], returns: FFIType.i32 },
+    FindActCtxSectionStringA: { args: [FFIType.u32, FFIType.ptr, FFIType.u32, FFIType.ptr, FFIType.ptr], returns: FFIType.i32 },
     FindActCtxSectionStringW: { args: [FFIType.u32, FFIType.ptr, FFIType.u32, FFIType.ptr, FFIType.ptr], returns: FFIType.i32 },
-    FindAtomA: { args: [FFIType.u32], returns: FFIType.u16 },
+    FindAtomA: { args: [FFIType.ptr], returns: FFIType.u16 },
     FindAtomW: { args: [FFIType.ptr], returns: FFIType.u16 },
     FindClose: { args: [FFIType.ptr], returns: FFIType.i32 },
     FindCloseChangeNotification: { args: [FFIType.ptr], returns: FFIType.i32 },
-    FindFirstChangeNotificationA: { args: [FFIType.u32, FFIType.i32, FFIType.u32], returns: FFIType.ptr },
+    FindFirstChangeNotificationA: { args: [FFIType.ptr, FFIType.i32, FFIType.u32], returns: FFIType.ptr },
     FindFirstChangeNotificationW: { args: [FFIType.ptr, FFIType.i32, FFIType.u32], returns: FFIType.ptr },
-    FindFirstFileA: { args: [FFIType.u32, FFIType.ptr], returns: FFIType.ptr },
-    FindFirstFileExA: { args: [FFIType.u32, FFIType.u32, FFIType.ptr, FFIType.u32, FFIType.ptr, FFIType.u32], returns: FFIType.ptr },
+    FindFirstFileA: { args: [FFIType.ptr, FFIType.ptr], returns: FFIType.ptr },
+    FindFirstFileExA: { args: [FFIType.ptr, FFIType.u32, FFIType.ptr, FFIType.u32, FFIType.ptr, FFIType.u32], returns: FFIType.ptr },
     FindFirstFileExW: { args: [FFIType.ptr, FFIType.u32, FFIType.ptr, FFIType.u32, FFIType.ptr, FFIType.u32], returns: FFIType.ptr },
     FindFirstFileNameTransactedW: { args: [FFIType.ptr, FFIType.u32, FFIType.ptr, FFIType.ptr, FFIType.ptr], returns: FFIType.ptr },
     FindFirstFileNameW: { args: [FFIType.ptr, FFIType.u32, FFIType.ptr, FFIType.ptr], returns: FFIType.ptr },
-    FindFirstFileTransactedA: { args: [FFIType.u32, FFIType.u32, FFIType.ptr, FFIType.u32, FFIType.ptr, FFIType.u32, FFIType.ptr], returns: FFIType.ptr },
+    FindFirstFileTransactedA: { args: [FFIType.ptr, FFIType.u32, FFIType.ptr, FFIType.u32, FFIType.ptr, FFIType.u32, FFIType.ptr], returns: FFIType.ptr },
     FindFirstFileTransactedW: { args: [FFIType.ptr, FFIType.u32, FFIType.ptr, FFIType.u32, FFIType.ptr, FFIType.u32, FFIType.ptr], returns: FFIType.ptr },
     FindFirstFileW: { args: [FFIType.ptr, FFIType.ptr], returns: FFIType.ptr },
     FindFirstStreamTransactedW: { args: [FFIType.ptr, FFIType.u32, FFIType.ptr, FFIType.u32, FFIType.ptr], returns: FFIType.ptr },
     FindFirstStreamW: { args: [FFIType.ptr, FFIType.u32, FFIType.ptr, FFIType.u32], returns: FFIType.ptr },
-    FindFirstVolumeA: { args: [FFIType.u32, FFIType.u32], returns: FFIType.ptr },
-    FindFirstVolumeMountPointA: { args: [FFIType.u32, FFIType.u32, FFIType.u32], returns: FFIType.ptr },
+    FindFirstVolumeA: { args: [FFIType.ptr, FFIType.u32], returns: FFIType.ptr },
+    FindFirstVolumeMountPointA: { args: [FFIType.ptr, FFIType.ptr, FFIType.u32], returns: FFIType.ptr },
     FindFirstVolumeMountPointW: { args: [FFIType.ptr, FFIType.ptr, FFIType.u32], returns: FFIType.ptr },
     FindFirstVolumeW: { args: [FFIType.ptr, FFIType.u32], returns: FFIType.ptr },
     FindNextChangeNotification: { args: [FFIType.ptr], returns: FFIType.i32 },
@@ -503,64 +869,64 @@ class Kernel32 {
     FindNextFileNameW: { args: [FFIType.ptr, FFIType.ptr, FFIType.ptr], returns: FFIType.i32 },
     FindNextFileW: { args: [FFIType.ptr, FFIType.ptr], returns: FFIType.i32 },
     FindNextStreamW: { args: [FFIType.ptr, FFIType.ptr], returns: FFIType.i32 },
-    FindNextVolumeA: { args: [FFIType.ptr, FFIType.u32, FFIType.u32], returns: FFIType.i32 },
-    FindNextVolumeMountPointA: { args: [FFIType.ptr, FFIType.u32, FFIType.u32], returns: FFIType.i32 },
+    FindNextVolumeA: { args: [FFIType.ptr, FFIType.ptr, FFIType.u32], returns: FFIType.i32 },
+    FindNextVolumeMountPointA: { args: [FFIType.ptr, FFIType.ptr, FFIType.u32], returns: FFIType.i32 },
     FindNextVolumeMountPointW: { args: [FFIType.ptr, FFIType.ptr, FFIType.u32], returns: FFIType.i32 },
     FindNextVolumeW: { args: [FFIType.ptr, FFIType.ptr, FFIType.u32], returns: FFIType.i32 },
     FindNLSString: { args: [FFIType.u32, FFIType.u32, FFIType.ptr, FFIType.i32, FFIType.ptr, FFIType.i32, FFIType.ptr], returns: FFIType.i32 },
-    FindNLSStringEx: { args: [FFIType.ptr, FFIType.u32, FFIType.ptr, FFIType.i32, FFIType.ptr, FFIType.i32, FFIType.ptr, FFIType.ptr, FFIType.ptr, FFIType.u32], returns: FFIType.i32 },
+    FindNLSStringEx: { args: [FFIType.ptr, FFIType.u32, FFIType.ptr, FFIType.i32, FFIType.ptr, FFIType.i32, FFIType.ptr, FFIType.ptr, FFIType.ptr, FFIType.i64], returns: FFIType.i32 },
     FindPackagesByPackageFamily: { args: [FFIType.ptr, FFIType.u32, FFIType.ptr, FFIType.ptr, FFIType.ptr, FFIType.ptr, FFIType.ptr], returns: FFIType.u32 },
-    FindResourceA: { args: [FFIType.u32, FFIType.u32, FFIType.u32], returns: FFIType.u32 },
-    FindResourceExA: { args: [FFIType.u32, FFIType.u32, FFIType.u32, FFIType.u16], returns: FFIType.u32 },
-    FindResourceExW: { args: [FFIType.u32, FFIType.ptr, FFIType.ptr, FFIType.u16], returns: FFIType.u32 },
-    FindResourceW: { args: [FFIType.u32, FFIType.ptr, FFIType.ptr], returns: FFIType.u32 },
+    FindResourceA: { args: [FFIType.ptr, FFIType.ptr, FFIType.ptr], returns: FFIType.ptr },
+    FindResourceExA: { args: [FFIType.ptr, FFIType.ptr, FFIType.ptr, FFIType.u16], returns: FFIType.ptr },
+    FindResourceExW: { args: [FFIType.ptr, FFIType.ptr, FFIType.ptr, FFIType.u16], returns: FFIType.ptr },
+    FindResourceW: { args: [FFIType.ptr, FFIType.ptr, FFIType.ptr], returns: FFIType.ptr },
     FindStringOrdinal: { args: [FFIType.u32, FFIType.ptr, FFIType.i32, FFIType.ptr, FFIType.i32, FFIType.i32], returns: FFIType.i32 },
     FindVolumeClose: { args: [FFIType.ptr], returns: FFIType.i32 },
     FindVolumeMountPointClose: { args: [FFIType.ptr], returns: FFIType.i32 },
-    FlsAlloc: { args: [FFIType.u32], returns: FFIType.u32 },
+    FlsAlloc: { args: [FFIType.ptr], returns: FFIType.u32 },
     FlsFree: { args: [FFIType.u32], returns: FFIType.i32 },
     FlsGetValue: { args: [FFIType.u32], returns: FFIType.ptr },
     FlsGetValue2: { args: [FFIType.u32], returns: FFIType.ptr },
     FlsSetValue: { args: [FFIType.u32, FFIType.ptr], returns: FFIType.i32 },
     FlushConsoleInputBuffer: { args: [FFIType.ptr], returns: FFIType.i32 },
     FlushFileBuffers: { args: [FFIType.ptr], returns: FFIType.i32 },
-    FlushInstructionCache: { args: [FFIType.ptr, FFIType.ptr, FFIType.ptr], returns: FFIType.i32 },
+    FlushInstructionCache: { args: [FFIType.ptr, FFIType.ptr, FFIType.u64], returns: FFIType.i32 },
     FlushProcessWriteBuffers: { args: [], returns: FFIType.void },
-    FlushViewOfFile: { args: [FFIType.ptr, FFIType.ptr], returns: FFIType.i32 },
-    FoldStringA: { args: [FFIType.u32, FFIType.u32, FFIType.i32, FFIType.u32, FFIType.i32], returns: FFIType.i32 },
+    FlushViewOfFile: { args: [FFIType.ptr, FFIType.u64], returns: FFIType.i32 },
+    FoldStringA: { args: [FFIType.u32, FFIType.ptr, FFIType.i32, FFIType.ptr, FFIType.i32], returns: FFIType.i32 },
     FoldStringW: { args: [FFIType.u32, FFIType.ptr, FFIType.i32, FFIType.ptr, FFIType.i32], returns: FFIType.i32 },
     FormatApplicationUserModelId: { args: [FFIType.ptr, FFIType.ptr, FFIType.ptr, FFIType.ptr], returns: FFIType.u32 },
-    FormatMessageA: { args: [FFIType.u32, FFIType.ptr, FFIType.u32, FFIType.u32, FFIType.u32, FFIType.u32, FFIType.ptr], returns: FFIType.u32 },
+    FormatMessageA: { args: [FFIType.u32, FFIType.ptr, FFIType.u32, FFIType.u32, FFIType.ptr, FFIType.u32, FFIType.ptr], returns: FFIType.u32 },
     FormatMessageW: { args: [FFIType.u32, FFIType.ptr, FFIType.u32, FFIType.u32, FFIType.ptr, FFIType.u32, FFIType.ptr], returns: FFIType.u32 },
     FreeConsole: { args: [], returns: FFIType.i32 },
-    FreeEnvironmentStringsA: { args: [FFIType.u32], returns: FFIType.i32 },
+    FreeEnvironmentStringsA: { args: [FFIType.ptr], returns: FFIType.i32 },
     FreeEnvironmentStringsW: { args: [FFIType.ptr], returns: FFIType.i32 },
-    FreeLibrary: { args: [FFIType.u32], returns: FFIType.i32 },
-    FreeLibraryAndExitThread: { args: [FFIType.u32, FFIType.u32], returns: FFIType.void },
-    FreeLibraryWhenCallbackReturns: { args: [FFIType.u32, FFIType.u32], returns: FFIType.void },
+    FreeLibrary: { args: [FFIType.ptr], returns: FFIType.i32 },
+    FreeLibraryAndExitThread: { args: [FFIType.ptr, FFIType.u32], returns: FFIType.void },
+    FreeLibraryWhenCallbackReturns: { args: [FFIType.ptr, FFIType.ptr], returns: FFIType.void },
     FreeMemoryJobObject: { args: [FFIType.ptr], returns: FFIType.void },
-    FreeResource: { args: [FFIType.u32], returns: FFIType.i32 },
+    FreeResource: { args: [FFIType.ptr], returns: FFIType.i32 },
     FreeUserPhysicalPages: { args: [FFIType.ptr, FFIType.ptr, FFIType.ptr], returns: FFIType.i32 },
     GenerateConsoleCtrlEvent: { args: [FFIType.u32, FFIType.u32], returns: FFIType.i32 },
     GetACP: { args: [], returns: FFIType.u32 },
     GetActiveProcessorCount: { args: [FFIType.u16], returns: FFIType.u32 },
     GetActiveProcessorGroupCount: { args: [], returns: FFIType.u16 },
     GetAppContainerAce: { args: [FFIType.ptr, FFIType.u32, FFIType.ptr, FFIType.ptr], returns: FFIType.i32 },
-    GetAppContainerNamedObjectPath: { args: [FFIType.ptr, FFIType.u32, FFIType.u32, FFIType.ptr, FFIType.ptr], returns: FFIType.i32 },
+    GetAppContainerNamedObjectPath: { args: [FFIType.ptr, FFIType.ptr, FFIType.u32, FFIType.ptr, FFIType.ptr], returns: FFIType.i32 },
     GetApplicationRecoveryCallback: { args: [FFIType.ptr, FFIType.ptr, FFIType.ptr, FFIType.ptr, FFIType.ptr], returns: FFIType.u32 },
     GetApplicationRestartSettings: { args: [FFIType.ptr, FFIType.ptr, FFIType.ptr, FFIType.ptr], returns: FFIType.u32 },
     GetApplicationUserModelId: { args: [FFIType.ptr, FFIType.ptr, FFIType.ptr], returns: FFIType.u32 },
-    GetAtomNameA: { args: [FFIType.u16, FFIType.u32, FFIType.i32], returns: FFIType.u32 },
+    GetAtomNameA: { args: [FFIType.u16, FFIType.ptr, FFIType.i32], returns: FFIType.u32 },
     GetAtomNameW: { args: [FFIType.u16, FFIType.ptr, FFIType.i32], returns: FFIType.u32 },
-    GetBinaryTypeA: { args: [FFIType.u32, FFIType.ptr], returns: FFIType.i32 },
+    GetBinaryTypeA: { args: [FFIType.ptr, FFIType.ptr], returns: FFIType.i32 },
     GetBinaryTypeW: { args: [FFIType.ptr, FFIType.ptr], returns: FFIType.i32 },
     GetCachedSigningLevel: { args: [FFIType.ptr, FFIType.ptr, FFIType.ptr, FFIType.ptr, FFIType.ptr, FFIType.ptr], returns: FFIType.i32 },
     GetCalendarDateFormatEx: { args: [FFIType.ptr, FFIType.u32, FFIType.ptr, FFIType.ptr, FFIType.ptr, FFIType.i32], returns: FFIType.i32 },
-    GetCalendarInfoA: { args: [FFIType.u32, FFIType.u32, FFIType.u32, FFIType.u32, FFIType.i32, FFIType.ptr], returns: FFIType.i32 },
+    GetCalendarInfoA: { args: [FFIType.u32, FFIType.u32, FFIType.u32, FFIType.ptr, FFIType.i32, FFIType.ptr], returns: FFIType.i32 },
     GetCalendarInfoEx: { args: [FFIType.ptr, FFIType.u32, FFIType.ptr, FFIType.u32, FFIType.ptr, FFIType.i32, FFIType.ptr], returns: FFIType.i32 },
     GetCalendarInfoW: { args: [FFIType.u32, FFIType.u32, FFIType.u32, FFIType.ptr, FFIType.i32, FFIType.ptr], returns: FFIType.i32 },
     GetCalendarSupportedDateRange: { args: [FFIType.u32, FFIType.ptr, FFIType.ptr], returns: FFIType.i32 },
-    GetCommandLineA: { args: [], returns: FFIType.u32 },
+    GetCommandLineA: { args: [], returns: FFIType.ptr },
     GetCommandLineW: { args: [], returns: FFIType.ptr },
     GetCommConfig: { args: [FFIType.ptr, FFIType.ptr, FFIType.ptr], returns: FFIType.i32 },
     GetCommMask: { args: [FFIType.ptr, FFIType.ptr], returns: FFIType.i32 },
@@ -568,63 +934,63 @@ class Kernel32 {
     GetCommProperties: { args: [FFIType.ptr, FFIType.ptr], returns: FFIType.i32 },
     GetCommState: { args: [FFIType.ptr, FFIType.ptr], returns: FFIType.i32 },
     GetCommTimeouts: { args: [FFIType.ptr, FFIType.ptr], returns: FFIType.i32 },
-    GetCompressedFileSizeA: { args: [FFIType.u32, FFIType.ptr], returns: FFIType.u32 },
-    GetCompressedFileSizeTransactedA: { args: [FFIType.u32, FFIType.ptr, FFIType.ptr], returns: FFIType.u32 },
+    GetCompressedFileSizeA: { args: [FFIType.ptr, FFIType.ptr], returns: FFIType.u32 },
+    GetCompressedFileSizeTransactedA: { args: [FFIType.ptr, FFIType.ptr, FFIType.ptr], returns: FFIType.u32 },
     GetCompressedFileSizeTransactedW: { args: [FFIType.ptr, FFIType.ptr, FFIType.ptr], returns: FFIType.u32 },
     GetCompressedFileSizeW: { args: [FFIType.ptr, FFIType.ptr], returns: FFIType.u32 },
-    GetComputerNameA: { args: [FFIType.u32, FFIType.ptr], returns: FFIType.i32 },
-    GetComputerNameExA: { args: [FFIType.u32, FFIType.u32, FFIType.ptr], returns: FFIType.i32 },
+    GetComputerNameA: { args: [FFIType.ptr, FFIType.ptr], returns: FFIType.i32 },
+    GetComputerNameExA: { args: [FFIType.u32, FFIType.ptr, FFIType.ptr], returns: FFIType.i32 },
     GetComputerNameExW: { args: [FFIType.u32, FFIType.ptr, FFIType.ptr], returns: FFIType.i32 },
     GetComputerNameW: { args: [FFIType.ptr, FFIType.ptr], returns: FFIType.i32 },
-    GetConsoleAliasA: { args: [FFIType.u32, FFIType.u32, FFIType.u32, FFIType.u32], returns: FFIType.u32 },
-    GetConsoleAliasesA: { args: [FFIType.u32, FFIType.u32, FFIType.u32], returns: FFIType.u32 },
-    GetConsoleAliasesLengthA: { args: [FFIType.u32], returns: FFIType.u32 },
+    GetConsoleAliasA: { args: [FFIType.ptr, FFIType.ptr, FFIType.u32, FFIType.ptr], returns: FFIType.u32 },
+    GetConsoleAliasesA: { args: [FFIType.ptr, FFIType.u32, FFIType.ptr], returns: FFIType.u32 },
+    GetConsoleAliasesLengthA: { args: [FFIType.ptr], returns: FFIType.u32 },
     GetConsoleAliasesLengthW: { args: [FFIType.ptr], returns: FFIType.u32 },
     GetConsoleAliasesW: { args: [FFIType.ptr, FFIType.u32, FFIType.ptr], returns: FFIType.u32 },
-    GetConsoleAliasExesA: { args: [FFIType.u32, FFIType.u32], returns: FFIType.u32 },
+    GetConsoleAliasExesA: { args: [FFIType.ptr, FFIType.u32], returns: FFIType.u32 },
     GetConsoleAliasExesLengthA: { args: [], returns: FFIType.u32 },
     GetConsoleAliasExesLengthW: { args: [], returns: FFIType.u32 },
     GetConsoleAliasExesW: { args: [FFIType.ptr, FFIType.u32], returns: FFIType.u32 },
     GetConsoleAliasW: { args: [FFIType.ptr, FFIType.ptr, FFIType.u32, FFIType.ptr], returns: FFIType.u32 },
     GetConsoleCharType: { args: [FFIType.ptr, FFIType.u32, FFIType.ptr], returns: FFIType.i32 },
-    GetConsoleCommandHistoryA: { args: [FFIType.u32, FFIType.u32, FFIType.u32], returns: FFIType.u32 },
-    GetConsoleCommandHistoryLengthA: { args: [FFIType.u32], returns: FFIType.u32 },
+    GetConsoleCommandHistoryA: { args: [FFIType.ptr, FFIType.u32, FFIType.ptr], returns: FFIType.u32 },
+    GetConsoleCommandHistoryLengthA: { args: [FFIType.ptr], returns: FFIType.u32 },
     GetConsoleCommandHistoryLengthW: { args: [FFIType.ptr], returns: FFIType.u32 },
     GetConsoleCommandHistoryW: { args: [FFIType.ptr, FFIType.u32, FFIType.ptr], returns: FFIType.u32 },
     GetConsoleCP: { args: [], returns: FFIType.u32 },
     GetConsoleCursorInfo: { args: [FFIType.ptr, FFIType.ptr], returns: FFIType.i32 },
     GetConsoleCursorMode: { args: [FFIType.ptr, FFIType.ptr, FFIType.ptr], returns: FFIType.i32 },
     GetConsoleDisplayMode: { args: [FFIType.ptr], returns: FFIType.i32 },
-    GetConsoleFontInfo: { args: [FFIType.ptr, FFIType.i32, FFIType.u32, FFIType.ptr], returns: FFIType.u32 },
+    GetConsoleFontInfo: { args: [FFIType.ptr, FFIType.i32, FFIType.u32, FFIType.ptr], returns: FFIType.i32 },
     GetConsoleFontSize: { args: [FFIType.ptr, FFIType.u32], returns: FFIType.u32 },
     GetConsoleHardwareState: { args: [FFIType.ptr, FFIType.ptr, FFIType.ptr], returns: FFIType.i32 },
     GetConsoleHistoryInfo: { args: [FFIType.ptr], returns: FFIType.i32 },
-    GetConsoleInputExeNameA: { args: [FFIType.u32, FFIType.u32], returns: FFIType.u32 },
+    GetConsoleInputExeNameA: { args: [FFIType.u32, FFIType.ptr], returns: FFIType.u32 },
     GetConsoleInputExeNameW: { args: [FFIType.u32, FFIType.ptr], returns: FFIType.u32 },
     GetConsoleInputWaitHandle: { args: [], returns: FFIType.ptr },
     GetConsoleMode: { args: [FFIType.ptr, FFIType.ptr], returns: FFIType.i32 },
     GetConsoleNlsMode: { args: [FFIType.ptr, FFIType.ptr], returns: FFIType.i32 },
-    GetConsoleOriginalTitleA: { args: [FFIType.u32, FFIType.u32], returns: FFIType.u32 },
+    GetConsoleOriginalTitleA: { args: [FFIType.ptr, FFIType.u32], returns: FFIType.u32 },
     GetConsoleOriginalTitleW: { args: [FFIType.ptr, FFIType.u32], returns: FFIType.u32 },
     GetConsoleOutputCP: { args: [], returns: FFIType.u32 },
     GetConsoleProcessList: { args: [FFIType.ptr, FFIType.u32], returns: FFIType.u32 },
     GetConsoleScreenBufferInfo: { args: [FFIType.ptr, FFIType.ptr], returns: FFIType.i32 },
     GetConsoleScreenBufferInfoEx: { args: [FFIType.ptr, FFIType.ptr], returns: FFIType.i32 },
     GetConsoleSelectionInfo: { args: [FFIType.ptr], returns: FFIType.i32 },
-    GetConsoleTitleA: { args: [FFIType.u32, FFIType.u32], returns: FFIType.u32 },
+    GetConsoleTitleA: { args: [FFIType.ptr, FFIType.u32], returns: FFIType.u32 },
     GetConsoleTitleW: { args: [FFIType.ptr, FFIType.u32], returns: FFIType.u32 },
-    GetConsoleWindow: { args: [], returns: FFIType.u32 },
+    GetConsoleWindow: { args: [], returns: FFIType.ptr },
     GetCPInfo: { args: [FFIType.u32, FFIType.ptr], returns: FFIType.i32 },
     GetCPInfoExA: { args: [FFIType.u32, FFIType.u32, FFIType.ptr], returns: FFIType.i32 },
     GetCPInfoExW: { args: [FFIType.u32, FFIType.u32, FFIType.ptr], returns: FFIType.i32 },
-    GetCurrencyFormatA: { args: [FFIType.u32, FFIType.u32, FFIType.u32, FFIType.ptr, FFIType.u32, FFIType.i32], returns: FFIType.i32 },
+    GetCurrencyFormatA: { args: [FFIType.u32, FFIType.u32, FFIType.ptr, FFIType.ptr, FFIType.ptr, FFIType.i32], returns: FFIType.i32 },
     GetCurrencyFormatEx: { args: [FFIType.ptr, FFIType.u32, FFIType.ptr, FFIType.ptr, FFIType.ptr, FFIType.i32], returns: FFIType.i32 },
     GetCurrencyFormatW: { args: [FFIType.u32, FFIType.u32, FFIType.ptr, FFIType.ptr, FFIType.ptr, FFIType.i32], returns: FFIType.i32 },
     GetCurrentActCtx: { args: [FFIType.ptr], returns: FFIType.i32 },
     GetCurrentApplicationUserModelId: { args: [FFIType.ptr, FFIType.ptr], returns: FFIType.u32 },
     GetCurrentConsoleFont: { args: [FFIType.ptr, FFIType.i32, FFIType.ptr], returns: FFIType.i32 },
     GetCurrentConsoleFontEx: { args: [FFIType.ptr, FFIType.i32, FFIType.ptr], returns: FFIType.i32 },
-    GetCurrentDirectoryA: { args: [FFIType.u32, FFIType.u32], returns: FFIType.u32 },
+    GetCurrentDirectoryA: { args: [FFIType.u32, FFIType.ptr], returns: FFIType.u32 },
     GetCurrentDirectoryW: { args: [FFIType.u32, FFIType.ptr], returns: FFIType.u32 },
     GetCurrentPackageFamilyName: { args: [FFIType.ptr, FFIType.ptr], returns: FFIType.u32 },
     GetCurrentPackageFullName: { args: [FFIType.ptr, FFIType.ptr], returns: FFIType.u32 },
@@ -632,7 +998,7 @@ class Kernel32 {
     GetCurrentPackageInfo: { args: [FFIType.u32, FFIType.ptr, FFIType.ptr, FFIType.ptr], returns: FFIType.u32 },
     // GetCurrentPackageInfo3: { args: [FFIType.u32, FFIType.u32, FFIType.ptr, FFIType.ptr, FFIType.ptr], returns: FFIType.u32 },
     GetCurrentPackagePath: { args: [FFIType.ptr, FFIType.ptr], returns: FFIType.u32 },
-    GetCurrentPackageVirtualizationContext: { args: [], returns: FFIType.u32 },
+    GetCurrentPackageVirtualizationContext: { args: [], returns: FFIType.ptr },
     GetCurrentProcess: { args: [], returns: FFIType.ptr },
     GetCurrentProcessId: { args: [], returns: FFIType.u32 },
     GetCurrentProcessorNumber: { args: [], returns: FFIType.u32 },
@@ -641,39 +1007,39 @@ class Kernel32 {
     GetCurrentThreadId: { args: [], returns: FFIType.u32 },
     GetCurrentThreadStackLimits: { args: [FFIType.ptr, FFIType.ptr], returns: FFIType.void },
     GetCurrentUmsThread: { args: [], returns: FFIType.ptr },
-    GetDateFormatA: { args: [FFIType.u32, FFIType.u32, FFIType.ptr, FFIType.u32, FFIType.u32, FFIType.i32], returns: FFIType.i32 },
+    GetDateFormatA: { args: [FFIType.u32, FFIType.u32, FFIType.ptr, FFIType.ptr, FFIType.ptr, FFIType.i32], returns: FFIType.i32 },
     GetDateFormatEx: { args: [FFIType.ptr, FFIType.u32, FFIType.ptr, FFIType.ptr, FFIType.ptr, FFIType.i32, FFIType.ptr], returns: FFIType.i32 },
     GetDateFormatW: { args: [FFIType.u32, FFIType.u32, FFIType.ptr, FFIType.ptr, FFIType.ptr, FFIType.i32], returns: FFIType.i32 },
-    GetDefaultCommConfigA: { args: [FFIType.u32, FFIType.ptr, FFIType.ptr], returns: FFIType.i32 },
+    GetDefaultCommConfigA: { args: [FFIType.ptr, FFIType.ptr, FFIType.ptr], returns: FFIType.i32 },
     GetDefaultCommConfigW: { args: [FFIType.ptr, FFIType.ptr, FFIType.ptr], returns: FFIType.i32 },
     GetDevicePowerState: { args: [FFIType.ptr, FFIType.ptr], returns: FFIType.i32 },
-    GetDiskFreeSpaceA: { args: [FFIType.u32, FFIType.ptr, FFIType.ptr, FFIType.ptr, FFIType.ptr], returns: FFIType.i32 },
-    GetDiskFreeSpaceExA: { args: [FFIType.u32, FFIType.ptr, FFIType.ptr, FFIType.ptr], returns: FFIType.i32 },
+    GetDiskFreeSpaceA: { args: [FFIType.ptr, FFIType.ptr, FFIType.ptr, FFIType.ptr, FFIType.ptr], returns: FFIType.i32 },
+    GetDiskFreeSpaceExA: { args: [FFIType.ptr, FFIType.ptr, FFIType.ptr, FFIType.ptr], returns: FFIType.i32 },
     GetDiskFreeSpaceExW: { args: [FFIType.ptr, FFIType.ptr, FFIType.ptr, FFIType.ptr], returns: FFIType.i32 },
     GetDiskFreeSpaceW: { args: [FFIType.ptr, FFIType.ptr, FFIType.ptr, FFIType.ptr, FFIType.ptr], returns: FFIType.i32 },
-    GetDiskSpaceInformationA: { args: [FFIType.u32, FFIType.ptr], returns: FFIType.u32 },
+    GetDiskSpaceInformationA: { args: [FFIType.ptr, FFIType.ptr], returns: FFIType.u32 },
     GetDiskSpaceInformationW: { args: [FFIType.ptr, FFIType.ptr], returns: FFIType.u32 },
-    GetDllDirectoryA: { args: [FFIType.u32, FFIType.u32], returns: FFIType.u32 },
+    GetDllDirectoryA: { args: [FFIType.u32, FFIType.ptr], returns: FFIType.u32 },
     GetDllDirectoryW: { args: [FFIType.u32, FFIType.ptr], returns: FFIType.u32 },
-    GetDriveTypeA: { args: [FFIType.u32], returns: FFIType.u32 },
+    GetDriveTypeA: { args: [FFIType.ptr], returns: FFIType.u32 },
     GetDriveTypeW: { args: [FFIType.ptr], returns: FFIType.u32 },
     GetDurationFormat: { args: [FFIType.u32, FFIType.u32, FFIType.ptr, FFIType.u64, FFIType.ptr, FFIType.ptr, FFIType.i32], returns: FFIType.i32 },
     GetDurationFormatEx: { args: [FFIType.ptr, FFIType.u32, FFIType.ptr, FFIType.u64, FFIType.ptr, FFIType.ptr, FFIType.i32], returns: FFIType.i32 },
     GetDynamicTimeZoneInformation: { args: [FFIType.ptr], returns: FFIType.u32 },
     GetEnabledXStateFeatures: { args: [], returns: FFIType.u64 },
-    GetEnvironmentStrings: { args: [], returns: FFIType.u32 },
+    GetEnvironmentStrings: { args: [], returns: FFIType.ptr },
     GetEnvironmentStringsW: { args: [], returns: FFIType.ptr },
-    GetEnvironmentVariableA: { args: [FFIType.u32, FFIType.u32, FFIType.u32], returns: FFIType.u32 },
+    GetEnvironmentVariableA: { args: [FFIType.ptr, FFIType.ptr, FFIType.u32], returns: FFIType.u32 },
     GetEnvironmentVariableW: { args: [FFIType.ptr, FFIType.ptr, FFIType.u32], returns: FFIType.u32 },
     GetErrorMode: { args: [], returns: FFIType.u32 },
     GetExitCodeProcess: { args: [FFIType.ptr, FFIType.ptr], returns: FFIType.i32 },
     GetExitCodeThread: { args: [FFIType.ptr, FFIType.ptr], returns: FFIType.i32 },
-    GetExpandedNameA: { args: [FFIType.u32, FFIType.u32], returns: FFIType.i32 },
+    GetExpandedNameA: { args: [FFIType.ptr, FFIType.ptr], returns: FFIType.i32 },
     GetExpandedNameW: { args: [FFIType.ptr, FFIType.ptr], returns: FFIType.i32 },
-    GetFileAttributesA: { args: [FFIType.u32], returns: FFIType.u32 },
-    GetFileAttributesExA: { args: [FFIType.u32, FFIType.u32, FFIType.ptr], returns: FFIType.i32 },
+    GetFileAttributesA: { args: [FFIType.ptr], returns: FFIType.u32 },
+    GetFileAttributesExA: { args: [FFIType.ptr, FFIType.u32, FFIType.ptr], returns: FFIType.i32 },
     GetFileAttributesExW: { args: [FFIType.ptr, FFIType.u32, FFIType.ptr], returns: FFIType.i32 },
-    GetFileAttributesTransactedA: { args: [FFIType.u32, FFIType.u32, FFIType.ptr, FFIType.ptr], returns: FFIType.i32 },
+    GetFileAttributesTransactedA: { args: [FFIType.ptr, FFIType.u32, FFIType.ptr, FFIType.ptr], returns: FFIType.i32 },
     GetFileAttributesTransactedW: { args: [FFIType.ptr, FFIType.u32, FFIType.ptr, FFIType.ptr], returns: FFIType.i32 },
     GetFileAttributesW: { args: [FFIType.ptr], returns: FFIType.u32 },
     GetFileBandwidthReservation: { args: [FFIType.ptr, FFIType.ptr, FFIType.ptr, FFIType.ptr, FFIType.ptr, FFIType.ptr], returns: FFIType.i32 },
@@ -686,35 +1052,35 @@ class Kernel32 {
     GetFileSizeEx: { args: [FFIType.ptr, FFIType.ptr], returns: FFIType.i32 },
     GetFileTime: { args: [FFIType.ptr, FFIType.ptr, FFIType.ptr, FFIType.ptr], returns: FFIType.i32 },
     GetFileType: { args: [FFIType.ptr], returns: FFIType.u32 },
-    GetFinalPathNameByHandleA: { args: [FFIType.ptr, FFIType.u32, FFIType.u32, FFIType.u32], returns: FFIType.u32 },
+    GetFinalPathNameByHandleA: { args: [FFIType.ptr, FFIType.ptr, FFIType.u32, FFIType.u32], returns: FFIType.u32 },
     GetFinalPathNameByHandleW: { args: [FFIType.ptr, FFIType.ptr, FFIType.u32, FFIType.u32], returns: FFIType.u32 },
-    GetFirmwareEnvironmentVariableA: { args: [FFIType.u32, FFIType.u32, FFIType.ptr, FFIType.u32], returns: FFIType.u32 },
-    GetFirmwareEnvironmentVariableExA: { args: [FFIType.u32, FFIType.u32, FFIType.ptr, FFIType.u32, FFIType.ptr], returns: FFIType.u32 },
+    GetFirmwareEnvironmentVariableA: { args: [FFIType.ptr, FFIType.ptr, FFIType.ptr, FFIType.u32], returns: FFIType.u32 },
+    GetFirmwareEnvironmentVariableExA: { args: [FFIType.ptr, FFIType.ptr, FFIType.ptr, FFIType.u32, FFIType.ptr], returns: FFIType.u32 },
     GetFirmwareEnvironmentVariableExW: { args: [FFIType.ptr, FFIType.ptr, FFIType.ptr, FFIType.u32, FFIType.ptr], returns: FFIType.u32 },
     GetFirmwareEnvironmentVariableW: { args: [FFIType.ptr, FFIType.ptr, FFIType.ptr, FFIType.u32], returns: FFIType.u32 },
     GetFirmwareType: { args: [FFIType.ptr], returns: FFIType.i32 },
-    GetFullPathNameA: { args: [FFIType.u32, FFIType.u32, FFIType.u32, FFIType.ptr], returns: FFIType.u32 },
-    GetFullPathNameTransactedA: { args: [FFIType.u32, FFIType.u32, FFIType.u32, FFIType.ptr, FFIType.ptr], returns: FFIType.u32 },
+    GetFullPathNameA: { args: [FFIType.ptr, FFIType.u32, FFIType.ptr, FFIType.ptr], returns: FFIType.u32 },
+    GetFullPathNameTransactedA: { args: [FFIType.ptr, FFIType.u32, FFIType.ptr, FFIType.ptr, FFIType.ptr], returns: FFIType.u32 },
     GetFullPathNameTransactedW: { args: [FFIType.ptr, FFIType.u32, FFIType.ptr, FFIType.ptr, FFIType.ptr], returns: FFIType.u32 },
     GetFullPathNameW: { args: [FFIType.ptr, FFIType.u32, FFIType.ptr, FFIType.ptr], returns: FFIType.u32 },
-    GetGeoInfoA: { args: [FFIType.i32, FFIType.u32, FFIType.u32, FFIType.i32, FFIType.u16], returns: FFIType.i32 },
+    GetGeoInfoA: { args: [FFIType.i32, FFIType.u32, FFIType.ptr, FFIType.i32, FFIType.u16], returns: FFIType.i32 },
     GetGeoInfoEx: { args: [FFIType.ptr, FFIType.u32, FFIType.ptr, FFIType.i32], returns: FFIType.i32 },
     GetGeoInfoW: { args: [FFIType.i32, FFIType.u32, FFIType.ptr, FFIType.i32, FFIType.u16], returns: FFIType.i32 },
     GetHandleInformation: { args: [FFIType.ptr, FFIType.ptr], returns: FFIType.i32 },
-    GetLargePageMinimum: { args: [], returns: FFIType.ptr },
+    GetLargePageMinimum: { args: [], returns: FFIType.u64 },
     GetLargestConsoleWindowSize: { args: [FFIType.ptr], returns: FFIType.u32 },
     GetLastError: { args: [], returns: FFIType.u32 },
-    GetLocaleInfoA: { args: [FFIType.u32, FFIType.u32, FFIType.u32, FFIType.i32], returns: FFIType.i32 },
+    GetLocaleInfoA: { args: [FFIType.u32, FFIType.u32, FFIType.ptr, FFIType.i32], returns: FFIType.i32 },
     GetLocaleInfoEx: { args: [FFIType.ptr, FFIType.u32, FFIType.ptr, FFIType.i32], returns: FFIType.i32 },
     GetLocaleInfoW: { args: [FFIType.u32, FFIType.u32, FFIType.ptr, FFIType.i32], returns: FFIType.i32 },
     GetLocalTime: { args: [FFIType.ptr], returns: FFIType.void },
     GetLogicalDrives: { args: [], returns: FFIType.u32 },
-    GetLogicalDriveStringsA: { args: [FFIType.u32, FFIType.u32], returns: FFIType.u32 },
+    GetLogicalDriveStringsA: { args: [FFIType.u32, FFIType.ptr], returns: FFIType.u32 },
     GetLogicalDriveStringsW: { args: [FFIType.u32, FFIType.ptr], returns: FFIType.u32 },
     GetLogicalProcessorInformation: { args: [FFIType.ptr, FFIType.ptr], returns: FFIType.i32 },
     GetLogicalProcessorInformationEx: { args: [FFIType.u32, FFIType.ptr, FFIType.ptr], returns: FFIType.i32 },
-    GetLongPathNameA: { args: [FFIType.u32, FFIType.u32, FFIType.u32], returns: FFIType.u32 },
-    GetLongPathNameTransactedA: { args: [FFIType.u32, FFIType.u32, FFIType.u32, FFIType.ptr], returns: FFIType.u32 },
+    GetLongPathNameA: { args: [FFIType.ptr, FFIType.ptr, FFIType.u32], returns: FFIType.u32 },
+    GetLongPathNameTransactedA: { args: [FFIType.ptr, FFIType.ptr, FFIType.u32, FFIType.ptr], returns: FFIType.u32 },
     GetLongPathNameTransactedW: { args: [FFIType.ptr, FFIType.ptr, FFIType.u32, FFIType.ptr], returns: FFIType.u32 },
     GetLongPathNameW: { args: [FFIType.ptr, FFIType.ptr, FFIType.u32], returns: FFIType.u32 },
     GetMachineTypeAttributes: { args: [FFIType.u16, FFIType.ptr], returns: FFIType.u32 },
@@ -722,17 +1088,17 @@ class Kernel32 {
     GetMaximumProcessorCount: { args: [FFIType.u16], returns: FFIType.u32 },
     GetMaximumProcessorGroupCount: { args: [], returns: FFIType.u16 },
     GetMemoryErrorHandlingCapabilities: { args: [FFIType.ptr], returns: FFIType.i32 },
-    GetModuleFileNameA: { args: [FFIType.u32, FFIType.u32, FFIType.u32], returns: FFIType.u32 },
-    GetModuleFileNameW: { args: [FFIType.u32, FFIType.ptr, FFIType.u32], returns: FFIType.u32 },
-    GetModuleHandleA: { args: [FFIType.u32], returns: FFIType.u32 },
-    GetModuleHandleExA: { args: [FFIType.u32, FFIType.u32, FFIType.ptr], returns: FFIType.i32 },
+    GetModuleFileNameA: { args: [FFIType.ptr, FFIType.ptr, FFIType.u32], returns: FFIType.u32 },
+    GetModuleFileNameW: { args: [FFIType.ptr, FFIType.ptr, FFIType.u32], returns: FFIType.u32 },
+    GetModuleHandleA: { args: [FFIType.ptr], returns: FFIType.ptr },
+    GetModuleHandleExA: { args: [FFIType.u32, FFIType.ptr, FFIType.ptr], returns: FFIType.i32 },
     GetModuleHandleExW: { args: [FFIType.u32, FFIType.ptr, FFIType.ptr], returns: FFIType.i32 },
-    GetModuleHandleW: { args: [FFIType.ptr], returns: FFIType.u32 },
-    GetNamedPipeClientComputerNameA: { args: [FFIType.ptr, FFIType.u32, FFIType.u32], returns: FFIType.i32 },
+    GetModuleHandleW: { args: [FFIType.ptr], returns: FFIType.ptr },
+    GetNamedPipeClientComputerNameA: { args: [FFIType.ptr, FFIType.ptr, FFIType.u32], returns: FFIType.i32 },
     GetNamedPipeClientComputerNameW: { args: [FFIType.ptr, FFIType.ptr, FFIType.u32], returns: FFIType.i32 },
     GetNamedPipeClientProcessId: { args: [FFIType.ptr, FFIType.ptr], returns: FFIType.i32 },
     GetNamedPipeClientSessionId: { args: [FFIType.ptr, FFIType.ptr], returns: FFIType.i32 },
-    GetNamedPipeHandleStateA: { args: [FFIType.ptr, FFIType.ptr, FFIType.ptr, FFIType.ptr, FFIType.ptr, FFIType.u32, FFIType.u32], returns: FFIType.i32 },
+    GetNamedPipeHandleStateA: { args: [FFIType.ptr, FFIType.ptr, FFIType.ptr, FFIType.ptr, FFIType.ptr, FFIType.ptr, FFIType.u32], returns: FFIType.i32 },
     GetNamedPipeHandleStateW: { args: [FFIType.ptr, FFIType.ptr, FFIType.ptr, FFIType.ptr, FFIType.ptr, FFIType.ptr, FFIType.u32], returns: FFIType.i32 },
     GetNamedPipeInfo: { args: [FFIType.ptr, FFIType.ptr, FFIType.ptr, FFIType.ptr, FFIType.ptr], returns: FFIType.i32 },
     GetNamedPipeServerProcessId: { args: [FFIType.ptr, FFIType.ptr], returns: FFIType.i32 },
@@ -752,7 +1118,7 @@ class Kernel32 {
     GetNumaProcessorNodeEx: { args: [FFIType.ptr, FFIType.ptr], returns: FFIType.i32 },
     GetNumaProximityNode: { args: [FFIType.u32, FFIType.ptr], returns: FFIType.i32 },
     GetNumaProximityNodeEx: { args: [FFIType.u32, FFIType.ptr], returns: FFIType.i32 },
-    GetNumberFormatA: { args: [FFIType.u32, FFIType.u32, FFIType.u32, FFIType.ptr, FFIType.u32, FFIType.i32], returns: FFIType.i32 },
+    GetNumberFormatA: { args: [FFIType.u32, FFIType.u32, FFIType.ptr, FFIType.ptr, FFIType.ptr, FFIType.i32], returns: FFIType.i32 },
     GetNumberFormatEx: { args: [FFIType.ptr, FFIType.u32, FFIType.ptr, FFIType.ptr, FFIType.ptr, FFIType.i32], returns: FFIType.i32 },
     GetNumberFormatW: { args: [FFIType.u32, FFIType.u32, FFIType.ptr, FFIType.ptr, FFIType.ptr, FFIType.i32], returns: FFIType.i32 },
     GetNumberOfConsoleFonts: { args: [], returns: FFIType.u32 },
@@ -771,17 +1137,17 @@ class Kernel32 {
     GetPackagesByPackageFamily: { args: [FFIType.ptr, FFIType.ptr, FFIType.ptr, FFIType.ptr, FFIType.ptr], returns: FFIType.u32 },
     GetPhysicallyInstalledSystemMemory: { args: [FFIType.ptr], returns: FFIType.i32 },
     GetPriorityClass: { args: [FFIType.ptr], returns: FFIType.u32 },
-    GetPrivateProfileIntA: { args: [FFIType.u32, FFIType.u32, FFIType.i32, FFIType.u32], returns: FFIType.u32 },
+    GetPrivateProfileIntA: { args: [FFIType.ptr, FFIType.ptr, FFIType.i32, FFIType.ptr], returns: FFIType.u32 },
     GetPrivateProfileIntW: { args: [FFIType.ptr, FFIType.ptr, FFIType.i32, FFIType.ptr], returns: FFIType.i32 },
-    GetPrivateProfileSectionA: { args: [FFIType.u32, FFIType.u32, FFIType.u32, FFIType.u32], returns: FFIType.u32 },
-    GetPrivateProfileSectionNamesA: { args: [FFIType.u32, FFIType.u32, FFIType.u32], returns: FFIType.u32 },
+    GetPrivateProfileSectionA: { args: [FFIType.ptr, FFIType.ptr, FFIType.u32, FFIType.ptr], returns: FFIType.u32 },
+    GetPrivateProfileSectionNamesA: { args: [FFIType.ptr, FFIType.u32, FFIType.ptr], returns: FFIType.u32 },
     GetPrivateProfileSectionNamesW: { args: [FFIType.ptr, FFIType.u32, FFIType.ptr], returns: FFIType.u32 },
     GetPrivateProfileSectionW: { args: [FFIType.ptr, FFIType.ptr, FFIType.u32, FFIType.ptr], returns: FFIType.u32 },
-    GetPrivateProfileStringA: { args: [FFIType.u32, FFIType.u32, FFIType.u32, FFIType.u32, FFIType.u32, FFIType.u32], returns: FFIType.u32 },
+    GetPrivateProfileStringA: { args: [FFIType.ptr, FFIType.ptr, FFIType.ptr, FFIType.ptr, FFIType.u32, FFIType.ptr], returns: FFIType.u32 },
     GetPrivateProfileStringW: { args: [FFIType.ptr, FFIType.ptr, FFIType.ptr, FFIType.ptr, FFIType.u32, FFIType.ptr], returns: FFIType.u32 },
-    GetPrivateProfileStructA: { args: [FFIType.u32, FFIType.u32, FFIType.ptr, FFIType.u32, FFIType.u32], returns: FFIType.i32 },
+    GetPrivateProfileStructA: { args: [FFIType.ptr, FFIType.ptr, FFIType.ptr, FFIType.u32, FFIType.ptr], returns: FFIType.i32 },
     GetPrivateProfileStructW: { args: [FFIType.ptr, FFIType.ptr, FFIType.ptr, FFIType.u32, FFIType.ptr], returns: FFIType.i32 },
-    GetProcAddress: { args: [FFIType.u32, FFIType.u32], returns: FFIType.u32 },
+    GetProcAddress: { args: [FFIType.ptr, FFIType.ptr], returns: FFIType.ptr },
     GetProcessAffinityMask: { args: [FFIType.ptr, FFIType.ptr, FFIType.ptr], returns: FFIType.i32 },
     GetProcessDefaultCpuSetMasks: { args: [FFIType.ptr, FFIType.ptr, FFIType.u16, FFIType.ptr], returns: FFIType.i32 },
     GetProcessDefaultCpuSets: { args: [FFIType.ptr, FFIType.ptr, FFIType.u32, FFIType.ptr], returns: FFIType.i32 },
@@ -795,7 +1161,7 @@ class Kernel32 {
     GetProcessIdOfThread: { args: [FFIType.ptr], returns: FFIType.u32 },
     GetProcessInformation: { args: [FFIType.ptr, FFIType.u32, FFIType.ptr, FFIType.u32], returns: FFIType.i32 },
     GetProcessIoCounters: { args: [FFIType.ptr, FFIType.ptr], returns: FFIType.i32 },
-    GetProcessMitigationPolicy: { args: [FFIType.ptr, FFIType.u32, FFIType.ptr, FFIType.ptr], returns: FFIType.i32 },
+    GetProcessMitigationPolicy: { args: [FFIType.ptr, FFIType.u32, FFIType.ptr, FFIType.u64], returns: FFIType.i32 },
     GetProcessorSystemCycleTime: { args: [FFIType.u16, FFIType.ptr, FFIType.ptr], returns: FFIType.i32 },
     GetProcessPreferredUILanguages: { args: [FFIType.u32, FFIType.ptr, FFIType.ptr, FFIType.ptr], returns: FFIType.i32 },
     GetProcessPriorityBoost: { args: [FFIType.ptr, FFIType.ptr], returns: FFIType.i32 },
@@ -805,23 +1171,23 @@ class Kernel32 {
     GetProcessWorkingSetSize: { args: [FFIType.ptr, FFIType.ptr, FFIType.ptr], returns: FFIType.i32 },
     GetProcessWorkingSetSizeEx: { args: [FFIType.ptr, FFIType.ptr, FFIType.ptr, FFIType.ptr], returns: FFIType.i32 },
     GetProductInfo: { args: [FFIType.u32, FFIType.u32, FFIType.u32, FFIType.u32, FFIType.ptr], returns: FFIType.i32 },
-    GetProfileIntA: { args: [FFIType.u32, FFIType.u32, FFIType.i32], returns: FFIType.u32 },
+    GetProfileIntA: { args: [FFIType.ptr, FFIType.ptr, FFIType.i32], returns: FFIType.u32 },
     GetProfileIntW: { args: [FFIType.ptr, FFIType.ptr, FFIType.i32], returns: FFIType.u32 },
-    GetProfileSectionA: { args: [FFIType.u32, FFIType.u32, FFIType.u32], returns: FFIType.u32 },
+    GetProfileSectionA: { args: [FFIType.ptr, FFIType.ptr, FFIType.u32], returns: FFIType.u32 },
     GetProfileSectionW: { args: [FFIType.ptr, FFIType.ptr, FFIType.u32], returns: FFIType.u32 },
-    GetProfileStringA: { args: [FFIType.u32, FFIType.u32, FFIType.u32, FFIType.u32, FFIType.u32], returns: FFIType.u32 },
+    GetProfileStringA: { args: [FFIType.ptr, FFIType.ptr, FFIType.ptr, FFIType.ptr, FFIType.u32], returns: FFIType.u32 },
     GetProfileStringW: { args: [FFIType.ptr, FFIType.ptr, FFIType.ptr, FFIType.ptr, FFIType.u32], returns: FFIType.u32 },
     GetQueuedCompletionStatus: { args: [FFIType.ptr, FFIType.ptr, FFIType.ptr, FFIType.ptr, FFIType.u32], returns: FFIType.i32 },
     GetQueuedCompletionStatusEx: { args: [FFIType.ptr, FFIType.ptr, FFIType.u32, FFIType.ptr, FFIType.u32, FFIType.i32], returns: FFIType.i32 },
-    GetShortPathNameA: { args: [FFIType.u32, FFIType.u32, FFIType.u32], returns: FFIType.u32 },
+    GetShortPathNameA: { args: [FFIType.ptr, FFIType.ptr, FFIType.u32], returns: FFIType.u32 },
     GetShortPathNameW: { args: [FFIType.ptr, FFIType.ptr, FFIType.u32], returns: FFIType.u32 },
     GetStagedPackagePathByFullName: { args: [FFIType.ptr, FFIType.ptr, FFIType.ptr], returns: FFIType.u32 },
     GetStartupInfoA: { args: [FFIType.ptr], returns: FFIType.void },
     GetStartupInfoW: { args: [FFIType.ptr], returns: FFIType.void },
     GetStdHandle: { args: [FFIType.u32], returns: FFIType.ptr },
     GetStringScripts: { args: [FFIType.u32, FFIType.ptr, FFIType.i32, FFIType.ptr, FFIType.i32], returns: FFIType.i32 },
-    GetStringTypeA: { args: [FFIType.u32, FFIType.u32, FFIType.u32, FFIType.i32, FFIType.ptr], returns: FFIType.i32 },
-    GetStringTypeExA: { args: [FFIType.u32, FFIType.u32, FFIType.u32, FFIType.i32, FFIType.ptr], returns: FFIType.i32 },
+    GetStringTypeA: { args: [FFIType.u32, FFIType.u32, FFIType.ptr, FFIType.i32, FFIType.ptr], returns: FFIType.i32 },
+    GetStringTypeExA: { args: [FFIType.u32, FFIType.u32, FFIType.ptr, FFIType.i32, FFIType.ptr], returns: FFIType.i32 },
     GetStringTypeExW: { args: [FFIType.u32, FFIType.u32, FFIType.ptr, FFIType.i32, FFIType.ptr], returns: FFIType.i32 },
     GetStringTypeW: { args: [FFIType.u32, FFIType.ptr, FFIType.i32, FFIType.ptr], returns: FFIType.i32 },
     GetSystemCpuSetInformation: { args: [FFIType.ptr, FFIType.u32, FFIType.ptr, FFIType.ptr, FFIType.u32], returns: FFIType.i32 },
@@ -830,7 +1196,7 @@ class Kernel32 {
     GetSystemDefaultLocaleName: { args: [FFIType.ptr, FFIType.i32], returns: FFIType.i32 },
     GetSystemDefaultUILanguage: { args: [], returns: FFIType.u16 },
     GetSystemDEPPolicy: { args: [], returns: FFIType.u32 },
-    GetSystemDirectoryA: { args: [FFIType.u32, FFIType.u32], returns: FFIType.u32 },
+    GetSystemDirectoryA: { args: [FFIType.ptr, FFIType.u32], returns: FFIType.u32 },
     GetSystemDirectoryW: { args: [FFIType.ptr, FFIType.u32], returns: FFIType.u32 },
     GetSystemFileCacheSize: { args: [FFIType.ptr, FFIType.ptr, FFIType.ptr], returns: FFIType.i32 },
     GetSystemFirmwareTable: { args: [FFIType.u32, FFIType.u32, FFIType.ptr, FFIType.u32], returns: FFIType.u32 },
@@ -844,18 +1210,18 @@ class Kernel32 {
     GetSystemTimeAsFileTime: { args: [FFIType.ptr], returns: FFIType.void },
     GetSystemTimePreciseAsFileTime: { args: [FFIType.ptr], returns: FFIType.void },
     GetSystemTimes: { args: [FFIType.ptr, FFIType.ptr, FFIType.ptr], returns: FFIType.i32 },
-    GetSystemWindowsDirectoryA: { args: [FFIType.u32, FFIType.u32], returns: FFIType.u32 },
+    GetSystemWindowsDirectoryA: { args: [FFIType.ptr, FFIType.u32], returns: FFIType.u32 },
     GetSystemWindowsDirectoryW: { args: [FFIType.ptr, FFIType.u32], returns: FFIType.u32 },
-    GetSystemWow64DirectoryA: { args: [FFIType.u32, FFIType.u32], returns: FFIType.u32 },
+    GetSystemWow64DirectoryA: { args: [FFIType.ptr, FFIType.u32], returns: FFIType.u32 },
     GetSystemWow64DirectoryW: { args: [FFIType.ptr, FFIType.u32], returns: FFIType.u32 },
     GetTapeParameters: { args: [FFIType.ptr, FFIType.u32, FFIType.ptr, FFIType.ptr], returns: FFIType.u32 },
     GetTapePosition: { args: [FFIType.ptr, FFIType.u32, FFIType.ptr, FFIType.ptr, FFIType.ptr], returns: FFIType.u32 },
     GetTapeStatus: { args: [FFIType.ptr], returns: FFIType.u32 },
-    GetTempFileNameA: { args: [FFIType.u32, FFIType.u32, FFIType.u32, FFIType.u32], returns: FFIType.u32 },
+    GetTempFileNameA: { args: [FFIType.ptr, FFIType.ptr, FFIType.u32, FFIType.ptr], returns: FFIType.u32 },
     GetTempFileNameW: { args: [FFIType.ptr, FFIType.ptr, FFIType.u32, FFIType.ptr], returns: FFIType.u32 },
-    GetTempPath2A: { args: [FFIType.u32, FFIType.u32], returns: FFIType.u32 },
+    GetTempPath2A: { args: [FFIType.u32, FFIType.ptr], returns: FFIType.u32 },
     GetTempPath2W: { args: [FFIType.u32, FFIType.ptr], returns: FFIType.u32 },
-    GetTempPathA: { args: [FFIType.u32, FFIType.u32], returns: FFIType.u32 },
+    GetTempPathA: { args: [FFIType.u32, FFIType.ptr], returns: FFIType.u32 },
     GetTempPathW: { args: [FFIType.u32, FFIType.ptr], returns: FFIType.u32 },
     GetThreadContext: { args: [FFIType.ptr, FFIType.ptr], returns: FFIType.i32 },
     GetThreadDescription: { args: [FFIType.ptr, FFIType.ptr], returns: FFIType.u32 },
@@ -877,7 +1243,7 @@ class Kernel32 {
     GetThreadUILanguage: { args: [], returns: FFIType.u16 },
     GetTickCount: { args: [], returns: FFIType.u32 },
     GetTickCount64: { args: [], returns: FFIType.u64 },
-    GetTimeFormatA: { args: [FFIType.u32, FFIType.u32, FFIType.ptr, FFIType.u32, FFIType.u32, FFIType.i32], returns: FFIType.i32 },
+    GetTimeFormatA: { args: [FFIType.u32, FFIType.u32, FFIType.ptr, FFIType.ptr, FFIType.ptr, FFIType.i32], returns: FFIType.i32 },
     GetTimeFormatEx: { args: [FFIType.ptr, FFIType.u32, FFIType.ptr, FFIType.ptr, FFIType.ptr, FFIType.i32], returns: FFIType.i32 },
     GetTimeFormatW: { args: [FFIType.u32, FFIType.u32, FFIType.ptr, FFIType.ptr, FFIType.ptr, FFIType.i32], returns: FFIType.i32 },
     GetTimeZoneInformation: { args: [FFIType.ptr], returns: FFIType.u32 },
@@ -895,57 +1261,57 @@ class Kernel32 {
     GetVersion: { args: [], returns: FFIType.u32 },
     GetVersionExA: { args: [FFIType.ptr], returns: FFIType.i32 },
     GetVersionExW: { args: [FFIType.ptr], returns: FFIType.i32 },
-    GetVolumeInformationA: { args: [FFIType.u32, FFIType.u32, FFIType.u32, FFIType.ptr, FFIType.ptr, FFIType.ptr, FFIType.u32, FFIType.u32], returns: FFIType.i32 },
+    GetVolumeInformationA: { args: [FFIType.ptr, FFIType.ptr, FFIType.u32, FFIType.ptr, FFIType.ptr, FFIType.ptr, FFIType.ptr, FFIType.u32], returns: FFIType.i32 },
     GetVolumeInformationByHandleW: { args: [FFIType.ptr, FFIType.ptr, FFIType.u32, FFIType.ptr, FFIType.ptr, FFIType.ptr, FFIType.ptr, FFIType.u32], returns: FFIType.i32 },
     GetVolumeInformationW: { args: [FFIType.ptr, FFIType.ptr, FFIType.u32, FFIType.ptr, FFIType.ptr, FFIType.ptr, FFIType.ptr, FFIType.u32], returns: FFIType.i32 },
-    GetVolumeNameForVolumeMountPointA: { args: [FFIType.u32, FFIType.u32, FFIType.u32], returns: FFIType.i32 },
+    GetVolumeNameForVolumeMountPointA: { args: [FFIType.ptr, FFIType.ptr, FFIType.u32], returns: FFIType.i32 },
     GetVolumeNameForVolumeMountPointW: { args: [FFIType.ptr, FFIType.ptr, FFIType.u32], returns: FFIType.i32 },
-    GetVolumePathNameA: { args: [FFIType.u32, FFIType.u32, FFIType.u32], returns: FFIType.i32 },
-    GetVolumePathNamesForVolumeNameA: { args: [FFIType.u32, FFIType.u32, FFIType.u32, FFIType.ptr], returns: FFIType.i32 },
+    GetVolumePathNameA: { args: [FFIType.ptr, FFIType.ptr, FFIType.u32], returns: FFIType.i32 },
+    GetVolumePathNamesForVolumeNameA: { args: [FFIType.ptr, FFIType.ptr, FFIType.u32, FFIType.ptr], returns: FFIType.i32 },
     GetVolumePathNamesForVolumeNameW: { args: [FFIType.ptr, FFIType.ptr, FFIType.u32, FFIType.ptr], returns: FFIType.i32 },
     GetVolumePathNameW: { args: [FFIType.ptr, FFIType.ptr, FFIType.u32], returns: FFIType.i32 },
-    GetWindowsDirectoryA: { args: [FFIType.u32, FFIType.u32], returns: FFIType.u32 },
+    GetWindowsDirectoryA: { args: [FFIType.ptr, FFIType.u32], returns: FFIType.u32 },
     GetWindowsDirectoryW: { args: [FFIType.ptr, FFIType.u32], returns: FFIType.u32 },
-    GetWriteWatch: { args: [FFIType.u32, FFIType.ptr, FFIType.ptr, FFIType.ptr, FFIType.ptr, FFIType.ptr], returns: FFIType.u32 },
+    GetWriteWatch: { args: [FFIType.u32, FFIType.ptr, FFIType.u64, FFIType.ptr, FFIType.ptr, FFIType.ptr], returns: FFIType.u32 },
     GetXStateFeaturesMask: { args: [FFIType.ptr, FFIType.ptr], returns: FFIType.i32 },
-    GlobalAddAtomA: { args: [FFIType.u32], returns: FFIType.u16 },
-    GlobalAddAtomExA: { args: [FFIType.u32, FFIType.u32], returns: FFIType.u16 },
+    GlobalAddAtomA: { args: [FFIType.ptr], returns: FFIType.u16 },
+    GlobalAddAtomExA: { args: [FFIType.ptr, FFIType.u32], returns: FFIType.u16 },
     GlobalAddAtomExW: { args: [FFIType.ptr, FFIType.u32], returns: FFIType.u16 },
     GlobalAddAtomW: { args: [FFIType.ptr], returns: FFIType.u16 },
-    GlobalAlloc: { args: [FFIType.u32, FFIType.ptr], returns: FFIType.u32 },
+    GlobalAlloc: { args: [FFIType.u32, FFIType.u64], returns: FFIType.ptr },
     GlobalCompact: { args: [FFIType.u32], returns: FFIType.ptr },
     GlobalDeleteAtom: { args: [FFIType.u16], returns: FFIType.u16 },
-    GlobalFindAtomA: { args: [FFIType.u32], returns: FFIType.u16 },
+    GlobalFindAtomA: { args: [FFIType.ptr], returns: FFIType.u16 },
     GlobalFindAtomW: { args: [FFIType.ptr], returns: FFIType.u16 },
-    GlobalFix: { args: [FFIType.u32], returns: FFIType.void },
-    GlobalFlags: { args: [FFIType.u32], returns: FFIType.u32 },
-    GlobalFree: { args: [FFIType.u32], returns: FFIType.u32 },
-    GlobalGetAtomNameA: { args: [FFIType.u16, FFIType.u32, FFIType.i32], returns: FFIType.u32 },
+    GlobalFix: { args: [FFIType.ptr], returns: FFIType.void },
+    GlobalFlags: { args: [FFIType.ptr], returns: FFIType.u32 },
+    GlobalFree: { args: [FFIType.ptr], returns: FFIType.ptr },
+    GlobalGetAtomNameA: { args: [FFIType.u16, FFIType.ptr, FFIType.i32], returns: FFIType.u32 },
     GlobalGetAtomNameW: { args: [FFIType.u16, FFIType.ptr, FFIType.i32], returns: FFIType.u32 },
-    GlobalHandle: { args: [FFIType.ptr], returns: FFIType.u32 },
-    GlobalLock: { args: [FFIType.u32], returns: FFIType.ptr },
+    GlobalHandle: { args: [FFIType.ptr], returns: FFIType.ptr },
+    GlobalLock: { args: [FFIType.ptr], returns: FFIType.ptr },
     GlobalMemoryStatus: { args: [FFIType.ptr], returns: FFIType.void },
     GlobalMemoryStatusEx: { args: [FFIType.ptr], returns: FFIType.i32 },
-    GlobalReAlloc: { args: [FFIType.u32, FFIType.ptr, FFIType.u32], returns: FFIType.u32 },
-    GlobalSize: { args: [FFIType.u32], returns: FFIType.ptr },
-    GlobalUnfix: { args: [FFIType.u32], returns: FFIType.void },
-    GlobalUnlock: { args: [FFIType.u32], returns: FFIType.i32 },
-    GlobalUnWire: { args: [FFIType.u32], returns: FFIType.i32 },
-    GlobalWire: { args: [FFIType.u32], returns: FFIType.ptr },
-    Heap32First: { args: [FFIType.ptr, FFIType.u32, FFIType.ptr], returns: FFIType.i32 },
+    GlobalReAlloc: { args: [FFIType.ptr, FFIType.u64, FFIType.u32], returns: FFIType.ptr },
+    GlobalSize: { args: [FFIType.ptr], returns: FFIType.u64 },
+    GlobalUnfix: { args: [FFIType.ptr], returns: FFIType.void },
+    GlobalUnlock: { args: [FFIType.ptr], returns: FFIType.i32 },
+    GlobalUnWire: { args: [FFIType.ptr], returns: FFIType.i32 },
+    GlobalWire: { args: [FFIType.ptr], returns: FFIType.ptr },
+    Heap32First: { args: [FFIType.ptr, FFIType.u32, FFIType.u64], returns: FFIType.i32 },
     Heap32ListFirst: { args: [FFIType.ptr, FFIType.ptr], returns: FFIType.i32 },
     Heap32ListNext: { args: [FFIType.ptr, FFIType.ptr], returns: FFIType.i32 },
     Heap32Next: { args: [FFIType.ptr], returns: FFIType.i32 },
-    HeapAlloc: { args: [FFIType.ptr, FFIType.u32, FFIType.ptr], returns: FFIType.ptr },
-    HeapCompact: { args: [FFIType.ptr, FFIType.u32], returns: FFIType.ptr },
-    HeapCreate: { args: [FFIType.u32, FFIType.ptr, FFIType.ptr], returns: FFIType.ptr },
+    HeapAlloc: { args: [FFIType.ptr, FFIType.u32, FFIType.u64], returns: FFIType.ptr },
+    HeapCompact: { args: [FFIType.ptr, FFIType.u32], returns: FFIType.u64 },
+    HeapCreate: { args: [FFIType.u32, FFIType.u64, FFIType.u64], returns: FFIType.ptr },
     HeapDestroy: { args: [FFIType.ptr], returns: FFIType.i32 },
     HeapFree: { args: [FFIType.ptr, FFIType.u32, FFIType.ptr], returns: FFIType.i32 },
     HeapLock: { args: [FFIType.ptr], returns: FFIType.i32 },
-    HeapQueryInformation: { args: [FFIType.ptr, FFIType.u32, FFIType.ptr, FFIType.ptr, FFIType.ptr], returns: FFIType.i32 },
-    HeapReAlloc: { args: [FFIType.ptr, FFIType.u32, FFIType.ptr, FFIType.ptr], returns: FFIType.ptr },
-    HeapSetInformation: { args: [FFIType.ptr, FFIType.u32, FFIType.ptr, FFIType.ptr], returns: FFIType.i32 },
-    HeapSize: { args: [FFIType.ptr, FFIType.u32, FFIType.ptr], returns: FFIType.ptr },
+    HeapQueryInformation: { args: [FFIType.ptr, FFIType.u32, FFIType.ptr, FFIType.u64, FFIType.ptr], returns: FFIType.i32 },
+    HeapReAlloc: { args: [FFIType.ptr, FFIType.u32, FFIType.ptr, FFIType.u64], returns: FFIType.ptr },
+    HeapSetInformation: { args: [FFIType.ptr, FFIType.u32, FFIType.ptr, FFIType.u64], returns: FFIType.i32 },
+    HeapSize: { args: [FFIType.ptr, FFIType.u32, FFIType.ptr], returns: FFIType.u64 },
     HeapSummary: { args: [FFIType.ptr, FFIType.u32, FFIType.ptr], returns: FFIType.i32 },
     HeapUnlock: { args: [FFIType.ptr], returns: FFIType.i32 },
     HeapValidate: { args: [FFIType.ptr, FFIType.u32, FFIType.ptr], returns: FFIType.i32 },
@@ -959,13 +1325,13 @@ class Kernel32 {
     InitializeCriticalSectionAndSpinCount: { args: [FFIType.ptr, FFIType.u32], returns: FFIType.i32 },
     InitializeCriticalSectionEx: { args: [FFIType.ptr, FFIType.u32, FFIType.u32], returns: FFIType.i32 },
     InitializeEnclave: { args: [FFIType.ptr, FFIType.ptr, FFIType.ptr, FFIType.u32, FFIType.ptr], returns: FFIType.i32 },
-    InitializeProcThreadAttributeList: { args: [FFIType.u32, FFIType.u32, FFIType.u32, FFIType.ptr], returns: FFIType.i32 },
+    InitializeProcThreadAttributeList: { args: [FFIType.ptr, FFIType.u32, FFIType.u32, FFIType.ptr], returns: FFIType.i32 },
     InitializeSListHead: { args: [FFIType.ptr], returns: FFIType.void },
     InitializeSRWLock: { args: [FFIType.ptr], returns: FFIType.void },
     InitializeSynchronizationBarrier: { args: [FFIType.ptr, FFIType.i32, FFIType.i32], returns: FFIType.i32 },
     InitOnceBeginInitialize: { args: [FFIType.ptr, FFIType.u32, FFIType.ptr, FFIType.ptr], returns: FFIType.i32 },
     InitOnceComplete: { args: [FFIType.ptr, FFIType.u32, FFIType.ptr], returns: FFIType.i32 },
-    InitOnceExecuteOnce: { args: [FFIType.ptr, FFIType.u32, FFIType.ptr, FFIType.ptr], returns: FFIType.i32 },
+    InitOnceExecuteOnce: { args: [FFIType.ptr, FFIType.ptr, FFIType.ptr, FFIType.ptr], returns: FFIType.i32 },
     InitOnceInitialize: { args: [FFIType.ptr], returns: FFIType.void },
     InstallELAMCertificateInfo: { args: [FFIType.ptr], returns: FFIType.i32 },
     InterlockedFlushSList: { args: [FFIType.ptr], returns: FFIType.ptr },
@@ -973,16 +1339,16 @@ class Kernel32 {
     InterlockedPushEntrySList: { args: [FFIType.ptr, FFIType.ptr], returns: FFIType.ptr },
     InterlockedPushListSListEx: { args: [FFIType.ptr, FFIType.ptr, FFIType.ptr, FFIType.u32], returns: FFIType.ptr },
     InvalidateConsoleDIBits: { args: [FFIType.ptr, FFIType.ptr], returns: FFIType.i32 },
-    IsBadCodePtr: { args: [FFIType.u32], returns: FFIType.i32 },
-    IsBadHugeReadPtr: { args: [FFIType.ptr, FFIType.ptr], returns: FFIType.i32 },
-    IsBadHugeWritePtr: { args: [FFIType.ptr, FFIType.ptr], returns: FFIType.i32 },
-    IsBadReadPtr: { args: [FFIType.ptr, FFIType.ptr], returns: FFIType.i32 },
-    IsBadStringPtrA: { args: [FFIType.u32, FFIType.ptr], returns: FFIType.i32 },
-    IsBadStringPtrW: { args: [FFIType.ptr, FFIType.ptr], returns: FFIType.i32 },
-    IsBadWritePtr: { args: [FFIType.ptr, FFIType.ptr], returns: FFIType.i32 },
+    IsBadCodePtr: { args: [FFIType.ptr], returns: FFIType.i32 },
+    IsBadHugeReadPtr: { args: [FFIType.ptr, FFIType.u64], returns: FFIType.i32 },
+    IsBadHugeWritePtr: { args: [FFIType.ptr, FFIType.u64], returns: FFIType.i32 },
+    IsBadReadPtr: { args: [FFIType.ptr, FFIType.u64], returns: FFIType.i32 },
+    IsBadStringPtrA: { args: [FFIType.ptr, FFIType.u64], returns: FFIType.i32 },
+    IsBadStringPtrW: { args: [FFIType.ptr, FFIType.u64], returns: FFIType.i32 },
+    IsBadWritePtr: { args: [FFIType.ptr, FFIType.u64], returns: FFIType.i32 },
     IsCalendarLeapYear: { args: [FFIType.u32, FFIType.u32, FFIType.u32], returns: FFIType.i32 },
-    IsDBCSLeadByte: { args: [FFIType.ptr], returns: FFIType.i32 },
-    IsDBCSLeadByteEx: { args: [FFIType.u32, FFIType.ptr], returns: FFIType.i32 },
+    IsDBCSLeadByte: { args: [FFIType.u8], returns: FFIType.i32 },
+    IsDBCSLeadByteEx: { args: [FFIType.u32, FFIType.u8], returns: FFIType.i32 },
     IsDebuggerPresent: { args: [], returns: FFIType.i32 },
     IsEnclaveTypeSupported: { args: [FFIType.u32], returns: FFIType.i32 },
     IsNativeVhdBoot: { args: [FFIType.ptr], returns: FFIType.i32 },
@@ -993,7 +1359,7 @@ class Kernel32 {
     IsProcessorFeaturePresent: { args: [FFIType.u32], returns: FFIType.i32 },
     IsSystemResumeAutomatic: { args: [], returns: FFIType.i32 },
     IsThreadAFiber: { args: [], returns: FFIType.i32 },
-    IsThreadpoolTimerSet: { args: [FFIType.u32], returns: FFIType.i32 },
+    IsThreadpoolTimerSet: { args: [FFIType.ptr], returns: FFIType.i32 },
     IsUserCetAvailableInEnvironment: { args: [FFIType.u32], returns: FFIType.i32 },
     IsValidCodePage: { args: [FFIType.u32], returns: FFIType.i32 },
     IsValidLanguageGroup: { args: [FFIType.u32, FFIType.u32], returns: FFIType.i32 },
@@ -1005,24 +1371,24 @@ class Kernel32 {
     IsWow64Process2: { args: [FFIType.ptr, FFIType.ptr, FFIType.ptr], returns: FFIType.i32 },
     K32EmptyWorkingSet: { args: [FFIType.ptr], returns: FFIType.i32 },
     K32EnumDeviceDrivers: { args: [FFIType.ptr, FFIType.u32, FFIType.ptr], returns: FFIType.i32 },
-    K32EnumPageFilesA: { args: [FFIType.u32, FFIType.ptr], returns: FFIType.i32 },
-    K32EnumPageFilesW: { args: [FFIType.u32, FFIType.ptr], returns: FFIType.i32 },
+    K32EnumPageFilesA: { args: [FFIType.ptr, FFIType.ptr], returns: FFIType.i32 },
+    K32EnumPageFilesW: { args: [FFIType.ptr, FFIType.ptr], returns: FFIType.i32 },
     K32EnumProcesses: { args: [FFIType.ptr, FFIType.u32, FFIType.ptr], returns: FFIType.i32 },
     K32EnumProcessModules: { args: [FFIType.ptr, FFIType.ptr, FFIType.u32, FFIType.ptr], returns: FFIType.i32 },
     K32EnumProcessModulesEx: { args: [FFIType.ptr, FFIType.ptr, FFIType.u32, FFIType.ptr, FFIType.u32], returns: FFIType.i32 },
-    K32GetDeviceDriverBaseNameA: { args: [FFIType.ptr, FFIType.u32, FFIType.u32], returns: FFIType.u32 },
+    K32GetDeviceDriverBaseNameA: { args: [FFIType.ptr, FFIType.ptr, FFIType.u32], returns: FFIType.u32 },
     K32GetDeviceDriverBaseNameW: { args: [FFIType.ptr, FFIType.ptr, FFIType.u32], returns: FFIType.u32 },
-    K32GetDeviceDriverFileNameA: { args: [FFIType.ptr, FFIType.u32, FFIType.u32], returns: FFIType.u32 },
+    K32GetDeviceDriverFileNameA: { args: [FFIType.ptr, FFIType.ptr, FFIType.u32], returns: FFIType.u32 },
     K32GetDeviceDriverFileNameW: { args: [FFIType.ptr, FFIType.ptr, FFIType.u32], returns: FFIType.u32 },
-    K32GetMappedFileNameA: { args: [FFIType.ptr, FFIType.ptr, FFIType.u32, FFIType.u32], returns: FFIType.u32 },
+    K32GetMappedFileNameA: { args: [FFIType.ptr, FFIType.ptr, FFIType.ptr, FFIType.u32], returns: FFIType.u32 },
     K32GetMappedFileNameW: { args: [FFIType.ptr, FFIType.ptr, FFIType.ptr, FFIType.u32], returns: FFIType.u32 },
-    K32GetModuleBaseNameA: { args: [FFIType.ptr, FFIType.u32, FFIType.u32, FFIType.u32], returns: FFIType.u32 },
-    K32GetModuleBaseNameW: { args: [FFIType.ptr, FFIType.u32, FFIType.ptr, FFIType.u32], returns: FFIType.u32 },
-    K32GetModuleFileNameExA: { args: [FFIType.ptr, FFIType.u32, FFIType.u32, FFIType.u32], returns: FFIType.u32 },
-    K32GetModuleFileNameExW: { args: [FFIType.ptr, FFIType.u32, FFIType.ptr, FFIType.u32], returns: FFIType.u32 },
-    K32GetModuleInformation: { args: [FFIType.ptr, FFIType.u32, FFIType.ptr, FFIType.u32], returns: FFIType.i32 },
+    K32GetModuleBaseNameA: { args: [FFIType.ptr, FFIType.ptr, FFIType.ptr, FFIType.u32], returns: FFIType.u32 },
+    K32GetModuleBaseNameW: { args: [FFIType.ptr, FFIType.ptr, FFIType.ptr, FFIType.u32], returns: FFIType.u32 },
+    K32GetModuleFileNameExA: { args: [FFIType.ptr, FFIType.ptr, FFIType.ptr, FFIType.u32], returns: FFIType.u32 },
+    K32GetModuleFileNameExW: { args: [FFIType.ptr, FFIType.ptr, FFIType.ptr, FFIType.u32], returns: FFIType.u32 },
+    K32GetModuleInformation: { args: [FFIType.ptr, FFIType.ptr, FFIType.ptr, FFIType.u32], returns: FFIType.i32 },
     K32GetPerformanceInfo: { args: [FFIType.ptr, FFIType.u32], returns: FFIType.i32 },
-    K32GetProcessImageFileNameA: { args: [FFIType.ptr, FFIType.u32, FFIType.u32], returns: FFIType.u32 },
+    K32GetProcessImageFileNameA: { args: [FFIType.ptr, FFIType.ptr, FFIType.u32], returns: FFIType.u32 },
     K32GetProcessImageFileNameW: { args: [FFIType.ptr, FFIType.ptr, FFIType.u32], returns: FFIType.u32 },
     K32GetProcessMemoryInfo: { args: [FFIType.ptr, FFIType.ptr, FFIType.u32], returns: FFIType.i32 },
     K32GetWsChanges: { args: [FFIType.ptr, FFIType.ptr, FFIType.u32], returns: FFIType.i32 },
@@ -1031,93 +1397,93 @@ class Kernel32 {
     K32QueryWorkingSet: { args: [FFIType.ptr, FFIType.ptr, FFIType.u32], returns: FFIType.i32 },
     K32QueryWorkingSetEx: { args: [FFIType.ptr, FFIType.ptr, FFIType.u32], returns: FFIType.i32 },
     LCIDToLocaleName: { args: [FFIType.u32, FFIType.ptr, FFIType.i32, FFIType.u32], returns: FFIType.i32 },
-    LCMapStringA: { args: [FFIType.u32, FFIType.u32, FFIType.u32, FFIType.i32, FFIType.u32, FFIType.i32], returns: FFIType.i32 },
-    LCMapStringEx: { args: [FFIType.ptr, FFIType.u32, FFIType.ptr, FFIType.i32, FFIType.ptr, FFIType.i32, FFIType.ptr, FFIType.ptr, FFIType.u32], returns: FFIType.i32 },
+    LCMapStringA: { args: [FFIType.u32, FFIType.u32, FFIType.ptr, FFIType.i32, FFIType.ptr, FFIType.i32], returns: FFIType.i32 },
+    LCMapStringEx: { args: [FFIType.ptr, FFIType.u32, FFIType.ptr, FFIType.i32, FFIType.ptr, FFIType.i32, FFIType.ptr, FFIType.ptr, FFIType.i64], returns: FFIType.i32 },
     LCMapStringW: { args: [FFIType.u32, FFIType.u32, FFIType.ptr, FFIType.i32, FFIType.ptr, FFIType.i32], returns: FFIType.i32 },
     LeaveCriticalSection: { args: [FFIType.ptr], returns: FFIType.void },
-    LeaveCriticalSectionWhenCallbackReturns: { args: [FFIType.u32, FFIType.ptr], returns: FFIType.void },
-    LoadEnclaveData: { args: [FFIType.ptr, FFIType.ptr, FFIType.ptr, FFIType.ptr, FFIType.u32, FFIType.ptr, FFIType.u32, FFIType.ptr, FFIType.ptr], returns: FFIType.i32 },
-    LoadLibraryA: { args: [FFIType.u32], returns: FFIType.u32 },
-    LoadLibraryExA: { args: [FFIType.u32, FFIType.ptr, FFIType.u32], returns: FFIType.u32 },
-    LoadLibraryExW: { args: [FFIType.ptr, FFIType.ptr, FFIType.u32], returns: FFIType.u32 },
-    LoadLibraryW: { args: [FFIType.ptr], returns: FFIType.u32 },
-    LoadModule: { args: [FFIType.u32, FFIType.ptr], returns: FFIType.u32 },
-    LoadPackagedLibrary: { args: [FFIType.ptr, FFIType.u32], returns: FFIType.u32 },
-    LoadResource: { args: [FFIType.u32, FFIType.u32], returns: FFIType.u32 },
-    LocalAlloc: { args: [FFIType.u32, FFIType.ptr], returns: FFIType.u32 },
+    LeaveCriticalSectionWhenCallbackReturns: { args: [FFIType.ptr, FFIType.ptr], returns: FFIType.void },
+    LoadEnclaveData: { args: [FFIType.ptr, FFIType.ptr, FFIType.ptr, FFIType.u64, FFIType.u32, FFIType.ptr, FFIType.u32, FFIType.ptr, FFIType.ptr], returns: FFIType.i32 },
+    LoadLibraryA: { args: [FFIType.ptr], returns: FFIType.ptr },
+    LoadLibraryExA: { args: [FFIType.ptr, FFIType.ptr, FFIType.u32], returns: FFIType.ptr },
+    LoadLibraryExW: { args: [FFIType.ptr, FFIType.ptr, FFIType.u32], returns: FFIType.ptr },
+    LoadLibraryW: { args: [FFIType.ptr], returns: FFIType.ptr },
+    LoadModule: { args: [FFIType.ptr, FFIType.ptr], returns: FFIType.u32 },
+    LoadPackagedLibrary: { args: [FFIType.ptr, FFIType.u32], returns: FFIType.ptr },
+    LoadResource: { args: [FFIType.ptr, FFIType.ptr], returns: FFIType.ptr },
+    LocalAlloc: { args: [FFIType.u32, FFIType.u64], returns: FFIType.ptr },
     LocalCompact: { args: [FFIType.u32], returns: FFIType.ptr },
     LocaleNameToLCID: { args: [FFIType.ptr, FFIType.u32], returns: FFIType.u32 },
     LocalFileTimeToFileTime: { args: [FFIType.ptr, FFIType.ptr], returns: FFIType.i32 },
     LocalFileTimeToLocalSystemTime: { args: [FFIType.ptr, FFIType.ptr, FFIType.ptr], returns: FFIType.i32 },
-    LocalFlags: { args: [FFIType.u32], returns: FFIType.u32 },
-    LocalFree: { args: [FFIType.u32], returns: FFIType.u32 },
-    LocalHandle: { args: [FFIType.ptr], returns: FFIType.u32 },
-    LocalLock: { args: [FFIType.u32], returns: FFIType.ptr },
-    LocalReAlloc: { args: [FFIType.u32, FFIType.ptr, FFIType.u32], returns: FFIType.u32 },
-    LocalShrink: { args: [FFIType.u32, FFIType.u32], returns: FFIType.ptr },
-    LocalSize: { args: [FFIType.u32], returns: FFIType.ptr },
+    LocalFlags: { args: [FFIType.ptr], returns: FFIType.u32 },
+    LocalFree: { args: [FFIType.ptr], returns: FFIType.ptr },
+    LocalHandle: { args: [FFIType.ptr], returns: FFIType.ptr },
+    LocalLock: { args: [FFIType.ptr], returns: FFIType.ptr },
+    LocalReAlloc: { args: [FFIType.ptr, FFIType.u64, FFIType.u32], returns: FFIType.ptr },
+    LocalShrink: { args: [FFIType.ptr, FFIType.u32], returns: FFIType.ptr },
+    LocalSize: { args: [FFIType.ptr], returns: FFIType.u64 },
     LocalSystemTimeToLocalFileTime: { args: [FFIType.ptr, FFIType.ptr, FFIType.ptr], returns: FFIType.i32 },
-    LocalUnlock: { args: [FFIType.u32], returns: FFIType.i32 },
+    LocalUnlock: { args: [FFIType.ptr], returns: FFIType.i32 },
     LocateXStateFeature: { args: [FFIType.ptr, FFIType.u32, FFIType.ptr], returns: FFIType.ptr },
     LockFile: { args: [FFIType.ptr, FFIType.u32, FFIType.u32, FFIType.u32, FFIType.u32], returns: FFIType.i32 },
     LockFileEx: { args: [FFIType.ptr, FFIType.u32, FFIType.u32, FFIType.u32, FFIType.u32, FFIType.ptr], returns: FFIType.i32 },
-    LockResource: { args: [FFIType.u32], returns: FFIType.ptr },
+    LockResource: { args: [FFIType.ptr], returns: FFIType.ptr },
     LZClose: { args: [FFIType.i32], returns: FFIType.void },
     LZCopy: { args: [FFIType.i32, FFIType.i32], returns: FFIType.i32 },
     LZDone: { args: [], returns: FFIType.void },
     LZInit: { args: [FFIType.i32], returns: FFIType.i32 },
-    LZOpenFileA: { args: [FFIType.u32, FFIType.ptr, FFIType.u32], returns: FFIType.i32 },
+    LZOpenFileA: { args: [FFIType.ptr, FFIType.ptr, FFIType.u32], returns: FFIType.i32 },
     LZOpenFileW: { args: [FFIType.ptr, FFIType.ptr, FFIType.u32], returns: FFIType.i32 },
-    LZRead: { args: [FFIType.i32, FFIType.u32, FFIType.i32], returns: FFIType.i32 },
+    LZRead: { args: [FFIType.i32, FFIType.ptr, FFIType.i32], returns: FFIType.i32 },
     LZSeek: { args: [FFIType.i32, FFIType.i32, FFIType.i32], returns: FFIType.i32 },
     LZStart: { args: [], returns: FFIType.i32 },
-    MapUserPhysicalPages: { args: [FFIType.ptr, FFIType.ptr, FFIType.ptr], returns: FFIType.i32 },
-    MapUserPhysicalPagesScatter: { args: [FFIType.ptr, FFIType.ptr, FFIType.ptr], returns: FFIType.i32 },
-    MapViewOfFile: { args: [FFIType.ptr, FFIType.u32, FFIType.u32, FFIType.u32, FFIType.ptr], returns: FFIType.u32 },
-    MapViewOfFileEx: { args: [FFIType.ptr, FFIType.u32, FFIType.u32, FFIType.u32, FFIType.ptr, FFIType.ptr], returns: FFIType.u32 },
-    MapViewOfFileExNuma: { args: [FFIType.ptr, FFIType.u32, FFIType.u32, FFIType.u32, FFIType.ptr, FFIType.ptr, FFIType.u32], returns: FFIType.u32 },
-    MapViewOfFileFromApp: { args: [FFIType.ptr, FFIType.u32, FFIType.u64, FFIType.ptr], returns: FFIType.u32 },
+    MapUserPhysicalPages: { args: [FFIType.ptr, FFIType.u64, FFIType.ptr], returns: FFIType.i32 },
+    MapUserPhysicalPagesScatter: { args: [FFIType.ptr, FFIType.u64, FFIType.ptr], returns: FFIType.i32 },
+    MapViewOfFile: { args: [FFIType.ptr, FFIType.u32, FFIType.u32, FFIType.u32, FFIType.u64], returns: FFIType.ptr },
+    MapViewOfFileEx: { args: [FFIType.ptr, FFIType.u32, FFIType.u32, FFIType.u32, FFIType.u64, FFIType.ptr], returns: FFIType.ptr },
+    MapViewOfFileExNuma: { args: [FFIType.ptr, FFIType.u32, FFIType.u32, FFIType.u32, FFIType.u64, FFIType.ptr, FFIType.u32], returns: FFIType.ptr },
+    MapViewOfFileFromApp: { args: [FFIType.ptr, FFIType.u32, FFIType.u64, FFIType.u64], returns: FFIType.ptr },
     Module32First: { args: [FFIType.ptr, FFIType.ptr], returns: FFIType.i32 },
     Module32FirstW: { args: [FFIType.ptr, FFIType.ptr], returns: FFIType.i32 },
     Module32Next: { args: [FFIType.ptr, FFIType.ptr], returns: FFIType.i32 },
     Module32NextW: { args: [FFIType.ptr, FFIType.ptr], returns: FFIType.i32 },
-    MoveFileA: { args: [FFIType.u32, FFIType.u32], returns: FFIType.i32 },
-    MoveFileExA: { args: [FFIType.u32, FFIType.u32, FFIType.u32], returns: FFIType.i32 },
+    MoveFileA: { args: [FFIType.ptr, FFIType.ptr], returns: FFIType.i32 },
+    MoveFileExA: { args: [FFIType.ptr, FFIType.ptr, FFIType.u32], returns: FFIType.i32 },
     MoveFileExW: { args: [FFIType.ptr, FFIType.ptr, FFIType.u32], returns: FFIType.i32 },
-    MoveFileTransactedA: { args: [FFIType.u32, FFIType.u32, FFIType.u32, FFIType.ptr, FFIType.u32, FFIType.ptr], returns: FFIType.i32 },
-    MoveFileTransactedW: { args: [FFIType.ptr, FFIType.ptr, FFIType.u32, FFIType.ptr, FFIType.u32, FFIType.ptr], returns: FFIType.i32 },
+    MoveFileTransactedA: { args: [FFIType.ptr, FFIType.ptr, FFIType.ptr, FFIType.ptr, FFIType.u32, FFIType.ptr], returns: FFIType.i32 },
+    MoveFileTransactedW: { args: [FFIType.ptr, FFIType.ptr, FFIType.ptr, FFIType.ptr, FFIType.u32, FFIType.ptr], returns: FFIType.i32 },
     MoveFileW: { args: [FFIType.ptr, FFIType.ptr], returns: FFIType.i32 },
-    MoveFileWithProgressA: { args: [FFIType.u32, FFIType.u32, FFIType.u32, FFIType.ptr, FFIType.u32], returns: FFIType.i32 },
-    MoveFileWithProgressW: { args: [FFIType.ptr, FFIType.ptr, FFIType.u32, FFIType.ptr, FFIType.u32], returns: FFIType.i32 },
+    MoveFileWithProgressA: { args: [FFIType.ptr, FFIType.ptr, FFIType.ptr, FFIType.ptr, FFIType.u32], returns: FFIType.i32 },
+    MoveFileWithProgressW: { args: [FFIType.ptr, FFIType.ptr, FFIType.ptr, FFIType.ptr, FFIType.u32], returns: FFIType.i32 },
     MulDiv: { args: [FFIType.i32, FFIType.i32, FFIType.i32], returns: FFIType.i32 },
-    MultiByteToWideChar: { args: [FFIType.u32, FFIType.u32, FFIType.u32, FFIType.i32, FFIType.ptr, FFIType.i32], returns: FFIType.i32 },
-    NeedCurrentDirectoryForExePathA: { args: [FFIType.u32], returns: FFIType.i32 },
+    MultiByteToWideChar: { args: [FFIType.u32, FFIType.u32, FFIType.ptr, FFIType.i32, FFIType.ptr, FFIType.i32], returns: FFIType.i32 },
+    NeedCurrentDirectoryForExePathA: { args: [FFIType.ptr], returns: FFIType.i32 },
     NeedCurrentDirectoryForExePathW: { args: [FFIType.ptr], returns: FFIType.i32 },
     NormalizeString: { args: [FFIType.u32, FFIType.ptr, FFIType.i32, FFIType.ptr, FFIType.i32], returns: FFIType.i32 },
     NotifyUILanguageChange: { args: [FFIType.u32, FFIType.ptr, FFIType.ptr, FFIType.u32, FFIType.ptr], returns: FFIType.i32 },
-    OfferVirtualMemory: { args: [FFIType.ptr, FFIType.ptr, FFIType.u32], returns: FFIType.u32 },
+    OfferVirtualMemory: { args: [FFIType.ptr, FFIType.u64, FFIType.u32], returns: FFIType.u32 },
     OOBEComplete: { args: [FFIType.ptr], returns: FFIType.i32 },
     OpenConsoleW: { args: [FFIType.ptr, FFIType.u32, FFIType.i32, FFIType.u32], returns: FFIType.ptr },
-    OpenEventA: { args: [FFIType.u32, FFIType.i32, FFIType.u32], returns: FFIType.ptr },
+    OpenEventA: { args: [FFIType.u32, FFIType.i32, FFIType.ptr], returns: FFIType.ptr },
     OpenEventW: { args: [FFIType.u32, FFIType.i32, FFIType.ptr], returns: FFIType.ptr },
-    OpenFile: { args: [FFIType.u32, FFIType.ptr, FFIType.u32], returns: FFIType.i32 },
+    OpenFile: { args: [FFIType.ptr, FFIType.ptr, FFIType.u32], returns: FFIType.i32 },
     OpenFileById: { args: [FFIType.ptr, FFIType.ptr, FFIType.u32, FFIType.u32, FFIType.ptr, FFIType.u32], returns: FFIType.ptr },
-    OpenFileMappingA: { args: [FFIType.u32, FFIType.i32, FFIType.u32], returns: FFIType.ptr },
+    OpenFileMappingA: { args: [FFIType.u32, FFIType.i32, FFIType.ptr], returns: FFIType.ptr },
     OpenFileMappingW: { args: [FFIType.u32, FFIType.i32, FFIType.ptr], returns: FFIType.ptr },
-    OpenJobObjectA: { args: [FFIType.u32, FFIType.i32, FFIType.u32], returns: FFIType.ptr },
+    OpenJobObjectA: { args: [FFIType.u32, FFIType.i32, FFIType.ptr], returns: FFIType.ptr },
     OpenJobObjectW: { args: [FFIType.u32, FFIType.i32, FFIType.ptr], returns: FFIType.ptr },
-    OpenMutexA: { args: [FFIType.u32, FFIType.i32, FFIType.u32], returns: FFIType.ptr },
+    OpenMutexA: { args: [FFIType.u32, FFIType.i32, FFIType.ptr], returns: FFIType.ptr },
     OpenMutexW: { args: [FFIType.u32, FFIType.i32, FFIType.ptr], returns: FFIType.ptr },
     OpenPackageInfoByFullName: { args: [FFIType.ptr, FFIType.u32, FFIType.ptr], returns: FFIType.u32 },
-    OpenPrivateNamespaceA: { args: [FFIType.ptr, FFIType.u32], returns: FFIType.ptr },
+    OpenPrivateNamespaceA: { args: [FFIType.ptr, FFIType.ptr], returns: FFIType.ptr },
     OpenPrivateNamespaceW: { args: [FFIType.ptr, FFIType.ptr], returns: FFIType.ptr },
     OpenProcess: { args: [FFIType.u32, FFIType.i32, FFIType.u32], returns: FFIType.ptr },
-    OpenSemaphoreA: { args: [FFIType.u32, FFIType.i32, FFIType.u32], returns: FFIType.ptr },
+    OpenSemaphoreA: { args: [FFIType.u32, FFIType.i32, FFIType.ptr], returns: FFIType.ptr },
     OpenSemaphoreW: { args: [FFIType.u32, FFIType.i32, FFIType.ptr], returns: FFIType.ptr },
     OpenThread: { args: [FFIType.u32, FFIType.i32, FFIType.u32], returns: FFIType.ptr },
-    OpenWaitableTimerA: { args: [FFIType.u32, FFIType.i32, FFIType.u32], returns: FFIType.ptr },
+    OpenWaitableTimerA: { args: [FFIType.u32, FFIType.i32, FFIType.ptr], returns: FFIType.ptr },
     OpenWaitableTimerW: { args: [FFIType.u32, FFIType.i32, FFIType.ptr], returns: FFIType.ptr },
-    OutputDebugStringA: { args: [FFIType.u32], returns: FFIType.void },
+    OutputDebugStringA: { args: [FFIType.ptr], returns: FFIType.void },
     OutputDebugStringW: { args: [FFIType.ptr], returns: FFIType.void },
     PackageFamilyNameFromFullName: { args: [FFIType.ptr, FFIType.ptr, FFIType.ptr], returns: FFIType.u32 },
     PackageFamilyNameFromId: { args: [FFIType.ptr, FFIType.ptr, FFIType.ptr], returns: FFIType.u32 },
@@ -1128,11 +1494,11 @@ class Kernel32 {
     PeekConsoleInputA: { args: [FFIType.ptr, FFIType.ptr, FFIType.u32, FFIType.ptr], returns: FFIType.i32 },
     PeekConsoleInputW: { args: [FFIType.ptr, FFIType.ptr, FFIType.u32, FFIType.ptr], returns: FFIType.i32 },
     PeekNamedPipe: { args: [FFIType.ptr, FFIType.ptr, FFIType.u32, FFIType.ptr, FFIType.ptr, FFIType.ptr], returns: FFIType.i32 },
-    PostQueuedCompletionStatus: { args: [FFIType.ptr, FFIType.u32, FFIType.ptr, FFIType.ptr], returns: FFIType.i32 },
+    PostQueuedCompletionStatus: { args: [FFIType.ptr, FFIType.u32, FFIType.u64, FFIType.ptr], returns: FFIType.i32 },
     PowerClearRequest: { args: [FFIType.ptr, FFIType.u32], returns: FFIType.i32 },
     PowerCreateRequest: { args: [FFIType.ptr], returns: FFIType.ptr },
     PowerSetRequest: { args: [FFIType.ptr, FFIType.u32], returns: FFIType.i32 },
-    PrefetchVirtualMemory: { args: [FFIType.ptr, FFIType.ptr, FFIType.ptr, FFIType.u32], returns: FFIType.i32 },
+    PrefetchVirtualMemory: { args: [FFIType.ptr, FFIType.u64, FFIType.ptr, FFIType.u32], returns: FFIType.i32 },
     PrepareTape: { args: [FFIType.ptr, FFIType.u32, FFIType.i32], returns: FFIType.u32 },
     Process32First: { args: [FFIType.ptr, FFIType.ptr], returns: FFIType.i32 },
     Process32FirstW: { args: [FFIType.ptr, FFIType.ptr], returns: FFIType.i32 },
@@ -1140,23 +1506,23 @@ class Kernel32 {
     Process32NextW: { args: [FFIType.ptr, FFIType.ptr], returns: FFIType.i32 },
     ProcessIdToSessionId: { args: [FFIType.u32, FFIType.ptr], returns: FFIType.i32 },
     PssCaptureSnapshot: { args: [FFIType.ptr, FFIType.u32, FFIType.u32, FFIType.ptr], returns: FFIType.u32 },
-    PssDuplicateSnapshot: { args: [FFIType.ptr, FFIType.u32, FFIType.ptr, FFIType.ptr, FFIType.u32], returns: FFIType.u32 },
-    PssFreeSnapshot: { args: [FFIType.ptr, FFIType.u32], returns: FFIType.u32 },
-    PssQuerySnapshot: { args: [FFIType.u32, FFIType.u32, FFIType.ptr, FFIType.u32], returns: FFIType.u32 },
+    PssDuplicateSnapshot: { args: [FFIType.ptr, FFIType.ptr, FFIType.ptr, FFIType.ptr, FFIType.u32], returns: FFIType.u32 },
+    PssFreeSnapshot: { args: [FFIType.ptr, FFIType.ptr], returns: FFIType.u32 },
+    PssQuerySnapshot: { args: [FFIType.ptr, FFIType.u32, FFIType.ptr, FFIType.u32], returns: FFIType.u32 },
     PssWalkMarkerCreate: { args: [FFIType.ptr, FFIType.ptr], returns: FFIType.u32 },
-    PssWalkMarkerFree: { args: [FFIType.u32], returns: FFIType.u32 },
-    PssWalkMarkerGetPosition: { args: [FFIType.u32, FFIType.ptr], returns: FFIType.u32 },
-    PssWalkMarkerSeekToBeginning: { args: [FFIType.u32], returns: FFIType.u32 },
-    PssWalkMarkerSetPosition: { args: [FFIType.u32, FFIType.ptr], returns: FFIType.u32 },
-    PssWalkSnapshot: { args: [FFIType.u32, FFIType.u32, FFIType.u32, FFIType.ptr, FFIType.u32], returns: FFIType.u32 },
+    PssWalkMarkerFree: { args: [FFIType.ptr], returns: FFIType.u32 },
+    PssWalkMarkerGetPosition: { args: [FFIType.ptr, FFIType.ptr], returns: FFIType.u32 },
+    PssWalkMarkerSeekToBeginning: { args: [FFIType.ptr], returns: FFIType.u32 },
+    PssWalkMarkerSetPosition: { args: [FFIType.ptr, FFIType.ptr], returns: FFIType.u32 },
+    PssWalkSnapshot: { args: [FFIType.ptr, FFIType.u32, FFIType.ptr, FFIType.ptr, FFIType.u32], returns: FFIType.u32 },
     PulseEvent: { args: [FFIType.ptr], returns: FFIType.i32 },
     PurgeComm: { args: [FFIType.ptr, FFIType.u32], returns: FFIType.i32 },
-    QueryActCtxSettingsW: { args: [FFIType.u32, FFIType.ptr, FFIType.ptr, FFIType.ptr, FFIType.ptr, FFIType.ptr, FFIType.ptr], returns: FFIType.i32 },
-    QueryActCtxW: { args: [FFIType.u32, FFIType.ptr, FFIType.ptr, FFIType.u32, FFIType.ptr, FFIType.ptr, FFIType.ptr], returns: FFIType.i32 },
+    QueryActCtxSettingsW: { args: [FFIType.u32, FFIType.ptr, FFIType.ptr, FFIType.ptr, FFIType.ptr, FFIType.u64, FFIType.ptr], returns: FFIType.i32 },
+    QueryActCtxW: { args: [FFIType.u32, FFIType.ptr, FFIType.ptr, FFIType.u32, FFIType.ptr, FFIType.u64, FFIType.ptr], returns: FFIType.i32 },
     QueryDepthSList: { args: [FFIType.ptr], returns: FFIType.u16 },
-    QueryDosDeviceA: { args: [FFIType.u32, FFIType.u32, FFIType.u32], returns: FFIType.u32 },
+    QueryDosDeviceA: { args: [FFIType.ptr, FFIType.ptr, FFIType.u32], returns: FFIType.u32 },
     QueryDosDeviceW: { args: [FFIType.ptr, FFIType.ptr, FFIType.u32], returns: FFIType.u32 },
-    QueryFullProcessImageNameA: { args: [FFIType.ptr, FFIType.u32, FFIType.u32, FFIType.ptr], returns: FFIType.i32 },
+    QueryFullProcessImageNameA: { args: [FFIType.ptr, FFIType.u32, FFIType.ptr, FFIType.ptr], returns: FFIType.i32 },
     QueryFullProcessImageNameW: { args: [FFIType.ptr, FFIType.u32, FFIType.ptr, FFIType.ptr], returns: FFIType.i32 },
     QueryIdleProcessorCycleTime: { args: [FFIType.ptr, FFIType.ptr], returns: FFIType.i32 },
     QueryIdleProcessorCycleTimeEx: { args: [FFIType.u16, FFIType.ptr, FFIType.ptr], returns: FFIType.i32 },
@@ -1169,13 +1535,13 @@ class Kernel32 {
     QueryProcessCycleTime: { args: [FFIType.ptr, FFIType.ptr], returns: FFIType.i32 },
     QueryProtectedPolicy: { args: [FFIType.ptr, FFIType.ptr], returns: FFIType.i32 },
     QueryThreadCycleTime: { args: [FFIType.ptr, FFIType.ptr], returns: FFIType.i32 },
-    QueryThreadpoolStackInformation: { args: [FFIType.u32, FFIType.ptr], returns: FFIType.i32 },
+    QueryThreadpoolStackInformation: { args: [FFIType.ptr, FFIType.ptr], returns: FFIType.i32 },
     QueryThreadProfiling: { args: [FFIType.ptr, FFIType.ptr], returns: FFIType.u32 },
     QueryUmsThreadInformation: { args: [FFIType.ptr, FFIType.u32, FFIType.ptr, FFIType.u32, FFIType.ptr], returns: FFIType.i32 },
     QueryUnbiasedInterruptTime: { args: [FFIType.ptr], returns: FFIType.i32 },
-    QueueUserAPC: { args: [FFIType.u32, FFIType.ptr, FFIType.ptr], returns: FFIType.u32 },
-    QueueUserAPC2: { args: [FFIType.u32, FFIType.ptr, FFIType.ptr, FFIType.u32], returns: FFIType.i32 },
-    QueueUserWorkItem: { args: [FFIType.u32, FFIType.ptr, FFIType.u32], returns: FFIType.i32 },
+    QueueUserAPC: { args: [FFIType.ptr, FFIType.ptr, FFIType.u64], returns: FFIType.u32 },
+    QueueUserAPC2: { args: [FFIType.ptr, FFIType.ptr, FFIType.u64, FFIType.u32], returns: FFIType.i32 },
+    QueueUserWorkItem: { args: [FFIType.ptr, FFIType.ptr, FFIType.u32], returns: FFIType.i32 },
     RaiseException: { args: [FFIType.u32, FFIType.u32, FFIType.u32, FFIType.ptr], returns: FFIType.void },
     RaiseFailFastException: { args: [FFIType.ptr, FFIType.ptr, FFIType.u32], returns: FFIType.void },
     ReadConsoleA: { args: [FFIType.ptr, FFIType.ptr, FFIType.u32, FFIType.ptr, FFIType.ptr], returns: FFIType.i32 },
@@ -1185,64 +1551,64 @@ class Kernel32 {
     ReadConsoleInputW: { args: [FFIType.ptr, FFIType.ptr, FFIType.u32, FFIType.ptr], returns: FFIType.i32 },
     ReadConsoleOutputA: { args: [FFIType.ptr, FFIType.ptr, FFIType.u32, FFIType.u32, FFIType.ptr], returns: FFIType.i32 },
     ReadConsoleOutputAttribute: { args: [FFIType.ptr, FFIType.ptr, FFIType.u32, FFIType.u32, FFIType.ptr], returns: FFIType.i32 },
-    ReadConsoleOutputCharacterA: { args: [FFIType.ptr, FFIType.u32, FFIType.u32, FFIType.u32, FFIType.ptr], returns: FFIType.i32 },
+    ReadConsoleOutputCharacterA: { args: [FFIType.ptr, FFIType.ptr, FFIType.u32, FFIType.u32, FFIType.ptr], returns: FFIType.i32 },
     ReadConsoleOutputCharacterW: { args: [FFIType.ptr, FFIType.ptr, FFIType.u32, FFIType.u32, FFIType.ptr], returns: FFIType.i32 },
     ReadConsoleOutputW: { args: [FFIType.ptr, FFIType.ptr, FFIType.u32, FFIType.u32, FFIType.ptr], returns: FFIType.i32 },
     ReadConsoleW: { args: [FFIType.ptr, FFIType.ptr, FFIType.u32, FFIType.ptr, FFIType.ptr], returns: FFIType.i32 },
-    ReadDirectoryChangesExW: { args: [FFIType.ptr, FFIType.ptr, FFIType.u32, FFIType.i32, FFIType.u32, FFIType.ptr, FFIType.ptr, FFIType.u32, FFIType.u32], returns: FFIType.i32 },
-    ReadDirectoryChangesW: { args: [FFIType.ptr, FFIType.ptr, FFIType.u32, FFIType.i32, FFIType.u32, FFIType.ptr, FFIType.ptr, FFIType.u32], returns: FFIType.i32 },
+    ReadDirectoryChangesExW: { args: [FFIType.ptr, FFIType.ptr, FFIType.u32, FFIType.i32, FFIType.u32, FFIType.ptr, FFIType.ptr, FFIType.ptr, FFIType.u32], returns: FFIType.i32 },
+    ReadDirectoryChangesW: { args: [FFIType.ptr, FFIType.ptr, FFIType.u32, FFIType.i32, FFIType.u32, FFIType.ptr, FFIType.ptr, FFIType.ptr], returns: FFIType.i32 },
     ReadFile: { args: [FFIType.ptr, FFIType.ptr, FFIType.u32, FFIType.ptr, FFIType.ptr], returns: FFIType.i32 },
-    ReadFileEx: { args: [FFIType.ptr, FFIType.ptr, FFIType.u32, FFIType.ptr, FFIType.u32], returns: FFIType.i32 },
+    ReadFileEx: { args: [FFIType.ptr, FFIType.ptr, FFIType.u32, FFIType.ptr, FFIType.ptr], returns: FFIType.i32 },
     ReadFileScatter: { args: [FFIType.ptr, FFIType.ptr, FFIType.u32, FFIType.ptr, FFIType.ptr], returns: FFIType.i32 },
-    ReadProcessMemory: { args: [FFIType.ptr, FFIType.ptr, FFIType.ptr, FFIType.ptr, FFIType.ptr], returns: FFIType.i32 },
+    ReadProcessMemory: { args: [FFIType.ptr, FFIType.ptr, FFIType.ptr, FFIType.u64, FFIType.ptr], returns: FFIType.i32 },
     ReadThreadProfilingData: { args: [FFIType.ptr, FFIType.u32, FFIType.ptr], returns: FFIType.u32 },
-    ReclaimVirtualMemory: { args: [FFIType.ptr, FFIType.ptr], returns: FFIType.u32 },
-    RegisterApplicationRecoveryCallback: { args: [FFIType.u32, FFIType.ptr, FFIType.u32, FFIType.u32], returns: FFIType.u32 },
+    ReclaimVirtualMemory: { args: [FFIType.ptr, FFIType.u64], returns: FFIType.u32 },
+    RegisterApplicationRecoveryCallback: { args: [FFIType.ptr, FFIType.ptr, FFIType.u32, FFIType.u32], returns: FFIType.u32 },
     RegisterApplicationRestart: { args: [FFIType.ptr, FFIType.u32], returns: FFIType.u32 },
-    RegisterBadMemoryNotification: { args: [FFIType.u32], returns: FFIType.ptr },
-    RegisterConsoleIME: { args: [FFIType.u32, FFIType.ptr], returns: FFIType.i32 },
+    RegisterBadMemoryNotification: { args: [FFIType.ptr], returns: FFIType.ptr },
+    RegisterConsoleIME: { args: [FFIType.ptr, FFIType.ptr], returns: FFIType.i32 },
     RegisterConsoleOS2: { args: [FFIType.i32], returns: FFIType.i32 },
     RegisterConsoleVDM: { args: [FFIType.u32, FFIType.ptr, FFIType.ptr, FFIType.ptr, FFIType.u32, FFIType.ptr, FFIType.ptr, FFIType.u32, FFIType.ptr], returns: FFIType.i32 },
-    RegisterWaitForSingleObject: { args: [FFIType.ptr, FFIType.ptr, FFIType.u32, FFIType.ptr, FFIType.u32, FFIType.u32], returns: FFIType.i32 },
-    RegisterWaitUntilOOBECompleted: { args: [FFIType.u32, FFIType.ptr, FFIType.ptr], returns: FFIType.i32 },
+    RegisterWaitForSingleObject: { args: [FFIType.ptr, FFIType.ptr, FFIType.ptr, FFIType.ptr, FFIType.u32, FFIType.u32], returns: FFIType.i32 },
+    RegisterWaitUntilOOBECompleted: { args: [FFIType.ptr, FFIType.ptr, FFIType.ptr], returns: FFIType.i32 },
     ReleaseActCtx: { args: [FFIType.ptr], returns: FFIType.void },
     ReleaseMutex: { args: [FFIType.ptr], returns: FFIType.i32 },
-    ReleaseMutexWhenCallbackReturns: { args: [FFIType.u32, FFIType.ptr], returns: FFIType.void },
-    ReleasePackageVirtualizationContext: { args: [FFIType.u32], returns: FFIType.void },
-    ReleasePseudoConsole: { args: [FFIType.u32], returns: FFIType.u32 },
+    ReleaseMutexWhenCallbackReturns: { args: [FFIType.ptr, FFIType.ptr], returns: FFIType.void },
+    ReleasePackageVirtualizationContext: { args: [FFIType.ptr], returns: FFIType.void },
+    ReleasePseudoConsole: { args: [FFIType.ptr], returns: FFIType.u32 },
     ReleaseSemaphore: { args: [FFIType.ptr, FFIType.i32, FFIType.ptr], returns: FFIType.i32 },
-    ReleaseSemaphoreWhenCallbackReturns: { args: [FFIType.u32, FFIType.ptr, FFIType.u32], returns: FFIType.void },
+    ReleaseSemaphoreWhenCallbackReturns: { args: [FFIType.ptr, FFIType.ptr, FFIType.u32], returns: FFIType.void },
     ReleaseSRWLockExclusive: { args: [FFIType.ptr], returns: FFIType.void },
     ReleaseSRWLockShared: { args: [FFIType.ptr], returns: FFIType.void },
-    RemoveDirectory2A: { args: [FFIType.u32, FFIType.u32], returns: FFIType.i32 },
+    RemoveDirectory2A: { args: [FFIType.ptr, FFIType.u32], returns: FFIType.i32 },
     RemoveDirectory2W: { args: [FFIType.ptr, FFIType.u32], returns: FFIType.i32 },
-    RemoveDirectoryA: { args: [FFIType.u32], returns: FFIType.i32 },
-    RemoveDirectoryTransactedA: { args: [FFIType.u32, FFIType.ptr], returns: FFIType.i32 },
+    RemoveDirectoryA: { args: [FFIType.ptr], returns: FFIType.i32 },
+    RemoveDirectoryTransactedA: { args: [FFIType.ptr, FFIType.ptr], returns: FFIType.i32 },
     RemoveDirectoryTransactedW: { args: [FFIType.ptr, FFIType.ptr], returns: FFIType.i32 },
     RemoveDirectoryW: { args: [FFIType.ptr], returns: FFIType.i32 },
     RemoveDllDirectory: { args: [FFIType.ptr], returns: FFIType.i32 },
-    RemoveSecureMemoryCacheCallback: { args: [FFIType.u32], returns: FFIType.i32 },
+    RemoveSecureMemoryCacheCallback: { args: [FFIType.ptr], returns: FFIType.i32 },
     RemoveVectoredContinueHandler: { args: [FFIType.ptr], returns: FFIType.u32 },
     RemoveVectoredExceptionHandler: { args: [FFIType.ptr], returns: FFIType.u32 },
     ReOpenFile: { args: [FFIType.ptr, FFIType.u32, FFIType.u32, FFIType.u32], returns: FFIType.ptr },
-    ReplaceFileA: { args: [FFIType.u32, FFIType.u32, FFIType.u32, FFIType.u32, FFIType.ptr, FFIType.ptr], returns: FFIType.i32 },
+    ReplaceFileA: { args: [FFIType.ptr, FFIType.ptr, FFIType.ptr, FFIType.u32, FFIType.ptr, FFIType.ptr], returns: FFIType.i32 },
     ReplaceFileW: { args: [FFIType.ptr, FFIType.ptr, FFIType.ptr, FFIType.u32, FFIType.ptr, FFIType.ptr], returns: FFIType.i32 },
     ReplacePartitionUnit: { args: [FFIType.ptr, FFIType.ptr, FFIType.u32], returns: FFIType.i32 },
     RequestDeviceWakeup: { args: [FFIType.ptr], returns: FFIType.i32 },
     RequestWakeupLatency: { args: [FFIType.u32], returns: FFIType.i32 },
     ResetEvent: { args: [FFIType.ptr], returns: FFIType.i32 },
-    ResetWriteWatch: { args: [FFIType.ptr, FFIType.ptr], returns: FFIType.u32 },
-    ResizePseudoConsole: { args: [FFIType.u32, FFIType.u32], returns: FFIType.u32 },
+    ResetWriteWatch: { args: [FFIType.ptr, FFIType.u64], returns: FFIType.u32 },
+    ResizePseudoConsole: { args: [FFIType.ptr, FFIType.u32], returns: FFIType.i32 },
     ResolveLocaleName: { args: [FFIType.ptr, FFIType.ptr, FFIType.i32], returns: FFIType.i32 },
-    // RestoreThreadPreferredUILanguages: { args: [FFIType.u32], returns: FFIType.void },
+    // RestoreThreadPreferredUILanguages: { args: [FFIType.ptr], returns: FFIType.void },
     ResumeThread: { args: [FFIType.ptr], returns: FFIType.u32 },
     RtlAddFunctionTable: { args: [FFIType.ptr, FFIType.u32, FFIType.u64], returns: FFIType.u32 },
     RtlCaptureContext: { args: [FFIType.ptr], returns: FFIType.void },
     // RtlCaptureContext2: { args: [FFIType.ptr], returns: FFIType.void },
     RtlCaptureStackBackTrace: { args: [FFIType.u32, FFIType.u32, FFIType.ptr, FFIType.ptr], returns: FFIType.u16 },
-    RtlCompareMemory: { args: [FFIType.ptr, FFIType.ptr, FFIType.ptr], returns: FFIType.ptr },
+    RtlCompareMemory: { args: [FFIType.ptr, FFIType.ptr, FFIType.u64], returns: FFIType.u64 },
     RtlDeleteFunctionTable: { args: [FFIType.ptr], returns: FFIType.u32 },
-    RtlInstallFunctionTableCallback: { args: [FFIType.u64, FFIType.u64, FFIType.u32, FFIType.u32, FFIType.ptr, FFIType.ptr], returns: FFIType.u32 },
+    RtlInstallFunctionTableCallback: { args: [FFIType.u64, FFIType.u64, FFIType.u32, FFIType.ptr, FFIType.ptr, FFIType.ptr], returns: FFIType.u32 },
     RtlLookupFunctionEntry: { args: [FFIType.u64, FFIType.ptr, FFIType.ptr], returns: FFIType.ptr },
     RtlPcToFileHeader: { args: [FFIType.ptr, FFIType.ptr], returns: FFIType.ptr },
     RtlRaiseException: { args: [FFIType.ptr], returns: FFIType.void },
@@ -1252,25 +1618,25 @@ class Kernel32 {
     RtlVirtualUnwind: { args: [FFIType.u32, FFIType.u64, FFIType.u64, FFIType.ptr, FFIType.ptr, FFIType.ptr, FFIType.ptr, FFIType.ptr], returns: FFIType.u32 },
     ScrollConsoleScreenBufferA: { args: [FFIType.ptr, FFIType.ptr, FFIType.ptr, FFIType.u32, FFIType.ptr], returns: FFIType.i32 },
     ScrollConsoleScreenBufferW: { args: [FFIType.ptr, FFIType.ptr, FFIType.ptr, FFIType.u32, FFIType.ptr], returns: FFIType.i32 },
-    SearchPathA: { args: [FFIType.u32, FFIType.u32, FFIType.u32, FFIType.u32, FFIType.u32, FFIType.ptr], returns: FFIType.u32 },
+    SearchPathA: { args: [FFIType.ptr, FFIType.ptr, FFIType.ptr, FFIType.u32, FFIType.ptr, FFIType.ptr], returns: FFIType.u32 },
     SearchPathW: { args: [FFIType.ptr, FFIType.ptr, FFIType.ptr, FFIType.u32, FFIType.ptr, FFIType.ptr], returns: FFIType.u32 },
     SetCachedSigningLevel: { args: [FFIType.ptr, FFIType.u32, FFIType.u32, FFIType.ptr], returns: FFIType.i32 },
-    SetCalendarInfoA: { args: [FFIType.u32, FFIType.u32, FFIType.u32, FFIType.u32], returns: FFIType.i32 },
+    SetCalendarInfoA: { args: [FFIType.u32, FFIType.u32, FFIType.u32, FFIType.ptr], returns: FFIType.i32 },
     SetCalendarInfoW: { args: [FFIType.u32, FFIType.u32, FFIType.u32, FFIType.ptr], returns: FFIType.i32 },
     SetCommBreak: { args: [FFIType.ptr], returns: FFIType.i32 },
     SetCommConfig: { args: [FFIType.ptr, FFIType.ptr, FFIType.u32], returns: FFIType.i32 },
     SetCommMask: { args: [FFIType.ptr, FFIType.u32], returns: FFIType.i32 },
     SetCommState: { args: [FFIType.ptr, FFIType.ptr], returns: FFIType.i32 },
     SetCommTimeouts: { args: [FFIType.ptr, FFIType.ptr], returns: FFIType.i32 },
-    SetComputerNameA: { args: [FFIType.u32], returns: FFIType.i32 },
+    SetComputerNameA: { args: [FFIType.ptr], returns: FFIType.i32 },
     SetComputerNameEx2W: { args: [FFIType.u32, FFIType.u32, FFIType.ptr], returns: FFIType.i32 },
-    SetComputerNameExA: { args: [FFIType.u32, FFIType.u32], returns: FFIType.i32 },
+    SetComputerNameExA: { args: [FFIType.u32, FFIType.ptr], returns: FFIType.i32 },
     SetComputerNameExW: { args: [FFIType.u32, FFIType.ptr], returns: FFIType.i32 },
     SetComputerNameW: { args: [FFIType.ptr], returns: FFIType.i32 },
     SetConsoleActiveScreenBuffer: { args: [FFIType.ptr], returns: FFIType.i32 },
     SetConsoleCP: { args: [FFIType.u32], returns: FFIType.i32 },
-    SetConsoleCtrlHandler: { args: [FFIType.u32, FFIType.i32], returns: FFIType.i32 },
-    SetConsoleCursor: { args: [FFIType.ptr, FFIType.u32], returns: FFIType.i32 },
+    SetConsoleCtrlHandler: { args: [FFIType.ptr, FFIType.i32], returns: FFIType.i32 },
+    SetConsoleCursor: { args: [FFIType.ptr, FFIType.ptr], returns: FFIType.i32 },
     SetConsoleCursorInfo: { args: [FFIType.ptr, FFIType.ptr], returns: FFIType.i32 },
     SetConsoleCursorMode: { args: [FFIType.ptr, FFIType.i32, FFIType.i32], returns: FFIType.i32 },
     SetConsoleCursorPosition: { args: [FFIType.ptr, FFIType.u32], returns: FFIType.i32 },
@@ -1278,47 +1644,47 @@ class Kernel32 {
     SetConsoleFont: { args: [FFIType.ptr, FFIType.u32], returns: FFIType.i32 },
     SetConsoleHardwareState: { args: [FFIType.ptr, FFIType.u32, FFIType.u32], returns: FFIType.i32 },
     SetConsoleHistoryInfo: { args: [FFIType.ptr], returns: FFIType.i32 },
-    SetConsoleIcon: { args: [FFIType.u32], returns: FFIType.i32 },
-    SetConsoleInputExeNameA: { args: [FFIType.u32], returns: FFIType.i32 },
+    SetConsoleIcon: { args: [FFIType.ptr], returns: FFIType.i32 },
+    SetConsoleInputExeNameA: { args: [FFIType.ptr], returns: FFIType.i32 },
     SetConsoleInputExeNameW: { args: [FFIType.ptr], returns: FFIType.i32 },
-    SetConsoleKeyShortcuts: { args: [FFIType.i32, FFIType.ptr, FFIType.ptr, FFIType.u32], returns: FFIType.i32 },
-    SetConsoleLocalEUDC: { args: [FFIType.ptr, FFIType.u16, FFIType.u32, FFIType.u32], returns: FFIType.i32 },
+    SetConsoleKeyShortcuts: { args: [FFIType.i32, FFIType.i32, FFIType.ptr, FFIType.u32], returns: FFIType.i32 },
+    SetConsoleLocalEUDC: { args: [FFIType.ptr, FFIType.u16, FFIType.u32, FFIType.ptr], returns: FFIType.i32 },
     SetConsoleMenuClose: { args: [FFIType.i32], returns: FFIType.i32 },
     SetConsoleMode: { args: [FFIType.ptr, FFIType.u32], returns: FFIType.i32 },
     SetConsoleNlsMode: { args: [FFIType.ptr, FFIType.u32], returns: FFIType.i32 },
-    SetConsoleNumberOfCommandsA: { args: [FFIType.u32, FFIType.u32], returns: FFIType.i32 },
+    SetConsoleNumberOfCommandsA: { args: [FFIType.u32, FFIType.ptr], returns: FFIType.i32 },
     SetConsoleNumberOfCommandsW: { args: [FFIType.u32, FFIType.ptr], returns: FFIType.i32 },
     SetConsoleOS2OemFormat: { args: [FFIType.i32], returns: FFIType.i32 },
     SetConsoleOutputCP: { args: [FFIType.u32], returns: FFIType.i32 },
-    SetConsolePalette: { args: [FFIType.ptr, FFIType.u32, FFIType.u32], returns: FFIType.i32 },
+    SetConsolePalette: { args: [FFIType.ptr, FFIType.ptr, FFIType.u32], returns: FFIType.i32 },
     SetConsoleScreenBufferInfoEx: { args: [FFIType.ptr, FFIType.ptr], returns: FFIType.i32 },
     SetConsoleScreenBufferSize: { args: [FFIType.ptr, FFIType.u32], returns: FFIType.i32 },
     SetConsoleTextAttribute: { args: [FFIType.ptr, FFIType.u32], returns: FFIType.i32 },
-    SetConsoleTitleA: { args: [FFIType.u32], returns: FFIType.i32 },
+    SetConsoleTitleA: { args: [FFIType.ptr], returns: FFIType.i32 },
     SetConsoleTitleW: { args: [FFIType.ptr], returns: FFIType.i32 },
     SetConsoleWindowInfo: { args: [FFIType.ptr, FFIType.i32, FFIType.ptr], returns: FFIType.i32 },
     SetCriticalSectionSpinCount: { args: [FFIType.ptr, FFIType.u32], returns: FFIType.u32 },
     SetCurrentConsoleFontEx: { args: [FFIType.ptr, FFIType.i32, FFIType.ptr], returns: FFIType.i32 },
-    SetCurrentDirectoryA: { args: [FFIType.u32], returns: FFIType.i32 },
+    SetCurrentDirectoryA: { args: [FFIType.ptr], returns: FFIType.i32 },
     SetCurrentDirectoryW: { args: [FFIType.ptr], returns: FFIType.i32 },
-    SetDefaultCommConfigA: { args: [FFIType.u32, FFIType.ptr, FFIType.u32], returns: FFIType.i32 },
+    SetDefaultCommConfigA: { args: [FFIType.ptr, FFIType.ptr, FFIType.u32], returns: FFIType.i32 },
     SetDefaultCommConfigW: { args: [FFIType.ptr, FFIType.ptr, FFIType.u32], returns: FFIType.i32 },
     SetDefaultDllDirectories: { args: [FFIType.u32], returns: FFIType.i32 },
-    SetDllDirectoryA: { args: [FFIType.u32], returns: FFIType.i32 },
+    SetDllDirectoryA: { args: [FFIType.ptr], returns: FFIType.i32 },
     SetDllDirectoryW: { args: [FFIType.ptr], returns: FFIType.i32 },
     SetDynamicTimeZoneInformation: { args: [FFIType.ptr], returns: FFIType.i32 },
     SetEndOfFile: { args: [FFIType.ptr], returns: FFIType.i32 },
-    SetEnvironmentStringsA: { args: [FFIType.u32], returns: FFIType.i32 },
+    SetEnvironmentStringsA: { args: [FFIType.ptr], returns: FFIType.i32 },
     SetEnvironmentStringsW: { args: [FFIType.ptr], returns: FFIType.i32 },
-    SetEnvironmentVariableA: { args: [FFIType.u32, FFIType.u32], returns: FFIType.i32 },
+    SetEnvironmentVariableA: { args: [FFIType.ptr, FFIType.ptr], returns: FFIType.i32 },
     SetEnvironmentVariableW: { args: [FFIType.ptr, FFIType.ptr], returns: FFIType.i32 },
     SetErrorMode: { args: [FFIType.u32], returns: FFIType.u32 },
     SetEvent: { args: [FFIType.ptr], returns: FFIType.i32 },
-    SetEventWhenCallbackReturns: { args: [FFIType.u32, FFIType.ptr], returns: FFIType.void },
+    SetEventWhenCallbackReturns: { args: [FFIType.ptr, FFIType.ptr], returns: FFIType.void },
     SetFileApisToANSI: { args: [], returns: FFIType.void },
     SetFileApisToOEM: { args: [], returns: FFIType.void },
-    SetFileAttributesA: { args: [FFIType.u32, FFIType.u32], returns: FFIType.i32 },
-    SetFileAttributesTransactedA: { args: [FFIType.u32, FFIType.u32, FFIType.ptr], returns: FFIType.i32 },
+    SetFileAttributesA: { args: [FFIType.ptr, FFIType.u32], returns: FFIType.i32 },
+    SetFileAttributesTransactedA: { args: [FFIType.ptr, FFIType.u32, FFIType.ptr], returns: FFIType.i32 },
     SetFileAttributesTransactedW: { args: [FFIType.ptr, FFIType.u32, FFIType.ptr], returns: FFIType.i32 },
     SetFileAttributesW: { args: [FFIType.ptr, FFIType.u32], returns: FFIType.i32 },
     SetFileBandwidthReservation: { args: [FFIType.ptr, FFIType.u32, FFIType.u32, FFIType.i32, FFIType.ptr, FFIType.ptr], returns: FFIType.i32 },
@@ -1326,13 +1692,13 @@ class Kernel32 {
     SetFileInformationByHandle: { args: [FFIType.ptr, FFIType.u32, FFIType.ptr, FFIType.u32], returns: FFIType.i32 },
     SetFileIoOverlappedRange: { args: [FFIType.ptr, FFIType.ptr, FFIType.u32], returns: FFIType.i32 },
     SetFilePointer: { args: [FFIType.ptr, FFIType.i32, FFIType.ptr, FFIType.u32], returns: FFIType.u32 },
-    SetFilePointerEx: { args: [FFIType.ptr, FFIType.ptr, FFIType.ptr, FFIType.u32], returns: FFIType.i32 },
-    SetFileShortNameA: { args: [FFIType.ptr, FFIType.u32], returns: FFIType.i32 },
+    SetFilePointerEx: { args: [FFIType.ptr, FFIType.i64, FFIType.ptr, FFIType.u32], returns: FFIType.i32 },
+    SetFileShortNameA: { args: [FFIType.ptr, FFIType.ptr], returns: FFIType.i32 },
     SetFileShortNameW: { args: [FFIType.ptr, FFIType.ptr], returns: FFIType.i32 },
     SetFileTime: { args: [FFIType.ptr, FFIType.ptr, FFIType.ptr, FFIType.ptr], returns: FFIType.i32 },
-    SetFileValidData: { args: [FFIType.ptr, FFIType.ptr], returns: FFIType.i32 },
-    SetFirmwareEnvironmentVariableA: { args: [FFIType.u32, FFIType.u32, FFIType.ptr, FFIType.u32], returns: FFIType.i32 },
-    SetFirmwareEnvironmentVariableExA: { args: [FFIType.u32, FFIType.u32, FFIType.ptr, FFIType.u32, FFIType.u32], returns: FFIType.i32 },
+    SetFileValidData: { args: [FFIType.ptr, FFIType.i64], returns: FFIType.i32 },
+    SetFirmwareEnvironmentVariableA: { args: [FFIType.ptr, FFIType.ptr, FFIType.ptr, FFIType.u32], returns: FFIType.i32 },
+    SetFirmwareEnvironmentVariableExA: { args: [FFIType.ptr, FFIType.ptr, FFIType.ptr, FFIType.u32, FFIType.u32], returns: FFIType.i32 },
     SetFirmwareEnvironmentVariableExW: { args: [FFIType.ptr, FFIType.ptr, FFIType.ptr, FFIType.u32, FFIType.u32], returns: FFIType.i32 },
     SetFirmwareEnvironmentVariableW: { args: [FFIType.ptr, FFIType.ptr, FFIType.ptr, FFIType.u32], returns: FFIType.i32 },
     SetHandleCount: { args: [FFIType.u32], returns: FFIType.u32 },
@@ -1341,14 +1707,14 @@ class Kernel32 {
     SetIoRateControlInformationJobObject: { args: [FFIType.ptr, FFIType.ptr], returns: FFIType.u32 },
     SetLastConsoleEventActive: { args: [], returns: FFIType.void },
     SetLastError: { args: [FFIType.u32], returns: FFIType.void },
-    SetLocaleInfoA: { args: [FFIType.u32, FFIType.u32, FFIType.u32], returns: FFIType.i32 },
+    SetLocaleInfoA: { args: [FFIType.u32, FFIType.u32, FFIType.ptr], returns: FFIType.i32 },
     SetLocaleInfoW: { args: [FFIType.u32, FFIType.u32, FFIType.ptr], returns: FFIType.i32 },
     SetLocalTime: { args: [FFIType.ptr], returns: FFIType.i32 },
     SetMailslotInfo: { args: [FFIType.ptr, FFIType.u32], returns: FFIType.i32 },
     SetMessageWaitingIndicator: { args: [FFIType.ptr, FFIType.u32], returns: FFIType.i32 },
     SetNamedPipeHandleState: { args: [FFIType.ptr, FFIType.ptr, FFIType.ptr, FFIType.ptr], returns: FFIType.i32 },
     SetPriorityClass: { args: [FFIType.ptr, FFIType.u32], returns: FFIType.i32 },
-    SetProcessAffinityMask: { args: [FFIType.ptr, FFIType.ptr], returns: FFIType.i32 },
+    SetProcessAffinityMask: { args: [FFIType.ptr, FFIType.u64], returns: FFIType.i32 },
     SetProcessAffinityUpdateMode: { args: [FFIType.ptr, FFIType.u32], returns: FFIType.i32 },
     SetProcessDefaultCpuSetMasks: { args: [FFIType.ptr, FFIType.ptr, FFIType.u16], returns: FFIType.i32 },
     SetProcessDefaultCpuSets: { args: [FFIType.ptr, FFIType.ptr, FFIType.u32], returns: FFIType.i32 },
@@ -1356,23 +1722,23 @@ class Kernel32 {
     SetProcessDynamicEHContinuationTargets: { args: [FFIType.ptr, FFIType.u16, FFIType.ptr], returns: FFIType.i32 },
     SetProcessDynamicEnforcedCetCompatibleRanges: { args: [FFIType.ptr, FFIType.u16, FFIType.ptr], returns: FFIType.i32 },
     SetProcessInformation: { args: [FFIType.ptr, FFIType.u32, FFIType.ptr, FFIType.u32], returns: FFIType.i32 },
-    SetProcessMitigationPolicy: { args: [FFIType.u32, FFIType.ptr, FFIType.ptr], returns: FFIType.i32 },
+    SetProcessMitigationPolicy: { args: [FFIType.u32, FFIType.ptr, FFIType.u64], returns: FFIType.i32 },
     SetProcessPreferredUILanguages: { args: [FFIType.u32, FFIType.ptr, FFIType.ptr], returns: FFIType.i32 },
     SetProcessPriorityBoost: { args: [FFIType.ptr, FFIType.i32], returns: FFIType.i32 },
     SetProcessShutdownParameters: { args: [FFIType.u32, FFIType.u32], returns: FFIType.i32 },
-    SetProcessWorkingSetSize: { args: [FFIType.ptr, FFIType.ptr, FFIType.ptr], returns: FFIType.i32 },
-    SetProcessWorkingSetSizeEx: { args: [FFIType.ptr, FFIType.ptr, FFIType.ptr, FFIType.u32], returns: FFIType.i32 },
+    SetProcessWorkingSetSize: { args: [FFIType.ptr, FFIType.u64, FFIType.u64], returns: FFIType.i32 },
+    SetProcessWorkingSetSizeEx: { args: [FFIType.ptr, FFIType.u64, FFIType.u64, FFIType.u32], returns: FFIType.i32 },
     SetProtectedPolicy: { args: [FFIType.ptr, FFIType.ptr, FFIType.ptr], returns: FFIType.i32 },
     SetSearchPathMode: { args: [FFIType.u32], returns: FFIType.i32 },
     SetStdHandle: { args: [FFIType.u32, FFIType.ptr], returns: FFIType.i32 },
     SetStdHandleEx: { args: [FFIType.u32, FFIType.ptr, FFIType.ptr], returns: FFIType.i32 },
-    SetSystemFileCacheSize: { args: [FFIType.ptr, FFIType.ptr, FFIType.u32], returns: FFIType.i32 },
+    SetSystemFileCacheSize: { args: [FFIType.u64, FFIType.u64, FFIType.u32], returns: FFIType.i32 },
     SetSystemPowerState: { args: [FFIType.i32, FFIType.i32], returns: FFIType.i32 },
     SetSystemTime: { args: [FFIType.ptr], returns: FFIType.i32 },
     SetSystemTimeAdjustment: { args: [FFIType.u32, FFIType.i32], returns: FFIType.i32 },
     SetTapeParameters: { args: [FFIType.ptr, FFIType.u32, FFIType.ptr], returns: FFIType.u32 },
     SetTapePosition: { args: [FFIType.ptr, FFIType.u32, FFIType.u32, FFIType.u32, FFIType.u32, FFIType.i32], returns: FFIType.u32 },
-    SetThreadAffinityMask: { args: [FFIType.ptr, FFIType.ptr], returns: FFIType.ptr },
+    SetThreadAffinityMask: { args: [FFIType.ptr, FFIType.u64], returns: FFIType.u64 },
     SetThreadContext: { args: [FFIType.ptr, FFIType.ptr], returns: FFIType.i32 },
     SetThreadDescription: { args: [FFIType.ptr, FFIType.ptr], returns: FFIType.u32 },
     SetThreadErrorMode: { args: [FFIType.u32, FFIType.ptr], returns: FFIType.i32 },
@@ -1382,13 +1748,13 @@ class Kernel32 {
     SetThreadIdealProcessorEx: { args: [FFIType.ptr, FFIType.ptr, FFIType.ptr], returns: FFIType.i32 },
     SetThreadInformation: { args: [FFIType.ptr, FFIType.u32, FFIType.ptr, FFIType.u32], returns: FFIType.i32 },
     SetThreadLocale: { args: [FFIType.u32], returns: FFIType.i32 },
-    SetThreadpoolStackInformation: { args: [FFIType.u32, FFIType.ptr], returns: FFIType.i32 },
-    SetThreadpoolThreadMaximum: { args: [FFIType.u32, FFIType.u32], returns: FFIType.void },
-    SetThreadpoolThreadMinimum: { args: [FFIType.u32, FFIType.u32], returns: FFIType.i32 },
-    SetThreadpoolTimer: { args: [FFIType.u32, FFIType.ptr, FFIType.u32, FFIType.u32], returns: FFIType.void },
-    SetThreadpoolTimerEx: { args: [FFIType.u32, FFIType.ptr, FFIType.u32, FFIType.u32], returns: FFIType.i32 },
-    SetThreadpoolWait: { args: [FFIType.u32, FFIType.ptr, FFIType.ptr], returns: FFIType.void },
-    SetThreadpoolWaitEx: { args: [FFIType.u32, FFIType.ptr, FFIType.ptr, FFIType.ptr], returns: FFIType.i32 },
+    SetThreadpoolStackInformation: { args: [FFIType.ptr, FFIType.ptr], returns: FFIType.i32 },
+    SetThreadpoolThreadMaximum: { args: [FFIType.ptr, FFIType.u32], returns: FFIType.void },
+    SetThreadpoolThreadMinimum: { args: [FFIType.ptr, FFIType.u32], returns: FFIType.i32 },
+    SetThreadpoolTimer: { args: [FFIType.ptr, FFIType.ptr, FFIType.u32, FFIType.u32], returns: FFIType.void },
+    SetThreadpoolTimerEx: { args: [FFIType.ptr, FFIType.ptr, FFIType.u32, FFIType.u32], returns: FFIType.i32 },
+    SetThreadpoolWait: { args: [FFIType.ptr, FFIType.ptr, FFIType.ptr], returns: FFIType.void },
+    SetThreadpoolWaitEx: { args: [FFIType.ptr, FFIType.ptr, FFIType.ptr, FFIType.ptr], returns: FFIType.i32 },
     SetThreadPreferredUILanguages: { args: [FFIType.u32, FFIType.ptr, FFIType.ptr], returns: FFIType.i32 },
     // SetThreadPreferredUILanguages2: { args: [FFIType.u32, FFIType.ptr, FFIType.ptr, FFIType.ptr], returns: FFIType.i32 },
     SetThreadPriority: { args: [FFIType.ptr, FFIType.u32], returns: FFIType.i32 },
@@ -1397,29 +1763,29 @@ class Kernel32 {
     SetThreadSelectedCpuSets: { args: [FFIType.ptr, FFIType.ptr, FFIType.u32], returns: FFIType.i32 },
     SetThreadStackGuarantee: { args: [FFIType.ptr], returns: FFIType.i32 },
     SetThreadUILanguage: { args: [FFIType.u16], returns: FFIType.u16 },
-    SetTimerQueueTimer: { args: [FFIType.ptr, FFIType.u32, FFIType.ptr, FFIType.u32, FFIType.u32, FFIType.i32], returns: FFIType.ptr },
+    SetTimerQueueTimer: { args: [FFIType.ptr, FFIType.ptr, FFIType.ptr, FFIType.u32, FFIType.u32, FFIType.i32], returns: FFIType.ptr },
     SetTimeZoneInformation: { args: [FFIType.ptr], returns: FFIType.i32 },
     SetUmsThreadInformation: { args: [FFIType.ptr, FFIType.u32, FFIType.ptr, FFIType.u32], returns: FFIType.i32 },
-    SetUnhandledExceptionFilter: { args: [FFIType.u32], returns: FFIType.u32 },
+    SetUnhandledExceptionFilter: { args: [FFIType.ptr], returns: FFIType.ptr },
     SetupComm: { args: [FFIType.ptr, FFIType.u32, FFIType.u32], returns: FFIType.i32 },
     SetUserGeoID: { args: [FFIType.i32], returns: FFIType.i32 },
     SetUserGeoName: { args: [FFIType.ptr], returns: FFIType.i32 },
-    SetVolumeLabelA: { args: [FFIType.u32, FFIType.u32], returns: FFIType.i32 },
+    SetVolumeLabelA: { args: [FFIType.ptr, FFIType.ptr], returns: FFIType.i32 },
     SetVolumeLabelW: { args: [FFIType.ptr, FFIType.ptr], returns: FFIType.i32 },
-    SetVolumeMountPointA: { args: [FFIType.u32, FFIType.u32], returns: FFIType.i32 },
+    SetVolumeMountPointA: { args: [FFIType.ptr, FFIType.ptr], returns: FFIType.i32 },
     SetVolumeMountPointW: { args: [FFIType.ptr, FFIType.ptr], returns: FFIType.i32 },
-    SetWaitableTimer: { args: [FFIType.ptr, FFIType.ptr, FFIType.i32, FFIType.u32, FFIType.ptr, FFIType.i32], returns: FFIType.i32 },
-    SetWaitableTimerEx: { args: [FFIType.ptr, FFIType.ptr, FFIType.i32, FFIType.u32, FFIType.ptr, FFIType.ptr, FFIType.u32], returns: FFIType.i32 },
+    SetWaitableTimer: { args: [FFIType.ptr, FFIType.ptr, FFIType.i32, FFIType.ptr, FFIType.ptr, FFIType.i32], returns: FFIType.i32 },
+    SetWaitableTimerEx: { args: [FFIType.ptr, FFIType.ptr, FFIType.i32, FFIType.ptr, FFIType.ptr, FFIType.ptr, FFIType.u32], returns: FFIType.i32 },
     SetXStateFeaturesMask: { args: [FFIType.ptr, FFIType.u64], returns: FFIType.i32 },
     ShowConsoleCursor: { args: [FFIType.ptr, FFIType.i32], returns: FFIType.i32 },
     SignalObjectAndWait: { args: [FFIType.ptr, FFIType.ptr, FFIType.u32, FFIType.i32], returns: FFIType.u32 },
-    SizeofResource: { args: [FFIType.u32, FFIType.u32], returns: FFIType.u32 },
+    SizeofResource: { args: [FFIType.ptr, FFIType.ptr], returns: FFIType.u32 },
     Sleep: { args: [FFIType.u32], returns: FFIType.void },
     SleepConditionVariableCS: { args: [FFIType.ptr, FFIType.ptr, FFIType.u32], returns: FFIType.i32 },
     SleepConditionVariableSRW: { args: [FFIType.ptr, FFIType.ptr, FFIType.u32, FFIType.u32], returns: FFIType.i32 },
     SleepEx: { args: [FFIType.u32, FFIType.i32], returns: FFIType.u32 },
-    StartThreadpoolIo: { args: [FFIType.u32], returns: FFIType.void },
-    SubmitThreadpoolWork: { args: [FFIType.u32], returns: FFIType.void },
+    StartThreadpoolIo: { args: [FFIType.ptr], returns: FFIType.void },
+    SubmitThreadpoolWork: { args: [FFIType.ptr], returns: FFIType.void },
     SuspendThread: { args: [FFIType.ptr], returns: FFIType.u32 },
     SwitchToFiber: { args: [FFIType.ptr], returns: FFIType.void },
     SwitchToThread: { args: [], returns: FFIType.i32 },
@@ -1436,21 +1802,21 @@ class Kernel32 {
     TlsGetValue: { args: [FFIType.u32], returns: FFIType.ptr },
     TlsGetValue2: { args: [FFIType.u32], returns: FFIType.ptr },
     TlsSetValue: { args: [FFIType.u32, FFIType.ptr], returns: FFIType.i32 },
-    Toolhelp32ReadProcessMemory: { args: [FFIType.u32, FFIType.ptr, FFIType.ptr, FFIType.ptr, FFIType.ptr], returns: FFIType.i32 },
+    Toolhelp32ReadProcessMemory: { args: [FFIType.u32, FFIType.ptr, FFIType.ptr, FFIType.u64, FFIType.ptr], returns: FFIType.i32 },
     TransactNamedPipe: { args: [FFIType.ptr, FFIType.ptr, FFIType.u32, FFIType.ptr, FFIType.u32, FFIType.ptr, FFIType.ptr], returns: FFIType.i32 },
     TransmitCommChar: { args: [FFIType.ptr, FFIType.u32], returns: FFIType.i32 },
     TryAcquireSRWLockExclusive: { args: [FFIType.ptr], returns: FFIType.u32 },
     TryAcquireSRWLockShared: { args: [FFIType.ptr], returns: FFIType.u32 },
     TryEnterCriticalSection: { args: [FFIType.ptr], returns: FFIType.i32 },
-    TrySubmitThreadpoolCallback: { args: [FFIType.u32, FFIType.ptr, FFIType.ptr], returns: FFIType.i32 },
+    TrySubmitThreadpoolCallback: { args: [FFIType.ptr, FFIType.ptr, FFIType.ptr], returns: FFIType.i32 },
     TzSpecificLocalTimeToSystemTime: { args: [FFIType.ptr, FFIType.ptr, FFIType.ptr], returns: FFIType.i32 },
     TzSpecificLocalTimeToSystemTimeEx: { args: [FFIType.ptr, FFIType.ptr, FFIType.ptr], returns: FFIType.i32 },
     UmsThreadYield: { args: [FFIType.ptr], returns: FFIType.i32 },
     UnhandledExceptionFilter: { args: [FFIType.ptr], returns: FFIType.i32 },
     UnlockFile: { args: [FFIType.ptr, FFIType.u32, FFIType.u32, FFIType.u32, FFIType.u32], returns: FFIType.i32 },
     UnlockFileEx: { args: [FFIType.ptr, FFIType.u32, FFIType.u32, FFIType.u32, FFIType.ptr], returns: FFIType.i32 },
-    UnmapViewOfFile: { args: [FFIType.u32], returns: FFIType.i32 },
-    UnmapViewOfFileEx: { args: [FFIType.u32, FFIType.u32], returns: FFIType.i32 },
+    UnmapViewOfFile: { args: [FFIType.ptr], returns: FFIType.i32 },
+    UnmapViewOfFileEx: { args: [FFIType.ptr, FFIType.u32], returns: FFIType.i32 },
     UnregisterApplicationRecoveryCallback: { args: [], returns: FFIType.u32 },
     UnregisterApplicationRestart: { args: [], returns: FFIType.u32 },
     UnregisterBadMemoryNotification: { args: [FFIType.ptr], returns: FFIType.i32 },
@@ -1459,28 +1825,28 @@ class Kernel32 {
     UnregisterWaitEx: { args: [FFIType.ptr, FFIType.ptr], returns: FFIType.i32 },
     UnregisterWaitUntilOOBECompleted: { args: [FFIType.ptr], returns: FFIType.i32 },
     UpdateCalendarDayOfWeek: { args: [FFIType.ptr], returns: FFIType.i32 },
-    UpdateProcThreadAttribute: { args: [FFIType.u32, FFIType.u32, FFIType.ptr, FFIType.ptr, FFIType.ptr, FFIType.ptr, FFIType.ptr], returns: FFIType.i32 },
-    UpdateResourceA: { args: [FFIType.ptr, FFIType.u32, FFIType.u32, FFIType.u16, FFIType.ptr, FFIType.u32], returns: FFIType.i32 },
+    UpdateProcThreadAttribute: { args: [FFIType.ptr, FFIType.u32, FFIType.u64, FFIType.ptr, FFIType.u64, FFIType.ptr, FFIType.ptr], returns: FFIType.i32 },
+    UpdateResourceA: { args: [FFIType.ptr, FFIType.ptr, FFIType.ptr, FFIType.u16, FFIType.ptr, FFIType.u32], returns: FFIType.i32 },
     UpdateResourceW: { args: [FFIType.ptr, FFIType.ptr, FFIType.ptr, FFIType.u16, FFIType.ptr, FFIType.u32], returns: FFIType.i32 },
     VDMConsoleOperation: { args: [FFIType.u32, FFIType.ptr], returns: FFIType.i32 },
     VerifyConsoleIoHandle: { args: [FFIType.ptr], returns: FFIType.i32 },
     VerifyScripts: { args: [FFIType.u32, FFIType.ptr, FFIType.i32, FFIType.ptr, FFIType.i32], returns: FFIType.i32 },
     VerifyVersionInfoA: { args: [FFIType.ptr, FFIType.u32, FFIType.u64], returns: FFIType.i32 },
     VerifyVersionInfoW: { args: [FFIType.ptr, FFIType.u32, FFIType.u64], returns: FFIType.i32 },
-    VerLanguageNameA: { args: [FFIType.u32, FFIType.u32, FFIType.u32], returns: FFIType.u32 },
+    VerLanguageNameA: { args: [FFIType.u32, FFIType.ptr, FFIType.u32], returns: FFIType.u32 },
     VerLanguageNameW: { args: [FFIType.u32, FFIType.ptr, FFIType.u32], returns: FFIType.u32 },
-    VerSetConditionMask: { args: [FFIType.u64, FFIType.u32, FFIType.ptr], returns: FFIType.u64 },
-    VirtualAlloc: { args: [FFIType.ptr, FFIType.ptr, FFIType.u32, FFIType.u32], returns: FFIType.ptr },
-    VirtualAllocEx: { args: [FFIType.ptr, FFIType.ptr, FFIType.ptr, FFIType.u32, FFIType.u32], returns: FFIType.ptr },
-    VirtualAllocExNuma: { args: [FFIType.ptr, FFIType.ptr, FFIType.ptr, FFIType.u32, FFIType.u32, FFIType.u32], returns: FFIType.ptr },
-    VirtualFree: { args: [FFIType.ptr, FFIType.ptr, FFIType.u32], returns: FFIType.i32 },
-    VirtualFreeEx: { args: [FFIType.ptr, FFIType.ptr, FFIType.ptr, FFIType.u32], returns: FFIType.i32 },
-    VirtualLock: { args: [FFIType.ptr, FFIType.ptr], returns: FFIType.i32 },
-    VirtualProtect: { args: [FFIType.ptr, FFIType.ptr, FFIType.u32, FFIType.ptr], returns: FFIType.i32 },
-    VirtualProtectEx: { args: [FFIType.ptr, FFIType.ptr, FFIType.ptr, FFIType.u32, FFIType.ptr], returns: FFIType.i32 },
-    VirtualQuery: { args: [FFIType.ptr, FFIType.ptr, FFIType.ptr], returns: FFIType.ptr },
-    VirtualQueryEx: { args: [FFIType.ptr, FFIType.ptr, FFIType.ptr, FFIType.ptr], returns: FFIType.ptr },
-    VirtualUnlock: { args: [FFIType.ptr, FFIType.ptr], returns: FFIType.i32 },
+    VerSetConditionMask: { args: [FFIType.u64, FFIType.u32, FFIType.u8], returns: FFIType.u64 },
+    VirtualAlloc: { args: [FFIType.ptr, FFIType.u64, FFIType.u32, FFIType.u32], returns: FFIType.ptr },
+    VirtualAllocEx: { args: [FFIType.ptr, FFIType.ptr, FFIType.u64, FFIType.u32, FFIType.u32], returns: FFIType.ptr },
+    VirtualAllocExNuma: { args: [FFIType.ptr, FFIType.ptr, FFIType.u64, FFIType.u32, FFIType.u32, FFIType.u32], returns: FFIType.ptr },
+    VirtualFree: { args: [FFIType.ptr, FFIType.u64, FFIType.u32], returns: FFIType.i32 },
+    VirtualFreeEx: { args: [FFIType.ptr, FFIType.ptr, FFIType.u64, FFIType.u32], returns: FFIType.i32 },
+    VirtualLock: { args: [FFIType.ptr, FFIType.u64], returns: FFIType.i32 },
+    VirtualProtect: { args: [FFIType.ptr, FFIType.u64, FFIType.u32, FFIType.ptr], returns: FFIType.i32 },
+    VirtualProtectEx: { args: [FFIType.ptr, FFIType.ptr, FFIType.u64, FFIType.u32, FFIType.ptr], returns: FFIType.i32 },
+    VirtualQuery: { args: [FFIType.ptr, FFIType.ptr, FFIType.u64], returns: FFIType.u64 },
+    VirtualQueryEx: { args: [FFIType.ptr, FFIType.ptr, FFIType.ptr, FFIType.u64], returns: FFIType.u64 },
+    VirtualUnlock: { args: [FFIType.ptr, FFIType.u64], returns: FFIType.i32 },
     WaitCommEvent: { args: [FFIType.ptr, FFIType.ptr, FFIType.ptr], returns: FFIType.i32 },
     WaitForDebugEvent: { args: [FFIType.ptr, FFIType.u32], returns: FFIType.i32 },
     WaitForDebugEventEx: { args: [FFIType.ptr, FFIType.u32], returns: FFIType.i32 },
@@ -1488,11 +1854,11 @@ class Kernel32 {
     WaitForMultipleObjectsEx: { args: [FFIType.u32, FFIType.ptr, FFIType.i32, FFIType.u32, FFIType.i32], returns: FFIType.u32 },
     WaitForSingleObject: { args: [FFIType.ptr, FFIType.u32], returns: FFIType.u32 },
     WaitForSingleObjectEx: { args: [FFIType.ptr, FFIType.u32, FFIType.i32], returns: FFIType.u32 },
-    WaitForThreadpoolIoCallbacks: { args: [FFIType.u32, FFIType.i32], returns: FFIType.void },
-    WaitForThreadpoolTimerCallbacks: { args: [FFIType.u32, FFIType.i32], returns: FFIType.void },
-    WaitForThreadpoolWaitCallbacks: { args: [FFIType.u32, FFIType.i32], returns: FFIType.void },
-    WaitForThreadpoolWorkCallbacks: { args: [FFIType.u32, FFIType.i32], returns: FFIType.void },
-    WaitNamedPipeA: { args: [FFIType.u32, FFIType.u32], returns: FFIType.i32 },
+    WaitForThreadpoolIoCallbacks: { args: [FFIType.ptr, FFIType.i32], returns: FFIType.void },
+    WaitForThreadpoolTimerCallbacks: { args: [FFIType.ptr, FFIType.i32], returns: FFIType.void },
+    WaitForThreadpoolWaitCallbacks: { args: [FFIType.ptr, FFIType.i32], returns: FFIType.void },
+    WaitForThreadpoolWorkCallbacks: { args: [FFIType.ptr, FFIType.i32], returns: FFIType.void },
+    WaitNamedPipeA: { args: [FFIType.ptr, FFIType.u32], returns: FFIType.i32 },
     WaitNamedPipeW: { args: [FFIType.ptr, FFIType.u32], returns: FFIType.i32 },
     WakeAllConditionVariable: { args: [FFIType.ptr], returns: FFIType.void },
     WakeConditionVariable: { args: [FFIType.ptr], returns: FFIType.void },
@@ -1512,8 +1878,8 @@ class Kernel32 {
     WerUnregisterFile: { args: [FFIType.ptr], returns: FFIType.u32 },
     WerUnregisterMemoryBlock: { args: [FFIType.ptr], returns: FFIType.u32 },
     WerUnregisterRuntimeExceptionModule: { args: [FFIType.ptr, FFIType.ptr], returns: FFIType.u32 },
-    WideCharToMultiByte: { args: [FFIType.u32, FFIType.u32, FFIType.ptr, FFIType.i32, FFIType.u32, FFIType.i32, FFIType.u32, FFIType.ptr], returns: FFIType.i32 },
-    WinExec: { args: [FFIType.u32, FFIType.u32], returns: FFIType.u32 },
+    WideCharToMultiByte: { args: [FFIType.u32, FFIType.u32, FFIType.ptr, FFIType.i32, FFIType.ptr, FFIType.i32, FFIType.ptr, FFIType.ptr], returns: FFIType.i32 },
+    WinExec: { args: [FFIType.ptr, FFIType.u32], returns: FFIType.u32 },
     Wow64DisableWow64FsRedirection: { args: [FFIType.ptr], returns: FFIType.i32 },
     Wow64EnableWow64FsRedirection: { args: [FFIType.u32], returns: FFIType.u32 },
     Wow64GetThreadContext: { args: [FFIType.ptr, FFIType.ptr], returns: FFIType.i32 },
@@ -1521,54 +1887,54 @@ class Kernel32 {
     Wow64RevertWow64FsRedirection: { args: [FFIType.ptr], returns: FFIType.i32 },
     Wow64SetThreadContext: { args: [FFIType.ptr, FFIType.ptr], returns: FFIType.i32 },
     Wow64SuspendThread: { args: [FFIType.ptr], returns: FFIType.u32 },
-    WriteConsoleA: { args: [FFIType.ptr, FFIType.u32, FFIType.u32, FFIType.ptr, FFIType.ptr], returns: FFIType.i32 },
+    WriteConsoleA: { args: [FFIType.ptr, FFIType.ptr, FFIType.u32, FFIType.ptr, FFIType.ptr], returns: FFIType.i32 },
     WriteConsoleInputA: { args: [FFIType.ptr, FFIType.ptr, FFIType.u32, FFIType.ptr], returns: FFIType.i32 },
     WriteConsoleInputVDMA: { args: [FFIType.ptr, FFIType.ptr, FFIType.u32, FFIType.ptr], returns: FFIType.i32 },
     WriteConsoleInputVDMW: { args: [FFIType.ptr, FFIType.ptr, FFIType.u32, FFIType.ptr], returns: FFIType.i32 },
     WriteConsoleInputW: { args: [FFIType.ptr, FFIType.ptr, FFIType.u32, FFIType.ptr], returns: FFIType.i32 },
     WriteConsoleOutputA: { args: [FFIType.ptr, FFIType.ptr, FFIType.u32, FFIType.u32, FFIType.ptr], returns: FFIType.i32 },
     WriteConsoleOutputAttribute: { args: [FFIType.ptr, FFIType.ptr, FFIType.u32, FFIType.u32, FFIType.ptr], returns: FFIType.i32 },
-    WriteConsoleOutputCharacterA: { args: [FFIType.ptr, FFIType.u32, FFIType.u32, FFIType.u32, FFIType.ptr], returns: FFIType.i32 },
+    WriteConsoleOutputCharacterA: { args: [FFIType.ptr, FFIType.ptr, FFIType.u32, FFIType.u32, FFIType.ptr], returns: FFIType.i32 },
     WriteConsoleOutputCharacterW: { args: [FFIType.ptr, FFIType.ptr, FFIType.u32, FFIType.u32, FFIType.ptr], returns: FFIType.i32 },
     WriteConsoleOutputW: { args: [FFIType.ptr, FFIType.ptr, FFIType.u32, FFIType.u32, FFIType.ptr], returns: FFIType.i32 },
     WriteConsoleW: { args: [FFIType.ptr, FFIType.ptr, FFIType.u32, FFIType.ptr, FFIType.ptr], returns: FFIType.i32 },
     WriteFile: { args: [FFIType.ptr, FFIType.ptr, FFIType.u32, FFIType.ptr, FFIType.ptr], returns: FFIType.i32 },
-    WriteFileEx: { args: [FFIType.ptr, FFIType.ptr, FFIType.u32, FFIType.ptr, FFIType.u32], returns: FFIType.i32 },
+    WriteFileEx: { args: [FFIType.ptr, FFIType.ptr, FFIType.u32, FFIType.ptr, FFIType.ptr], returns: FFIType.i32 },
     WriteFileGather: { args: [FFIType.ptr, FFIType.ptr, FFIType.u32, FFIType.ptr, FFIType.ptr], returns: FFIType.i32 },
-    WritePrivateProfileSectionA: { args: [FFIType.u32, FFIType.u32, FFIType.u32], returns: FFIType.i32 },
+    WritePrivateProfileSectionA: { args: [FFIType.ptr, FFIType.ptr, FFIType.ptr], returns: FFIType.i32 },
     WritePrivateProfileSectionW: { args: [FFIType.ptr, FFIType.ptr, FFIType.ptr], returns: FFIType.i32 },
-    WritePrivateProfileStringA: { args: [FFIType.u32, FFIType.u32, FFIType.u32, FFIType.u32], returns: FFIType.i32 },
+    WritePrivateProfileStringA: { args: [FFIType.ptr, FFIType.ptr, FFIType.ptr, FFIType.ptr], returns: FFIType.i32 },
     WritePrivateProfileStringW: { args: [FFIType.ptr, FFIType.ptr, FFIType.ptr, FFIType.ptr], returns: FFIType.i32 },
-    WritePrivateProfileStructA: { args: [FFIType.u32, FFIType.u32, FFIType.ptr, FFIType.u32, FFIType.u32], returns: FFIType.i32 },
+    WritePrivateProfileStructA: { args: [FFIType.ptr, FFIType.ptr, FFIType.ptr, FFIType.u32, FFIType.ptr], returns: FFIType.i32 },
     WritePrivateProfileStructW: { args: [FFIType.ptr, FFIType.ptr, FFIType.ptr, FFIType.u32, FFIType.ptr], returns: FFIType.i32 },
-    WriteProcessMemory: { args: [FFIType.ptr, FFIType.ptr, FFIType.ptr, FFIType.ptr, FFIType.ptr], returns: FFIType.i32 },
-    WriteProfileSectionA: { args: [FFIType.u32, FFIType.u32], returns: FFIType.i32 },
+    WriteProcessMemory: { args: [FFIType.ptr, FFIType.ptr, FFIType.ptr, FFIType.u64, FFIType.ptr], returns: FFIType.i32 },
+    WriteProfileSectionA: { args: [FFIType.ptr, FFIType.ptr], returns: FFIType.i32 },
     WriteProfileSectionW: { args: [FFIType.ptr, FFIType.ptr], returns: FFIType.i32 },
-    WriteProfileStringA: { args: [FFIType.u32, FFIType.u32, FFIType.u32], returns: FFIType.i32 },
+    WriteProfileStringA: { args: [FFIType.ptr, FFIType.ptr, FFIType.ptr], returns: FFIType.i32 },
     WriteProfileStringW: { args: [FFIType.ptr, FFIType.ptr, FFIType.ptr], returns: FFIType.i32 },
     WriteTapemark: { args: [FFIType.ptr, FFIType.u32, FFIType.u32, FFIType.i32], returns: FFIType.u32 },
     WTSGetActiveConsoleSessionId: { args: [], returns: FFIType.u32 },
     ZombifyActCtx: { args: [FFIType.ptr], returns: FFIType.i32 },
-    lstrcatA: { args: [FFIType.u32, FFIType.u32], returns: FFIType.u32 },
+    lstrcatA: { args: [FFIType.ptr, FFIType.ptr], returns: FFIType.ptr },
     lstrcatW: { args: [FFIType.ptr, FFIType.ptr], returns: FFIType.ptr },
-    lstrcmpA: { args: [FFIType.u32, FFIType.u32], returns: FFIType.i32 },
-    lstrcmpiA: { args: [FFIType.u32, FFIType.u32], returns: FFIType.i32 },
+    lstrcmpA: { args: [FFIType.ptr, FFIType.ptr], returns: FFIType.i32 },
+    lstrcmpiA: { args: [FFIType.ptr, FFIType.ptr], returns: FFIType.i32 },
     lstrcmpiW: { args: [FFIType.ptr, FFIType.ptr], returns: FFIType.i32 },
     lstrcmpW: { args: [FFIType.ptr, FFIType.ptr], returns: FFIType.i32 },
-    lstrcpyA: { args: [FFIType.u32, FFIType.u32], returns: FFIType.u32 },
-    lstrcpynA: { args: [FFIType.u32, FFIType.u32, FFIType.i32], returns: FFIType.u32 },
+    lstrcpyA: { args: [FFIType.ptr, FFIType.ptr], returns: FFIType.ptr },
+    lstrcpynA: { args: [FFIType.ptr, FFIType.ptr, FFIType.i32], returns: FFIType.ptr },
     lstrcpynW: { args: [FFIType.ptr, FFIType.ptr, FFIType.i32], returns: FFIType.ptr },
     lstrcpyW: { args: [FFIType.ptr, FFIType.ptr], returns: FFIType.ptr },
-    lstrlenA: { args: [FFIType.u32], returns: FFIType.i32 },
+    lstrlenA: { args: [FFIType.ptr], returns: FFIType.i32 },
     lstrlenW: { args: [FFIType.ptr], returns: FFIType.i32 },
     uaw_lstrcmpiW: { args: [FFIType.ptr, FFIType.ptr], returns: FFIType.i32 },
     uaw_lstrcmpW: { args: [FFIType.ptr, FFIType.ptr], returns: FFIType.i32 },
     uaw_lstrlenW: { args: [FFIType.ptr], returns: FFIType.i32 },
-    uaw_wcschr: { args: [FFIType.ptr, FFIType.ptr], returns: FFIType.ptr },
+    uaw_wcschr: { args: [FFIType.ptr, FFIType.u16], returns: FFIType.ptr },
     uaw_wcscpy: { args: [FFIType.ptr, FFIType.ptr], returns: FFIType.ptr },
     uaw_wcsicmp: { args: [FFIType.ptr, FFIType.ptr], returns: FFIType.i32 },
     uaw_wcslen: { args: [FFIType.ptr], returns: FFIType.ptr },
-    uaw_wcsrchr: { args: [FFIType.ptr, FFIType.ptr], returns: FFIType.ptr },
+    uaw_wcsrchr: { args: [FFIType.ptr, FFIType.u16], returns: FFIType.ptr },
   } as const satisfies Record<string, FFIFunction>;
 
   // https://learn.microsoft.com/en-us/windows/win32/api/winbase/nf-winbase-_hread
@@ -1627,7 +1993,7 @@ class Kernel32 {
   }
 
   // https://learn.microsoft.com/en-us/windows/win32/api/winbase/nf-winbase-activatepackagevirtualizationcontext
-  public static ActivatePackageVirtualizationContext(context: DWORD, cookie: LPVOID): DWORD {
+  public static ActivatePackageVirtualizationContext(context: PACKAGE_VIRTUALIZATION_CONTEXT_HANDLE, cookie: LPVOID): DWORD {
     return Kernel32.Load('ActivatePackageVirtualizationContext')(context, cookie);
   }
 
@@ -1657,7 +2023,7 @@ class Kernel32 {
   }
 
   // https://learn.microsoft.com/en-us/windows/win32/api/winbase/nf-winbase-addintegritylabeltoboundarydescriptor
-  public static AddIntegrityLabelToBoundaryDescriptor(BoundaryDescriptor: LPVOID, IntegrityLabel: DWORD): BOOL {
+  public static AddIntegrityLabelToBoundaryDescriptor(BoundaryDescriptor: LPVOID, IntegrityLabel: PSID): BOOL {
     return Kernel32.Load('AddIntegrityLabelToBoundaryDescriptor')(BoundaryDescriptor, IntegrityLabel);
   }
 
@@ -1667,32 +2033,32 @@ class Kernel32 {
   }
 
   // https://learn.microsoft.com/en-us/windows/win32/api/winbase/nf-winbase-addresourceattributeace
-  public static AddResourceAttributeAce(pAcl: LPVOID, dwAceRevision: DWORD, AceFlags: DWORD, AccessMask: DWORD, pSid: DWORD, pAttributeInfo: LPVOID, pReturnLength: LPVOID): BOOL {
+  public static AddResourceAttributeAce(pAcl: LPVOID, dwAceRevision: DWORD, AceFlags: DWORD, AccessMask: DWORD, pSid: PSID, pAttributeInfo: LPVOID, pReturnLength: LPVOID): BOOL {
     return Kernel32.Load('AddResourceAttributeAce')(pAcl, dwAceRevision, AceFlags, AccessMask, pSid, pAttributeInfo, pReturnLength);
   }
 
   // https://learn.microsoft.com/en-us/windows/win32/api/winbase/nf-winbase-addscopedpolicyidace
-  public static AddScopedPolicyIDAce(pAcl: LPVOID, dwAceRevision: DWORD, AceFlags: DWORD, AccessMask: DWORD, pSid: DWORD): BOOL {
+  public static AddScopedPolicyIDAce(pAcl: LPVOID, dwAceRevision: DWORD, AceFlags: DWORD, AccessMask: DWORD, pSid: PSID): BOOL {
     return Kernel32.Load('AddScopedPolicyIDAce')(pAcl, dwAceRevision, AceFlags, AccessMask, pSid);
   }
 
   // https://learn.microsoft.com/en-us/windows/win32/api/winbase/nf-winbase-addsecurememorycachecallback
-  public static AddSecureMemoryCacheCallback(pfnCallBack: DWORD): BOOL {
+  public static AddSecureMemoryCacheCallback(pfnCallBack: PSECURE_MEMORY_CACHE_CALLBACK): BOOL {
     return Kernel32.Load('AddSecureMemoryCacheCallback')(pfnCallBack);
   }
 
   // https://learn.microsoft.com/en-us/windows/win32/api/winbase/nf-winbase-addsidtoboundarydescriptor
-  public static AddSIDToBoundaryDescriptor(BoundaryDescriptor: LPVOID, RequiredSid: DWORD): BOOL {
+  public static AddSIDToBoundaryDescriptor(BoundaryDescriptor: LPVOID, RequiredSid: PSID): BOOL {
     return Kernel32.Load('AddSIDToBoundaryDescriptor')(BoundaryDescriptor, RequiredSid);
   }
 
   // https://learn.microsoft.com/en-us/windows/win32/api/errhandlingapi/nf-errhandlingapi-addvectoredcontinuehandler
-  public static AddVectoredContinueHandler(First: DWORD, Handler: DWORD): LPVOID {
+  public static AddVectoredContinueHandler(First: DWORD, Handler: PVECTORED_EXCEPTION_HANDLER): LPVOID {
     return Kernel32.Load('AddVectoredContinueHandler')(First, Handler);
   }
 
   // https://learn.microsoft.com/en-us/windows/win32/api/errhandlingapi/nf-errhandlingapi-addvectoredexceptionhandler
-  public static AddVectoredExceptionHandler(First: DWORD, Handler: DWORD): LPVOID {
+  public static AddVectoredExceptionHandler(First: DWORD, Handler: PVECTORED_EXCEPTION_HANDLER): LPVOID {
     return Kernel32.Load('AddVectoredExceptionHandler')(First, Handler);
   }
 
@@ -1821,7 +2187,7 @@ class Kernel32 {
   }
 
   // https://learn.microsoft.com/en-us/windows/win32/api/ioapiset/nf-ioapiset-bindiocompletioncallback
-  public static BindIoCompletionCallback(FileHandle: HANDLE, _Function: DWORD, Flags: DWORD): BOOL {
+  public static BindIoCompletionCallback(FileHandle: HANDLE, _Function: LPOVERLAPPED_COMPLETION_ROUTINE, Flags: DWORD): BOOL {
     return Kernel32.Load('BindIoCompletionCallback')(FileHandle, _Function, Flags);
   }
 
@@ -1866,7 +2232,7 @@ class Kernel32 {
   }
 
   // https://learn.microsoft.com/en-us/windows/win32/api/winbase/nf-winbase-callbackmayrunlong
-  public static CallbackMayRunLong(pci: DWORD): BOOL {
+  public static CallbackMayRunLong(pci: PTP_CALLBACK_INSTANCE): BOOL {
     return Kernel32.Load('CallbackMayRunLong')(pci);
   }
 
@@ -1901,7 +2267,7 @@ class Kernel32 {
   }
 
   // https://learn.microsoft.com/en-us/windows/win32/api/threadpoolapiset/nf-threadpoolapiset-cancelthreadpoolio
-  public static CancelThreadpoolIo(pio: DWORD): VOID {
+  public static CancelThreadpoolIo(pio: PTP_IO): VOID {
     return Kernel32.Load('CancelThreadpoolIo')(pio);
   }
 
@@ -1945,12 +2311,12 @@ class Kernel32 {
   }
 
   // https://learn.microsoft.com/en-us/windows/win32/api/winbase/nf-winbase-checktokencapability
-  public static CheckTokenCapability(TokenHandle: HANDLE, CapabilitySidToCheck: DWORD, HasCapability: LPVOID): BOOL {
+  public static CheckTokenCapability(TokenHandle: HANDLE, CapabilitySidToCheck: PSID, HasCapability: LPVOID): BOOL {
     return Kernel32.Load('CheckTokenCapability')(TokenHandle, CapabilitySidToCheck, HasCapability);
   }
 
   // https://learn.microsoft.com/en-us/windows/win32/api/winbase/nf-winbase-checktokenmembershipex
-  public static CheckTokenMembershipEx(TokenHandle: HANDLE, SidToCheck: DWORD, Flags: DWORD, IsMember: LPVOID): BOOL {
+  public static CheckTokenMembershipEx(TokenHandle: HANDLE, SidToCheck: PSID, Flags: DWORD, IsMember: LPVOID): BOOL {
     return Kernel32.Load('CheckTokenMembershipEx')(TokenHandle, SidToCheck, Flags, IsMember);
   }
 
@@ -1985,52 +2351,52 @@ class Kernel32 {
   }
 
   // https://learn.microsoft.com/en-us/windows/console/closepseudoconsole
-  public static ClosePseudoConsole(hPC: DWORD): VOID {
+  public static ClosePseudoConsole(hPC: HPCON): VOID {
     return Kernel32.Load('ClosePseudoConsole')(hPC);
   }
 
   // https://learn.microsoft.com/en-us/windows/win32/api/threadpoolapiset/nf-threadpoolapiset-closethreadpool
-  public static CloseThreadpool(ptpp: DWORD): VOID {
+  public static CloseThreadpool(ptpp: PTP_POOL): VOID {
     return Kernel32.Load('CloseThreadpool')(ptpp);
   }
 
   // https://learn.microsoft.com/en-us/windows/win32/api/winbase/nf-winbase-closethreadpoolcleanupgroup
-  public static CloseThreadpoolCleanupGroup(ptpcg: DWORD): VOID {
+  public static CloseThreadpoolCleanupGroup(ptpcg: PTP_CLEANUP_GROUP): VOID {
     return Kernel32.Load('CloseThreadpoolCleanupGroup')(ptpcg);
   }
 
   // https://learn.microsoft.com/en-us/windows/win32/api/winbase/nf-winbase-closethreadpoolcleanupgroupmembers
-  public static CloseThreadpoolCleanupGroupMembers(ptpcg: DWORD, fCancelPendingCallbacks: BOOL, pvCleanupContext: LPVOID): VOID {
+  public static CloseThreadpoolCleanupGroupMembers(ptpcg: PTP_CLEANUP_GROUP, fCancelPendingCallbacks: BOOL, pvCleanupContext: LPVOID): VOID {
     return Kernel32.Load('CloseThreadpoolCleanupGroupMembers')(ptpcg, fCancelPendingCallbacks, pvCleanupContext);
   }
 
   // https://learn.microsoft.com/en-us/windows/win32/api/winbase/nf-winbase-closethreadpoolio
-  public static CloseThreadpoolIo(pio: DWORD): VOID {
+  public static CloseThreadpoolIo(pio: PTP_IO): VOID {
     return Kernel32.Load('CloseThreadpoolIo')(pio);
   }
 
   // https://learn.microsoft.com/en-us/windows/win32/api/winbase/nf-winbase-closethreadpooltimer
-  public static CloseThreadpoolTimer(pti: DWORD): VOID {
+  public static CloseThreadpoolTimer(pti: PTP_TIMER): VOID {
     return Kernel32.Load('CloseThreadpoolTimer')(pti);
   }
 
   // https://learn.microsoft.com/en-us/windows/win32/api/winbase/nf-winbase-closethreadpoolwait
-  public static CloseThreadpoolWait(pwa: DWORD): VOID {
+  public static CloseThreadpoolWait(pwa: PTP_WAIT): VOID {
     return Kernel32.Load('CloseThreadpoolWait')(pwa);
   }
 
   // https://learn.microsoft.com/en-us/windows/win32/api/winbase/nf-winbase-closethreadpoolwork
-  public static CloseThreadpoolWork(pwk: DWORD): VOID {
+  public static CloseThreadpoolWork(pwk: PTP_WORK): VOID {
     return Kernel32.Load('CloseThreadpoolWork')(pwk);
   }
 
   // https://learn.microsoft.com/en-us/windows/win32/api/winbase/nf-winbase-commconfigdialoga
-  public static CommConfigDialogA(lpszName: LPSTR, hWnd: DWORD, lpCC: LPVOID): BOOL {
+  public static CommConfigDialogA(lpszName: LPSTR, hWnd: HWND, lpCC: LPVOID): BOOL {
     return Kernel32.Load('CommConfigDialogA')(lpszName, hWnd, lpCC);
   }
 
   // https://learn.microsoft.com/en-us/windows/win32/api/winbase/nf-winbase-commconfigdialogw
-  public static CommConfigDialogW(lpszName: LPWSTR, hWnd: DWORD, lpCC: LPVOID): BOOL {
+  public static CommConfigDialogW(lpszName: LPWSTR, hWnd: HWND, lpCC: LPVOID): BOOL {
     return Kernel32.Load('CommConfigDialogW')(lpszName, hWnd, lpCC);
   }
 
@@ -2120,24 +2486,25 @@ class Kernel32 {
   }
 
   // https://learn.microsoft.com/en-us/windows/win32/api/fileapi/nf-fileapi-copyfileexa
-  public static CopyFileExA(lpExistingFileName: LPSTR, lpNewFileName: LPSTR, lpProgressRoutine: DWORD, lpData: LPVOID, pbCancel: LPVOID, dwCopyFlags: DWORD): BOOL {
+  public static CopyFileExA(lpExistingFileName: LPSTR, lpNewFileName: LPSTR, lpProgressRoutine: LPPROGRESS_ROUTINE, lpData: LPVOID, pbCancel: LPVOID, dwCopyFlags: DWORD): BOOL {
     return Kernel32.Load('CopyFileExA')(lpExistingFileName, lpNewFileName, lpProgressRoutine, lpData, pbCancel, dwCopyFlags);
   }
 
   // https://learn.microsoft.com/en-us/windows/win32/api/fileapi/nf-fileapi-copyfileexw
-  public static CopyFileExW(lpExistingFileName: LPWSTR, lpNewFileName: LPWSTR, lpProgressRoutine: DWORD, lpData: LPVOID, pbCancel: LPVOID, dwCopyFlags: DWORD): BOOL {
+  public static CopyFileExW(lpExistingFileName: LPWSTR, lpNewFileName: LPWSTR, lpProgressRoutine: LPPROGRESS_ROUTINE, lpData: LPVOID, pbCancel: LPVOID, dwCopyFlags: DWORD): BOOL {
     return Kernel32.Load('CopyFileExW')(lpExistingFileName, lpNewFileName, lpProgressRoutine, lpData, pbCancel, dwCopyFlags);
   }
 
   // https://learn.microsoft.com/en-us/windows/win32/api/fileapi/nf-fileapi-copyfiletransacteda
-  public static CopyFileTransactedA(lpExistingFileName: LPSTR, lpNewFileName: LPSTR, lpProgressRoutine: DWORD, lpData: LPVOID, pbCancel: LPVOID, dwCopyFlags: DWORD, hTransaction: HANDLE): BOOL {
+  public static CopyFileTransactedA(lpExistingFileName: LPSTR, lpNewFileName: LPSTR, lpProgressRoutine: LPPROGRESS_ROUTINE, lpData: LPVOID, pbCancel: LPVOID, dwCopyFlags: DWORD, hTransaction: HANDLE): BOOL {
     return Kernel32.Load('CopyFileTransactedA')(lpExistingFileName, lpNewFileName, lpProgressRoutine, lpData, pbCancel, dwCopyFlags, hTransaction);
   }
 
   // https://learn.microsoft.com/en-us/windows/win32/api/fileapi/nf-fileapi-copyfiletransactedw
-  public static CopyFileTransactedW(lpExistingFileName: LPWSTR, lpNewFileName: LPWSTR, lpProgressRoutine: DWORD, lpData: LPVOID, pbCancel: LPVOID, dwCopyFlags: DWORD, hTransaction: HANDLE): BOOL {
+  public static CopyFileTransactedW(lpExistingFileName: LPWSTR, lpNewFileName: LPWSTR, lpProgressRoutine: LPPROGRESS_ROUTINE, lpData: LPVOID, pbCancel: LPVOID, dwCopyFlags: DWORD, hTransaction: HANDLE): BOOL {
     return Kernel32.Load('CopyFileTransactedW')(lpExistingFileName, lpNewFileName, lpProgressRoutine, lpData, pbCancel, dwCopyFlags, hTransaction);
   }
+
   // https://learn.microsoft.com/en-us/windows/win32/api/winbase/nf-winbase-copyfilew
   public static CopyFileW(lpExistingFileName: LPWSTR, lpNewFileName: LPWSTR, bFailIfExists: BOOL): BOOL {
     return Kernel32.Load('CopyFileW')(lpExistingFileName, lpNewFileName, bFailIfExists);
@@ -2207,13 +2574,14 @@ class Kernel32 {
   public static CreateDirectoryTransactedW(lpTemplateDirectory: LPWSTR, lpNewDirectory: LPWSTR, lpSecurityAttributes: LPVOID, hTransaction: HANDLE): BOOL {
     return Kernel32.Load('CreateDirectoryTransactedW')(lpTemplateDirectory, lpNewDirectory, lpSecurityAttributes, hTransaction);
   }
+
   // https://learn.microsoft.com/en-us/windows/win32/api/fileapi/nf-fileapi-createdirectoryw
   public static CreateDirectoryW(lpPathName: LPWSTR, lpSecurityAttributes: LPVOID): BOOL {
     return Kernel32.Load('CreateDirectoryW')(lpPathName, lpSecurityAttributes);
   }
 
   // https://learn.microsoft.com/en-us/windows/win32/api/processthreadsapi/nf-processthreadsapi-createenclave
-  public static CreateEnclave(hProcess: HANDLE, lpAddress: LPVOID, dwSize: LPVOID, dwInitialCommitment: LPVOID, flEnclaveType: DWORD, lpEnclaveInformation: LPVOID, dwInfoLength: DWORD, lpEnclaveError: LPVOID): LPVOID {
+  public static CreateEnclave(hProcess: HANDLE, lpAddress: LPVOID, dwSize: SIZE_T, dwInitialCommitment: SIZE_T, flEnclaveType: DWORD, lpEnclaveInformation: LPVOID, dwInfoLength: DWORD, lpEnclaveError: LPVOID): LPVOID {
     return Kernel32.Load('CreateEnclave')(hProcess, lpAddress, dwSize, dwInitialCommitment, flEnclaveType, lpEnclaveInformation, dwInfoLength, lpEnclaveError);
   }
 
@@ -2238,12 +2606,12 @@ class Kernel32 {
   }
 
   // https://learn.microsoft.com/en-us/windows/win32/api/winbase/nf-winbase-createfiber
-  public static CreateFiber(dwStackSize: LPVOID, lpStartAddress: DWORD, lpParameter: LPVOID): LPVOID {
+  public static CreateFiber(dwStackSize: SIZE_T, lpStartAddress: LPFIBER_START_ROUTINE, lpParameter: LPVOID): LPVOID {
     return Kernel32.Load('CreateFiber')(dwStackSize, lpStartAddress, lpParameter);
   }
 
   // https://learn.microsoft.com/en-us/windows/win32/api/winbase/nf-winbase-createfiberex
-  public static CreateFiberEx(dwStackCommitSize: LPVOID, dwStackReserveSize: LPVOID, dwFlags: DWORD, lpStartAddress: DWORD, lpParameter: LPVOID): LPVOID {
+  public static CreateFiberEx(dwStackCommitSize: SIZE_T, dwStackReserveSize: SIZE_T, dwFlags: DWORD, lpStartAddress: LPFIBER_START_ROUTINE, lpParameter: LPVOID): LPVOID {
     return Kernel32.Load('CreateFiberEx')(dwStackCommitSize, dwStackReserveSize, dwFlags, lpStartAddress, lpParameter);
   }
 
@@ -2345,7 +2713,7 @@ class Kernel32 {
   }
 
   // https://learn.microsoft.com/en-us/windows/win32/api/ioapiset/nf-ioapiset-createiocompletionport
-  public static CreateIoCompletionPort(FileHandle: HANDLE, ExistingCompletionPort: HANDLE, CompletionKey: LPVOID, NumberOfConcurrentThreads: DWORD): HANDLE {
+  public static CreateIoCompletionPort(FileHandle: HANDLE, ExistingCompletionPort: HANDLE, CompletionKey: ULONG_PTR, NumberOfConcurrentThreads: DWORD): HANDLE {
     return Kernel32.Load('CreateIoCompletionPort')(FileHandle, ExistingCompletionPort, CompletionKey, NumberOfConcurrentThreads);
   }
 
@@ -2536,32 +2904,32 @@ class Kernel32 {
   }
 
   // https://learn.microsoft.com/en-us/windows/win32/api/processthreadsapi/nf-processthreadsapi-createthreadpool
-  public static CreateThreadpool(reserved: LPVOID): DWORD {
+  public static CreateThreadpool(reserved: LPVOID): PTP_POOL {
     return Kernel32.Load('CreateThreadpool')(reserved);
   }
 
   // https://learn.microsoft.com/en-us/windows/win32/api/processthreadsapi/nf-processthreadsapi-createthreadpoolcleanupgroup
-  public static CreateThreadpoolCleanupGroup(): DWORD {
+  public static CreateThreadpoolCleanupGroup(): PTP_CLEANUP_GROUP {
     return Kernel32.Load('CreateThreadpoolCleanupGroup')();
   }
 
   // https://learn.microsoft.com/en-us/windows/win32/api/processthreadsapi/nf-processthreadsapi-createthreadpoolio
-  public static CreateThreadpoolIo(fl: HANDLE, pfnio: DWORD, pv: LPVOID, pcbe: LPVOID): DWORD {
+  public static CreateThreadpoolIo(fl: HANDLE, pfnio: PTP_WIN32_IO_CALLBACK, pv: LPVOID, pcbe: LPVOID): PTP_IO {
     return Kernel32.Load('CreateThreadpoolIo')(fl, pfnio, pv, pcbe);
   }
 
   // https://learn.microsoft.com/en-us/windows/win32/api/processthreadsapi/nf-processthreadsapi-createthreadpooltimer
-  public static CreateThreadpoolTimer(pfnti: DWORD, pv: LPVOID, pcbe: LPVOID): DWORD {
+  public static CreateThreadpoolTimer(pfnti: PTP_TIMER_CALLBACK, pv: LPVOID, pcbe: LPVOID): PTP_TIMER {
     return Kernel32.Load('CreateThreadpoolTimer')(pfnti, pv, pcbe);
   }
 
   // https://learn.microsoft.com/en-us/windows/win32/api/processthreadsapi/nf-processthreadsapi-createthreadpoolwait
-  public static CreateThreadpoolWait(pfnwa: DWORD, pv: LPVOID, pcbe: LPVOID): DWORD {
+  public static CreateThreadpoolWait(pfnwa: PTP_WAIT_CALLBACK, pv: LPVOID, pcbe: LPVOID): PTP_WAIT {
     return Kernel32.Load('CreateThreadpoolWait')(pfnwa, pv, pcbe);
   }
 
   // https://learn.microsoft.com/en-us/windows/win32/api/processthreadsapi/nf-processthreadsapi-createthreadpoolwork
-  public static CreateThreadpoolWork(pfnwk: DWORD, pv: LPVOID, pcbe: LPVOID): DWORD {
+  public static CreateThreadpoolWork(pfnwk: PTP_WORK_CALLBACK, pv: LPVOID, pcbe: LPVOID): PTP_WORK {
     return Kernel32.Load('CreateThreadpoolWork')(pfnwk, pv, pcbe);
   }
 
@@ -2571,7 +2939,7 @@ class Kernel32 {
   }
 
   // https://learn.microsoft.com/en-us/windows/win32/api/winbase/nf-winbase-createtimerqueuetimer
-  public static CreateTimerQueueTimer(phNewTimer: LPVOID, TimerQueue: HANDLE, Callback: DWORD, Parameter: LPVOID, DueTime: DWORD, Period: DWORD, Flags: DWORD): BOOL {
+  public static CreateTimerQueueTimer(phNewTimer: LPVOID, TimerQueue: HANDLE, Callback: WAITORTIMERCALLBACK, Parameter: LPVOID, DueTime: DWORD, Period: DWORD, Flags: DWORD): BOOL {
     return Kernel32.Load('CreateTimerQueueTimer')(phNewTimer, TimerQueue, Callback, Parameter, DueTime, Period, Flags);
   }
 
@@ -2611,7 +2979,7 @@ class Kernel32 {
   }
 
   // https://learn.microsoft.com/en-us/windows/win32/api/winbase/nf-winbase-deactivateactctx
-  public static DeactivateActCtx(dwFlags: DWORD, ulCookie: LPVOID): BOOL {
+  public static DeactivateActCtx(dwFlags: DWORD, ulCookie: ULONG_PTR): BOOL {
     return Kernel32.Load('DeactivateActCtx')(dwFlags, ulCookie);
   }
 
@@ -2716,7 +3084,7 @@ class Kernel32 {
   }
 
   // https://learn.microsoft.com/en-us/windows/win32/api/winbase/nf-winbase-deleteprocthreadattributelist
-  public static DeleteProcThreadAttributeList(lpAttributeList: DWORD): VOID {
+  public static DeleteProcThreadAttributeList(lpAttributeList: LPPROC_THREAD_ATTRIBUTE_LIST): VOID {
     return Kernel32.Load('DeleteProcThreadAttributeList')(lpAttributeList);
   }
 
@@ -2781,12 +3149,12 @@ class Kernel32 {
   }
 
   // https://learn.microsoft.com/en-us/windows/win32/api/winbase/nf-winbase-disassociatecurrentthreadfromcallback
-  public static DisassociateCurrentThreadFromCallback(pci: DWORD): VOID {
+  public static DisassociateCurrentThreadFromCallback(pci: PTP_CALLBACK_INSTANCE): VOID {
     return Kernel32.Load('DisassociateCurrentThreadFromCallback')(pci);
   }
 
   // https://learn.microsoft.com/en-us/windows/win32/api/winbase/nf-winbase-discardvirtualmemory
-  public static DiscardVirtualMemory(VirtualAddress: LPVOID, Size: LPVOID): DWORD {
+  public static DiscardVirtualMemory(VirtualAddress: LPVOID, Size: SIZE_T): DWORD {
     return Kernel32.Load('DiscardVirtualMemory')(VirtualAddress, Size);
   }
 
@@ -2826,7 +3194,7 @@ class Kernel32 {
   }
 
   // https://learn.microsoft.com/en-us/windows/win32/api/winbase/nf-winbase-duplicatepackagevirtualizationcontext
-  public static DuplicatePackageVirtualizationContext(sourceContext: DWORD, destContext: LPVOID): DWORD {
+  public static DuplicatePackageVirtualizationContext(sourceContext: PACKAGE_VIRTUALIZATION_CONTEXT_HANDLE, destContext: LPVOID): DWORD {
     return Kernel32.Load('DuplicatePackageVirtualizationContext')(sourceContext, destContext);
   }
 
@@ -2876,62 +3244,62 @@ class Kernel32 {
   }
 
   // https://learn.microsoft.com/en-us/windows/win32/api/winnls/nf-winnls-enumcalendarinfoa
-  public static EnumCalendarInfoA(lpCalInfoEnumProc: DWORD, Locale: DWORD, Calendar: DWORD, CalType: DWORD): BOOL {
+  public static EnumCalendarInfoA(lpCalInfoEnumProc: CALINFO_ENUMPROCA, Locale: DWORD, Calendar: DWORD, CalType: DWORD): BOOL {
     return Kernel32.Load('EnumCalendarInfoA')(lpCalInfoEnumProc, Locale, Calendar, CalType);
   }
 
   // https://learn.microsoft.com/en-us/windows/win32/api/winbase/nf-winbase-enumcalendarinfoexa
-  public static EnumCalendarInfoExA(lpCalInfoEnumProcEx: DWORD, Locale: DWORD, Calendar: DWORD, CalType: DWORD): BOOL {
+  public static EnumCalendarInfoExA(lpCalInfoEnumProcEx: CALINFO_ENUMPROCEXA, Locale: DWORD, Calendar: DWORD, CalType: DWORD): BOOL {
     return Kernel32.Load('EnumCalendarInfoExA')(lpCalInfoEnumProcEx, Locale, Calendar, CalType);
   }
 
   // https://learn.microsoft.com/en-us/windows/win32/api/winbase/nf-winbase-enumcalendarinfoexex
-  public static EnumCalendarInfoExEx(pCalInfoEnumProcExEx: DWORD, lpLocaleName: LPWSTR, Calendar: DWORD, lpReserved: LPWSTR, CalType: DWORD, lParam: DWORD): BOOL {
+  public static EnumCalendarInfoExEx(pCalInfoEnumProcExEx: CALINFO_ENUMPROCEXEX, lpLocaleName: LPWSTR, Calendar: DWORD, lpReserved: LPWSTR, CalType: DWORD, lParam: LPARAM): BOOL {
     return Kernel32.Load('EnumCalendarInfoExEx')(pCalInfoEnumProcExEx, lpLocaleName, Calendar, lpReserved, CalType, lParam);
   }
 
   // https://learn.microsoft.com/en-us/windows/win32/api/winbase/nf-winbase-enumcalendarinfoexw
-  public static EnumCalendarInfoExW(lpCalInfoEnumProcEx: DWORD, Locale: DWORD, Calendar: DWORD, CalType: DWORD): BOOL {
+  public static EnumCalendarInfoExW(lpCalInfoEnumProcEx: CALINFO_ENUMPROCEXW, Locale: DWORD, Calendar: DWORD, CalType: DWORD): BOOL {
     return Kernel32.Load('EnumCalendarInfoExW')(lpCalInfoEnumProcEx, Locale, Calendar, CalType);
   }
 
   // https://learn.microsoft.com/en-us/windows/win32/api/winnls/nf-winnls-enumcalendarinfow
-  public static EnumCalendarInfoW(lpCalInfoEnumProc: DWORD, Locale: DWORD, Calendar: DWORD, CalType: DWORD): BOOL {
+  public static EnumCalendarInfoW(lpCalInfoEnumProc: CALINFO_ENUMPROCW, Locale: DWORD, Calendar: DWORD, CalType: DWORD): BOOL {
     return Kernel32.Load('EnumCalendarInfoW')(lpCalInfoEnumProc, Locale, Calendar, CalType);
   }
 
   // https://learn.microsoft.com/en-us/windows/win32/api/winnls/nf-winnls-enumdateformatsa
-  public static EnumDateFormatsA(lpDateFmtEnumProc: DWORD, Locale: DWORD, dwFlags: DWORD): BOOL {
+  public static EnumDateFormatsA(lpDateFmtEnumProc: DATEFMT_ENUMPROCA, Locale: DWORD, dwFlags: DWORD): BOOL {
     return Kernel32.Load('EnumDateFormatsA')(lpDateFmtEnumProc, Locale, dwFlags);
   }
 
   // https://learn.microsoft.com/en-us/windows/win32/api/winbase/nf-winbase-enumdateformatsexa
-  public static EnumDateFormatsExA(lpDateFmtEnumProcEx: DWORD, Locale: DWORD, dwFlags: DWORD): BOOL {
+  public static EnumDateFormatsExA(lpDateFmtEnumProcEx: DATEFMT_ENUMPROCEXA, Locale: DWORD, dwFlags: DWORD): BOOL {
     return Kernel32.Load('EnumDateFormatsExA')(lpDateFmtEnumProcEx, Locale, dwFlags);
   }
 
   // https://learn.microsoft.com/en-us/windows/win32/api/winbase/nf-winbase-enumdateformatsexex
-  public static EnumDateFormatsExEx(lpDateFmtEnumProcExEx: DWORD, lpLocaleName: LPWSTR, dwFlags: DWORD, lParam: DWORD): BOOL {
+  public static EnumDateFormatsExEx(lpDateFmtEnumProcExEx: DATEFMT_ENUMPROCEXEX, lpLocaleName: LPWSTR, dwFlags: DWORD, lParam: LPARAM): BOOL {
     return Kernel32.Load('EnumDateFormatsExEx')(lpDateFmtEnumProcExEx, lpLocaleName, dwFlags, lParam);
   }
 
   // https://learn.microsoft.com/en-us/windows/win32/api/winbase/nf-winbase-enumdateformatsexw
-  public static EnumDateFormatsExW(lpDateFmtEnumProcEx: DWORD, Locale: DWORD, dwFlags: DWORD): BOOL {
+  public static EnumDateFormatsExW(lpDateFmtEnumProcEx: DATEFMT_ENUMPROCEXW, Locale: DWORD, dwFlags: DWORD): BOOL {
     return Kernel32.Load('EnumDateFormatsExW')(lpDateFmtEnumProcEx, Locale, dwFlags);
   }
 
   // https://learn.microsoft.com/en-us/windows/win32/api/winnls/nf-winnls-enumdateformatsw
-  public static EnumDateFormatsW(lpDateFmtEnumProc: DWORD, Locale: DWORD, dwFlags: DWORD): BOOL {
+  public static EnumDateFormatsW(lpDateFmtEnumProc: DATEFMT_ENUMPROCW, Locale: DWORD, dwFlags: DWORD): BOOL {
     return Kernel32.Load('EnumDateFormatsW')(lpDateFmtEnumProc, Locale, dwFlags);
   }
 
   // https://learn.microsoft.com/en-us/windows/win32/api/winbase/nf-winbase-enumlanguagegrouplocalesa
-  public static EnumLanguageGroupLocalesA(lpLangGroupLocaleEnumProc: DWORD, LanguageGroup: DWORD, dwFlags: DWORD, lParam: LPVOID): BOOL {
+  public static EnumLanguageGroupLocalesA(lpLangGroupLocaleEnumProc: LANGGROUPLOCALE_ENUMPROCA, LanguageGroup: DWORD, dwFlags: DWORD, lParam: LPARAM): BOOL {
     return Kernel32.Load('EnumLanguageGroupLocalesA')(lpLangGroupLocaleEnumProc, LanguageGroup, dwFlags, lParam);
   }
 
   // https://learn.microsoft.com/en-us/windows/win32/api/winbase/nf-winbase-enumlanguagegrouplocalesw
-  public static EnumLanguageGroupLocalesW(lpLangGroupLocaleEnumProc: DWORD, LanguageGroup: DWORD, dwFlags: DWORD, lParam: LPVOID): BOOL {
+  public static EnumLanguageGroupLocalesW(lpLangGroupLocaleEnumProc: LANGGROUPLOCALE_ENUMPROCW, LanguageGroup: DWORD, dwFlags: DWORD, lParam: LPARAM): BOOL {
     return Kernel32.Load('EnumLanguageGroupLocalesW')(lpLangGroupLocaleEnumProc, LanguageGroup, dwFlags, lParam);
   }
 
@@ -3146,17 +3514,17 @@ class Kernel32 {
   }
 
   // https://learn.microsoft.com/en-us/windows/console/fillconsoleoutputattribute
-  public static FillConsoleOutputAttribute(hConsoleOutput: HANDLE, wAttribute: USHORT, nLength: DWORD, dwWriteCoord: DWORD, lpNumberOfAttrsWritten: LPVOID): BOOL {
+  public static FillConsoleOutputAttribute(hConsoleOutput: HANDLE, wAttribute: USHORT, nLength: DWORD, dwWriteCoord: COORD, lpNumberOfAttrsWritten: LPVOID): BOOL {
     return Kernel32.Load('FillConsoleOutputAttribute')(hConsoleOutput, wAttribute, nLength, dwWriteCoord, lpNumberOfAttrsWritten);
   }
 
   // https://learn.microsoft.com/en-us/windows/console/fillconsoleoutputcharacter
-  public static FillConsoleOutputCharacterA(hConsoleOutput: HANDLE, cCharacter: DWORD, nLength: DWORD, dwWriteCoord: DWORD, lpNumberOfCharsWritten: LPVOID): BOOL {
+  public static FillConsoleOutputCharacterA(hConsoleOutput: HANDLE, cCharacter: DWORD, nLength: DWORD, dwWriteCoord: COORD, lpNumberOfCharsWritten: LPVOID): BOOL {
     return Kernel32.Load('FillConsoleOutputCharacterA')(hConsoleOutput, cCharacter, nLength, dwWriteCoord, lpNumberOfCharsWritten);
   }
 
   // https://learn.microsoft.com/en-us/windows/console/fillconsoleoutputcharacter
-  public static FillConsoleOutputCharacterW(hConsoleOutput: HANDLE, cCharacter: LPVOID, nLength: DWORD, dwWriteCoord: DWORD, lpNumberOfCharsWritten: LPVOID): BOOL {
+  public static FillConsoleOutputCharacterW(hConsoleOutput: HANDLE, cCharacter: WCHAR, nLength: DWORD, dwWriteCoord: COORD, lpNumberOfCharsWritten: LPVOID): BOOL {
     return Kernel32.Load('FillConsoleOutputCharacterW')(hConsoleOutput, cCharacter, nLength, dwWriteCoord, lpNumberOfCharsWritten);
   }
 
@@ -3186,7 +3554,7 @@ class Kernel32 {
   }
 
   // https://learn.microsoft.com/en-us/windows/win32/api/fileapi/nf-fileapi-findclose
-  public static FindClose(hFindFile: HANDLE): BOOL {
+  public static FindClose(hFindFile: HFIND): BOOL {
     return Kernel32.Load('FindClose')(hFindFile);
   }
 
@@ -3206,72 +3574,72 @@ class Kernel32 {
   }
 
   // https://learn.microsoft.com/en-us/windows/win32/api/fileapi/nf-fileapi-findfirstfilea
-  public static FindFirstFileA(lpFileName: LPSTR, lpFindFileData: LPVOID): HANDLE {
+  public static FindFirstFileA(lpFileName: LPSTR, lpFindFileData: LPVOID): HFIND {
     return Kernel32.Load('FindFirstFileA')(lpFileName, lpFindFileData);
   }
 
   // https://learn.microsoft.com/en-us/windows/win32/api/fileapi/nf-fileapi-findfirstfileexa
-  public static FindFirstFileExA(lpFileName: LPSTR, fInfoLevelId: DWORD, lpFindFileData: LPVOID, fSearchOp: DWORD, lpSearchFilter: LPVOID, dwAdditionalFlags: DWORD): HANDLE {
+  public static FindFirstFileExA(lpFileName: LPSTR, fInfoLevelId: DWORD, lpFindFileData: LPVOID, fSearchOp: DWORD, lpSearchFilter: LPVOID, dwAdditionalFlags: DWORD): HFIND {
     return Kernel32.Load('FindFirstFileExA')(lpFileName, fInfoLevelId, lpFindFileData, fSearchOp, lpSearchFilter, dwAdditionalFlags);
   }
 
   // https://learn.microsoft.com/en-us/windows/win32/api/fileapi/nf-fileapi-findfirstfileexw
-  public static FindFirstFileExW(lpFileName: LPWSTR, fInfoLevelId: DWORD, lpFindFileData: LPVOID, fSearchOp: DWORD, lpSearchFilter: LPVOID, dwAdditionalFlags: DWORD): HANDLE {
+  public static FindFirstFileExW(lpFileName: LPWSTR, fInfoLevelId: DWORD, lpFindFileData: LPVOID, fSearchOp: DWORD, lpSearchFilter: LPVOID, dwAdditionalFlags: DWORD): HFIND {
     return Kernel32.Load('FindFirstFileExW')(lpFileName, fInfoLevelId, lpFindFileData, fSearchOp, lpSearchFilter, dwAdditionalFlags);
   }
 
   // https://learn.microsoft.com/en-us/windows/win32/api/fileapi/nf-fileapi-findfirstfilenametransactedw
-  public static FindFirstFileNameTransactedW(lpFileName: LPWSTR, dwFlags: DWORD, StringLength: LPVOID, LinkName: LPWSTR, hTransaction: HANDLE): HANDLE {
+  public static FindFirstFileNameTransactedW(lpFileName: LPWSTR, dwFlags: DWORD, StringLength: LPVOID, LinkName: LPWSTR, hTransaction: HANDLE): HFIND {
     return Kernel32.Load('FindFirstFileNameTransactedW')(lpFileName, dwFlags, StringLength, LinkName, hTransaction);
   }
 
   // https://learn.microsoft.com/en-us/windows/win32/api/fileapi/nf-fileapi-findfirstfilenamew
-  public static FindFirstFileNameW(lpFileName: LPWSTR, dwFlags: DWORD, StringLength: LPVOID, LinkName: LPWSTR): HANDLE {
+  public static FindFirstFileNameW(lpFileName: LPWSTR, dwFlags: DWORD, StringLength: LPVOID, LinkName: LPWSTR): HFIND {
     return Kernel32.Load('FindFirstFileNameW')(lpFileName, dwFlags, StringLength, LinkName);
   }
 
   // https://learn.microsoft.com/en-us/windows/win32/api/fileapi/nf-fileapi-findfirstfiletransacteda
-  public static FindFirstFileTransactedA(lpFileName: LPSTR, fInfoLevelId: DWORD, lpFindFileData: LPVOID, fSearchOp: DWORD, lpSearchFilter: LPVOID, dwAdditionalFlags: DWORD, hTransaction: HANDLE): HANDLE {
+  public static FindFirstFileTransactedA(lpFileName: LPSTR, fInfoLevelId: DWORD, lpFindFileData: LPVOID, fSearchOp: DWORD, lpSearchFilter: LPVOID, dwAdditionalFlags: DWORD, hTransaction: HANDLE): HFIND {
     return Kernel32.Load('FindFirstFileTransactedA')(lpFileName, fInfoLevelId, lpFindFileData, fSearchOp, lpSearchFilter, dwAdditionalFlags, hTransaction);
   }
 
   // https://learn.microsoft.com/en-us/windows/win32/api/fileapi/nf-fileapi-findfirstfiletransactedw
-  public static FindFirstFileTransactedW(lpFileName: LPWSTR, fInfoLevelId: DWORD, lpFindFileData: LPVOID, fSearchOp: DWORD, lpSearchFilter: LPVOID, dwAdditionalFlags: DWORD, hTransaction: HANDLE): HANDLE {
+  public static FindFirstFileTransactedW(lpFileName: LPWSTR, fInfoLevelId: DWORD, lpFindFileData: LPVOID, fSearchOp: DWORD, lpSearchFilter: LPVOID, dwAdditionalFlags: DWORD, hTransaction: HANDLE): HFIND {
     return Kernel32.Load('FindFirstFileTransactedW')(lpFileName, fInfoLevelId, lpFindFileData, fSearchOp, lpSearchFilter, dwAdditionalFlags, hTransaction);
   }
 
   // https://learn.microsoft.com/en-us/windows/win32/api/fileapi/nf-fileapi-findfirstfilew
-  public static FindFirstFileW(lpFileName: LPWSTR, lpFindFileData: LPVOID): HANDLE {
+  public static FindFirstFileW(lpFileName: LPWSTR, lpFindFileData: LPVOID): HFIND {
     return Kernel32.Load('FindFirstFileW')(lpFileName, lpFindFileData);
   }
 
   // https://learn.microsoft.com/en-us/windows/win32/api/fileapi/nf-fileapi-findfirststreamtransactedw
-  public static FindFirstStreamTransactedW(lpFileName: LPWSTR, InfoLevel: DWORD, lpFindStreamData: LPVOID, dwFlags: DWORD, hTransaction: HANDLE): HANDLE {
+  public static FindFirstStreamTransactedW(lpFileName: LPWSTR, InfoLevel: DWORD, lpFindStreamData: LPVOID, dwFlags: DWORD, hTransaction: HANDLE): HFIND {
     return Kernel32.Load('FindFirstStreamTransactedW')(lpFileName, InfoLevel, lpFindStreamData, dwFlags, hTransaction);
   }
 
   // https://learn.microsoft.com/en-us/windows/win32/api/fileapi/nf-fileapi-findfirststreamw
-  public static FindFirstStreamW(lpFileName: LPWSTR, InfoLevel: DWORD, lpFindStreamData: LPVOID, dwFlags: DWORD): HANDLE {
+  public static FindFirstStreamW(lpFileName: LPWSTR, InfoLevel: DWORD, lpFindStreamData: LPVOID, dwFlags: DWORD): HFIND {
     return Kernel32.Load('FindFirstStreamW')(lpFileName, InfoLevel, lpFindStreamData, dwFlags);
   }
 
   // https://learn.microsoft.com/en-us/windows/win32/api/fileapi/nf-fileapi-findfirstvolumea
-  public static FindFirstVolumeA(lpszVolumeName: LPSTR, cchBufferLength: DWORD): HANDLE {
+  public static FindFirstVolumeA(lpszVolumeName: LPSTR, cchBufferLength: DWORD): HFINDVOLUME {
     return Kernel32.Load('FindFirstVolumeA')(lpszVolumeName, cchBufferLength);
   }
 
   // https://learn.microsoft.com/en-us/windows/win32/api/fileapi/nf-fileapi-findfirstvolumemountpointa
-  public static FindFirstVolumeMountPointA(lpszRootPathName: LPSTR, lpszVolumeMountPoint: LPSTR, cchBufferLength: DWORD): HANDLE {
+  public static FindFirstVolumeMountPointA(lpszRootPathName: LPSTR, lpszVolumeMountPoint: LPSTR, cchBufferLength: DWORD): HFINDVOLUMEMOUNTPOINT {
     return Kernel32.Load('FindFirstVolumeMountPointA')(lpszRootPathName, lpszVolumeMountPoint, cchBufferLength);
   }
 
   // https://learn.microsoft.com/en-us/windows/win32/api/fileapi/nf-fileapi-findfirstvolumemountpointw
-  public static FindFirstVolumeMountPointW(lpszRootPathName: LPWSTR, lpszVolumeMountPoint: LPWSTR, cchBufferLength: DWORD): HANDLE {
+  public static FindFirstVolumeMountPointW(lpszRootPathName: LPWSTR, lpszVolumeMountPoint: LPWSTR, cchBufferLength: DWORD): HFINDVOLUMEMOUNTPOINT {
     return Kernel32.Load('FindFirstVolumeMountPointW')(lpszRootPathName, lpszVolumeMountPoint, cchBufferLength);
   }
 
   // https://learn.microsoft.com/en-us/windows/win32/api/fileapi/nf-fileapi-findfirstvolumew
-  public static FindFirstVolumeW(lpszVolumeName: LPWSTR, cchBufferLength: DWORD): HANDLE {
+  public static FindFirstVolumeW(lpszVolumeName: LPWSTR, cchBufferLength: DWORD): HFINDVOLUME {
     return Kernel32.Load('FindFirstVolumeW')(lpszVolumeName, cchBufferLength);
   }
 
@@ -3281,42 +3649,42 @@ class Kernel32 {
   }
 
   // https://learn.microsoft.com/en-us/windows/win32/api/fileapi/nf-fileapi-findnextfilea
-  public static FindNextFileA(hFindFile: HANDLE, lpFindFileData: LPVOID): BOOL {
+  public static FindNextFileA(hFindFile: HFIND, lpFindFileData: LPVOID): BOOL {
     return Kernel32.Load('FindNextFileA')(hFindFile, lpFindFileData);
   }
 
   // https://learn.microsoft.com/en-us/windows/win32/api/fileapi/nf-fileapi-findnextfilenamew
-  public static FindNextFileNameW(hFindStream: HANDLE, StringLength: LPVOID, LinkName: LPWSTR): BOOL {
+  public static FindNextFileNameW(hFindStream: HFIND, StringLength: LPVOID, LinkName: LPWSTR): BOOL {
     return Kernel32.Load('FindNextFileNameW')(hFindStream, StringLength, LinkName);
   }
 
   // https://learn.microsoft.com/en-us/windows/win32/api/fileapi/nf-fileapi-findnextfilew
-  public static FindNextFileW(hFindFile: HANDLE, lpFindFileData: LPVOID): BOOL {
+  public static FindNextFileW(hFindFile: HFIND, lpFindFileData: LPVOID): BOOL {
     return Kernel32.Load('FindNextFileW')(hFindFile, lpFindFileData);
   }
 
   // https://learn.microsoft.com/en-us/windows/win32/api/fileapi/nf-fileapi-findnextstreamw
-  public static FindNextStreamW(hFindStream: HANDLE, lpFindStreamData: LPVOID): BOOL {
+  public static FindNextStreamW(hFindStream: HFIND, lpFindStreamData: LPVOID): BOOL {
     return Kernel32.Load('FindNextStreamW')(hFindStream, lpFindStreamData);
   }
 
   // https://learn.microsoft.com/en-us/windows/win32/api/fileapi/nf-fileapi-findnextvolumea
-  public static FindNextVolumeA(hFindVolume: HANDLE, lpszVolumeName: LPSTR, cchBufferLength: DWORD): BOOL {
+  public static FindNextVolumeA(hFindVolume: HFINDVOLUME, lpszVolumeName: LPSTR, cchBufferLength: DWORD): BOOL {
     return Kernel32.Load('FindNextVolumeA')(hFindVolume, lpszVolumeName, cchBufferLength);
   }
 
   // https://learn.microsoft.com/en-us/windows/win32/api/fileapi/nf-fileapi-findnextvolumemountpointa
-  public static FindNextVolumeMountPointA(hFindVolumeMountPoint: HANDLE, lpszVolumeMountPoint: LPSTR, cchBufferLength: DWORD): BOOL {
+  public static FindNextVolumeMountPointA(hFindVolumeMountPoint: HFINDVOLUMEMOUNTPOINT, lpszVolumeMountPoint: LPSTR, cchBufferLength: DWORD): BOOL {
     return Kernel32.Load('FindNextVolumeMountPointA')(hFindVolumeMountPoint, lpszVolumeMountPoint, cchBufferLength);
   }
 
   // https://learn.microsoft.com/en-us/windows/win32/api/fileapi/nf-fileapi-findnextvolumemountpointw
-  public static FindNextVolumeMountPointW(hFindVolumeMountPoint: HANDLE, lpszVolumeMountPoint: LPWSTR, cchBufferLength: DWORD): BOOL {
+  public static FindNextVolumeMountPointW(hFindVolumeMountPoint: HFINDVOLUMEMOUNTPOINT, lpszVolumeMountPoint: LPWSTR, cchBufferLength: DWORD): BOOL {
     return Kernel32.Load('FindNextVolumeMountPointW')(hFindVolumeMountPoint, lpszVolumeMountPoint, cchBufferLength);
   }
 
   // https://learn.microsoft.com/en-us/windows/win32/api/fileapi/nf-fileapi-findnextvolumew
-  public static FindNextVolumeW(hFindVolume: HANDLE, lpszVolumeName: LPWSTR, cchBufferLength: DWORD): BOOL {
+  public static FindNextVolumeW(hFindVolume: HFINDVOLUME, lpszVolumeName: LPWSTR, cchBufferLength: DWORD): BOOL {
     return Kernel32.Load('FindNextVolumeW')(hFindVolume, lpszVolumeName, cchBufferLength);
   }
 
@@ -3336,7 +3704,7 @@ class Kernel32 {
     pcchFound: LPVOID,
     lpVersionInformation: LPVOID,
     lpReserved: LPVOID,
-    sortHandle: DWORD
+    sortHandle: LPARAM
   ): INT {
     return Kernel32.Load('FindNLSStringEx')(lpLocaleName, dwFindNLSStringFlags, lpStringSource, cchSource, lpStringValue, cchValue, pcchFound, lpVersionInformation, lpReserved, sortHandle);
   }
@@ -3372,17 +3740,17 @@ class Kernel32 {
   }
 
   // https://learn.microsoft.com/en-us/windows/win32/api/fileapi/nf-fileapi-findvolumeclose
-  public static FindVolumeClose(hFindVolume: HANDLE): BOOL {
+  public static FindVolumeClose(hFindVolume: HFINDVOLUME): BOOL {
     return Kernel32.Load('FindVolumeClose')(hFindVolume);
   }
 
   // https://learn.microsoft.com/en-us/windows/win32/api/fileapi/nf-fileapi-findvolumemountpointclose
-  public static FindVolumeMountPointClose(hFindVolumeMountPoint: HANDLE): BOOL {
+  public static FindVolumeMountPointClose(hFindVolumeMountPoint: HFINDVOLUMEMOUNTPOINT): BOOL {
     return Kernel32.Load('FindVolumeMountPointClose')(hFindVolumeMountPoint);
   }
 
   // https://learn.microsoft.com/en-us/windows/win32/api/winbase/nf-winbase-flsalloc
-  public static FlsAlloc(lpCallback: DWORD): DWORD {
+  public static FlsAlloc(lpCallback: PFLS_CALLBACK_FUNCTION): DWORD {
     return Kernel32.Load('FlsAlloc')(lpCallback);
   }
 
@@ -3417,7 +3785,7 @@ class Kernel32 {
   }
 
   // https://learn.microsoft.com/en-us/windows/win32/api/winbase/nf-winbase-flushinstructioncache
-  public static FlushInstructionCache(hProcess: HANDLE, lpBaseAddress: LPVOID, dwSize: LPVOID): BOOL {
+  public static FlushInstructionCache(hProcess: HANDLE, lpBaseAddress: LPVOID, dwSize: SIZE_T): BOOL {
     return Kernel32.Load('FlushInstructionCache')(hProcess, lpBaseAddress, dwSize);
   }
 
@@ -3427,7 +3795,7 @@ class Kernel32 {
   }
 
   // https://learn.microsoft.com/en-us/windows/win32/api/memoryapi/nf-memoryapi-flushviewoffile
-  public static FlushViewOfFile(lpBaseAddress: LPVOID, dwNumberOfBytesToFlush: LPVOID): BOOL {
+  public static FlushViewOfFile(lpBaseAddress: LPVOID, dwNumberOfBytesToFlush: SIZE_T): BOOL {
     return Kernel32.Load('FlushViewOfFile')(lpBaseAddress, dwNumberOfBytesToFlush);
   }
 
@@ -3482,7 +3850,7 @@ class Kernel32 {
   }
 
   // https://learn.microsoft.com/en-us/windows/win32/api/libloaderapi/nf-libloaderapi-freelibrarywhencallbackreturns
-  public static FreeLibraryWhenCallbackReturns(pci: DWORD, mod: HMODULE): VOID {
+  public static FreeLibraryWhenCallbackReturns(pci: PTP_CALLBACK_INSTANCE, mod: HMODULE): VOID {
     return Kernel32.Load('FreeLibraryWhenCallbackReturns')(pci, mod);
   }
 
@@ -3492,7 +3860,7 @@ class Kernel32 {
   }
 
   // https://learn.microsoft.com/en-us/windows/win32/api/winbase/nf-winbase-freeresource
-  public static FreeResource(hResData: DWORD): BOOL {
+  public static FreeResource(hResData: HGLOBAL): BOOL {
     return Kernel32.Load('FreeResource')(hResData);
   }
 
@@ -3527,7 +3895,7 @@ class Kernel32 {
   }
 
   // https://learn.microsoft.com/en-us/windows/win32/api/winbase/nf-winbase-getappcontainernamedobjectpath
-  public static GetAppContainerNamedObjectPath(Token: HANDLE, AppContainerSid: DWORD, ObjectPathLength: DWORD, ObjectPath: LPWSTR, ReturnLength: LPVOID): BOOL {
+  public static GetAppContainerNamedObjectPath(Token: HANDLE, AppContainerSid: PSID, ObjectPathLength: DWORD, ObjectPath: LPWSTR, ReturnLength: LPVOID): BOOL {
     return Kernel32.Load('GetAppContainerNamedObjectPath')(Token, AppContainerSid, ObjectPathLength, ObjectPath, ReturnLength);
   }
 
@@ -3777,7 +4145,7 @@ class Kernel32 {
   }
 
   // https://learn.microsoft.com/en-us/windows/console/getconsolefontsize
-  public static GetConsoleFontSize(hConsoleOutput: HANDLE, nFont: DWORD): COORD {
+  public static GetConsoleFontSize(hConsoleOutput: HANDLE, nFont: DWORD): DWORD {
     return Kernel32.Load('GetConsoleFontSize')(hConsoleOutput, nFont);
   }
 
@@ -3956,7 +4324,7 @@ class Kernel32 {
   }
 
   // https://learn.microsoft.com/en-us/windows/win32/api/winbase/nf-winbase-getcurrentpackagevirtualizationcontext
-  public static GetCurrentPackageVirtualizationContext(): DWORD {
+  public static GetCurrentPackageVirtualizationContext(): PACKAGE_VIRTUALIZATION_CONTEXT_HANDLE {
     return Kernel32.Load('GetCurrentPackageVirtualizationContext')();
   }
 
@@ -4184,6 +4552,7 @@ class Kernel32 {
   public static GetFileInformationByHandle(hFile: HANDLE, lpFileInformation: LPVOID): BOOL {
     return Kernel32.Load('GetFileInformationByHandle')(hFile, lpFileInformation);
   }
+
   // https://learn.microsoft.com/en-us/windows/win32/api/fileapi/nf-fileapi-getfileinformationbyhandleex
   public static GetFileInformationByHandleEx(hFile: HANDLE, FileInformationClass: DWORD, lpFileInformation: LPVOID, dwBufferSize: DWORD): BOOL {
     return Kernel32.Load('GetFileInformationByHandleEx')(hFile, FileInformationClass, lpFileInformation, dwBufferSize);
@@ -4210,7 +4579,7 @@ class Kernel32 {
   }
 
   // https://learn.microsoft.com/en-us/windows/win32/api/fileapi/nf-fileapi-getfilesizeex
-  public static GetFileSizeEx(hFile: HANDLE, lpFileSize: LPVOID): BOOL {
+  public static GetFileSizeEx(hFile: HANDLE, lpFileSize: PLARGE_INTEGER): BOOL {
     return Kernel32.Load('GetFileSizeEx')(hFile, lpFileSize);
   }
 
@@ -4300,7 +4669,7 @@ class Kernel32 {
   }
 
   // https://learn.microsoft.com/en-us/windows/win32/api/memoryapi/nf-memoryapi-getlargepageminimum
-  public static GetLargePageMinimum(): LPVOID {
+  public static GetLargePageMinimum(): SIZE_T {
     return Kernel32.Load('GetLargePageMinimum')();
   }
 
@@ -4740,7 +5109,7 @@ class Kernel32 {
   }
 
   // https://learn.microsoft.com/en-us/windows/win32/api/winbase/nf-winbase-getprocessheap
-  public static GetProcessHeap(): HANDLE {
+  public static GetProcessHeap(): HHEAP {
     return Kernel32.Load('GetProcessHeap')();
   }
 
@@ -4770,7 +5139,7 @@ class Kernel32 {
   }
 
   // https://learn.microsoft.com/en-us/windows/win32/api/winbase/nf-winbase-getprocessmitigationpolicy
-  public static GetProcessMitigationPolicy(hProcess: HANDLE, MitigationPolicy: DWORD, lpBuffer: LPVOID, dwLength: LPVOID): BOOL {
+  public static GetProcessMitigationPolicy(hProcess: HANDLE, MitigationPolicy: DWORD, lpBuffer: LPVOID, dwLength: SIZE_T): BOOL {
     return Kernel32.Load('GetProcessMitigationPolicy')(hProcess, MitigationPolicy, lpBuffer, dwLength);
   }
 
@@ -5351,7 +5720,7 @@ class Kernel32 {
   }
 
   // https://learn.microsoft.com/en-us/windows/win32/api/winbase/nf-winbase-getwritewatch
-  public static GetWriteWatch(dwFlags: DWORD, lpBaseAddress: LPVOID, dwRegionSize: LPVOID, lpAddresses: LPVOID, lpdwCount: LPVOID, lpdwGranularity: LPVOID): DWORD {
+  public static GetWriteWatch(dwFlags: DWORD, lpBaseAddress: LPVOID, dwRegionSize: SIZE_T, lpAddresses: LPVOID, lpdwCount: LPVOID, lpdwGranularity: LPVOID): DWORD {
     return Kernel32.Load('GetWriteWatch')(dwFlags, lpBaseAddress, dwRegionSize, lpAddresses, lpdwCount, lpdwGranularity);
   }
 
@@ -5381,7 +5750,7 @@ class Kernel32 {
   }
 
   // https://learn.microsoft.com/en-us/windows/win32/api/winbase/nf-winbase-globalalloc
-  public static GlobalAlloc(uFlags: DWORD, dwBytes: LPVOID): DWORD {
+  public static GlobalAlloc(uFlags: DWORD, dwBytes: SIZE_T): HGLOBAL {
     return Kernel32.Load('GlobalAlloc')(uFlags, dwBytes);
   }
 
@@ -5406,17 +5775,17 @@ class Kernel32 {
   }
 
   // https://learn.microsoft.com/en-us/windows/win32/api/winbase/nf-winbase-globalfix
-  public static GlobalFix(hMem: DWORD): VOID {
+  public static GlobalFix(hMem: HGLOBAL): VOID {
     return Kernel32.Load('GlobalFix')(hMem);
   }
 
   // https://learn.microsoft.com/en-us/windows/win32/api/winbase/nf-winbase-globalflags
-  public static GlobalFlags(hMem: DWORD): DWORD {
+  public static GlobalFlags(hMem: HGLOBAL): DWORD {
     return Kernel32.Load('GlobalFlags')(hMem);
   }
 
   // https://learn.microsoft.com/en-us/windows/win32/api/winbase/nf-winbase-globalfree
-  public static GlobalFree(hMem: DWORD): DWORD {
+  public static GlobalFree(hMem: HGLOBAL): HGLOBAL {
     return Kernel32.Load('GlobalFree')(hMem);
   }
 
@@ -5431,12 +5800,12 @@ class Kernel32 {
   }
 
   // https://learn.microsoft.com/en-us/windows/win32/api/winbase/nf-winbase-globalhandle
-  public static GlobalHandle(pMem: LPVOID): DWORD {
+  public static GlobalHandle(pMem: LPVOID): HGLOBAL {
     return Kernel32.Load('GlobalHandle')(pMem);
   }
 
   // https://learn.microsoft.com/en-us/windows/win32/api/winbase/nf-winbase-globallock
-  public static GlobalLock(hMem: DWORD): LPVOID {
+  public static GlobalLock(hMem: HGLOBAL): LPVOID {
     return Kernel32.Load('GlobalLock')(hMem);
   }
 
@@ -5451,37 +5820,37 @@ class Kernel32 {
   }
 
   // https://learn.microsoft.com/en-us/windows/win32/api/winbase/nf-winbase-globalrealloc
-  public static GlobalReAlloc(hMem: DWORD, dwBytes: LPVOID, uFlags: DWORD): DWORD {
+  public static GlobalReAlloc(hMem: HGLOBAL, dwBytes: SIZE_T, uFlags: DWORD): HGLOBAL {
     return Kernel32.Load('GlobalReAlloc')(hMem, dwBytes, uFlags);
   }
 
   // https://learn.microsoft.com/en-us/windows/win32/api/winbase/nf-winbase-globalsize
-  public static GlobalSize(hMem: DWORD): LPVOID {
+  public static GlobalSize(hMem: HGLOBAL): SIZE_T {
     return Kernel32.Load('GlobalSize')(hMem);
   }
 
   // https://learn.microsoft.com/en-us/windows/win32/api/winbase/nf-winbase-globalunfix
-  public static GlobalUnfix(hMem: DWORD): VOID {
+  public static GlobalUnfix(hMem: HGLOBAL): VOID {
     return Kernel32.Load('GlobalUnfix')(hMem);
   }
 
   // https://learn.microsoft.com/en-us/windows/win32/api/winbase/nf-winbase-globalunlock
-  public static GlobalUnlock(hMem: DWORD): BOOL {
+  public static GlobalUnlock(hMem: HGLOBAL): BOOL {
     return Kernel32.Load('GlobalUnlock')(hMem);
   }
 
   // https://learn.microsoft.com/en-us/windows/win32/api/winbase/nf-winbase-globalunwire
-  public static GlobalUnWire(hMem: DWORD): BOOL {
+  public static GlobalUnWire(hMem: HGLOBAL): BOOL {
     return Kernel32.Load('GlobalUnWire')(hMem);
   }
 
   // https://learn.microsoft.com/en-us/windows/win32/api/winbase/nf-winbase-globalwire
-  public static GlobalWire(hMem: DWORD): LPVOID {
+  public static GlobalWire(hMem: HGLOBAL): LPVOID {
     return Kernel32.Load('GlobalWire')(hMem);
   }
 
   // https://learn.microsoft.com/en-us/windows/win32/api/heapapi/nf-heapapi-heap32first
-  public static Heap32First(lphe: LPVOID, th32ProcessID: DWORD, th32HeapID: LPVOID): BOOL {
+  public static Heap32First(lphe: LPVOID, th32ProcessID: DWORD, th32HeapID: ULONG_PTR): BOOL {
     return Kernel32.Load('Heap32First')(lphe, th32ProcessID, th32HeapID);
   }
 
@@ -5501,72 +5870,72 @@ class Kernel32 {
   }
 
   // https://learn.microsoft.com/en-us/windows/win32/api/heapapi/nf-heapapi-heapalloc
-  public static HeapAlloc(hHeap: HANDLE, dwFlags: DWORD, dwBytes: LPVOID): LPVOID {
+  public static HeapAlloc(hHeap: HHEAP, dwFlags: DWORD, dwBytes: SIZE_T): LPVOID {
     return Kernel32.Load('HeapAlloc')(hHeap, dwFlags, dwBytes);
   }
 
   // https://learn.microsoft.com/en-us/windows/win32/api/heapapi/nf-heapapi-heapcompact
-  public static HeapCompact(hHeap: HANDLE, dwFlags: DWORD): LPVOID {
+  public static HeapCompact(hHeap: HHEAP, dwFlags: DWORD): SIZE_T {
     return Kernel32.Load('HeapCompact')(hHeap, dwFlags);
   }
 
   // https://learn.microsoft.com/en-us/windows/win32/api/heapapi/nf-heapapi-heapcreate
-  public static HeapCreate(flOptions: DWORD, dwInitialSize: LPVOID, dwMaximumSize: LPVOID): HANDLE {
+  public static HeapCreate(flOptions: DWORD, dwInitialSize: SIZE_T, dwMaximumSize: SIZE_T): HHEAP {
     return Kernel32.Load('HeapCreate')(flOptions, dwInitialSize, dwMaximumSize);
   }
 
   // https://learn.microsoft.com/en-us/windows/win32/api/heapapi/nf-heapapi-heapdestroy
-  public static HeapDestroy(hHeap: HANDLE): BOOL {
+  public static HeapDestroy(hHeap: HHEAP): BOOL {
     return Kernel32.Load('HeapDestroy')(hHeap);
   }
 
   // https://learn.microsoft.com/en-us/windows/win32/api/heapapi/nf-heapapi-heapfree
-  public static HeapFree(hHeap: HANDLE, dwFlags: DWORD, lpMem: LPVOID): BOOL {
+  public static HeapFree(hHeap: HHEAP, dwFlags: DWORD, lpMem: LPVOID): BOOL {
     return Kernel32.Load('HeapFree')(hHeap, dwFlags, lpMem);
   }
 
   // https://learn.microsoft.com/en-us/windows/win32/api/heapapi/nf-heapapi-heaplock
-  public static HeapLock(hHeap: HANDLE): BOOL {
+  public static HeapLock(hHeap: HHEAP): BOOL {
     return Kernel32.Load('HeapLock')(hHeap);
   }
 
   // https://learn.microsoft.com/en-us/windows/win32/api/heapapi/nf-heapapi-heapqueryinformation
-  public static HeapQueryInformation(HeapHandle: HANDLE, HeapInformationClass: DWORD, HeapInformation: LPVOID, HeapInformationLength: LPVOID, ReturnLength: LPVOID): BOOL {
+  public static HeapQueryInformation(HeapHandle: HHEAP, HeapInformationClass: DWORD, HeapInformation: LPVOID, HeapInformationLength: SIZE_T, ReturnLength: LPVOID): BOOL {
     return Kernel32.Load('HeapQueryInformation')(HeapHandle, HeapInformationClass, HeapInformation, HeapInformationLength, ReturnLength);
   }
 
   // https://learn.microsoft.com/en-us/windows/win32/api/heapapi/nf-heapapi-heaprealloc
-  public static HeapReAlloc(hHeap: HANDLE, dwFlags: DWORD, lpMem: LPVOID, dwBytes: LPVOID): LPVOID {
+  public static HeapReAlloc(hHeap: HHEAP, dwFlags: DWORD, lpMem: LPVOID, dwBytes: SIZE_T): LPVOID {
     return Kernel32.Load('HeapReAlloc')(hHeap, dwFlags, lpMem, dwBytes);
   }
 
   // https://learn.microsoft.com/en-us/windows/win32/api/heapapi/nf-heapapi-heapsetinformation
-  public static HeapSetInformation(HeapHandle: HANDLE, HeapInformationClass: DWORD, HeapInformation: LPVOID, HeapInformationLength: LPVOID): BOOL {
+  public static HeapSetInformation(HeapHandle: HHEAP, HeapInformationClass: DWORD, HeapInformation: LPVOID, HeapInformationLength: SIZE_T): BOOL {
     return Kernel32.Load('HeapSetInformation')(HeapHandle, HeapInformationClass, HeapInformation, HeapInformationLength);
   }
 
   // https://learn.microsoft.com/en-us/windows/win32/api/heapapi/nf-heapapi-heapsize
-  public static HeapSize(hHeap: HANDLE, dwFlags: DWORD, lpMem: LPVOID): LPVOID {
+  public static HeapSize(hHeap: HHEAP, dwFlags: DWORD, lpMem: LPVOID): SIZE_T {
     return Kernel32.Load('HeapSize')(hHeap, dwFlags, lpMem);
   }
 
   // https://learn.microsoft.com/en-us/windows/win32/api/heapapi/nf-heapapi-heapsummary
-  public static HeapSummary(hHeap: HANDLE, dwFlags: DWORD, lpSummary: LPVOID): BOOL {
+  public static HeapSummary(hHeap: HHEAP, dwFlags: DWORD, lpSummary: LPVOID): BOOL {
     return Kernel32.Load('HeapSummary')(hHeap, dwFlags, lpSummary);
   }
 
   // https://learn.microsoft.com/en-us/windows/win32/api/heapapi/nf-heapapi-heapunlock
-  public static HeapUnlock(hHeap: HANDLE): BOOL {
+  public static HeapUnlock(hHeap: HHEAP): BOOL {
     return Kernel32.Load('HeapUnlock')(hHeap);
   }
 
   // https://learn.microsoft.com/en-us/windows/win32/api/heapapi/nf-heapapi-heapvalidate
-  public static HeapValidate(hHeap: HANDLE, dwFlags: DWORD, lpMem: LPVOID): BOOL {
+  public static HeapValidate(hHeap: HHEAP, dwFlags: DWORD, lpMem: LPVOID): BOOL {
     return Kernel32.Load('HeapValidate')(hHeap, dwFlags, lpMem);
   }
 
   // https://learn.microsoft.com/en-us/windows/win32/api/heapapi/nf-heapapi-heapwalk
-  public static HeapWalk(hHeap: HANDLE, lpEntry: LPVOID): BOOL {
+  public static HeapWalk(hHeap: HHEAP, lpEntry: LPVOID): BOOL {
     return Kernel32.Load('HeapWalk')(hHeap, lpEntry);
   }
 
@@ -5616,7 +5985,7 @@ class Kernel32 {
   }
 
   // https://learn.microsoft.com/en-us/windows/win32/api/winbase/nf-winbase-initializeprocthreadattributelist
-  public static InitializeProcThreadAttributeList(lpAttributeList: DWORD, dwAttributeCount: DWORD, dwFlags: DWORD, lpSize: LPVOID): BOOL {
+  public static InitializeProcThreadAttributeList(lpAttributeList: LPPROC_THREAD_ATTRIBUTE_LIST, dwAttributeCount: DWORD, dwFlags: DWORD, lpSize: LPVOID): BOOL {
     return Kernel32.Load('InitializeProcThreadAttributeList')(lpAttributeList, dwAttributeCount, dwFlags, lpSize);
   }
 
@@ -5646,7 +6015,7 @@ class Kernel32 {
   }
 
   // https://learn.microsoft.com/en-us/windows/win32/api/winbase/nf-winbase-initonceexecuteonce
-  public static InitOnceExecuteOnce(InitOnce: LPVOID, InitFn: DWORD, Parameter: LPVOID, Context: LPVOID): BOOL {
+  public static InitOnceExecuteOnce(InitOnce: LPVOID, InitFn: PINIT_ONCE_FN, Parameter: LPVOID, Context: LPVOID): BOOL {
     return Kernel32.Load('InitOnceExecuteOnce')(InitOnce, InitFn, Parameter, Context);
   }
 
@@ -5691,32 +6060,32 @@ class Kernel32 {
   }
 
   // https://learn.microsoft.com/en-us/windows/win32/api/winbase/nf-winbase-isbadhugereadptr
-  public static IsBadHugeReadPtr(lp: LPVOID, ucb: LPVOID): BOOL {
+  public static IsBadHugeReadPtr(lp: LPVOID, ucb: UINT_PTR): BOOL {
     return Kernel32.Load('IsBadHugeReadPtr')(lp, ucb);
   }
 
   // https://learn.microsoft.com/en-us/windows/win32/api/winbase/nf-winbase-isbadhugewriteptr
-  public static IsBadHugeWritePtr(lp: LPVOID, ucb: LPVOID): BOOL {
+  public static IsBadHugeWritePtr(lp: LPVOID, ucb: UINT_PTR): BOOL {
     return Kernel32.Load('IsBadHugeWritePtr')(lp, ucb);
   }
 
   // https://learn.microsoft.com/en-us/windows/win32/api/winbase/nf-winbase-isbadreadptr
-  public static IsBadReadPtr(lp: LPVOID, ucb: LPVOID): BOOL {
+  public static IsBadReadPtr(lp: LPVOID, ucb: UINT_PTR): BOOL {
     return Kernel32.Load('IsBadReadPtr')(lp, ucb);
   }
 
   // https://learn.microsoft.com/en-us/windows/win32/api/winbase/nf-winbase-isbadstringptra
-  public static IsBadStringPtrA(lpsz: LPSTR, ucchMax: LPVOID): BOOL {
+  public static IsBadStringPtrA(lpsz: LPSTR, ucchMax: UINT_PTR): BOOL {
     return Kernel32.Load('IsBadStringPtrA')(lpsz, ucchMax);
   }
 
   // https://learn.microsoft.com/en-us/windows/win32/api/winbase/nf-winbase-isbadstringptrw
-  public static IsBadStringPtrW(lpsz: LPWSTR, ucchMax: LPVOID): BOOL {
+  public static IsBadStringPtrW(lpsz: LPWSTR, ucchMax: UINT_PTR): BOOL {
     return Kernel32.Load('IsBadStringPtrW')(lpsz, ucchMax);
   }
 
   // https://learn.microsoft.com/en-us/windows/win32/api/winbase/nf-winbase-isbadwriteptr
-  public static IsBadWritePtr(lp: LPVOID, ucb: LPVOID): BOOL {
+  public static IsBadWritePtr(lp: LPVOID, ucb: UINT_PTR): BOOL {
     return Kernel32.Load('IsBadWritePtr')(lp, ucb);
   }
 
@@ -5726,12 +6095,12 @@ class Kernel32 {
   }
 
   // https://learn.microsoft.com/en-us/windows/win32/api/winbase/nf-winbase-isdbcsleadbyte
-  public static IsDBCSLeadByte(TestChar: LPVOID): BOOL {
+  public static IsDBCSLeadByte(TestChar: BYTE): BOOL {
     return Kernel32.Load('IsDBCSLeadByte')(TestChar);
   }
 
   // https://learn.microsoft.com/en-us/windows/win32/api/winbase/nf-winbase-isdbcsleadbyteex
-  public static IsDBCSLeadByteEx(CodePage: DWORD, TestChar: LPVOID): BOOL {
+  public static IsDBCSLeadByteEx(CodePage: DWORD, TestChar: BYTE): BOOL {
     return Kernel32.Load('IsDBCSLeadByteEx')(CodePage, TestChar);
   }
 
@@ -5786,7 +6155,7 @@ class Kernel32 {
   }
 
   // https://learn.microsoft.com/en-us/windows/win32/api/winbase/nf-winbase-isthreadpooltimerset
-  public static IsThreadpoolTimerSet(pti: DWORD): BOOL {
+  public static IsThreadpoolTimerSet(pti: PTP_TIMER): BOOL {
     return Kernel32.Load('IsThreadpoolTimerSet')(pti);
   }
 
@@ -5846,12 +6215,12 @@ class Kernel32 {
   }
 
   // https://learn.microsoft.com/en-us/windows/win32/api/winbase/nf-winbase-k32enumpagefilesa
-  public static K32EnumPageFilesA(pCallBackRoutine: DWORD, pContext: LPVOID): BOOL {
+  public static K32EnumPageFilesA(pCallBackRoutine: PENUM_PAGE_FILE_CALLBACKA, pContext: LPVOID): BOOL {
     return Kernel32.Load('K32EnumPageFilesA')(pCallBackRoutine, pContext);
   }
 
   // https://learn.microsoft.com/en-us/windows/win32/api/winbase/nf-winbase-k32enumpagefilesw
-  public static K32EnumPageFilesW(pCallBackRoutine: DWORD, pContext: LPVOID): BOOL {
+  public static K32EnumPageFilesW(pCallBackRoutine: PENUM_PAGE_FILE_CALLBACKW, pContext: LPVOID): BOOL {
     return Kernel32.Load('K32EnumPageFilesW')(pCallBackRoutine, pContext);
   }
 
@@ -5996,12 +6365,12 @@ class Kernel32 {
   }
 
   // https://learn.microsoft.com/en-us/windows/win32/api/synchapi/nf-synchapi-leavecriticalsectionwhencallbackreturns
-  public static LeaveCriticalSectionWhenCallbackReturns(pci: DWORD, pcs: LPVOID): VOID {
+  public static LeaveCriticalSectionWhenCallbackReturns(pci: PTP_CALLBACK_INSTANCE, pcs: LPVOID): VOID {
     return Kernel32.Load('LeaveCriticalSectionWhenCallbackReturns')(pci, pcs);
   }
 
   // https://learn.microsoft.com/en-us/windows/win32/api/processthreadsapi/nf-processthreadsapi-loadenclavedata
-  public static LoadEnclaveData(hProcess: HANDLE, lpAddress: LPVOID, lpBuffer: LPVOID, nSize: LPVOID, flProtect: DWORD, lpPageInformation: LPVOID, dwInfoLength: DWORD, lpNumberOfBytesWritten: LPVOID, lpEnclaveError: LPVOID): BOOL {
+  public static LoadEnclaveData(hProcess: HANDLE, lpAddress: LPVOID, lpBuffer: LPVOID, nSize: SIZE_T, flProtect: DWORD, lpPageInformation: LPVOID, dwInfoLength: DWORD, lpNumberOfBytesWritten: LPVOID, lpEnclaveError: LPVOID): BOOL {
     return Kernel32.Load('LoadEnclaveData')(hProcess, lpAddress, lpBuffer, nSize, flProtect, lpPageInformation, dwInfoLength, lpNumberOfBytesWritten, lpEnclaveError);
   }
 
@@ -6041,7 +6410,7 @@ class Kernel32 {
   }
 
   // https://learn.microsoft.com/en-us/windows/win32/api/winbase/nf-winbase-localalloc
-  public static LocalAlloc(uFlags: DWORD, uBytes: LPVOID): DWORD {
+  public static LocalAlloc(uFlags: DWORD, uBytes: SIZE_T): HLOCAL {
     return Kernel32.Load('LocalAlloc')(uFlags, uBytes);
   }
 
@@ -6066,37 +6435,37 @@ class Kernel32 {
   }
 
   // https://learn.microsoft.com/en-us/windows/win32/api/winbase/nf-winbase-localflags
-  public static LocalFlags(hMem: DWORD): DWORD {
+  public static LocalFlags(hMem: HLOCAL): DWORD {
     return Kernel32.Load('LocalFlags')(hMem);
   }
 
   // https://learn.microsoft.com/en-us/windows/win32/api/winbase/nf-winbase-localfree
-  public static LocalFree(hMem: DWORD): DWORD {
+  public static LocalFree(hMem: HLOCAL): HLOCAL {
     return Kernel32.Load('LocalFree')(hMem);
   }
 
   // https://learn.microsoft.com/en-us/windows/win32/api/winbase/nf-winbase-localhandle
-  public static LocalHandle(pMem: LPVOID): DWORD {
+  public static LocalHandle(pMem: LPVOID): HLOCAL {
     return Kernel32.Load('LocalHandle')(pMem);
   }
 
   // https://learn.microsoft.com/en-us/windows/win32/api/winbase/nf-winbase-locallock
-  public static LocalLock(hMem: DWORD): LPVOID {
+  public static LocalLock(hMem: HLOCAL): LPVOID {
     return Kernel32.Load('LocalLock')(hMem);
   }
 
   // https://learn.microsoft.com/en-us/windows/win32/api/winbase/nf-winbase-localrealloc
-  public static LocalReAlloc(hMem: DWORD, uBytes: LPVOID, uFlags: DWORD): DWORD {
+  public static LocalReAlloc(hMem: HLOCAL, uBytes: SIZE_T, uFlags: DWORD): HLOCAL {
     return Kernel32.Load('LocalReAlloc')(hMem, uBytes, uFlags);
   }
 
   // https://learn.microsoft.com/en-us/windows/win32/api/winbase/nf-winbase-localshrink
-  public static LocalShrink(hMem: DWORD, cbNewSize: DWORD): LPVOID {
+  public static LocalShrink(hMem: HLOCAL, cbNewSize: DWORD): LPVOID {
     return Kernel32.Load('LocalShrink')(hMem, cbNewSize);
   }
 
   // https://learn.microsoft.com/en-us/windows/win32/api/winbase/nf-winbase-localsize
-  public static LocalSize(hMem: DWORD): LPVOID {
+  public static LocalSize(hMem: HLOCAL): SIZE_T {
     return Kernel32.Load('LocalSize')(hMem);
   }
 
@@ -6106,7 +6475,7 @@ class Kernel32 {
   }
 
   // https://learn.microsoft.com/en-us/windows/win32/api/winbase/nf-winbase-localunlock
-  public static LocalUnlock(hMem: DWORD): BOOL {
+  public static LocalUnlock(hMem: HLOCAL): BOOL {
     return Kernel32.Load('LocalUnlock')(hMem);
   }
 
@@ -6176,32 +6545,32 @@ class Kernel32 {
   }
 
   // https://learn.microsoft.com/en-us/windows/win32/api/winbase/nf-winbase-mapuserphysicalpages
-  public static MapUserPhysicalPages(VirtualAddress: LPVOID, NumberOfPages: LPVOID, PageArray: LPVOID): BOOL {
+  public static MapUserPhysicalPages(VirtualAddress: LPVOID, NumberOfPages: ULONG_PTR, PageArray: LPVOID): BOOL {
     return Kernel32.Load('MapUserPhysicalPages')(VirtualAddress, NumberOfPages, PageArray);
   }
 
   // https://learn.microsoft.com/en-us/windows/win32/api/winbase/nf-winbase-mapuserphysicalpagesscatter
-  public static MapUserPhysicalPagesScatter(VirtualAddresses: LPVOID, NumberOfPages: LPVOID, PageArray: LPVOID): BOOL {
+  public static MapUserPhysicalPagesScatter(VirtualAddresses: LPVOID, NumberOfPages: ULONG_PTR, PageArray: LPVOID): BOOL {
     return Kernel32.Load('MapUserPhysicalPagesScatter')(VirtualAddresses, NumberOfPages, PageArray);
   }
 
   // https://learn.microsoft.com/en-us/windows/win32/api/memoryapi/nf-memoryapi-mapviewoffile
-  public static MapViewOfFile(hFileMappingObject: HANDLE, dwDesiredAccess: DWORD, dwFileOffsetHigh: DWORD, dwFileOffsetLow: DWORD, dwNumberOfBytesToMap: LPVOID): DWORD {
+  public static MapViewOfFile(hFileMappingObject: HANDLE, dwDesiredAccess: DWORD, dwFileOffsetHigh: DWORD, dwFileOffsetLow: DWORD, dwNumberOfBytesToMap: SIZE_T): LPVOID {
     return Kernel32.Load('MapViewOfFile')(hFileMappingObject, dwDesiredAccess, dwFileOffsetHigh, dwFileOffsetLow, dwNumberOfBytesToMap);
   }
 
   // https://learn.microsoft.com/en-us/windows/win32/api/memoryapi/nf-memoryapi-mapviewoffileex
-  public static MapViewOfFileEx(hFileMappingObject: HANDLE, dwDesiredAccess: DWORD, dwFileOffsetHigh: DWORD, dwFileOffsetLow: DWORD, dwNumberOfBytesToMap: LPVOID, lpBaseAddress: LPVOID): DWORD {
+  public static MapViewOfFileEx(hFileMappingObject: HANDLE, dwDesiredAccess: DWORD, dwFileOffsetHigh: DWORD, dwFileOffsetLow: DWORD, dwNumberOfBytesToMap: SIZE_T, lpBaseAddress: LPVOID): LPVOID {
     return Kernel32.Load('MapViewOfFileEx')(hFileMappingObject, dwDesiredAccess, dwFileOffsetHigh, dwFileOffsetLow, dwNumberOfBytesToMap, lpBaseAddress);
   }
 
   // https://learn.microsoft.com/en-us/windows/win32/api/memoryapi/nf-memoryapi-mapviewoffileexnuma
-  public static MapViewOfFileExNuma(hFileMappingObject: HANDLE, dwDesiredAccess: DWORD, dwFileOffsetHigh: DWORD, dwFileOffsetLow: DWORD, dwNumberOfBytesToMap: LPVOID, lpBaseAddress: LPVOID, nndPreferred: DWORD): DWORD {
+  public static MapViewOfFileExNuma(hFileMappingObject: HANDLE, dwDesiredAccess: DWORD, dwFileOffsetHigh: DWORD, dwFileOffsetLow: DWORD, dwNumberOfBytesToMap: SIZE_T, lpBaseAddress: LPVOID, nndPreferred: DWORD): LPVOID {
     return Kernel32.Load('MapViewOfFileExNuma')(hFileMappingObject, dwDesiredAccess, dwFileOffsetHigh, dwFileOffsetLow, dwNumberOfBytesToMap, lpBaseAddress, nndPreferred);
   }
 
   // https://learn.microsoft.com/en-us/windows/win32/api/memoryapi/nf-memoryapi-mapviewoffilefromapp
-  public static MapViewOfFileFromApp(hFileMappingObject: HANDLE, DesiredAccess: DWORD, FileOffset: ULONGLONG, NumberOfBytesToMap: LPVOID): DWORD {
+  public static MapViewOfFileFromApp(hFileMappingObject: HANDLE, DesiredAccess: DWORD, FileOffset: ULONGLONG, NumberOfBytesToMap: SIZE_T): LPVOID {
     return Kernel32.Load('MapViewOfFileFromApp')(hFileMappingObject, DesiredAccess, FileOffset, NumberOfBytesToMap);
   }
 
@@ -6234,18 +6603,19 @@ class Kernel32 {
   public static MoveFileExA(lpExistingFileName: LPSTR, lpNewFileName: LPSTR, dwFlags: DWORD): BOOL {
     return Kernel32.Load('MoveFileExA')(lpExistingFileName, lpNewFileName, dwFlags);
   }
+
   // https://learn.microsoft.com/en-us/windows/win32/api/winbase/nf-winbase-movefileexw
   public static MoveFileExW(lpExistingFileName: LPWSTR, lpNewFileName: LPWSTR, dwFlags: DWORD): BOOL {
     return Kernel32.Load('MoveFileExW')(lpExistingFileName, lpNewFileName, dwFlags);
   }
 
   // https://learn.microsoft.com/en-us/windows/win32/api/fileapi/nf-fileapi-movefiletransacteda
-  public static MoveFileTransactedA(lpExistingFileName: LPSTR, lpNewFileName: LPSTR, lpProgressRoutine: DWORD, lpData: LPVOID, dwFlags: DWORD, hTransaction: HANDLE): BOOL {
+  public static MoveFileTransactedA(lpExistingFileName: LPSTR, lpNewFileName: LPSTR, lpProgressRoutine: LPPROGRESS_ROUTINE, lpData: LPVOID, dwFlags: DWORD, hTransaction: HANDLE): BOOL {
     return Kernel32.Load('MoveFileTransactedA')(lpExistingFileName, lpNewFileName, lpProgressRoutine, lpData, dwFlags, hTransaction);
   }
 
   // https://learn.microsoft.com/en-us/windows/win32/api/fileapi/nf-fileapi-movefiletransactedw
-  public static MoveFileTransactedW(lpExistingFileName: LPWSTR, lpNewFileName: LPWSTR, lpProgressRoutine: DWORD, lpData: LPVOID, dwFlags: DWORD, hTransaction: HANDLE): BOOL {
+  public static MoveFileTransactedW(lpExistingFileName: LPWSTR, lpNewFileName: LPWSTR, lpProgressRoutine: LPPROGRESS_ROUTINE, lpData: LPVOID, dwFlags: DWORD, hTransaction: HANDLE): BOOL {
     return Kernel32.Load('MoveFileTransactedW')(lpExistingFileName, lpNewFileName, lpProgressRoutine, lpData, dwFlags, hTransaction);
   }
 
@@ -6255,12 +6625,12 @@ class Kernel32 {
   }
 
   // https://learn.microsoft.com/en-us/windows/win32/api/fileapi/nf-fileapi-movefilewithprogressa
-  public static MoveFileWithProgressA(lpExistingFileName: LPSTR, lpNewFileName: LPSTR, lpProgressRoutine: DWORD, lpData: LPVOID, dwFlags: DWORD): BOOL {
+  public static MoveFileWithProgressA(lpExistingFileName: LPSTR, lpNewFileName: LPSTR, lpProgressRoutine: LPPROGRESS_ROUTINE, lpData: LPVOID, dwFlags: DWORD): BOOL {
     return Kernel32.Load('MoveFileWithProgressA')(lpExistingFileName, lpNewFileName, lpProgressRoutine, lpData, dwFlags);
   }
 
   // https://learn.microsoft.com/en-us/windows/win32/api/fileapi/nf-fileapi-movefilewithprogressw
-  public static MoveFileWithProgressW(lpExistingFileName: LPWSTR, lpNewFileName: LPWSTR, lpProgressRoutine: DWORD, lpData: LPVOID, dwFlags: DWORD): BOOL {
+  public static MoveFileWithProgressW(lpExistingFileName: LPWSTR, lpNewFileName: LPWSTR, lpProgressRoutine: LPPROGRESS_ROUTINE, lpData: LPVOID, dwFlags: DWORD): BOOL {
     return Kernel32.Load('MoveFileWithProgressW')(lpExistingFileName, lpNewFileName, lpProgressRoutine, lpData, dwFlags);
   }
 
@@ -6295,7 +6665,7 @@ class Kernel32 {
   }
 
   // https://learn.microsoft.com/en-us/windows/win32/api/winbase/nf-winbase-offervirtualmemory
-  public static OfferVirtualMemory(VirtualAddress: LPVOID, Size: LPVOID, Priority: DWORD): DWORD {
+  public static OfferVirtualMemory(VirtualAddress: LPVOID, Size: SIZE_T, Priority: DWORD): DWORD {
     return Kernel32.Load('OfferVirtualMemory')(VirtualAddress, Size, Priority);
   }
 
@@ -6460,7 +6830,7 @@ class Kernel32 {
   }
 
   // https://learn.microsoft.com/en-us/windows/win32/api/ioapiset/nf-ioapiset-postqueuedcompletionstatus
-  public static PostQueuedCompletionStatus(CompletionPort: HANDLE, dwNumberOfBytesTransferred: DWORD, dwCompletionKey: LPVOID, lpOverlapped: LPVOID): BOOL {
+  public static PostQueuedCompletionStatus(CompletionPort: HANDLE, dwNumberOfBytesTransferred: DWORD, dwCompletionKey: ULONG_PTR, lpOverlapped: LPVOID): BOOL {
     return Kernel32.Load('PostQueuedCompletionStatus')(CompletionPort, dwNumberOfBytesTransferred, dwCompletionKey, lpOverlapped);
   }
 
@@ -6480,7 +6850,7 @@ class Kernel32 {
   }
 
   // https://learn.microsoft.com/en-us/windows/win32/api/winbase/nf-winbase-prefetchvirtualmemory
-  public static PrefetchVirtualMemory(hProcess: HANDLE, NumberOfEntries: LPVOID, VirtualAddresses: LPVOID, Flags: DWORD): BOOL {
+  public static PrefetchVirtualMemory(hProcess: HANDLE, NumberOfEntries: ULONG_PTR, VirtualAddresses: LPVOID, Flags: DWORD): BOOL {
     return Kernel32.Load('PrefetchVirtualMemory')(hProcess, NumberOfEntries, VirtualAddresses, Flags);
   }
 
@@ -6520,17 +6890,17 @@ class Kernel32 {
   }
 
   // https://learn.microsoft.com/en-us/windows/win32/api/winbase/nf-winbase-pssduplicatesnapshot
-  public static PssDuplicateSnapshot(SourceProcessHandle: HANDLE, SnapshotHandle: DWORD, TargetProcessHandle: HANDLE, TargetSnapshotHandle: LPVOID, Flags: DWORD): DWORD {
+  public static PssDuplicateSnapshot(SourceProcessHandle: HANDLE, SnapshotHandle: HPSS, TargetProcessHandle: HANDLE, TargetSnapshotHandle: LPVOID, Flags: DWORD): DWORD {
     return Kernel32.Load('PssDuplicateSnapshot')(SourceProcessHandle, SnapshotHandle, TargetProcessHandle, TargetSnapshotHandle, Flags);
   }
 
   // https://learn.microsoft.com/en-us/windows/win32/api/winbase/nf-winbase-pssfreesnapshot
-  public static PssFreeSnapshot(ProcessHandle: HANDLE, SnapshotHandle: DWORD): DWORD {
+  public static PssFreeSnapshot(ProcessHandle: HANDLE, SnapshotHandle: HPSS): DWORD {
     return Kernel32.Load('PssFreeSnapshot')(ProcessHandle, SnapshotHandle);
   }
 
   // https://learn.microsoft.com/en-us/windows/win32/api/winbase/nf-winbase-pssquerysnapshot
-  public static PssQuerySnapshot(SnapshotHandle: DWORD, InformationClass: DWORD, Buffer: LPVOID, BufferLength: DWORD): DWORD {
+  public static PssQuerySnapshot(SnapshotHandle: HPSS, InformationClass: DWORD, Buffer: LPVOID, BufferLength: DWORD): DWORD {
     return Kernel32.Load('PssQuerySnapshot')(SnapshotHandle, InformationClass, Buffer, BufferLength);
   }
 
@@ -6540,27 +6910,27 @@ class Kernel32 {
   }
 
   // https://learn.microsoft.com/en-us/windows/win32/api/winbase/nf-winbase-psswalkmarkerfree
-  public static PssWalkMarkerFree(WalkMarkerHandle: DWORD): DWORD {
+  public static PssWalkMarkerFree(WalkMarkerHandle: HPSSWALK): DWORD {
     return Kernel32.Load('PssWalkMarkerFree')(WalkMarkerHandle);
   }
 
   // https://learn.microsoft.com/en-us/windows/win32/api/winbase/nf-winbase-psswalkmarkergetposition
-  public static PssWalkMarkerGetPosition(WalkMarkerHandle: DWORD, Position: LPVOID): DWORD {
+  public static PssWalkMarkerGetPosition(WalkMarkerHandle: HPSSWALK, Position: LPVOID): DWORD {
     return Kernel32.Load('PssWalkMarkerGetPosition')(WalkMarkerHandle, Position);
   }
 
   // https://learn.microsoft.com/en-us/windows/win32/api/winbase/nf-winbase-psswalkmarkerseektobeginning
-  public static PssWalkMarkerSeekToBeginning(WalkMarkerHandle: DWORD): DWORD {
+  public static PssWalkMarkerSeekToBeginning(WalkMarkerHandle: HPSSWALK): DWORD {
     return Kernel32.Load('PssWalkMarkerSeekToBeginning')(WalkMarkerHandle);
   }
 
   // https://learn.microsoft.com/en-us/windows/win32/api/winbase/nf-winbase-psswalkmarkersetposition
-  public static PssWalkMarkerSetPosition(WalkMarkerHandle: DWORD, Position: LPVOID): DWORD {
+  public static PssWalkMarkerSetPosition(WalkMarkerHandle: HPSSWALK, Position: LPVOID): DWORD {
     return Kernel32.Load('PssWalkMarkerSetPosition')(WalkMarkerHandle, Position);
   }
 
   // https://learn.microsoft.com/en-us/windows/win32/api/winbase/nf-winbase-psswalksnapshot
-  public static PssWalkSnapshot(SnapshotHandle: DWORD, InformationClass: DWORD, WalkMarkerHandle: DWORD, Buffer: LPVOID, BufferLength: DWORD): DWORD {
+  public static PssWalkSnapshot(SnapshotHandle: HPSS, InformationClass: DWORD, WalkMarkerHandle: HPSSWALK, Buffer: LPVOID, BufferLength: DWORD): DWORD {
     return Kernel32.Load('PssWalkSnapshot')(SnapshotHandle, InformationClass, WalkMarkerHandle, Buffer, BufferLength);
   }
 
@@ -6575,12 +6945,12 @@ class Kernel32 {
   }
 
   // https://learn.microsoft.com/en-us/windows/win32/api/winbase/nf-winbase-queryactctxsettingsw
-  public static QueryActCtxSettingsW(dwFlags: DWORD, hActCtx: HANDLE, settingsNameSpace: LPWSTR, settingName: LPWSTR, pvBuffer: LPWSTR, dwBuffer: LPVOID, pdwWrittenOrRequired: LPVOID): BOOL {
+  public static QueryActCtxSettingsW(dwFlags: DWORD, hActCtx: HANDLE, settingsNameSpace: LPWSTR, settingName: LPWSTR, pvBuffer: LPWSTR, dwBuffer: SIZE_T, pdwWrittenOrRequired: LPVOID): BOOL {
     return Kernel32.Load('QueryActCtxSettingsW')(dwFlags, hActCtx, settingsNameSpace, settingName, pvBuffer, dwBuffer, pdwWrittenOrRequired);
   }
 
   // https://learn.microsoft.com/en-us/windows/win32/api/winbase/nf-winbase-queryactctxw
-  public static QueryActCtxW(dwFlags: DWORD, hActCtx: HANDLE, pvSubInstance: LPVOID, ulInfoClass: DWORD, pvBuffer: LPVOID, cbBuffer: LPVOID, pcbWrittenOrRequired: LPVOID): BOOL {
+  public static QueryActCtxW(dwFlags: DWORD, hActCtx: HANDLE, pvSubInstance: LPVOID, ulInfoClass: DWORD, pvBuffer: LPVOID, cbBuffer: SIZE_T, pcbWrittenOrRequired: LPVOID): BOOL {
     return Kernel32.Load('QueryActCtxW')(dwFlags, hActCtx, pvSubInstance, ulInfoClass, pvBuffer, cbBuffer, pcbWrittenOrRequired);
   }
 
@@ -6665,7 +7035,7 @@ class Kernel32 {
   }
 
   // https://learn.microsoft.com/en-us/windows/win32/api/winbase/nf-winbase-querythreadpoolstackinformation
-  public static QueryThreadpoolStackInformation(ptpp: DWORD, ptpsi: LPVOID): BOOL {
+  public static QueryThreadpoolStackInformation(ptpp: PTP_POOL, ptpsi: LPVOID): BOOL {
     return Kernel32.Load('QueryThreadpoolStackInformation')(ptpp, ptpsi);
   }
 
@@ -6685,17 +7055,17 @@ class Kernel32 {
   }
 
   // https://learn.microsoft.com/en-us/windows/win32/api/processthreadsapi/nf-processthreadsapi-queueuserapc
-  public static QueueUserAPC(pfnAPC: DWORD, hThread: HANDLE, dwData: LPVOID): DWORD {
+  public static QueueUserAPC(pfnAPC: PAPCFUNC, hThread: HANDLE, dwData: ULONG_PTR): DWORD {
     return Kernel32.Load('QueueUserAPC')(pfnAPC, hThread, dwData);
   }
 
   // https://learn.microsoft.com/en-us/windows/win32/api/winbase/nf-winbase-queueuserapc2
-  public static QueueUserAPC2(ApcRoutine: DWORD, Thread: HANDLE, Data: LPVOID, Flags: DWORD): BOOL {
+  public static QueueUserAPC2(ApcRoutine: PAPCFUNC, Thread: HANDLE, Data: ULONG_PTR, Flags: DWORD): BOOL {
     return Kernel32.Load('QueueUserAPC2')(ApcRoutine, Thread, Data, Flags);
   }
 
   // https://learn.microsoft.com/en-us/windows/win32/api/processthreadsapi/nf-processthreadsapi-queueuserworkitem
-  public static QueueUserWorkItem(_Function: DWORD, Context: LPVOID, Flags: DWORD): BOOL {
+  public static QueueUserWorkItem(_Function: LPTHREAD_START_ROUTINE, Context: LPVOID, Flags: DWORD): BOOL {
     return Kernel32.Load('QueueUserWorkItem')(_Function, Context, Flags);
   }
 
@@ -6735,27 +7105,27 @@ class Kernel32 {
   }
 
   // https://learn.microsoft.com/en-us/windows/console/readconsoleoutput
-  public static ReadConsoleOutputA(hConsoleOutput: HANDLE, lpBuffer: LPVOID, dwBufferSize: DWORD, dwBufferCoord: DWORD, lpReadRegion: LPVOID): BOOL {
+  public static ReadConsoleOutputA(hConsoleOutput: HANDLE, lpBuffer: LPVOID, dwBufferSize: COORD, dwBufferCoord: COORD, lpReadRegion: LPVOID): BOOL {
     return Kernel32.Load('ReadConsoleOutputA')(hConsoleOutput, lpBuffer, dwBufferSize, dwBufferCoord, lpReadRegion);
   }
 
   // https://learn.microsoft.com/en-us/windows/console/readconsoleoutputattribute
-  public static ReadConsoleOutputAttribute(hConsoleOutput: HANDLE, lpAttribute: LPVOID, nLength: DWORD, dwReadCoord: DWORD, lpNumberOfAttrsRead: LPVOID): BOOL {
+  public static ReadConsoleOutputAttribute(hConsoleOutput: HANDLE, lpAttribute: LPVOID, nLength: DWORD, dwReadCoord: COORD, lpNumberOfAttrsRead: LPVOID): BOOL {
     return Kernel32.Load('ReadConsoleOutputAttribute')(hConsoleOutput, lpAttribute, nLength, dwReadCoord, lpNumberOfAttrsRead);
   }
 
   // https://learn.microsoft.com/en-us/windows/console/readconsoleoutputcharacter
-  public static ReadConsoleOutputCharacterA(hConsoleOutput: HANDLE, lpCharacter: LPSTR, nLength: DWORD, dwReadCoord: DWORD, lpNumberOfCharsRead: LPVOID): BOOL {
+  public static ReadConsoleOutputCharacterA(hConsoleOutput: HANDLE, lpCharacter: LPSTR, nLength: DWORD, dwReadCoord: COORD, lpNumberOfCharsRead: LPVOID): BOOL {
     return Kernel32.Load('ReadConsoleOutputCharacterA')(hConsoleOutput, lpCharacter, nLength, dwReadCoord, lpNumberOfCharsRead);
   }
 
   // https://learn.microsoft.com/en-us/windows/console/readconsoleoutputcharacter
-  public static ReadConsoleOutputCharacterW(hConsoleOutput: HANDLE, lpCharacter: LPWSTR, nLength: DWORD, dwReadCoord: DWORD, lpNumberOfCharsRead: LPVOID): BOOL {
+  public static ReadConsoleOutputCharacterW(hConsoleOutput: HANDLE, lpCharacter: LPWSTR, nLength: DWORD, dwReadCoord: COORD, lpNumberOfCharsRead: LPVOID): BOOL {
     return Kernel32.Load('ReadConsoleOutputCharacterW')(hConsoleOutput, lpCharacter, nLength, dwReadCoord, lpNumberOfCharsRead);
   }
 
   // https://learn.microsoft.com/en-us/windows/console/readconsoleoutput
-  public static ReadConsoleOutputW(hConsoleOutput: HANDLE, lpBuffer: LPVOID, dwBufferSize: DWORD, dwBufferCoord: DWORD, lpReadRegion: LPVOID): BOOL {
+  public static ReadConsoleOutputW(hConsoleOutput: HANDLE, lpBuffer: LPVOID, dwBufferSize: COORD, dwBufferCoord: COORD, lpReadRegion: LPVOID): BOOL {
     return Kernel32.Load('ReadConsoleOutputW')(hConsoleOutput, lpBuffer, dwBufferSize, dwBufferCoord, lpReadRegion);
   }
 
@@ -6773,14 +7143,23 @@ class Kernel32 {
     dwNotifyFilter: DWORD,
     lpBytesReturned: LPVOID,
     lpOverlapped: LPVOID,
-    lpCompletionRoutine: DWORD,
+    lpCompletionRoutine: LPOVERLAPPED_COMPLETION_ROUTINE,
     ReadDirectoryNotifyInformationClass: DWORD
   ): BOOL {
     return Kernel32.Load('ReadDirectoryChangesExW')(hDirectory, lpBuffer, nBufferLength, bWatchSubtree, dwNotifyFilter, lpBytesReturned, lpOverlapped, lpCompletionRoutine, ReadDirectoryNotifyInformationClass);
   }
 
   // https://learn.microsoft.com/en-us/windows/win32/api/fileapi/nf-fileapi-readdirectorychangesw
-  public static ReadDirectoryChangesW(hDirectory: HANDLE, lpBuffer: LPVOID, nBufferLength: DWORD, bWatchSubtree: BOOL, dwNotifyFilter: DWORD, lpBytesReturned: LPVOID, lpOverlapped: LPVOID, lpCompletionRoutine: DWORD): BOOL {
+  public static ReadDirectoryChangesW(
+    hDirectory: HANDLE,
+    lpBuffer: LPVOID,
+    nBufferLength: DWORD,
+    bWatchSubtree: BOOL,
+    dwNotifyFilter: DWORD,
+    lpBytesReturned: LPVOID,
+    lpOverlapped: LPVOID,
+    lpCompletionRoutine: LPOVERLAPPED_COMPLETION_ROUTINE
+  ): BOOL {
     return Kernel32.Load('ReadDirectoryChangesW')(hDirectory, lpBuffer, nBufferLength, bWatchSubtree, dwNotifyFilter, lpBytesReturned, lpOverlapped, lpCompletionRoutine);
   }
 
@@ -6790,7 +7169,7 @@ class Kernel32 {
   }
 
   // https://learn.microsoft.com/en-us/windows/win32/api/fileapi/nf-fileapi-readfileex
-  public static ReadFileEx(hFile: HANDLE, lpBuffer: LPVOID, nNumberOfBytesToRead: DWORD, lpOverlapped: LPVOID, lpCompletionRoutine: DWORD): BOOL {
+  public static ReadFileEx(hFile: HANDLE, lpBuffer: LPVOID, nNumberOfBytesToRead: DWORD, lpOverlapped: LPVOID, lpCompletionRoutine: LPOVERLAPPED_COMPLETION_ROUTINE): BOOL {
     return Kernel32.Load('ReadFileEx')(hFile, lpBuffer, nNumberOfBytesToRead, lpOverlapped, lpCompletionRoutine);
   }
 
@@ -6800,7 +7179,7 @@ class Kernel32 {
   }
 
   // https://learn.microsoft.com/en-us/windows/win32/api/winbase/nf-winbase-readprocessmemory
-  public static ReadProcessMemory(hProcess: HANDLE, lpBaseAddress: LPVOID, lpBuffer: LPVOID, nSize: LPVOID, lpNumberOfBytesRead: LPVOID): BOOL {
+  public static ReadProcessMemory(hProcess: HANDLE, lpBaseAddress: LPVOID, lpBuffer: LPVOID, nSize: SIZE_T, lpNumberOfBytesRead: LPVOID): BOOL {
     return Kernel32.Load('ReadProcessMemory')(hProcess, lpBaseAddress, lpBuffer, nSize, lpNumberOfBytesRead);
   }
 
@@ -6810,12 +7189,12 @@ class Kernel32 {
   }
 
   // https://learn.microsoft.com/en-us/windows/win32/api/winbase/nf-winbase-reclaimvirtualmemory
-  public static ReclaimVirtualMemory(VirtualAddress: LPVOID, Size: LPVOID): DWORD {
+  public static ReclaimVirtualMemory(VirtualAddress: LPVOID, Size: SIZE_T): DWORD {
     return Kernel32.Load('ReclaimVirtualMemory')(VirtualAddress, Size);
   }
 
   // https://learn.microsoft.com/en-us/windows/win32/api/winbase/nf-winbase-registerapplicationrecoverycallback
-  public static RegisterApplicationRecoveryCallback(pRecoveyCallback: DWORD, pvParameter: LPVOID, dwPingInterval: DWORD, dwFlags: DWORD): DWORD {
+  public static RegisterApplicationRecoveryCallback(pRecoveyCallback: APPLICATION_RECOVERY_CALLBACK, pvParameter: LPVOID, dwPingInterval: DWORD, dwFlags: DWORD): DWORD {
     return Kernel32.Load('RegisterApplicationRecoveryCallback')(pRecoveyCallback, pvParameter, dwPingInterval, dwFlags);
   }
 
@@ -6825,12 +7204,12 @@ class Kernel32 {
   }
 
   // https://learn.microsoft.com/en-us/windows/win32/api/winbase/nf-winbase-registerbadmemorynotification
-  public static RegisterBadMemoryNotification(Callback: DWORD): LPVOID {
+  public static RegisterBadMemoryNotification(Callback: PBAD_MEMORY_CALLBACK_ROUTINE): LPVOID {
     return Kernel32.Load('RegisterBadMemoryNotification')(Callback);
   }
 
   // https://learn.microsoft.com/en-us/windows/console/registerconsoleime
-  public static RegisterConsoleIME(hWndConsoleIME: DWORD, lpdwConsoleThreadId: LPVOID): BOOL {
+  public static RegisterConsoleIME(hWndConsoleIME: HWND, lpdwConsoleThreadId: LPVOID): BOOL {
     return Kernel32.Load('RegisterConsoleIME')(hWndConsoleIME, lpdwConsoleThreadId);
   }
 
@@ -6855,12 +7234,12 @@ class Kernel32 {
   }
 
   // https://learn.microsoft.com/en-us/windows/win32/api/winbase/nf-winbase-registerwaitforsingleobject
-  public static RegisterWaitForSingleObject(phNewWaitObject: LPVOID, hObject: HANDLE, Callback: DWORD, Context: LPVOID, dwMilliseconds: DWORD, dwFlags: DWORD): BOOL {
+  public static RegisterWaitForSingleObject(phNewWaitObject: LPVOID, hObject: HANDLE, Callback: WAITORTIMERCALLBACK, Context: LPVOID, dwMilliseconds: DWORD, dwFlags: DWORD): BOOL {
     return Kernel32.Load('RegisterWaitForSingleObject')(phNewWaitObject, hObject, Callback, Context, dwMilliseconds, dwFlags);
   }
 
   // https://learn.microsoft.com/en-us/windows/win32/api/winbase/nf-winbase-registerwaituntiloobecompleted
-  public static RegisterWaitUntilOOBECompleted(OOBECompletedCallback: DWORD, CallbackContext: LPVOID, WaitHandle: LPVOID): BOOL {
+  public static RegisterWaitUntilOOBECompleted(OOBECompletedCallback: OOBE_COMPLETED_CALLBACK, CallbackContext: LPVOID, WaitHandle: LPVOID): BOOL {
     return Kernel32.Load('RegisterWaitUntilOOBECompleted')(OOBECompletedCallback, CallbackContext, WaitHandle);
   }
 
@@ -6875,17 +7254,17 @@ class Kernel32 {
   }
 
   // https://learn.microsoft.com/en-us/windows/win32/api/synchapi/nf-synchapi-releasemutexwhencallbackreturns
-  public static ReleaseMutexWhenCallbackReturns(pci: DWORD, mut: HANDLE): VOID {
+  public static ReleaseMutexWhenCallbackReturns(pci: PTP_CALLBACK_INSTANCE, mut: HANDLE): VOID {
     return Kernel32.Load('ReleaseMutexWhenCallbackReturns')(pci, mut);
   }
 
   // https://learn.microsoft.com/en-us/windows/win32/api/winbase/nf-winbase-releasepackagevirtualizationcontext
-  public static ReleasePackageVirtualizationContext(context: DWORD): VOID {
+  public static ReleasePackageVirtualizationContext(context: PACKAGE_VIRTUALIZATION_CONTEXT_HANDLE): VOID {
     return Kernel32.Load('ReleasePackageVirtualizationContext')(context);
   }
 
   // https://learn.microsoft.com/en-us/windows/console/releasepseudoconsole
-  public static ReleasePseudoConsole(hPC: DWORD): DWORD {
+  public static ReleasePseudoConsole(hPC: HPCON): DWORD {
     return Kernel32.Load('ReleasePseudoConsole')(hPC);
   }
 
@@ -6895,7 +7274,7 @@ class Kernel32 {
   }
 
   // https://learn.microsoft.com/en-us/windows/win32/api/synchapi/nf-synchapi-releasesemaphorewhencallbackreturns
-  public static ReleaseSemaphoreWhenCallbackReturns(pci: DWORD, sem: HANDLE, crel: DWORD): VOID {
+  public static ReleaseSemaphoreWhenCallbackReturns(pci: PTP_CALLBACK_INSTANCE, sem: HANDLE, crel: DWORD): VOID {
     return Kernel32.Load('ReleaseSemaphoreWhenCallbackReturns')(pci, sem, crel);
   }
 
@@ -6945,7 +7324,7 @@ class Kernel32 {
   }
 
   // https://learn.microsoft.com/en-us/windows/win32/api/winbase/nf-winbase-removesecurememorycachecallback
-  public static RemoveSecureMemoryCacheCallback(pfnCallBack: DWORD): BOOL {
+  public static RemoveSecureMemoryCacheCallback(pfnCallBack: PSECURE_MEMORY_CACHE_CALLBACK): BOOL {
     return Kernel32.Load('RemoveSecureMemoryCacheCallback')(pfnCallBack);
   }
 
@@ -6995,12 +7374,12 @@ class Kernel32 {
   }
 
   // https://learn.microsoft.com/en-us/windows/win32/api/winbase/nf-winbase-resetwritewatch
-  public static ResetWriteWatch(lpBaseAddress: LPVOID, dwRegionSize: LPVOID): DWORD {
+  public static ResetWriteWatch(lpBaseAddress: LPVOID, dwRegionSize: SIZE_T): DWORD {
     return Kernel32.Load('ResetWriteWatch')(lpBaseAddress, dwRegionSize);
   }
 
   // https://learn.microsoft.com/en-us/windows/console/resizepseudoconsole
-  public static ResizePseudoConsole(hPC: DWORD, size: DWORD): DWORD {
+  public static ResizePseudoConsole(hPC: HPCON, size: COORD): HRESULT {
     return Kernel32.Load('ResizePseudoConsole')(hPC, size);
   }
 
@@ -7009,7 +7388,7 @@ class Kernel32 {
     return Kernel32.Load('ResolveLocaleName')(lpNameToResolve, lpLocaleName, cchLocaleName);
   }
 
-  // public static RestoreThreadPreferredUILanguages(snapshot: DWORD): VOID {
+  // public static RestoreThreadPreferredUILanguages(snapshot: HSAVEDUILANGUAGES): VOID {
   //   return Kernel32.Load('RestoreThreadPreferredUILanguages')(snapshot);
   // }
 
@@ -7038,7 +7417,7 @@ class Kernel32 {
   }
 
   // https://learn.microsoft.com/en-us/windows/win32/api/winbase/nf-winbase-rtlcomparememory
-  public static RtlCompareMemory(Source1: LPVOID, Source2: LPVOID, Length: LPVOID): LPVOID {
+  public static RtlCompareMemory(Source1: LPVOID, Source2: LPVOID, Length: SIZE_T): SIZE_T {
     return Kernel32.Load('RtlCompareMemory')(Source1, Source2, Length);
   }
 
@@ -7048,7 +7427,7 @@ class Kernel32 {
   }
 
   // https://learn.microsoft.com/en-us/windows/win32/api/winbase/nf-winbase-rtlinstallfunctiontablecallback
-  public static RtlInstallFunctionTableCallback(TableIdentifier: ULONGLONG, BaseAddress: ULONGLONG, Length: DWORD, Callback: DWORD, Context: LPVOID, OutOfProcessCallbackDll: LPWSTR): DWORD {
+  public static RtlInstallFunctionTableCallback(TableIdentifier: ULONGLONG, BaseAddress: ULONGLONG, Length: DWORD, Callback: PGET_RUNTIME_FUNCTION_CALLBACK, Context: LPVOID, OutOfProcessCallbackDll: LPWSTR): DWORD {
     return Kernel32.Load('RtlInstallFunctionTableCallback')(TableIdentifier, BaseAddress, Length, Callback, Context, OutOfProcessCallbackDll);
   }
 
@@ -7088,12 +7467,12 @@ class Kernel32 {
   }
 
   // https://learn.microsoft.com/en-us/windows/console/scrollconsolescreenbuffer
-  public static ScrollConsoleScreenBufferA(hConsoleOutput: HANDLE, lpScrollRectangle: LPVOID, lpClipRectangle: LPVOID, dwDestinationOrigin: DWORD, lpFill: LPVOID): BOOL {
+  public static ScrollConsoleScreenBufferA(hConsoleOutput: HANDLE, lpScrollRectangle: LPVOID, lpClipRectangle: LPVOID, dwDestinationOrigin: COORD, lpFill: LPVOID): BOOL {
     return Kernel32.Load('ScrollConsoleScreenBufferA')(hConsoleOutput, lpScrollRectangle, lpClipRectangle, dwDestinationOrigin, lpFill);
   }
 
   // https://learn.microsoft.com/en-us/windows/console/scrollconsolescreenbuffer
-  public static ScrollConsoleScreenBufferW(hConsoleOutput: HANDLE, lpScrollRectangle: LPVOID, lpClipRectangle: LPVOID, dwDestinationOrigin: DWORD, lpFill: LPVOID): BOOL {
+  public static ScrollConsoleScreenBufferW(hConsoleOutput: HANDLE, lpScrollRectangle: LPVOID, lpClipRectangle: LPVOID, dwDestinationOrigin: COORD, lpFill: LPVOID): BOOL {
     return Kernel32.Load('ScrollConsoleScreenBufferW')(hConsoleOutput, lpScrollRectangle, lpClipRectangle, dwDestinationOrigin, lpFill);
   }
 
@@ -7183,12 +7562,12 @@ class Kernel32 {
   }
 
   // https://learn.microsoft.com/en-us/windows/console/setconsolectrlhandler
-  public static SetConsoleCtrlHandler(HandlerRoutine: DWORD, Add: BOOL): BOOL {
+  public static SetConsoleCtrlHandler(HandlerRoutine: PHANDLER_ROUTINE, Add: BOOL): BOOL {
     return Kernel32.Load('SetConsoleCtrlHandler')(HandlerRoutine, Add);
   }
 
   // https://learn.microsoft.com/en-us/windows/console/setconsolecursor
-  public static SetConsoleCursor(hConsoleOutput: HANDLE, hCursor: DWORD): BOOL {
+  public static SetConsoleCursor(hConsoleOutput: HANDLE, hCursor: HCURSOR): BOOL {
     return Kernel32.Load('SetConsoleCursor')(hConsoleOutput, hCursor);
   }
 
@@ -7203,7 +7582,7 @@ class Kernel32 {
   }
 
   // https://learn.microsoft.com/en-us/windows/console/setconsolecursorposition
-  public static SetConsoleCursorPosition(hConsoleOutput: HANDLE, dwCursorPosition: DWORD): BOOL {
+  public static SetConsoleCursorPosition(hConsoleOutput: HANDLE, dwCursorPosition: COORD): BOOL {
     return Kernel32.Load('SetConsoleCursorPosition')(hConsoleOutput, dwCursorPosition);
   }
 
@@ -7228,7 +7607,7 @@ class Kernel32 {
   }
 
   // https://learn.microsoft.com/en-us/windows/console/setconsoleicon
-  public static SetConsoleIcon(hIcon: DWORD): BOOL {
+  public static SetConsoleIcon(hIcon: HICON): BOOL {
     return Kernel32.Load('SetConsoleIcon')(hIcon);
   }
 
@@ -7243,7 +7622,7 @@ class Kernel32 {
   }
 
   // https://learn.microsoft.com/en-us/windows/console/setconsolekeyshortcuts
-  public static SetConsoleKeyShortcuts(bSet: BOOL, bReserveKeys: LPVOID, lpAppKeys: LPVOID, dwNumAppKeys: DWORD): BOOL {
+  public static SetConsoleKeyShortcuts(bSet: BOOL, bReserveKeys: BOOL, lpAppKeys: LPVOID, dwNumAppKeys: DWORD): BOOL {
     return Kernel32.Load('SetConsoleKeyShortcuts')(bSet, bReserveKeys, lpAppKeys, dwNumAppKeys);
   }
 
@@ -7288,7 +7667,7 @@ class Kernel32 {
   }
 
   // https://learn.microsoft.com/en-us/windows/console/setconsolepalette
-  public static SetConsolePalette(hConsoleOutput: HANDLE, hPalette: DWORD, dwUsage: DWORD): BOOL {
+  public static SetConsolePalette(hConsoleOutput: HANDLE, hPalette: HPALETTE, dwUsage: DWORD): BOOL {
     return Kernel32.Load('SetConsolePalette')(hConsoleOutput, hPalette, dwUsage);
   }
 
@@ -7298,7 +7677,7 @@ class Kernel32 {
   }
 
   // https://learn.microsoft.com/en-us/windows/console/setconsolescreenbuffersize
-  public static SetConsoleScreenBufferSize(hConsoleOutput: HANDLE, dwSize: DWORD): BOOL {
+  public static SetConsoleScreenBufferSize(hConsoleOutput: HANDLE, dwSize: COORD): BOOL {
     return Kernel32.Load('SetConsoleScreenBufferSize')(hConsoleOutput, dwSize);
   }
 
@@ -7408,7 +7787,7 @@ class Kernel32 {
   }
 
   // https://learn.microsoft.com/en-us/windows/win32/api/synchapi/nf-synchapi-seteventwhencallbackreturns
-  public static SetEventWhenCallbackReturns(pci: DWORD, evt: HANDLE): VOID {
+  public static SetEventWhenCallbackReturns(pci: PTP_CALLBACK_INSTANCE, evt: HANDLE): VOID {
     return Kernel32.Load('SetEventWhenCallbackReturns')(pci, evt);
   }
 
@@ -7468,7 +7847,7 @@ class Kernel32 {
   }
 
   // https://learn.microsoft.com/en-us/windows/win32/api/fileapi/nf-fileapi-setfilepointerex
-  public static SetFilePointerEx(hFile: HANDLE, liDistanceToMove: LPVOID, lpNewFilePointer: LPVOID, dwMoveMethod: DWORD): BOOL {
+  public static SetFilePointerEx(hFile: HANDLE, liDistanceToMove: LARGE_INTEGER, lpNewFilePointer: PLARGE_INTEGER, dwMoveMethod: DWORD): BOOL {
     return Kernel32.Load('SetFilePointerEx')(hFile, liDistanceToMove, lpNewFilePointer, dwMoveMethod);
   }
 
@@ -7488,7 +7867,7 @@ class Kernel32 {
   }
 
   // https://learn.microsoft.com/en-us/windows/win32/api/fileapi/nf-fileapi-setfilevaliddata
-  public static SetFileValidData(hFile: HANDLE, ValidDataLength: LPVOID): BOOL {
+  public static SetFileValidData(hFile: HANDLE, ValidDataLength: LONGLONG): BOOL {
     return Kernel32.Load('SetFileValidData')(hFile, ValidDataLength);
   }
 
@@ -7578,7 +7957,7 @@ class Kernel32 {
   }
 
   // https://learn.microsoft.com/en-us/windows/win32/api/winbase/nf-winbase-setprocessaffinitymask
-  public static SetProcessAffinityMask(hProcess: HANDLE, dwProcessAffinityMask: LPVOID): BOOL {
+  public static SetProcessAffinityMask(hProcess: HANDLE, dwProcessAffinityMask: DWORD_PTR): BOOL {
     return Kernel32.Load('SetProcessAffinityMask')(hProcess, dwProcessAffinityMask);
   }
 
@@ -7618,7 +7997,7 @@ class Kernel32 {
   }
 
   // https://learn.microsoft.com/en-us/windows/win32/api/winbase/nf-winbase-setprocessmitigationpolicy
-  public static SetProcessMitigationPolicy(MitigationPolicy: DWORD, lpBuffer: LPVOID, dwLength: LPVOID): BOOL {
+  public static SetProcessMitigationPolicy(MitigationPolicy: DWORD, lpBuffer: LPVOID, dwLength: SIZE_T): BOOL {
     return Kernel32.Load('SetProcessMitigationPolicy')(MitigationPolicy, lpBuffer, dwLength);
   }
 
@@ -7638,12 +8017,12 @@ class Kernel32 {
   }
 
   // https://learn.microsoft.com/en-us/windows/win32/api/winbase/nf-winbase-setprocessworkingsetsize
-  public static SetProcessWorkingSetSize(hProcess: HANDLE, dwMinimumWorkingSetSize: LPVOID, dwMaximumWorkingSetSize: LPVOID): BOOL {
+  public static SetProcessWorkingSetSize(hProcess: HANDLE, dwMinimumWorkingSetSize: SIZE_T, dwMaximumWorkingSetSize: SIZE_T): BOOL {
     return Kernel32.Load('SetProcessWorkingSetSize')(hProcess, dwMinimumWorkingSetSize, dwMaximumWorkingSetSize);
   }
 
   // https://learn.microsoft.com/en-us/windows/win32/api/winbase/nf-winbase-setprocessworkingsetsizeex
-  public static SetProcessWorkingSetSizeEx(hProcess: HANDLE, dwMinimumWorkingSetSize: LPVOID, dwMaximumWorkingSetSize: LPVOID, Flags: DWORD): BOOL {
+  public static SetProcessWorkingSetSizeEx(hProcess: HANDLE, dwMinimumWorkingSetSize: SIZE_T, dwMaximumWorkingSetSize: SIZE_T, Flags: DWORD): BOOL {
     return Kernel32.Load('SetProcessWorkingSetSizeEx')(hProcess, dwMinimumWorkingSetSize, dwMaximumWorkingSetSize, Flags);
   }
 
@@ -7668,7 +8047,7 @@ class Kernel32 {
   }
 
   // https://learn.microsoft.com/en-us/windows/win32/api/memoryapi/nf-memoryapi-setsystemfilecachesize
-  public static SetSystemFileCacheSize(MinimumFileCacheSize: LPVOID, MaximumFileCacheSize: LPVOID, Flags: DWORD): BOOL {
+  public static SetSystemFileCacheSize(MinimumFileCacheSize: SIZE_T, MaximumFileCacheSize: SIZE_T, Flags: DWORD): BOOL {
     return Kernel32.Load('SetSystemFileCacheSize')(MinimumFileCacheSize, MaximumFileCacheSize, Flags);
   }
 
@@ -7698,7 +8077,7 @@ class Kernel32 {
   }
 
   // https://learn.microsoft.com/en-us/windows/win32/api/winbase/nf-winbase-setthreadaffinitymask
-  public static SetThreadAffinityMask(hThread: HANDLE, dwThreadAffinityMask: LPVOID): LPVOID {
+  public static SetThreadAffinityMask(hThread: HANDLE, dwThreadAffinityMask: DWORD_PTR): DWORD_PTR {
     return Kernel32.Load('SetThreadAffinityMask')(hThread, dwThreadAffinityMask);
   }
 
@@ -7748,37 +8127,37 @@ class Kernel32 {
   }
 
   // https://learn.microsoft.com/en-us/windows/win32/api/winbase/nf-winbase-setthreadpoolstackinformation
-  public static SetThreadpoolStackInformation(ptpp: DWORD, ptpsi: LPVOID): BOOL {
+  public static SetThreadpoolStackInformation(ptpp: PTP_POOL, ptpsi: LPVOID): BOOL {
     return Kernel32.Load('SetThreadpoolStackInformation')(ptpp, ptpsi);
   }
 
   // https://learn.microsoft.com/en-us/windows/win32/api/threadpoolapiset/nf-threadpoolapiset-setthreadpoolthreadmaximum
-  public static SetThreadpoolThreadMaximum(ptpp: DWORD, cthrdMost: DWORD): VOID {
+  public static SetThreadpoolThreadMaximum(ptpp: PTP_POOL, cthrdMost: DWORD): VOID {
     return Kernel32.Load('SetThreadpoolThreadMaximum')(ptpp, cthrdMost);
   }
 
   // https://learn.microsoft.com/en-us/windows/win32/api/threadpoolapiset/nf-threadpoolapiset-setthreadpoolthreadminimum
-  public static SetThreadpoolThreadMinimum(ptpp: DWORD, cthrdMic: DWORD): BOOL {
+  public static SetThreadpoolThreadMinimum(ptpp: PTP_POOL, cthrdMic: DWORD): BOOL {
     return Kernel32.Load('SetThreadpoolThreadMinimum')(ptpp, cthrdMic);
   }
 
   // https://learn.microsoft.com/en-us/windows/win32/api/threadpoolapiset/nf-threadpoolapiset-setthreadpooltimer
-  public static SetThreadpoolTimer(pti: DWORD, pftDueTime: LPVOID, msPeriod: DWORD, msWindowLength: DWORD): VOID {
+  public static SetThreadpoolTimer(pti: PTP_TIMER, pftDueTime: LPVOID, msPeriod: DWORD, msWindowLength: DWORD): VOID {
     return Kernel32.Load('SetThreadpoolTimer')(pti, pftDueTime, msPeriod, msWindowLength);
   }
 
   // https://learn.microsoft.com/en-us/windows/win32/api/winbase/nf-winbase-setthreadpooltimerex
-  public static SetThreadpoolTimerEx(pti: DWORD, pftDueTime: LPVOID, msPeriod: DWORD, msWindowLength: DWORD): BOOL {
+  public static SetThreadpoolTimerEx(pti: PTP_TIMER, pftDueTime: LPVOID, msPeriod: DWORD, msWindowLength: DWORD): BOOL {
     return Kernel32.Load('SetThreadpoolTimerEx')(pti, pftDueTime, msPeriod, msWindowLength);
   }
 
   // https://learn.microsoft.com/en-us/windows/win32/api/winbase/nf-winbase-setthreadpoolwait
-  public static SetThreadpoolWait(pwa: DWORD, h: HANDLE, pftTimeout: LPVOID): VOID {
+  public static SetThreadpoolWait(pwa: PTP_WAIT, h: HANDLE, pftTimeout: LPVOID): VOID {
     return Kernel32.Load('SetThreadpoolWait')(pwa, h, pftTimeout);
   }
 
   // https://learn.microsoft.com/en-us/windows/win32/api/winbase/nf-winbase-setthreadpoolwaitex
-  public static SetThreadpoolWaitEx(pwa: DWORD, h: HANDLE, pftTimeout: LPVOID, Reserved: LPVOID): BOOL {
+  public static SetThreadpoolWaitEx(pwa: PTP_WAIT, h: HANDLE, pftTimeout: LPVOID, Reserved: LPVOID): BOOL {
     return Kernel32.Load('SetThreadpoolWaitEx')(pwa, h, pftTimeout, Reserved);
   }
 
@@ -7822,7 +8201,7 @@ class Kernel32 {
   }
 
   // https://learn.microsoft.com/en-us/windows/win32/api/winbase/nf-winbase-settimerqueuetimer
-  public static SetTimerQueueTimer(TimerQueue: HANDLE, Callback: DWORD, Parameter: LPVOID, DueTime: DWORD, Period: DWORD, PreferIo: BOOL): HANDLE {
+  public static SetTimerQueueTimer(TimerQueue: HANDLE, Callback: WAITORTIMERCALLBACK, Parameter: LPVOID, DueTime: DWORD, Period: DWORD, PreferIo: BOOL): HANDLE {
     return Kernel32.Load('SetTimerQueueTimer')(TimerQueue, Callback, Parameter, DueTime, Period, PreferIo);
   }
 
@@ -7837,7 +8216,7 @@ class Kernel32 {
   }
 
   // https://learn.microsoft.com/en-us/windows/win32/api/winbase/nf-winbase-setunhandledexceptionfilter
-  public static SetUnhandledExceptionFilter(lpTopLevelExceptionFilter: DWORD): DWORD {
+  public static SetUnhandledExceptionFilter(lpTopLevelExceptionFilter: LPTOP_LEVEL_EXCEPTION_FILTER): LPTOP_LEVEL_EXCEPTION_FILTER {
     return Kernel32.Load('SetUnhandledExceptionFilter')(lpTopLevelExceptionFilter);
   }
 
@@ -7877,12 +8256,12 @@ class Kernel32 {
   }
 
   // https://learn.microsoft.com/en-us/windows/win32/api/winbase/nf-winbase-setwaitabletimer
-  public static SetWaitableTimer(hTimer: HANDLE, lpDueTime: LPVOID, lPeriod: INT, pfnCompletionRoutine: DWORD, lpArgToCompletionRoutine: LPVOID, fResume: BOOL): BOOL {
+  public static SetWaitableTimer(hTimer: HANDLE, lpDueTime: LPVOID, lPeriod: INT, pfnCompletionRoutine: PTIMERAPCROUTINE, lpArgToCompletionRoutine: LPVOID, fResume: BOOL): BOOL {
     return Kernel32.Load('SetWaitableTimer')(hTimer, lpDueTime, lPeriod, pfnCompletionRoutine, lpArgToCompletionRoutine, fResume);
   }
 
   // https://learn.microsoft.com/en-us/windows/win32/api/winbase/nf-winbase-setwaitabletimerex
-  public static SetWaitableTimerEx(hTimer: HANDLE, lpDueTime: LPVOID, lPeriod: INT, pfnCompletionRoutine: DWORD, lpArgToCompletionRoutine: LPVOID, WakeContext: LPVOID, TolerableDelay: DWORD): BOOL {
+  public static SetWaitableTimerEx(hTimer: HANDLE, lpDueTime: LPVOID, lPeriod: INT, pfnCompletionRoutine: PTIMERAPCROUTINE, lpArgToCompletionRoutine: LPVOID, WakeContext: LPVOID, TolerableDelay: DWORD): BOOL {
     return Kernel32.Load('SetWaitableTimerEx')(hTimer, lpDueTime, lPeriod, pfnCompletionRoutine, lpArgToCompletionRoutine, WakeContext, TolerableDelay);
   }
 
@@ -7902,7 +8281,7 @@ class Kernel32 {
   }
 
   // https://learn.microsoft.com/en-us/windows/win32/api/libloaderapi/nf-libloaderapi-sizeofresource
-  public static SizeofResource(hModule: HMODULE, hResInfo: DWORD): DWORD {
+  public static SizeofResource(hModule: HMODULE, hResInfo: HRSRC): DWORD {
     return Kernel32.Load('SizeofResource')(hModule, hResInfo);
   }
 
@@ -7927,12 +8306,12 @@ class Kernel32 {
   }
 
   // https://learn.microsoft.com/en-us/windows/win32/api/threadpoolapiset/nf-threadpoolapiset-startthreadpoolio
-  public static StartThreadpoolIo(pio: DWORD): VOID {
+  public static StartThreadpoolIo(pio: PTP_IO): VOID {
     return Kernel32.Load('StartThreadpoolIo')(pio);
   }
 
   // https://learn.microsoft.com/en-us/windows/win32/api/winbase/nf-winbase-submitthreadpoolwork
-  public static SubmitThreadpoolWork(pwk: DWORD): VOID {
+  public static SubmitThreadpoolWork(pwk: PTP_WORK): VOID {
     return Kernel32.Load('SubmitThreadpoolWork')(pwk);
   }
 
@@ -8017,7 +8396,7 @@ class Kernel32 {
   }
 
   // https://learn.microsoft.com/en-us/windows/win32/api/winbase/nf-winbase-toolhelp32readprocessmemory
-  public static Toolhelp32ReadProcessMemory(th32ProcessID: DWORD, lpBaseAddress: LPVOID, lpBuffer: LPVOID, cbRead: LPVOID, lpNumberOfBytesRead: LPVOID): BOOL {
+  public static Toolhelp32ReadProcessMemory(th32ProcessID: DWORD, lpBaseAddress: LPVOID, lpBuffer: LPVOID, cbRead: SIZE_T, lpNumberOfBytesRead: LPVOID): BOOL {
     return Kernel32.Load('Toolhelp32ReadProcessMemory')(th32ProcessID, lpBaseAddress, lpBuffer, cbRead, lpNumberOfBytesRead);
   }
 
@@ -8047,7 +8426,7 @@ class Kernel32 {
   }
 
   // https://learn.microsoft.com/en-us/windows/win32/api/winbase/nf-winbase-trysubmitthreadpoolcallback
-  public static TrySubmitThreadpoolCallback(pfns: DWORD, pv: LPVOID, pcbe: LPVOID): BOOL {
+  public static TrySubmitThreadpoolCallback(pfns: PTP_SIMPLE_CALLBACK, pv: LPVOID, pcbe: LPVOID): BOOL {
     return Kernel32.Load('TrySubmitThreadpoolCallback')(pfns, pv, pcbe);
   }
 
@@ -8082,12 +8461,12 @@ class Kernel32 {
   }
 
   // https://learn.microsoft.com/en-us/windows/win32/api/memoryapi/nf-memoryapi-unmapviewoffile
-  public static UnmapViewOfFile(lpBaseAddress: DWORD): BOOL {
+  public static UnmapViewOfFile(lpBaseAddress: LPCVOID): BOOL {
     return Kernel32.Load('UnmapViewOfFile')(lpBaseAddress);
   }
 
   // https://learn.microsoft.com/en-us/windows/win32/api/memoryapi/nf-memoryapi-unmapviewoffileex
-  public static UnmapViewOfFileEx(BaseAddress: DWORD, UnmapFlags: DWORD): BOOL {
+  public static UnmapViewOfFileEx(BaseAddress: PVOID, UnmapFlags: DWORD): BOOL {
     return Kernel32.Load('UnmapViewOfFileEx')(BaseAddress, UnmapFlags);
   }
 
@@ -8132,7 +8511,7 @@ class Kernel32 {
   }
 
   // https://learn.microsoft.com/en-us/windows/win32/api/winbase/nf-winbase-updateprocthreadattribute
-  public static UpdateProcThreadAttribute(lpAttributeList: DWORD, dwFlags: DWORD, Attribute: LPVOID, lpValue: LPVOID, cbSize: LPVOID, lpPreviousValue: LPVOID, lpReturnSize: LPVOID): BOOL {
+  public static UpdateProcThreadAttribute(lpAttributeList: LPPROC_THREAD_ATTRIBUTE_LIST, dwFlags: DWORD, Attribute: DWORD_PTR, lpValue: LPVOID, cbSize: SIZE_T, lpPreviousValue: LPVOID, lpReturnSize: LPVOID): BOOL {
     return Kernel32.Load('UpdateProcThreadAttribute')(lpAttributeList, dwFlags, Attribute, lpValue, cbSize, lpPreviousValue, lpReturnSize);
   }
 
@@ -8182,62 +8561,62 @@ class Kernel32 {
   }
 
   // https://learn.microsoft.com/en-us/windows/win32/api/winbase/nf-winbase-versetconditionmask
-  public static VerSetConditionMask(ConditionMask: ULONGLONG, TypeMask: DWORD, Condition: LPVOID): ULONGLONG {
+  public static VerSetConditionMask(ConditionMask: ULONGLONG, TypeMask: DWORD, Condition: BYTE): ULONGLONG {
     return Kernel32.Load('VerSetConditionMask')(ConditionMask, TypeMask, Condition);
   }
 
   // https://learn.microsoft.com/en-us/windows/win32/api/memoryapi/nf-memoryapi-virtualalloc
-  public static VirtualAlloc(lpAddress: LPVOID, dwSize: LPVOID, flAllocationType: DWORD, flProtect: DWORD): LPVOID {
+  public static VirtualAlloc(lpAddress: LPVOID, dwSize: SIZE_T, flAllocationType: DWORD, flProtect: DWORD): LPVOID {
     return Kernel32.Load('VirtualAlloc')(lpAddress, dwSize, flAllocationType, flProtect);
   }
 
   // https://learn.microsoft.com/en-us/windows/win32/api/memoryapi/nf-memoryapi-virtualallocex
-  public static VirtualAllocEx(hProcess: HANDLE, lpAddress: LPVOID, dwSize: LPVOID, flAllocationType: DWORD, flProtect: DWORD): LPVOID {
+  public static VirtualAllocEx(hProcess: HANDLE, lpAddress: LPVOID, dwSize: SIZE_T, flAllocationType: DWORD, flProtect: DWORD): LPVOID {
     return Kernel32.Load('VirtualAllocEx')(hProcess, lpAddress, dwSize, flAllocationType, flProtect);
   }
 
   // https://learn.microsoft.com/en-us/windows/win32/api/memoryapi/nf-memoryapi-virtualallocexnuma
-  public static VirtualAllocExNuma(hProcess: HANDLE, lpAddress: LPVOID, dwSize: LPVOID, flAllocationType: DWORD, flProtect: DWORD, nndPreferred: DWORD): LPVOID {
+  public static VirtualAllocExNuma(hProcess: HANDLE, lpAddress: LPVOID, dwSize: SIZE_T, flAllocationType: DWORD, flProtect: DWORD, nndPreferred: DWORD): LPVOID {
     return Kernel32.Load('VirtualAllocExNuma')(hProcess, lpAddress, dwSize, flAllocationType, flProtect, nndPreferred);
   }
 
   // https://learn.microsoft.com/en-us/windows/win32/api/memoryapi/nf-memoryapi-virtualfree
-  public static VirtualFree(lpAddress: LPVOID, dwSize: LPVOID, dwFreeType: DWORD): BOOL {
+  public static VirtualFree(lpAddress: LPVOID, dwSize: SIZE_T, dwFreeType: DWORD): BOOL {
     return Kernel32.Load('VirtualFree')(lpAddress, dwSize, dwFreeType);
   }
 
   // https://learn.microsoft.com/en-us/windows/win32/api/memoryapi/nf-memoryapi-virtualfreeex
-  public static VirtualFreeEx(hProcess: HANDLE, lpAddress: LPVOID, dwSize: LPVOID, dwFreeType: DWORD): BOOL {
+  public static VirtualFreeEx(hProcess: HANDLE, lpAddress: LPVOID, dwSize: SIZE_T, dwFreeType: DWORD): BOOL {
     return Kernel32.Load('VirtualFreeEx')(hProcess, lpAddress, dwSize, dwFreeType);
   }
 
   // https://learn.microsoft.com/en-us/windows/win32/api/memoryapi/nf-memoryapi-virtuallock
-  public static VirtualLock(lpAddress: LPVOID, dwSize: LPVOID): BOOL {
+  public static VirtualLock(lpAddress: LPVOID, dwSize: SIZE_T): BOOL {
     return Kernel32.Load('VirtualLock')(lpAddress, dwSize);
   }
 
   // https://learn.microsoft.com/en-us/windows/win32/api/memoryapi/nf-memoryapi-virtualprotect
-  public static VirtualProtect(lpAddress: LPVOID, dwSize: LPVOID, flNewProtect: DWORD, lpflOldProtect: LPVOID): BOOL {
+  public static VirtualProtect(lpAddress: LPVOID, dwSize: SIZE_T, flNewProtect: DWORD, lpflOldProtect: LPVOID): BOOL {
     return Kernel32.Load('VirtualProtect')(lpAddress, dwSize, flNewProtect, lpflOldProtect);
   }
 
   // https://learn.microsoft.com/en-us/windows/win32/api/memoryapi/nf-memoryapi-virtualprotectex
-  public static VirtualProtectEx(hProcess: HANDLE, lpAddress: LPVOID, dwSize: LPVOID, flNewProtect: DWORD, lpflOldProtect: LPVOID): BOOL {
+  public static VirtualProtectEx(hProcess: HANDLE, lpAddress: LPVOID, dwSize: SIZE_T, flNewProtect: DWORD, lpflOldProtect: LPVOID): BOOL {
     return Kernel32.Load('VirtualProtectEx')(hProcess, lpAddress, dwSize, flNewProtect, lpflOldProtect);
   }
 
   // https://learn.microsoft.com/en-us/windows/win32/api/memoryapi/nf-memoryapi-virtualquery
-  public static VirtualQuery(lpAddress: LPVOID, lpBuffer: LPVOID, dwLength: LPVOID): LPVOID {
+  public static VirtualQuery(lpAddress: LPVOID, lpBuffer: LPVOID, dwLength: SIZE_T): SIZE_T {
     return Kernel32.Load('VirtualQuery')(lpAddress, lpBuffer, dwLength);
   }
 
   // https://learn.microsoft.com/en-us/windows/win32/api/memoryapi/nf-memoryapi-virtualqueryex
-  public static VirtualQueryEx(hProcess: HANDLE, lpAddress: LPVOID, lpBuffer: LPVOID, dwLength: LPVOID): LPVOID {
+  public static VirtualQueryEx(hProcess: HANDLE, lpAddress: LPVOID, lpBuffer: LPVOID, dwLength: SIZE_T): SIZE_T {
     return Kernel32.Load('VirtualQueryEx')(hProcess, lpAddress, lpBuffer, dwLength);
   }
 
   // https://learn.microsoft.com/en-us/windows/win32/api/memoryapi/nf-memoryapi-virtualunlock
-  public static VirtualUnlock(lpAddress: LPVOID, dwSize: LPVOID): BOOL {
+  public static VirtualUnlock(lpAddress: LPVOID, dwSize: SIZE_T): BOOL {
     return Kernel32.Load('VirtualUnlock')(lpAddress, dwSize);
   }
 
@@ -8265,6 +8644,7 @@ class Kernel32 {
   public static WaitForMultipleObjectsEx(nCount: DWORD, lpHandles: LPVOID, bWaitAll: BOOL, dwMilliseconds: DWORD, bAlertable: BOOL): DWORD {
     return Kernel32.Load('WaitForMultipleObjectsEx')(nCount, lpHandles, bWaitAll, dwMilliseconds, bAlertable);
   }
+
   // https://learn.microsoft.com/en-us/windows/win32/api/synchapi/nf-synchapi-waitforsingleobject
   public static WaitForSingleObject(hHandle: HANDLE, dwMilliseconds: DWORD): DWORD {
     return Kernel32.Load('WaitForSingleObject')(hHandle, dwMilliseconds);
@@ -8276,22 +8656,22 @@ class Kernel32 {
   }
 
   // https://learn.microsoft.com/en-us/windows/win32/api/synchapi/nf-synchapi-waitforthreadpooliocallbacks
-  public static WaitForThreadpoolIoCallbacks(pio: DWORD, fCancelPendingCallbacks: BOOL): VOID {
+  public static WaitForThreadpoolIoCallbacks(pio: PTP_IO, fCancelPendingCallbacks: BOOL): VOID {
     return Kernel32.Load('WaitForThreadpoolIoCallbacks')(pio, fCancelPendingCallbacks);
   }
 
   // https://learn.microsoft.com/en-us/windows/win32/api/synchapi/nf-synchapi-waitforthreadpooltimercallbacks
-  public static WaitForThreadpoolTimerCallbacks(pti: DWORD, fCancelPendingCallbacks: BOOL): VOID {
+  public static WaitForThreadpoolTimerCallbacks(pti: PTP_TIMER, fCancelPendingCallbacks: BOOL): VOID {
     return Kernel32.Load('WaitForThreadpoolTimerCallbacks')(pti, fCancelPendingCallbacks);
   }
 
   // https://learn.microsoft.com/en-us/windows/win32/api/synchapi/nf-synchapi-waitforthreadpoolwaitcallbacks
-  public static WaitForThreadpoolWaitCallbacks(pwa: DWORD, fCancelPendingCallbacks: BOOL): VOID {
+  public static WaitForThreadpoolWaitCallbacks(pwa: PTP_WAIT, fCancelPendingCallbacks: BOOL): VOID {
     return Kernel32.Load('WaitForThreadpoolWaitCallbacks')(pwa, fCancelPendingCallbacks);
   }
 
   // https://learn.microsoft.com/en-us/windows/win32/api/synchapi/nf-synchapi-waitforthreadpoolworkcallbacks
-  public static WaitForThreadpoolWorkCallbacks(pwk: DWORD, fCancelPendingCallbacks: BOOL): VOID {
+  public static WaitForThreadpoolWorkCallbacks(pwk: PTP_WORK, fCancelPendingCallbacks: BOOL): VOID {
     return Kernel32.Load('WaitForThreadpoolWorkCallbacks')(pwk, fCancelPendingCallbacks);
   }
 
@@ -8466,27 +8846,27 @@ class Kernel32 {
   }
 
   // https://learn.microsoft.com/en-us/windows/console/writeconsoleoutput
-  public static WriteConsoleOutputA(hConsoleOutput: HANDLE, lpBuffer: LPVOID, dwBufferSize: DWORD, dwBufferCoord: DWORD, lpWriteRegion: LPVOID): BOOL {
+  public static WriteConsoleOutputA(hConsoleOutput: HANDLE, lpBuffer: LPVOID, dwBufferSize: COORD, dwBufferCoord: COORD, lpWriteRegion: LPVOID): BOOL {
     return Kernel32.Load('WriteConsoleOutputA')(hConsoleOutput, lpBuffer, dwBufferSize, dwBufferCoord, lpWriteRegion);
   }
 
   // https://learn.microsoft.com/en-us/windows/console/writeconsoleoutputattribute
-  public static WriteConsoleOutputAttribute(hConsoleOutput: HANDLE, lpAttribute: LPVOID, nLength: DWORD, dwWriteCoord: DWORD, lpNumberOfAttrsWritten: LPVOID): BOOL {
+  public static WriteConsoleOutputAttribute(hConsoleOutput: HANDLE, lpAttribute: LPVOID, nLength: DWORD, dwWriteCoord: COORD, lpNumberOfAttrsWritten: LPVOID): BOOL {
     return Kernel32.Load('WriteConsoleOutputAttribute')(hConsoleOutput, lpAttribute, nLength, dwWriteCoord, lpNumberOfAttrsWritten);
   }
 
   // https://learn.microsoft.com/en-us/windows/console/writeconsoleoutputcharacter
-  public static WriteConsoleOutputCharacterA(hConsoleOutput: HANDLE, lpCharacter: LPSTR, nLength: DWORD, dwWriteCoord: DWORD, lpNumberOfCharsWritten: LPVOID): BOOL {
+  public static WriteConsoleOutputCharacterA(hConsoleOutput: HANDLE, lpCharacter: LPSTR, nLength: DWORD, dwWriteCoord: COORD, lpNumberOfCharsWritten: LPVOID): BOOL {
     return Kernel32.Load('WriteConsoleOutputCharacterA')(hConsoleOutput, lpCharacter, nLength, dwWriteCoord, lpNumberOfCharsWritten);
   }
 
   // https://learn.microsoft.com/en-us/windows/console/writeconsoleoutputcharacter
-  public static WriteConsoleOutputCharacterW(hConsoleOutput: HANDLE, lpCharacter: LPWSTR, nLength: DWORD, dwWriteCoord: DWORD, lpNumberOfCharsWritten: LPVOID): BOOL {
+  public static WriteConsoleOutputCharacterW(hConsoleOutput: HANDLE, lpCharacter: LPWSTR, nLength: DWORD, dwWriteCoord: COORD, lpNumberOfCharsWritten: LPVOID): BOOL {
     return Kernel32.Load('WriteConsoleOutputCharacterW')(hConsoleOutput, lpCharacter, nLength, dwWriteCoord, lpNumberOfCharsWritten);
   }
 
   // https://learn.microsoft.com/en-us/windows/console/writeconsoleoutput
-  public static WriteConsoleOutputW(hConsoleOutput: HANDLE, lpBuffer: LPVOID, dwBufferSize: DWORD, dwBufferCoord: DWORD, lpWriteRegion: LPVOID): BOOL {
+  public static WriteConsoleOutputW(hConsoleOutput: HANDLE, lpBuffer: LPVOID, dwBufferSize: COORD, dwBufferCoord: COORD, lpWriteRegion: LPVOID): BOOL {
     return Kernel32.Load('WriteConsoleOutputW')(hConsoleOutput, lpBuffer, dwBufferSize, dwBufferCoord, lpWriteRegion);
   }
 
@@ -8494,13 +8874,14 @@ class Kernel32 {
   public static WriteConsoleW(hConsoleOutput: HANDLE, lpBuffer: LPWSTR, nNumberOfCharsToWrite: DWORD, lpNumberOfCharsWritten: LPVOID, lpReserved: LPVOID): BOOL {
     return Kernel32.Load('WriteConsoleW')(hConsoleOutput, lpBuffer, nNumberOfCharsToWrite, lpNumberOfCharsWritten, lpReserved);
   }
+
   // https://learn.microsoft.com/en-us/windows/win32/api/fileapi/nf-fileapi-writefile
   public static WriteFile(hFile: HANDLE, lpBuffer: LPVOID, nNumberOfBytesToWrite: DWORD, lpNumberOfBytesWritten: LPVOID, lpOverlapped: LPVOID): BOOL {
     return Kernel32.Load('WriteFile')(hFile, lpBuffer, nNumberOfBytesToWrite, lpNumberOfBytesWritten, lpOverlapped);
   }
 
   // https://learn.microsoft.com/en-us/windows/win32/api/fileapi/nf-fileapi-writefileex
-  public static WriteFileEx(hFile: HANDLE, lpBuffer: LPVOID, nNumberOfBytesToWrite: DWORD, lpOverlapped: LPVOID, lpCompletionRoutine: DWORD): BOOL {
+  public static WriteFileEx(hFile: HANDLE, lpBuffer: LPVOID, nNumberOfBytesToWrite: DWORD, lpOverlapped: LPVOID, lpCompletionRoutine: LPOVERLAPPED_COMPLETION_ROUTINE): BOOL {
     return Kernel32.Load('WriteFileEx')(hFile, lpBuffer, nNumberOfBytesToWrite, lpOverlapped, lpCompletionRoutine);
   }
 
@@ -8540,7 +8921,7 @@ class Kernel32 {
   }
 
   // https://learn.microsoft.com/en-us/windows/win32/api/winbase/nf-winbase-writeprocessmemory
-  public static WriteProcessMemory(hProcess: HANDLE, lpBaseAddress: LPVOID, lpBuffer: LPVOID, nSize: LPVOID, lpNumberOfBytesWritten: LPVOID): BOOL {
+  public static WriteProcessMemory(hProcess: HANDLE, lpBaseAddress: LPVOID, lpBuffer: LPVOID, nSize: SIZE_T, lpNumberOfBytesWritten: LPVOID): BOOL {
     return Kernel32.Load('WriteProcessMemory')(hProcess, lpBaseAddress, lpBuffer, nSize, lpNumberOfBytesWritten);
   }
 
@@ -8655,7 +9036,7 @@ class Kernel32 {
   }
 
   // https://learn.microsoft.com/en-us/windows/win32/api/winbase/nf-winbase-uaw_wcschr
-  public static uaw_wcschr(String: LPVOID, Character: LPVOID): LPVOID {
+  public static uaw_wcschr(String: LPVOID, Character: WCHAR): LPVOID {
     return Kernel32.Load('uaw_wcschr')(String, Character);
   }
 
@@ -8675,7 +9056,7 @@ class Kernel32 {
   }
 
   // https://learn.microsoft.com/en-us/windows/win32/api/winbase/nf-winbase-uaw_wcsrchr
-  public static uaw_wcsrchr(String: LPVOID, Character: LPVOID): LPVOID {
+  public static uaw_wcsrchr(String: LPVOID, Character: WCHAR): LPVOID {
     return Kernel32.Load('uaw_wcsrchr')(String, Character);
   }
 }
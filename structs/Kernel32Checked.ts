@@ -0,0 +1,1207 @@
+import Kernel32 from './Kernel32';
+import Win32Error from './Win32Error';
+
+import type { BoundFunction, Kernel32Symbol } from '../types/Backend';
+import { type FailureConvention, Win32ErrorCode } from '../types/Kernel32';
+
+/**
+ * Failure convention of every export that reports failure through its return value.
+ *
+ * Exports that cannot fail, or whose return value does not distinguish failure
+ * (predicates such as `IsDebuggerPresent`, `VOID` functions), are omitted, as are exports
+ * that fail without setting a last-error value (`HeapAlloc`, `HeapReAlloc`), which
+ * would be reported with a stale code.
+ *
+ * Generated from the `failure` fields of `metadata/Kernel32.json`.
+ */
+const Failures = {
+  ActivateActCtx: 'FALSE',
+  ActivatePackageVirtualizationContext: 'FAILED',
+  AddAtomA: 'ZERO',
+  AddAtomW: 'ZERO',
+  AddConsoleAliasA: 'FALSE',
+  AddConsoleAliasW: 'FALSE',
+  AddDllDirectory: 'NULL',
+  AddIntegrityLabelToBoundaryDescriptor: 'FALSE',
+  AddResourceAttributeAce: 'FALSE',
+  AddScopedPolicyIDAce: 'FALSE',
+  AddSecureMemoryCacheCallback: 'FALSE',
+  AddSIDToBoundaryDescriptor: 'FALSE',
+  AddVectoredContinueHandler: 'NULL',
+  AddVectoredExceptionHandler: 'NULL',
+  AdjustCalendarDate: 'FALSE',
+  AllocateUserPhysicalPages: 'FALSE',
+  AllocateUserPhysicalPagesNuma: 'FALSE',
+  AllocConsole: 'FALSE',
+  AllocConsoleWithOptions: 'FAILED',
+  ApplicationRecoveryInProgress: 'FAILED',
+  AppPolicyGetClrCompat: 'ERROR_CODE',
+  AppPolicyGetCreateFileAccess: 'ERROR_CODE',
+  AppPolicyGetLifecycleManagement: 'ERROR_CODE',
+  AppPolicyGetMediaFoundationCodecLoading: 'ERROR_CODE',
+  AppPolicyGetProcessTerminationMethod: 'ERROR_CODE',
+  AppPolicyGetShowDeveloperDiagnostic: 'ERROR_CODE',
+  AppPolicyGetThreadInitializationType: 'ERROR_CODE',
+  AppPolicyGetWindowingModel: 'ERROR_CODE',
+  AreShortNamesEnabled: 'FALSE',
+  AssignProcessToJobObject: 'FALSE',
+  AttachConsole: 'FALSE',
+  BackupRead: 'FALSE',
+  BackupSeek: 'FALSE',
+  BackupWrite: 'FALSE',
+  Beep: 'FALSE',
+  BeginUpdateResourceA: 'NULL',
+  BeginUpdateResourceW: 'NULL',
+  BindIoCompletionCallback: 'FALSE',
+  BuildCommDCBA: 'FALSE',
+  BuildCommDCBAndTimeoutsA: 'FALSE',
+  BuildCommDCBAndTimeoutsW: 'FALSE',
+  BuildCommDCBW: 'FALSE',
+  BuildIoRingFlushFile: 'FAILED',
+  BuildIoRingReadFileScatter: 'FAILED',
+  BuildIoRingWriteFile: 'FAILED',
+  BuildIoRingWriteFileGather: 'FAILED',
+  CallNamedPipeA: 'FALSE',
+  CallNamedPipeW: 'FALSE',
+  CancelDeviceWakeupRequest: 'FALSE',
+  CancelIo: 'FALSE',
+  CancelIoEx: 'FALSE',
+  CancelSynchronousIo: 'FALSE',
+  CancelTimerQueueTimer: 'FALSE',
+  CancelWaitableTimer: 'FALSE',
+  ChangeTimerQueueTimer: 'FALSE',
+  CheckNameLegalDOS8Dot3A: 'FALSE',
+  CheckNameLegalDOS8Dot3W: 'FALSE',
+  CheckRemoteDebuggerPresent: 'FALSE',
+  CheckTokenCapability: 'FALSE',
+  CheckTokenMembershipEx: 'FALSE',
+  ClearCommBreak: 'FALSE',
+  ClearCommError: 'FALSE',
+  CloseConsoleHandle: 'FALSE',
+  CloseHandle: 'FALSE',
+  ClosePackageInfo: 'ERROR_CODE',
+  ClosePrivateNamespace: 'ZERO',
+  CommConfigDialogA: 'FALSE',
+  CommConfigDialogW: 'FALSE',
+  CompareStringA: 'ZERO',
+  CompareStringEx: 'ZERO',
+  CompareStringOrdinal: 'ZERO',
+  CompareStringW: 'ZERO',
+  ConnectNamedPipe: 'FALSE',
+  ContinueDebugEvent: 'FALSE',
+  ConvertCalDateTimeToSystemTime: 'FALSE',
+  ConvertFiberToThread: 'FALSE',
+  ConvertSystemTimeToCalDateTime: 'FALSE',
+  ConvertThreadToFiber: 'NULL',
+  ConvertThreadToFiberEx: 'NULL',
+  CopyContext: 'FALSE',
+  CopyFile2: 'FAILED',
+  CopyFileA: 'FALSE',
+  CopyFileExA: 'FALSE',
+  CopyFileExW: 'FALSE',
+  CopyFileTransactedA: 'FALSE',
+  CopyFileTransactedW: 'FALSE',
+  CopyFileW: 'FALSE',
+  CreateActCtxA: 'INVALID_HANDLE_VALUE',
+  CreateActCtxW: 'INVALID_HANDLE_VALUE',
+  CreateBoundaryDescriptorA: 'NULL',
+  CreateBoundaryDescriptorW: 'NULL',
+  CreateConsoleScreenBuffer: 'INVALID_HANDLE_VALUE',
+  CreateDirectory2A: 'INVALID_HANDLE_VALUE',
+  CreateDirectory2W: 'INVALID_HANDLE_VALUE',
+  CreateDirectoryA: 'FALSE',
+  CreateDirectoryExA: 'FALSE',
+  CreateDirectoryExW: 'FALSE',
+  CreateDirectoryTransactedA: 'FALSE',
+  CreateDirectoryTransactedW: 'FALSE',
+  CreateDirectoryW: 'FALSE',
+  CreateEnclave: 'NULL',
+  CreateEventA: 'NULL',
+  CreateEventExA: 'NULL',
+  CreateEventExW: 'NULL',
+  CreateEventW: 'NULL',
+  CreateFiber: 'NULL',
+  CreateFiberEx: 'NULL',
+  CreateFile2: 'INVALID_HANDLE_VALUE',
+  CreateFile3: 'INVALID_HANDLE_VALUE',
+  CreateFileA: 'INVALID_HANDLE_VALUE',
+  CreateFileMappingA: 'NULL',
+  CreateFileMappingFromApp: 'NULL',
+  CreateFileMappingNumaA: 'NULL',
+  CreateFileMappingNumaW: 'NULL',
+  CreateFileMappingW: 'NULL',
+  CreateFileTransactedA: 'INVALID_HANDLE_VALUE',
+  CreateFileTransactedW: 'INVALID_HANDLE_VALUE',
+  CreateFileW: 'INVALID_HANDLE_VALUE',
+  CreateHardLinkA: 'FALSE',
+  CreateHardLinkTransactedA: 'FALSE',
+  CreateHardLinkTransactedW: 'FALSE',
+  CreateHardLinkW: 'FALSE',
+  CreateIoCompletionPort: 'NULL',
+  CreateJobObjectA: 'NULL',
+  CreateJobObjectW: 'NULL',
+  CreateJobSet: 'FALSE',
+  CreateMailslotA: 'INVALID_HANDLE_VALUE',
+  CreateMailslotW: 'INVALID_HANDLE_VALUE',
+  CreateMemoryResourceNotification: 'NULL',
+  CreateMutexA: 'NULL',
+  CreateMutexExA: 'NULL',
+  CreateMutexExW: 'NULL',
+  CreateMutexW: 'NULL',
+  CreateNamedPipeA: 'INVALID_HANDLE_VALUE',
+  CreateNamedPipeW: 'INVALID_HANDLE_VALUE',
+  CreatePackageVirtualizationContext: 'FAILED',
+  CreatePipe: 'FALSE',
+  CreatePrivateNamespaceA: 'NULL',
+  CreatePrivateNamespaceW: 'NULL',
+  CreateProcessA: 'FALSE',
+  CreateProcessW: 'FALSE',
+  CreatePseudoConsole: 'FAILED',
+  CreateRemoteThread: 'NULL',
+  CreateRemoteThreadEx: 'NULL',
+  CreateSemaphoreA: 'NULL',
+  CreateSemaphoreExA: 'NULL',
+  CreateSemaphoreExW: 'NULL',
+  CreateSemaphoreW: 'NULL',
+  CreateSymbolicLinkA: 'FALSE',
+  CreateSymbolicLinkTransactedA: 'FALSE',
+  CreateSymbolicLinkTransactedW: 'FALSE',
+  CreateSymbolicLinkW: 'FALSE',
+  CreateTapePartition: 'ERROR_CODE',
+  CreateThread: 'NULL',
+  CreateThreadpool: 'NULL',
+  CreateThreadpoolCleanupGroup: 'NULL',
+  CreateThreadpoolIo: 'NULL',
+  CreateThreadpoolTimer: 'NULL',
+  CreateThreadpoolWait: 'NULL',
+  CreateThreadpoolWork: 'NULL',
+  CreateTimerQueue: 'NULL',
+  CreateTimerQueueTimer: 'FALSE',
+  CreateToolhelp32Snapshot: 'INVALID_HANDLE_VALUE',
+  CreateUmsCompletionList: 'FALSE',
+  CreateUmsThreadContext: 'FALSE',
+  CreateWaitableTimerA: 'NULL',
+  CreateWaitableTimerExA: 'NULL',
+  CreateWaitableTimerExW: 'NULL',
+  CreateWaitableTimerW: 'NULL',
+  DeactivateActCtx: 'FALSE',
+  DebugActiveProcess: 'FALSE',
+  DebugActiveProcessStop: 'FALSE',
+  DebugBreakProcess: 'FALSE',
+  DebugSetProcessKillOnExit: 'FALSE',
+  DefineDosDeviceA: 'FALSE',
+  DefineDosDeviceW: 'FALSE',
+  DeleteFile2A: 'FALSE',
+  DeleteFile2W: 'FALSE',
+  DeleteFileA: 'FALSE',
+  DeleteFileTransactedA: 'FALSE',
+  DeleteFileTransactedW: 'FALSE',
+  DeleteFileW: 'FALSE',
+  DeleteSynchronizationBarrier: 'FALSE',
+  DeleteTimerQueue: 'FALSE',
+  DeleteTimerQueueEx: 'FALSE',
+  DeleteTimerQueueTimer: 'FALSE',
+  DeleteUmsCompletionList: 'FALSE',
+  DeleteUmsThreadContext: 'FALSE',
+  DeleteVolumeMountPointA: 'FALSE',
+  DeleteVolumeMountPointW: 'FALSE',
+  DequeueUmsCompletionListItems: 'FALSE',
+  DeviceIoControl: 'FALSE',
+  DisableThreadLibraryCalls: 'FALSE',
+  DisableThreadProfiling: 'ERROR_CODE',
+  DiscardVirtualMemory: 'ERROR_CODE',
+  DisconnectNamedPipe: 'FALSE',
+  DnsHostnameToComputerNameA: 'FALSE',
+  DnsHostnameToComputerNameExW: 'FALSE',
+  DnsHostnameToComputerNameW: 'FALSE',
+  DosDateTimeToFileTime: 'FALSE',
+  DuplicateConsoleHandle: 'INVALID_HANDLE_VALUE',
+  DuplicateHandle: 'FALSE',
+  DuplicatePackageVirtualizationContext: 'FAILED',
+  EnableProcessOptionalXStateFeatures: 'FALSE',
+  EnableThreadProfiling: 'ERROR_CODE',
+  EndUpdateResourceA: 'FALSE',
+  EndUpdateResourceW: 'FALSE',
+  EnterUmsSchedulingMode: 'FALSE',
+  EnumCalendarInfoA: 'FALSE',
+  EnumCalendarInfoExA: 'FALSE',
+  EnumCalendarInfoExEx: 'FALSE',
+  EnumCalendarInfoExW: 'FALSE',
+  EnumCalendarInfoW: 'FALSE',
+  EnumDateFormatsA: 'FALSE',
+  EnumDateFormatsExA: 'FALSE',
+  EnumDateFormatsExEx: 'FALSE',
+  EnumDateFormatsExW: 'FALSE',
+  EnumDateFormatsW: 'FALSE',
+  EnumLanguageGroupLocalesA: 'FALSE',
+  EnumLanguageGroupLocalesW: 'FALSE',
+  EnumResourceLanguagesA: 'FALSE',
+  EnumResourceLanguagesExA: 'FALSE',
+  EnumResourceLanguagesExW: 'FALSE',
+  EnumResourceLanguagesW: 'FALSE',
+  EnumResourceNamesA: 'FALSE',
+  EnumResourceNamesExA: 'FALSE',
+  EnumResourceNamesExW: 'FALSE',
+  EnumResourceNamesW: 'FALSE',
+  EnumResourceTypesA: 'FALSE',
+  EnumResourceTypesExA: 'FALSE',
+  EnumResourceTypesExW: 'FALSE',
+  EnumResourceTypesW: 'FALSE',
+  EnumSystemCodePagesA: 'FALSE',
+  EnumSystemCodePagesW: 'FALSE',
+  EnumSystemFirmwareTables: 'ZERO',
+  EnumSystemGeoID: 'FALSE',
+  EnumSystemGeoNames: 'FALSE',
+  EnumSystemLanguageGroupsA: 'FALSE',
+  EnumSystemLanguageGroupsW: 'FALSE',
+  EnumSystemLocalesA: 'FALSE',
+  EnumSystemLocalesEx: 'FALSE',
+  EnumSystemLocalesW: 'FALSE',
+  EnumTimeFormatsA: 'FALSE',
+  EnumTimeFormatsEx: 'FALSE',
+  EnumTimeFormatsW: 'FALSE',
+  EnumUILanguagesA: 'FALSE',
+  EnumUILanguagesW: 'FALSE',
+  EraseTape: 'ERROR_CODE',
+  EscapeCommFunction: 'FALSE',
+  ExecuteUmsThread: 'FALSE',
+  ExpandEnvironmentStringsA: 'ZERO',
+  ExpandEnvironmentStringsW: 'ZERO',
+  FileTimeToDosDateTime: 'FALSE',
+  FileTimeToLocalFileTime: 'FALSE',
+  FileTimeToSystemTime: 'FALSE',
+  FillConsoleOutputAttribute: 'FALSE',
+  FillConsoleOutputCharacterA: 'FALSE',
+  FillConsoleOutputCharacterW: 'FALSE',
+  FindActCtxSectionGuid: 'FALSE',
+  FindActCtxSectionStringA: 'FALSE',
+  FindActCtxSectionStringW: 'FALSE',
+  FindAtomA: 'ZERO',
+  FindAtomW: 'ZERO',
+  FindClose: 'FALSE',
+  FindCloseChangeNotification: 'FALSE',
+  FindFirstChangeNotificationA: 'INVALID_HANDLE_VALUE',
+  FindFirstChangeNotificationW: 'INVALID_HANDLE_VALUE',
+  FindFirstFileA: 'INVALID_HANDLE_VALUE',
+  FindFirstFileExA: 'INVALID_HANDLE_VALUE',
+  FindFirstFileExW: 'INVALID_HANDLE_VALUE',
+  FindFirstFileNameTransactedW: 'INVALID_HANDLE_VALUE',
+  FindFirstFileNameW: 'INVALID_HANDLE_VALUE',
+  FindFirstFileTransactedA: 'INVALID_HANDLE_VALUE',
+  FindFirstFileTransactedW: 'INVALID_HANDLE_VALUE',
+  FindFirstFileW: 'INVALID_HANDLE_VALUE',
+  FindFirstStreamTransactedW: 'INVALID_HANDLE_VALUE',
+  FindFirstStreamW: 'INVALID_HANDLE_VALUE',
+  FindFirstVolumeA: 'INVALID_HANDLE_VALUE',
+  FindFirstVolumeMountPointA: 'INVALID_HANDLE_VALUE',
+  FindFirstVolumeMountPointW: 'INVALID_HANDLE_VALUE',
+  FindFirstVolumeW: 'INVALID_HANDLE_VALUE',
+  FindNextChangeNotification: 'FALSE',
+  FindNextFileA: 'FALSE',
+  FindNextFileNameW: 'FALSE',
+  FindNextFileW: 'FALSE',
+  FindNextStreamW: 'FALSE',
+  FindNextVolumeA: 'FALSE',
+  FindNextVolumeMountPointA: 'FALSE',
+  FindNextVolumeMountPointW: 'FALSE',
+  FindNextVolumeW: 'FALSE',
+  FindPackagesByPackageFamily: 'ERROR_CODE',
+  FindResourceA: 'NULL',
+  FindResourceExA: 'NULL',
+  FindResourceExW: 'NULL',
+  FindResourceW: 'NULL',
+  FindVolumeClose: 'FALSE',
+  FindVolumeMountPointClose: 'FALSE',
+  FlsAlloc: 'MAXDWORD',
+  FlsFree: 'FALSE',
+  FlsSetValue: 'FALSE',
+  FlushConsoleInputBuffer: 'FALSE',
+  FlushFileBuffers: 'FALSE',
+  FlushInstructionCache: 'FALSE',
+  FlushViewOfFile: 'FALSE',
+  FoldStringA: 'ZERO',
+  FoldStringW: 'ZERO',
+  FormatApplicationUserModelId: 'ERROR_CODE',
+  FormatMessageA: 'ZERO',
+  FormatMessageW: 'ZERO',
+  FreeConsole: 'FALSE',
+  FreeEnvironmentStringsA: 'FALSE',
+  FreeEnvironmentStringsW: 'FALSE',
+  FreeLibrary: 'FALSE',
+  FreeUserPhysicalPages: 'FALSE',
+  GenerateConsoleCtrlEvent: 'FALSE',
+  GetActiveProcessorCount: 'ZERO',
+  GetActiveProcessorGroupCount: 'ZERO',
+  GetAppContainerAce: 'FALSE',
+  GetAppContainerNamedObjectPath: 'FALSE',
+  GetApplicationRecoveryCallback: 'FAILED',
+  GetApplicationRestartSettings: 'FAILED',
+  GetApplicationUserModelId: 'ERROR_CODE',
+  GetAtomNameA: 'ZERO',
+  GetAtomNameW: 'ZERO',
+  GetBinaryTypeA: 'FALSE',
+  GetBinaryTypeW: 'FALSE',
+  GetCachedSigningLevel: 'FALSE',
+  GetCalendarDateFormatEx: 'FALSE',
+  GetCalendarInfoA: 'ZERO',
+  GetCalendarInfoEx: 'ZERO',
+  GetCalendarInfoW: 'ZERO',
+  GetCalendarSupportedDateRange: 'FALSE',
+  GetCommConfig: 'FALSE',
+  GetCommMask: 'FALSE',
+  GetCommModemStatus: 'FALSE',
+  GetCommProperties: 'FALSE',
+  GetCommState: 'FALSE',
+  GetCommTimeouts: 'FALSE',
+  GetComputerNameA: 'FALSE',
+  GetComputerNameExA: 'FALSE',
+  GetComputerNameExW: 'FALSE',
+  GetComputerNameW: 'FALSE',
+  GetConsoleAliasA: 'ZERO',
+  GetConsoleAliasesA: 'ZERO',
+  GetConsoleAliasesW: 'ZERO',
+  GetConsoleAliasExesA: 'ZERO',
+  GetConsoleAliasExesW: 'ZERO',
+  GetConsoleAliasW: 'ZERO',
+  GetConsoleCharType: 'FALSE',
+  GetConsoleCP: 'ZERO',
+  GetConsoleCursorInfo: 'FALSE',
+  GetConsoleCursorMode: 'FALSE',
+  GetConsoleDisplayMode: 'FALSE',
+  GetConsoleFontInfo: 'FALSE',
+  GetConsoleHardwareState: 'FALSE',
+  GetConsoleHistoryInfo: 'FALSE',
+  GetConsoleMode: 'FALSE',
+  GetConsoleNlsMode: 'FALSE',
+  GetConsoleOriginalTitleA: 'ZERO',
+  GetConsoleOriginalTitleW: 'ZERO',
+  GetConsoleOutputCP: 'ZERO',
+  GetConsoleProcessList: 'ZERO',
+  GetConsoleScreenBufferInfo: 'FALSE',
+  GetConsoleScreenBufferInfoEx: 'FALSE',
+  GetConsoleSelectionInfo: 'FALSE',
+  GetConsoleTitleA: 'ZERO',
+  GetConsoleTitleW: 'ZERO',
+  GetCPInfo: 'FALSE',
+  GetCPInfoExA: 'FALSE',
+  GetCPInfoExW: 'FALSE',
+  GetCurrencyFormatA: 'ZERO',
+  GetCurrencyFormatEx: 'ZERO',
+  GetCurrencyFormatW: 'ZERO',
+  GetCurrentActCtx: 'FALSE',
+  GetCurrentApplicationUserModelId: 'ERROR_CODE',
+  GetCurrentConsoleFont: 'FALSE',
+  GetCurrentConsoleFontEx: 'FALSE',
+  GetCurrentDirectoryA: 'ZERO',
+  GetCurrentDirectoryW: 'ZERO',
+  GetCurrentPackageFamilyName: 'ERROR_CODE',
+  GetCurrentPackageFullName: 'ERROR_CODE',
+  GetCurrentPackageId: 'ERROR_CODE',
+  GetCurrentPackageInfo: 'ERROR_CODE',
+  GetCurrentPackagePath: 'ERROR_CODE',
+  GetDateFormatA: 'ZERO',
+  GetDateFormatEx: 'ZERO',
+  GetDateFormatW: 'ZERO',
+  GetDefaultCommConfigA: 'FALSE',
+  GetDefaultCommConfigW: 'FALSE',
+  GetDevicePowerState: 'FALSE',
+  GetDiskFreeSpaceA: 'FALSE',
+  GetDiskFreeSpaceExA: 'FALSE',
+  GetDiskFreeSpaceExW: 'FALSE',
+  GetDiskFreeSpaceW: 'FALSE',
+  GetDiskSpaceInformationA: 'FAILED',
+  GetDiskSpaceInformationW: 'FAILED',
+  GetDllDirectoryA: 'ZERO',
+  GetDllDirectoryW: 'ZERO',
+  GetDurationFormat: 'ZERO',
+  GetDurationFormatEx: 'ZERO',
+  GetDynamicTimeZoneInformation: 'MAXDWORD',
+  GetEnvironmentStrings: 'NULL',
+  GetEnvironmentStringsW: 'NULL',
+  GetEnvironmentVariableA: 'ZERO',
+  GetEnvironmentVariableW: 'ZERO',
+  GetExitCodeProcess: 'FALSE',
+  GetExitCodeThread: 'FALSE',
+  GetFileAttributesA: 'MAXDWORD',
+  GetFileAttributesExA: 'FALSE',
+  GetFileAttributesExW: 'FALSE',
+  GetFileAttributesTransactedA: 'FALSE',
+  GetFileAttributesTransactedW: 'FALSE',
+  GetFileAttributesW: 'MAXDWORD',
+  GetFileBandwidthReservation: 'FALSE',
+  GetFileInformationByHandle: 'FALSE',
+  GetFileInformationByHandleEx: 'FALSE',
+  GetFileInformationByName: 'FALSE',
+  GetFileMUIInfo: 'FALSE',
+  GetFileMUIPath: 'FALSE',
+  GetFileSizeEx: 'FALSE',
+  GetFileTime: 'FALSE',
+  GetFinalPathNameByHandleA: 'ZERO',
+  GetFinalPathNameByHandleW: 'ZERO',
+  GetFirmwareEnvironmentVariableA: 'ZERO',
+  GetFirmwareEnvironmentVariableExA: 'ZERO',
+  GetFirmwareEnvironmentVariableExW: 'ZERO',
+  GetFirmwareEnvironmentVariableW: 'ZERO',
+  GetFirmwareType: 'FALSE',
+  GetFullPathNameA: 'ZERO',
+  GetFullPathNameTransactedA: 'ZERO',
+  GetFullPathNameTransactedW: 'ZERO',
+  GetFullPathNameW: 'ZERO',
+  GetGeoInfoA: 'ZERO',
+  GetGeoInfoEx: 'ZERO',
+  GetGeoInfoW: 'ZERO',
+  GetHandleInformation: 'FALSE',
+  GetLocaleInfoA: 'ZERO',
+  GetLocaleInfoEx: 'ZERO',
+  GetLocaleInfoW: 'ZERO',
+  GetLogicalDrives: 'ZERO',
+  GetLogicalDriveStringsA: 'ZERO',
+  GetLogicalDriveStringsW: 'ZERO',
+  GetLogicalProcessorInformation: 'FALSE',
+  GetLogicalProcessorInformationEx: 'FALSE',
+  GetLongPathNameA: 'ZERO',
+  GetLongPathNameTransactedA: 'ZERO',
+  GetLongPathNameTransactedW: 'ZERO',
+  GetLongPathNameW: 'ZERO',
+  GetMachineTypeAttributes: 'FAILED',
+  GetMailslotInfo: 'FALSE',
+  GetMaximumProcessorCount: 'ZERO',
+  GetMaximumProcessorGroupCount: 'ZERO',
+  GetMemoryErrorHandlingCapabilities: 'FALSE',
+  GetModuleFileNameA: 'ZERO',
+  GetModuleFileNameW: 'ZERO',
+  GetModuleHandleA: 'NULL',
+  GetModuleHandleExA: 'FALSE',
+  GetModuleHandleExW: 'FALSE',
+  GetModuleHandleW: 'NULL',
+  GetNamedPipeClientComputerNameA: 'FALSE',
+  GetNamedPipeClientComputerNameW: 'FALSE',
+  GetNamedPipeClientProcessId: 'FALSE',
+  GetNamedPipeClientSessionId: 'FALSE',
+  GetNamedPipeHandleStateA: 'FALSE',
+  GetNamedPipeHandleStateW: 'FALSE',
+  GetNamedPipeInfo: 'FALSE',
+  GetNamedPipeServerProcessId: 'FALSE',
+  GetNamedPipeServerSessionId: 'FALSE',
+  GetNLSVersion: 'FALSE',
+  GetNLSVersionEx: 'FALSE',
+  GetNumaAvailableMemoryNode: 'FALSE',
+  GetNumaAvailableMemoryNodeEx: 'FALSE',
+  GetNumaHighestNodeNumber: 'FALSE',
+  GetNumaNodeNumberFromHandle: 'FALSE',
+  GetNumaNodeProcessorMask: 'FALSE',
+  GetNumaNodeProcessorMask2: 'FALSE',
+  GetNumaNodeProcessorMaskEx: 'FALSE',
+  GetNumaProcessorNode: 'FALSE',
+  GetNumaProcessorNodeEx: 'FALSE',
+  GetNumaProximityNode: 'FALSE',
+  GetNumaProximityNodeEx: 'FALSE',
+  GetNumberFormatA: 'ZERO',
+  GetNumberFormatEx: 'ZERO',
+  GetNumberFormatW: 'ZERO',
+  GetNumberOfConsoleInputEvents: 'FALSE',
+  GetNumberOfConsoleMouseButtons: 'FALSE',
+  GetOverlappedResult: 'FALSE',
+  GetOverlappedResultEx: 'FALSE',
+  GetPackageApplicationIds: 'ERROR_CODE',
+  GetPackageFamilyName: 'ERROR_CODE',
+  GetPackageFullName: 'ERROR_CODE',
+  GetPackageId: 'ERROR_CODE',
+  GetPackageInfo: 'ERROR_CODE',
+  GetPackagePath: 'ERROR_CODE',
+  GetPackagePathByFullName: 'ERROR_CODE',
+  GetPackagesByPackageFamily: 'ERROR_CODE',
+  GetPhysicallyInstalledSystemMemory: 'FALSE',
+  GetPriorityClass: 'ZERO',
+  GetPrivateProfileStructA: 'FALSE',
+  GetPrivateProfileStructW: 'FALSE',
+  GetProcAddress: 'NULL',
+  GetProcessAffinityMask: 'FALSE',
+  GetProcessDefaultCpuSetMasks: 'FALSE',
+  GetProcessDefaultCpuSets: 'FALSE',
+  GetProcessDEPPolicy: 'FALSE',
+  GetProcessesInVirtualizationContext: 'FAILED',
+  GetProcessGroupAffinity: 'FALSE',
+  GetProcessHandleCount: 'FALSE',
+  GetProcessHeap: 'NULL',
+  GetProcessId: 'ZERO',
+  GetProcessIdOfThread: 'ZERO',
+  GetProcessInformation: 'FALSE',
+  GetProcessIoCounters: 'FALSE',
+  GetProcessMitigationPolicy: 'FALSE',
+  GetProcessorSystemCycleTime: 'FALSE',
+  GetProcessPreferredUILanguages: 'FALSE',
+  GetProcessPriorityBoost: 'FALSE',
+  GetProcessShutdownParameters: 'FALSE',
+  GetProcessTimes: 'FALSE',
+  GetProcessVersion: 'ZERO',
+  GetProcessWorkingSetSize: 'FALSE',
+  GetProcessWorkingSetSizeEx: 'FALSE',
+  GetProductInfo: 'FALSE',
+  GetQueuedCompletionStatus: 'FALSE',
+  GetQueuedCompletionStatusEx: 'FALSE',
+  GetShortPathNameA: 'ZERO',
+  GetShortPathNameW: 'ZERO',
+  GetStagedPackagePathByFullName: 'ERROR_CODE',
+  GetStdHandle: 'INVALID_HANDLE_VALUE_OR_NULL',
+  GetStringScripts: 'ZERO',
+  GetStringTypeA: 'FALSE',
+  GetStringTypeExA: 'FALSE',
+  GetStringTypeExW: 'FALSE',
+  GetStringTypeW: 'FALSE',
+  GetSystemCpuSetInformation: 'FALSE',
+  GetSystemDefaultLocaleName: 'ZERO',
+  GetSystemDirectoryA: 'ZERO',
+  GetSystemDirectoryW: 'ZERO',
+  GetSystemFileCacheSize: 'FALSE',
+  GetSystemFirmwareTable: 'ZERO',
+  GetSystemPowerStatus: 'FALSE',
+  GetSystemPreferredUILanguages: 'FALSE',
+  GetSystemRegistryQuota: 'FALSE',
+  GetSystemTimeAdjustment: 'FALSE',
+  GetSystemTimes: 'FALSE',
+  GetSystemWindowsDirectoryA: 'ZERO',
+  GetSystemWindowsDirectoryW: 'ZERO',
+  GetSystemWow64DirectoryA: 'ZERO',
+  GetSystemWow64DirectoryW: 'ZERO',
+  GetTapeParameters: 'ERROR_CODE',
+  GetTapePosition: 'ERROR_CODE',
+  GetTapeStatus: 'ERROR_CODE',
+  GetTempFileNameA: 'ZERO',
+  GetTempFileNameW: 'ZERO',
+  GetTempPath2A: 'ZERO',
+  GetTempPath2W: 'ZERO',
+  GetTempPathA: 'ZERO',
+  GetTempPathW: 'ZERO',
+  GetThreadContext: 'FALSE',
+  GetThreadDescription: 'FAILED',
+  GetThreadGroupAffinity: 'FALSE',
+  GetThreadId: 'ZERO',
+  GetThreadIdealProcessorEx: 'FALSE',
+  GetThreadInformation: 'FALSE',
+  GetThreadIOPendingFlag: 'FALSE',
+  GetThreadPreferredUILanguages: 'FALSE',
+  GetThreadPriorityBoost: 'FALSE',
+  GetThreadSelectedCpuSetMasks: 'FALSE',
+  GetThreadSelectedCpuSets: 'FALSE',
+  GetThreadSelectorEntry: 'FALSE',
+  GetThreadTimes: 'FALSE',
+  GetTimeFormatA: 'ZERO',
+  GetTimeFormatEx: 'ZERO',
+  GetTimeFormatW: 'ZERO',
+  GetTimeZoneInformation: 'MAXDWORD',
+  GetTimeZoneInformationForYear: 'FALSE',
+  GetUILanguageInfo: 'FALSE',
+  GetUmsCompletionListEvent: 'FALSE',
+  GetUmsSystemThreadInformation: 'FALSE',
+  GetUserDefaultGeoName: 'ZERO',
+  GetUserDefaultLocaleName: 'ZERO',
+  GetUserPreferredUILanguages: 'FALSE',
+  GetVersionExA: 'FALSE',
+  GetVersionExW: 'FALSE',
+  GetVolumeInformationA: 'FALSE',
+  GetVolumeInformationByHandleW: 'FALSE',
+  GetVolumeInformationW: 'FALSE',
+  GetVolumeNameForVolumeMountPointA: 'FALSE',
+  GetVolumeNameForVolumeMountPointW: 'FALSE',
+  GetVolumePathNameA: 'FALSE',
+  GetVolumePathNamesForVolumeNameA: 'FALSE',
+  GetVolumePathNamesForVolumeNameW: 'FALSE',
+  GetVolumePathNameW: 'FALSE',
+  GetWindowsDirectoryA: 'ZERO',
+  GetWindowsDirectoryW: 'ZERO',
+  GetXStateFeaturesMask: 'FALSE',
+  GlobalAddAtomA: 'ZERO',
+  GlobalAddAtomExA: 'ZERO',
+  GlobalAddAtomExW: 'ZERO',
+  GlobalAddAtomW: 'ZERO',
+  GlobalAlloc: 'NULL',
+  GlobalFindAtomA: 'ZERO',
+  GlobalFindAtomW: 'ZERO',
+  GlobalGetAtomNameA: 'ZERO',
+  GlobalGetAtomNameW: 'ZERO',
+  GlobalHandle: 'NULL',
+  GlobalLock: 'NULL',
+  GlobalMemoryStatusEx: 'FALSE',
+  GlobalReAlloc: 'NULL',
+  Heap32First: 'FALSE',
+  Heap32ListFirst: 'FALSE',
+  Heap32ListNext: 'FALSE',
+  Heap32Next: 'FALSE',
+  HeapCreate: 'NULL',
+  HeapDestroy: 'FALSE',
+  HeapFree: 'FALSE',
+  HeapLock: 'FALSE',
+  HeapQueryInformation: 'FALSE',
+  HeapSetInformation: 'FALSE',
+  HeapSummary: 'FALSE',
+  HeapUnlock: 'FALSE',
+  HeapWalk: 'FALSE',
+  IdnToNameprepUnicode: 'ZERO',
+  InitAtomTable: 'FALSE',
+  InitializeContext: 'FALSE',
+  InitializeContext2: 'FALSE',
+  InitializeCriticalSectionAndSpinCount: 'FALSE',
+  InitializeCriticalSectionEx: 'FALSE',
+  InitializeEnclave: 'FALSE',
+  InitializeProcThreadAttributeList: 'FALSE',
+  InitializeSynchronizationBarrier: 'FALSE',
+  InitOnceBeginInitialize: 'FALSE',
+  InitOnceComplete: 'FALSE',
+  InitOnceExecuteOnce: 'FALSE',
+  InstallELAMCertificateInfo: 'FALSE',
+  InvalidateConsoleDIBits: 'FALSE',
+  IsNativeVhdBoot: 'FALSE',
+  IsProcessCritical: 'FALSE',
+  IsProcessInJob: 'FALSE',
+  IsWow64GuestMachineSupported: 'FAILED',
+  IsWow64Process: 'FALSE',
+  IsWow64Process2: 'FALSE',
+  K32EmptyWorkingSet: 'FALSE',
+  K32EnumDeviceDrivers: 'FALSE',
+  K32EnumPageFilesA: 'FALSE',
+  K32EnumPageFilesW: 'FALSE',
+  K32EnumProcesses: 'FALSE',
+  K32EnumProcessModules: 'FALSE',
+  K32EnumProcessModulesEx: 'FALSE',
+  K32GetDeviceDriverBaseNameA: 'ZERO',
+  K32GetDeviceDriverBaseNameW: 'ZERO',
+  K32GetDeviceDriverFileNameA: 'ZERO',
+  K32GetDeviceDriverFileNameW: 'ZERO',
+  K32GetMappedFileNameA: 'ZERO',
+  K32GetMappedFileNameW: 'ZERO',
+  K32GetModuleBaseNameA: 'ZERO',
+  K32GetModuleBaseNameW: 'ZERO',
+  K32GetModuleFileNameExA: 'ZERO',
+  K32GetModuleFileNameExW: 'ZERO',
+  K32GetModuleInformation: 'FALSE',
+  K32GetPerformanceInfo: 'FALSE',
+  K32GetProcessImageFileNameA: 'ZERO',
+  K32GetProcessImageFileNameW: 'ZERO',
+  K32GetProcessMemoryInfo: 'FALSE',
+  K32GetWsChanges: 'FALSE',
+  K32GetWsChangesEx: 'FALSE',
+  K32InitializeProcessForWsWatch: 'FALSE',
+  K32QueryWorkingSet: 'FALSE',
+  K32QueryWorkingSetEx: 'FALSE',
+  LCIDToLocaleName: 'ZERO',
+  LCMapStringA: 'ZERO',
+  LCMapStringEx: 'ZERO',
+  LCMapStringW: 'ZERO',
+  LoadEnclaveData: 'FALSE',
+  LoadLibraryA: 'NULL',
+  LoadLibraryExA: 'NULL',
+  LoadLibraryExW: 'NULL',
+  LoadLibraryW: 'NULL',
+  LoadPackagedLibrary: 'NULL',
+  LoadResource: 'NULL',
+  LocalAlloc: 'NULL',
+  LocaleNameToLCID: 'ZERO',
+  LocalFileTimeToFileTime: 'FALSE',
+  LocalFileTimeToLocalSystemTime: 'FALSE',
+  LocalHandle: 'NULL',
+  LocalLock: 'NULL',
+  LocalReAlloc: 'NULL',
+  LocalSystemTimeToLocalFileTime: 'FALSE',
+  LockFile: 'FALSE',
+  LockFileEx: 'FALSE',
+  LockResource: 'NULL',
+  MapUserPhysicalPages: 'FALSE',
+  MapUserPhysicalPagesScatter: 'FALSE',
+  MapViewOfFile: 'NULL',
+  MapViewOfFileEx: 'NULL',
+  MapViewOfFileExNuma: 'NULL',
+  MapViewOfFileFromApp: 'NULL',
+  Module32First: 'FALSE',
+  Module32FirstW: 'FALSE',
+  Module32Next: 'FALSE',
+  Module32NextW: 'FALSE',
+  MoveFileA: 'FALSE',
+  MoveFileExA: 'FALSE',
+  MoveFileExW: 'FALSE',
+  MoveFileTransactedA: 'FALSE',
+  MoveFileTransactedW: 'FALSE',
+  MoveFileW: 'FALSE',
+  MoveFileWithProgressA: 'FALSE',
+  MoveFileWithProgressW: 'FALSE',
+  MultiByteToWideChar: 'ZERO',
+  NormalizeString: 'ZERO',
+  NotifyUILanguageChange: 'FALSE',
+  OfferVirtualMemory: 'ERROR_CODE',
+  OOBEComplete: 'FALSE',
+  OpenEventA: 'NULL',
+  OpenEventW: 'NULL',
+  OpenFileById: 'INVALID_HANDLE_VALUE',
+  OpenFileMappingA: 'NULL',
+  OpenFileMappingW: 'NULL',
+  OpenJobObjectA: 'NULL',
+  OpenJobObjectW: 'NULL',
+  OpenMutexA: 'NULL',
+  OpenMutexW: 'NULL',
+  OpenPackageInfoByFullName: 'ERROR_CODE',
+  OpenPrivateNamespaceA: 'NULL',
+  OpenPrivateNamespaceW: 'NULL',
+  OpenProcess: 'NULL',
+  OpenSemaphoreA: 'NULL',
+  OpenSemaphoreW: 'NULL',
+  OpenThread: 'NULL',
+  OpenWaitableTimerA: 'NULL',
+  OpenWaitableTimerW: 'NULL',
+  PackageFamilyNameFromFullName: 'ERROR_CODE',
+  PackageFamilyNameFromId: 'ERROR_CODE',
+  PackageFullNameFromId: 'ERROR_CODE',
+  PackageIdFromFullName: 'ERROR_CODE',
+  PackageNameAndPublisherIdFromFamilyName: 'ERROR_CODE',
+  ParseApplicationUserModelId: 'ERROR_CODE',
+  PeekConsoleInputA: 'FALSE',
+  PeekConsoleInputW: 'FALSE',
+  PeekNamedPipe: 'FALSE',
+  PostQueuedCompletionStatus: 'FALSE',
+  PowerClearRequest: 'FALSE',
+  PowerCreateRequest: 'INVALID_HANDLE_VALUE',
+  PowerSetRequest: 'FALSE',
+  PrefetchVirtualMemory: 'FALSE',
+  PrepareTape: 'ERROR_CODE',
+  Process32First: 'FALSE',
+  Process32FirstW: 'FALSE',
+  Process32Next: 'FALSE',
+  Process32NextW: 'FALSE',
+  ProcessIdToSessionId: 'FALSE',
+  PssCaptureSnapshot: 'ERROR_CODE',
+  PssDuplicateSnapshot: 'ERROR_CODE',
+  PssFreeSnapshot: 'ERROR_CODE',
+  PssQuerySnapshot: 'ERROR_CODE',
+  PssWalkMarkerCreate: 'ERROR_CODE',
+  PssWalkMarkerFree: 'ERROR_CODE',
+  PssWalkMarkerGetPosition: 'ERROR_CODE',
+  PssWalkMarkerSeekToBeginning: 'ERROR_CODE',
+  PssWalkMarkerSetPosition: 'ERROR_CODE',
+  PssWalkSnapshot: 'ERROR_CODE',
+  PulseEvent: 'FALSE',
+  PurgeComm: 'FALSE',
+  QueryActCtxSettingsW: 'FALSE',
+  QueryActCtxW: 'FALSE',
+  QueryDosDeviceA: 'ZERO',
+  QueryDosDeviceW: 'ZERO',
+  QueryFullProcessImageNameA: 'FALSE',
+  QueryFullProcessImageNameW: 'FALSE',
+  QueryIdleProcessorCycleTime: 'FALSE',
+  QueryIdleProcessorCycleTimeEx: 'FALSE',
+  QueryInformationJobObject: 'FALSE',
+  QueryMemoryResourceNotification: 'FALSE',
+  QueryPerformanceCounter: 'FALSE',
+  QueryPerformanceFrequency: 'FALSE',
+  QueryProcessAffinityUpdateMode: 'FALSE',
+  QueryProcessCycleTime: 'FALSE',
+  QueryProtectedPolicy: 'FALSE',
+  QueryThreadCycleTime: 'FALSE',
+  QueryThreadpoolStackInformation: 'FALSE',
+  QueryThreadProfiling: 'ERROR_CODE',
+  QueryUmsThreadInformation: 'FALSE',
+  QueryUnbiasedInterruptTime: 'FALSE',
+  QueueUserAPC: 'ZERO',
+  QueueUserAPC2: 'FALSE',
+  QueueUserWorkItem: 'FALSE',
+  ReadConsoleA: 'FALSE',
+  ReadConsoleInputA: 'FALSE',
+  ReadConsoleInputExA: 'FALSE',
+  ReadConsoleInputExW: 'FALSE',
+  ReadConsoleInputW: 'FALSE',
+  ReadConsoleOutputA: 'FALSE',
+  ReadConsoleOutputAttribute: 'FALSE',
+  ReadConsoleOutputCharacterA: 'FALSE',
+  ReadConsoleOutputCharacterW: 'FALSE',
+  ReadConsoleOutputW: 'FALSE',
+  ReadConsoleW: 'FALSE',
+  ReadDirectoryChangesExW: 'FALSE',
+  ReadDirectoryChangesW: 'FALSE',
+  ReadFile: 'FALSE',
+  ReadFileEx: 'FALSE',
+  ReadFileScatter: 'FALSE',
+  ReadProcessMemory: 'FALSE',
+  ReadThreadProfilingData: 'ERROR_CODE',
+  ReclaimVirtualMemory: 'ERROR_CODE',
+  RegisterApplicationRecoveryCallback: 'FAILED',
+  RegisterApplicationRestart: 'FAILED',
+  RegisterBadMemoryNotification: 'NULL',
+  RegisterConsoleIME: 'FALSE',
+  RegisterConsoleOS2: 'FALSE',
+  RegisterConsoleVDM: 'FALSE',
+  RegisterWaitForSingleObject: 'FALSE',
+  RegisterWaitUntilOOBECompleted: 'FALSE',
+  ReleaseMutex: 'FALSE',
+  ReleasePseudoConsole: 'FAILED',
+  ReleaseSemaphore: 'FALSE',
+  RemoveDirectory2A: 'FALSE',
+  RemoveDirectory2W: 'FALSE',
+  RemoveDirectoryA: 'FALSE',
+  RemoveDirectoryTransactedA: 'FALSE',
+  RemoveDirectoryTransactedW: 'FALSE',
+  RemoveDirectoryW: 'FALSE',
+  RemoveDllDirectory: 'FALSE',
+  RemoveSecureMemoryCacheCallback: 'FALSE',
+  RemoveVectoredContinueHandler: 'ZERO',
+  RemoveVectoredExceptionHandler: 'ZERO',
+  ReOpenFile: 'INVALID_HANDLE_VALUE',
+  ReplaceFileA: 'FALSE',
+  ReplaceFileW: 'FALSE',
+  ReplacePartitionUnit: 'FALSE',
+  RequestDeviceWakeup: 'FALSE',
+  RequestWakeupLatency: 'FALSE',
+  ResetEvent: 'FALSE',
+  ResizePseudoConsole: 'FAILED',
+  ResolveLocaleName: 'ZERO',
+  ResumeThread: 'MAXDWORD',
+  RtlAddFunctionTable: 'ZERO',
+  RtlDeleteFunctionTable: 'ZERO',
+  RtlInstallFunctionTableCallback: 'ZERO',
+  ScrollConsoleScreenBufferA: 'FALSE',
+  ScrollConsoleScreenBufferW: 'FALSE',
+  SearchPathA: 'ZERO',
+  SearchPathW: 'ZERO',
+  SetCachedSigningLevel: 'FALSE',
+  SetCalendarInfoA: 'FALSE',
+  SetCalendarInfoW: 'FALSE',
+  SetCommBreak: 'FALSE',
+  SetCommConfig: 'FALSE',
+  SetCommMask: 'FALSE',
+  SetCommState: 'FALSE',
+  SetCommTimeouts: 'FALSE',
+  SetComputerNameA: 'FALSE',
+  SetComputerNameEx2W: 'FALSE',
+  SetComputerNameExA: 'FALSE',
+  SetComputerNameExW: 'FALSE',
+  SetComputerNameW: 'FALSE',
+  SetConsoleActiveScreenBuffer: 'FALSE',
+  SetConsoleCP: 'FALSE',
+  SetConsoleCtrlHandler: 'FALSE',
+  SetConsoleCursor: 'FALSE',
+  SetConsoleCursorInfo: 'FALSE',
+  SetConsoleCursorMode: 'FALSE',
+  SetConsoleCursorPosition: 'FALSE',
+  SetConsoleDisplayMode: 'FALSE',
+  SetConsoleFont: 'FALSE',
+  SetConsoleHardwareState: 'FALSE',
+  SetConsoleHistoryInfo: 'FALSE',
+  SetConsoleIcon: 'FALSE',
+  SetConsoleInputExeNameA: 'FALSE',
+  SetConsoleInputExeNameW: 'FALSE',
+  SetConsoleKeyShortcuts: 'FALSE',
+  SetConsoleLocalEUDC: 'FALSE',
+  SetConsoleMenuClose: 'FALSE',
+  SetConsoleMode: 'FALSE',
+  SetConsoleNlsMode: 'FALSE',
+  SetConsoleNumberOfCommandsA: 'FALSE',
+  SetConsoleNumberOfCommandsW: 'FALSE',
+  SetConsoleOS2OemFormat: 'FALSE',
+  SetConsoleOutputCP: 'FALSE',
+  SetConsolePalette: 'FALSE',
+  SetConsoleScreenBufferInfoEx: 'FALSE',
+  SetConsoleScreenBufferSize: 'FALSE',
+  SetConsoleTextAttribute: 'FALSE',
+  SetConsoleTitleA: 'FALSE',
+  SetConsoleTitleW: 'FALSE',
+  SetConsoleWindowInfo: 'FALSE',
+  SetCurrentConsoleFontEx: 'FALSE',
+  SetCurrentDirectoryA: 'FALSE',
+  SetCurrentDirectoryW: 'FALSE',
+  SetDefaultCommConfigA: 'FALSE',
+  SetDefaultCommConfigW: 'FALSE',
+  SetDefaultDllDirectories: 'FALSE',
+  SetDllDirectoryA: 'FALSE',
+  SetDllDirectoryW: 'FALSE',
+  SetDynamicTimeZoneInformation: 'FALSE',
+  SetEndOfFile: 'FALSE',
+  SetEnvironmentStringsA: 'FALSE',
+  SetEnvironmentStringsW: 'FALSE',
+  SetEnvironmentVariableA: 'FALSE',
+  SetEnvironmentVariableW: 'FALSE',
+  SetEvent: 'FALSE',
+  SetFileAttributesA: 'FALSE',
+  SetFileAttributesTransactedA: 'FALSE',
+  SetFileAttributesTransactedW: 'FALSE',
+  SetFileAttributesW: 'FALSE',
+  SetFileBandwidthReservation: 'FALSE',
+  SetFileCompletionNotificationModes: 'FALSE',
+  SetFileInformationByHandle: 'FALSE',
+  SetFileIoOverlappedRange: 'FALSE',
+  SetFilePointerEx: 'FALSE',
+  SetFileShortNameA: 'FALSE',
+  SetFileShortNameW: 'FALSE',
+  SetFileTime: 'FALSE',
+  SetFileValidData: 'FALSE',
+  SetFirmwareEnvironmentVariableA: 'FALSE',
+  SetFirmwareEnvironmentVariableExA: 'FALSE',
+  SetFirmwareEnvironmentVariableExW: 'FALSE',
+  SetFirmwareEnvironmentVariableW: 'FALSE',
+  SetHandleInformation: 'FALSE',
+  SetInformationJobObject: 'FALSE',
+  SetLocaleInfoA: 'FALSE',
+  SetLocaleInfoW: 'FALSE',
+  SetLocalTime: 'FALSE',
+  SetMailslotInfo: 'FALSE',
+  SetMessageWaitingIndicator: 'FALSE',
+  SetNamedPipeHandleState: 'FALSE',
+  SetPriorityClass: 'FALSE',
+  SetProcessAffinityMask: 'FALSE',
+  SetProcessAffinityUpdateMode: 'FALSE',
+  SetProcessDefaultCpuSetMasks: 'FALSE',
+  SetProcessDefaultCpuSets: 'FALSE',
+  SetProcessDEPPolicy: 'FALSE',
+  SetProcessDynamicEHContinuationTargets: 'FALSE',
+  SetProcessDynamicEnforcedCetCompatibleRanges: 'FALSE',
+  SetProcessInformation: 'FALSE',
+  SetProcessMitigationPolicy: 'FALSE',
+  SetProcessPreferredUILanguages: 'FALSE',
+  SetProcessPriorityBoost: 'FALSE',
+  SetProcessShutdownParameters: 'FALSE',
+  SetProcessWorkingSetSize: 'FALSE',
+  SetProcessWorkingSetSizeEx: 'FALSE',
+  SetProtectedPolicy: 'FALSE',
+  SetSearchPathMode: 'FALSE',
+  SetStdHandle: 'FALSE',
+  SetStdHandleEx: 'FALSE',
+  SetSystemFileCacheSize: 'FALSE',
+  SetSystemPowerState: 'FALSE',
+  SetSystemTime: 'FALSE',
+  SetSystemTimeAdjustment: 'FALSE',
+  SetTapeParameters: 'ERROR_CODE',
+  SetTapePosition: 'ERROR_CODE',
+  SetThreadContext: 'FALSE',
+  SetThreadDescription: 'FAILED',
+  SetThreadErrorMode: 'FALSE',
+  SetThreadExecutionState: 'NULL',
+  SetThreadGroupAffinity: 'FALSE',
+  SetThreadIdealProcessor: 'MAXDWORD',
+  SetThreadIdealProcessorEx: 'FALSE',
+  SetThreadInformation: 'FALSE',
+  SetThreadLocale: 'FALSE',
+  SetThreadpoolStackInformation: 'FALSE',
+  SetThreadpoolThreadMinimum: 'FALSE',
+  SetThreadpoolTimerEx: 'FALSE',
+  SetThreadpoolWaitEx: 'FALSE',
+  SetThreadPreferredUILanguages: 'FALSE',
+  SetThreadPriority: 'FALSE',
+  SetThreadPriorityBoost: 'FALSE',
+  SetThreadSelectedCpuSetMasks: 'FALSE',
+  SetThreadSelectedCpuSets: 'FALSE',
+  SetThreadStackGuarantee: 'FALSE',
+  SetTimerQueueTimer: 'NULL',
+  SetTimeZoneInformation: 'FALSE',
+  SetUmsThreadInformation: 'FALSE',
+  SetupComm: 'FALSE',
+  SetUserGeoID: 'FALSE',
+  SetUserGeoName: 'FALSE',
+  SetVolumeLabelA: 'FALSE',
+  SetVolumeLabelW: 'FALSE',
+  SetVolumeMountPointA: 'FALSE',
+  SetVolumeMountPointW: 'FALSE',
+  SetWaitableTimer: 'FALSE',
+  SetWaitableTimerEx: 'FALSE',
+  SetXStateFeaturesMask: 'FALSE',
+  SignalObjectAndWait: 'WAIT_FAILED',
+  SizeofResource: 'ZERO',
+  SleepConditionVariableCS: 'FALSE',
+  SleepConditionVariableSRW: 'FALSE',
+  SuspendThread: 'MAXDWORD',
+  SystemTimeToFileTime: 'FALSE',
+  SystemTimeToTzSpecificLocalTime: 'FALSE',
+  SystemTimeToTzSpecificLocalTimeEx: 'FALSE',
+  TerminateJobObject: 'FALSE',
+  TerminateProcess: 'FALSE',
+  TerminateThread: 'FALSE',
+  Thread32First: 'FALSE',
+  Thread32Next: 'FALSE',
+  TlsAlloc: 'MAXDWORD',
+  TlsFree: 'FALSE',
+  TlsSetValue: 'FALSE',
+  Toolhelp32ReadProcessMemory: 'FALSE',
+  TransactNamedPipe: 'FALSE',
+  TransmitCommChar: 'FALSE',
+  TrySubmitThreadpoolCallback: 'FALSE',
+  TzSpecificLocalTimeToSystemTime: 'FALSE',
+  TzSpecificLocalTimeToSystemTimeEx: 'FALSE',
+  UmsThreadYield: 'FALSE',
+  UnlockFile: 'FALSE',
+  UnlockFileEx: 'FALSE',
+  UnmapViewOfFile: 'FALSE',
+  UnmapViewOfFileEx: 'FALSE',
+  UnregisterApplicationRecoveryCallback: 'FAILED',
+  UnregisterApplicationRestart: 'FAILED',
+  UnregisterBadMemoryNotification: 'FALSE',
+  UnregisterConsoleIME: 'FALSE',
+  UnregisterWait: 'FALSE',
+  UnregisterWaitEx: 'FALSE',
+  UnregisterWaitUntilOOBECompleted: 'FALSE',
+  UpdateCalendarDayOfWeek: 'FALSE',
+  UpdateProcThreadAttribute: 'FALSE',
+  UpdateResourceA: 'FALSE',
+  UpdateResourceW: 'FALSE',
+  VDMConsoleOperation: 'FALSE',
+  VerLanguageNameA: 'ZERO',
+  VerLanguageNameW: 'ZERO',
+  VirtualAlloc: 'NULL',
+  VirtualAllocEx: 'NULL',
+  VirtualAllocExNuma: 'NULL',
+  VirtualFree: 'FALSE',
+  VirtualFreeEx: 'FALSE',
+  VirtualLock: 'FALSE',
+  VirtualProtect: 'FALSE',
+  VirtualProtectEx: 'FALSE',
+  VirtualUnlock: 'FALSE',
+  WaitCommEvent: 'FALSE',
+  WaitForDebugEvent: 'FALSE',
+  WaitForDebugEventEx: 'FALSE',
+  WaitForMultipleObjects: 'WAIT_FAILED',
+  WaitForMultipleObjectsEx: 'WAIT_FAILED',
+  WaitForSingleObject: 'WAIT_FAILED',
+  WaitForSingleObjectEx: 'WAIT_FAILED',
+  WaitNamedPipeA: 'FALSE',
+  WaitNamedPipeW: 'FALSE',
+  WerGetFlags: 'FAILED',
+  WerRegisterAdditionalProcess: 'FAILED',
+  WerRegisterAppLocalDump: 'FAILED',
+  WerRegisterCustomMetadata: 'FAILED',
+  WerRegisterExcludedMemoryBlock: 'FAILED',
+  WerRegisterFile: 'FAILED',
+  WerRegisterMemoryBlock: 'FAILED',
+  WerRegisterRuntimeExceptionModule: 'FAILED',
+  WerSetFlags: 'FAILED',
+  WerUnregisterAdditionalProcess: 'FAILED',
+  WerUnregisterAppLocalDump: 'FAILED',
+  WerUnregisterCustomMetadata: 'FAILED',
+  WerUnregisterExcludedMemoryBlock: 'FAILED',
+  WerUnregisterFile: 'FAILED',
+  WerUnregisterMemoryBlock: 'FAILED',
+  WerUnregisterRuntimeExceptionModule: 'FAILED',
+  WideCharToMultiByte: 'ZERO',
+  Wow64DisableWow64FsRedirection: 'FALSE',
+  Wow64EnableWow64FsRedirection: 'ZERO',
+  Wow64GetThreadContext: 'FALSE',
+  Wow64GetThreadSelectorEntry: 'FALSE',
+  Wow64RevertWow64FsRedirection: 'FALSE',
+  Wow64SetThreadContext: 'FALSE',
+  Wow64SuspendThread: 'MAXDWORD',
+  WriteConsoleA: 'FALSE',
+  WriteConsoleInputA: 'FALSE',
+  WriteConsoleInputVDMA: 'FALSE',
+  WriteConsoleInputVDMW: 'FALSE',
+  WriteConsoleInputW: 'FALSE',
+  WriteConsoleOutputA: 'FALSE',
+  WriteConsoleOutputAttribute: 'FALSE',
+  WriteConsoleOutputCharacterA: 'FALSE',
+  WriteConsoleOutputCharacterW: 'FALSE',
+  WriteConsoleOutputW: 'FALSE',
+  WriteConsoleW: 'FALSE',
+  WriteFile: 'FALSE',
+  WriteFileEx: 'FALSE',
+  WriteFileGather: 'FALSE',
+  WritePrivateProfileSectionA: 'FALSE',
+  WritePrivateProfileSectionW: 'FALSE',
+  WritePrivateProfileStringA: 'FALSE',
+  WritePrivateProfileStringW: 'FALSE',
+  WritePrivateProfileStructA: 'FALSE',
+  WritePrivateProfileStructW: 'FALSE',
+  WriteProcessMemory: 'FALSE',
+  WriteProfileSectionA: 'FALSE',
+  WriteProfileSectionW: 'FALSE',
+  WriteProfileStringA: 'FALSE',
+  WriteProfileStringW: 'FALSE',
+  WriteTapemark: 'ERROR_CODE',
+  ZombifyActCtx: 'FALSE',
+  lstrcatA: 'NULL',
+  lstrcatW: 'NULL',
+  lstrcpyA: 'NULL',
+  lstrcpynA: 'NULL',
+  lstrcpynW: 'NULL',
+  lstrcpyW: 'NULL',
+} as const satisfies Partial<Record<Kernel32Symbol, FailureConvention>>;
+
+/**
+ * Whether a returned handle is `INVALID_HANDLE_VALUE`, compared as an unsigned 64-bit integer.
+ *
+ * Pointers come back from `bun:ffi` as doubles, which cannot hold the top of the u64 range:
+ * a native `INVALID_HANDLE_VALUE` rounds up to `2 ** 64`. Values past the range are clamped
+ * back to its maximum, and signed forms such as `-1` are wrapped into it.
+ */
+function isInvalidHandleValue(result: unknown): boolean {
+  if (typeof result !== 'bigint' && typeof result !== 'number') {
+    return false;
+  }
+
+  const value = BigInt(result);
+
+  return (value >= 1n << 64n ? 0xffff_ffff_ffff_ffffn : BigInt.asUintN(64, value)) === 0xffff_ffff_ffff_ffffn;
+}
+
+/**
+ * Tests a return value against a failure convention.
+ */
+const failed: Record<FailureConvention, (result: unknown) => boolean> = {
+  ERROR_CODE: (result) => Number(result) !== 0,
+  FAILED: (result) => (Number(result) | 0) < 0,
+  FALSE: (result) => !result,
+  INVALID_HANDLE_VALUE: isInvalidHandleValue,
+  INVALID_HANDLE_VALUE_OR_NULL: (result) => !result || isInvalidHandleValue(result),
+  MAXDWORD: (result) => Number(result) >>> 0 === 0xffff_ffff,
+  NULL: (result) => !result,
+  WAIT_FAILED: (result) => Number(result) >>> 0 === 0xffff_ffff,
+  ZERO: (result) => !result,
+};
+
+/**
+ * Throwing counterparts of the `Kernel32` static methods, keyed by export name.
+ */
+export type Kernel32Checked = { readonly [K in keyof typeof Failures]: (typeof Kernel32)[K] };
+
+/**
+ * Throwing facade over `Kernel32`.
+ *
+ * Each method calls the corresponding `Kernel32` static method and checks its return value
+ * against the export's failure convention (`BOOL` zero, `INVALID_HANDLE_VALUE`, NULL,
+ * `HRESULT` < 0, `WAIT_FAILED`, ...). On failure it throws a `Win32Error` instead of
+ * returning the sentinel; `HRESULT`s and returned error codes become the error's code,
+ * otherwise the last-error value is used (see `Kernel32.LastError`).
+ *
+ * Only exports with a failure convention are present.
+ *
+ * @example
+ * ```ts
+ * import { Kernel32Checked, Win32Error } from 'bun-kernel32';
+ *
+ * try {
+ *   Kernel32Checked.CloseHandle(handle);
+ * } catch (error) {
+ *   if (error instanceof Win32Error && error.codeName === 'ERROR_INVALID_HANDLE') {
+ *     // ...
+ *   }
+ * }
+ * ```
+ */
+const Kernel32Checked = Object.freeze(
+  Object.fromEntries(
+    Object.entries(Failures).map(([method, convention]: [string, FailureConvention]) => [
+      method,
+      (...args: unknown[]) => {
+        const result = (Kernel32[method as keyof Kernel32Checked] as BoundFunction)(...args);
+
+        if (!failed[convention](result)) {
+          return result;
+        }
+
+        if (convention === 'ERROR_CODE' || convention === 'FAILED') {
+          throw new Win32Error(method, Number(result));
+        }
+
+        // NULL here means there is no handle, and the last-error value was left untouched.
+        if (convention === 'INVALID_HANDLE_VALUE_OR_NULL' && !result) {
+          throw new Win32Error(method, Win32ErrorCode.ERROR_INVALID_HANDLE);
+        }
+
+        throw Win32Error.FromLastError(method);
+      },
+    ]) //
+  )
+) as Kernel32Checked;
+
+export default Kernel32Checked;
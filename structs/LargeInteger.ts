@@ -0,0 +1,46 @@
+import type { LargeIntegerParts } from '../types/Time';
+
+/**
+ * Joins and splits `LARGE_INTEGER`/`ULARGE_INTEGER` values, which Win32 stores as a low
+ * `DWORD` and a high `LONG` (`QueryPerformanceCounter`, `GetFileSizeEx`, `SetFilePointerEx`,
+ * `GetDiskFreeSpaceExW`, ...).
+ *
+ * @example
+ * ```ts
+ * const size = LargeInteger.Join({ LowPart: nFileSizeLow, HighPart: nFileSizeHigh }); // 5368709120n
+ *
+ * const { LowPart, HighPart } = LargeInteger.Split(-1n); // 0xffffffff, -1
+ * ```
+ */
+class LargeInteger {
+  /**
+   * Joins the two halves into a signed 64-bit value (`QuadPart`).
+   *
+   * @param parts Low and high halves; `HighPart` may be given signed or unsigned.
+   */
+  public static Join(parts: LargeIntegerParts): bigint {
+    return BigInt.asIntN(64, (BigInt(parts.HighPart >>> 0) << 32n) | BigInt(parts.LowPart >>> 0));
+  }
+
+  /**
+   * Joins the two halves into an unsigned 64-bit value, as `ULARGE_INTEGER` does.
+   *
+   * @param parts Low and high halves.
+   */
+  public static JoinUnsigned(parts: LargeIntegerParts): bigint {
+    return BigInt.asUintN(64, LargeInteger.Join(parts));
+  }
+
+  /**
+   * Splits a signed or unsigned 64-bit value into its halves.
+   *
+   * @param value `QuadPart`; bits above 64 are discarded.
+   */
+  public static Split(value: bigint): LargeIntegerParts {
+    const bits = BigInt.asUintN(64, value);
+
+    return { HighPart: Number(BigInt.asIntN(32, bits >> 32n)), LowPart: Number(bits & 0xffff_ffffn) };
+  }
+}
+
+export default LargeInteger;
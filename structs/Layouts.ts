@@ -0,0 +1,189 @@
+import Struct from './Struct';
+
+const BYTE = Struct.Uint8;
+const DWORD = Struct.Uint32;
+const HANDLE = Struct.Pointer;
+const LONG = Struct.Int32;
+const LPVOID = Struct.Pointer;
+const SHORT = Struct.Int16;
+const SIZE_T = Struct.Uint64;
+const ULONG_PTR = Struct.Uint64;
+const WORD = Struct.Uint16;
+
+const COORD = Struct.Define({ X: SHORT, Y: SHORT });
+
+const FILETIME = Struct.Define({ dwLowDateTime: DWORD, dwHighDateTime: DWORD });
+
+const SMALL_RECT = Struct.Define({ Left: SHORT, Top: SHORT, Right: SHORT, Bottom: SHORT });
+
+/**
+ * Layouts of the Win32 structures the bindings exchange, for use with `Struct` views.
+ *
+ * Field names follow the Windows SDK. Anonymous unions and structs keep the names the SDK
+ * gives them when nameless members are disabled (`DUMMYUNIONNAME`, `DUMMYSTRUCTNAME`).
+ * Sizes and offsets are verified against the SDK by `bun run check:layouts`.
+ *
+ * @example
+ * ```ts
+ * const info = Layouts.SYSTEM_INFO.create();
+ *
+ * Kernel32.GetNativeSystemInfo(info.bytes.ptr);
+ *
+ * info.dwNumberOfProcessors; // 16
+ * info.DUMMYUNIONNAME.DUMMYSTRUCTNAME.wProcessorArchitecture; // 9 (PROCESSOR_ARCHITECTURE_AMD64)
+ * ```
+ */
+class Layouts {
+  public static readonly BY_HANDLE_FILE_INFORMATION = Struct.Define({
+    dwFileAttributes: DWORD,
+    ftCreationTime: FILETIME,
+    ftLastAccessTime: FILETIME,
+    ftLastWriteTime: FILETIME,
+    dwVolumeSerialNumber: DWORD,
+    nFileSizeHigh: DWORD,
+    nFileSizeLow: DWORD,
+    nNumberOfLinks: DWORD,
+    nFileIndexHigh: DWORD,
+    nFileIndexLow: DWORD,
+  });
+
+  public static readonly CONSOLE_SCREEN_BUFFER_INFO = Struct.Define({
+    dwSize: COORD,
+    dwCursorPosition: COORD,
+    wAttributes: WORD,
+    srWindow: SMALL_RECT,
+    dwMaximumWindowSize: COORD,
+  });
+
+  public static readonly COORD = COORD;
+
+  public static readonly CPINFOEXW = Struct.Define({
+    MaxCharSize: DWORD,
+    DefaultChar: Struct.Array(BYTE, 2),
+    LeadByte: Struct.Array(BYTE, 12),
+    UnicodeDefaultChar: WORD,
+    CodePage: DWORD,
+    CodePageName: Struct.WideChars(260),
+  });
+
+  public static readonly FILETIME = FILETIME;
+
+  public static readonly MEMORY_BASIC_INFORMATION = Struct.Define({
+    BaseAddress: LPVOID,
+    AllocationBase: LPVOID,
+    AllocationProtect: DWORD,
+    PartitionId: WORD,
+    RegionSize: SIZE_T,
+    State: DWORD,
+    Protect: DWORD,
+    Type: DWORD,
+  });
+
+  public static readonly OVERLAPPED = Struct.Define({
+    Internal: ULONG_PTR,
+    InternalHigh: ULONG_PTR,
+    DUMMYUNIONNAME: Struct.Union({
+      DUMMYSTRUCTNAME: Struct.Define({ Offset: DWORD, OffsetHigh: DWORD }),
+      Pointer: LPVOID,
+    }),
+    hEvent: HANDLE,
+  });
+
+  public static readonly OVERLAPPED_ENTRY = Struct.Define({
+    lpCompletionKey: ULONG_PTR,
+    lpOverlapped: LPVOID,
+    Internal: ULONG_PTR,
+    dwNumberOfBytesTransferred: DWORD,
+  });
+
+  public static readonly PROCESS_INFORMATION = Struct.Define({
+    hProcess: HANDLE,
+    hThread: HANDLE,
+    dwProcessId: DWORD,
+    dwThreadId: DWORD,
+  });
+
+  public static readonly PROCESSENTRY32W = Struct.Define({
+    dwSize: DWORD,
+    cntUsage: DWORD,
+    th32ProcessID: DWORD,
+    th32DefaultHeapID: ULONG_PTR,
+    th32ModuleID: DWORD,
+    cntThreads: DWORD,
+    th32ParentProcessID: DWORD,
+    pcPriClassBase: LONG,
+    dwFlags: DWORD,
+    szExeFile: Struct.WideChars(260),
+  });
+
+  public static readonly SECURITY_ATTRIBUTES = Struct.Define({
+    nLength: DWORD,
+    lpSecurityDescriptor: LPVOID,
+    bInheritHandle: LONG,
+  });
+
+  public static readonly SMALL_RECT = SMALL_RECT;
+
+  public static readonly STARTUPINFOW = Struct.Define({
+    cb: DWORD,
+    lpReserved: LPVOID,
+    lpDesktop: LPVOID,
+    lpTitle: LPVOID,
+    dwX: DWORD,
+    dwY: DWORD,
+    dwXSize: DWORD,
+    dwYSize: DWORD,
+    dwXCountChars: DWORD,
+    dwYCountChars: DWORD,
+    dwFillAttribute: DWORD,
+    dwFlags: DWORD,
+    wShowWindow: WORD,
+    cbReserved2: WORD,
+    lpReserved2: LPVOID,
+    hStdInput: HANDLE,
+    hStdOutput: HANDLE,
+    hStdError: HANDLE,
+  });
+
+  public static readonly SYSTEM_INFO = Struct.Define({
+    DUMMYUNIONNAME: Struct.Union({
+      dwOemId: DWORD,
+      DUMMYSTRUCTNAME: Struct.Define({ wProcessorArchitecture: WORD, wReserved: WORD }),
+    }),
+    dwPageSize: DWORD,
+    lpMinimumApplicationAddress: LPVOID,
+    lpMaximumApplicationAddress: LPVOID,
+    dwActiveProcessorMask: ULONG_PTR,
+    dwNumberOfProcessors: DWORD,
+    dwProcessorType: DWORD,
+    dwAllocationGranularity: DWORD,
+    wProcessorLevel: WORD,
+    wProcessorRevision: WORD,
+  });
+
+  public static readonly SYSTEMTIME = Struct.Define({
+    wYear: WORD,
+    wMonth: WORD,
+    wDayOfWeek: WORD,
+    wDay: WORD,
+    wHour: WORD,
+    wMinute: WORD,
+    wSecond: WORD,
+    wMilliseconds: WORD,
+  });
+
+  public static readonly WIN32_FIND_DATAW = Struct.Define({
+    dwFileAttributes: DWORD,
+    ftCreationTime: FILETIME,
+    ftLastAccessTime: FILETIME,
+    ftLastWriteTime: FILETIME,
+    nFileSizeHigh: DWORD,
+    nFileSizeLow: DWORD,
+    dwReserved0: DWORD,
+    dwReserved1: DWORD,
+    cFileName: Struct.WideChars(260),
+    cAlternateFileName: Struct.WideChars(14),
+  });
+}
+
+export default Layouts;
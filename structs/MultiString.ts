@@ -0,0 +1,111 @@
+import type { Pointer } from 'bun:ffi';
+
+import WideString from './WideString';
+
+import type { DWORD, LPWSTR } from '../types/Kernel32';
+
+/**
+ * Codec for double-NUL-terminated UTF-16 string lists (`REG_MULTI_SZ` style).
+ *
+ * Each string is followed by a NUL and the list by one more: `"C:\\\0D:\\\0\0"`. Used by
+ * `GetLogicalDriveStringsW`, `GetVolumePathNamesForVolumeNameW`, `GetPrivateProfileSectionNamesW`,
+ * environment blocks and more. An empty string would end the list early, so lists cannot
+ * contain one.
+ *
+ * @example
+ * ```ts
+ * const drives = MultiString.Fetch((buffer, capacity) => Kernel32Checked.GetLogicalDriveStringsW(capacity, buffer)); // ['C:\\', 'D:\\']
+ * ```
+ */
+class MultiString {
+  /**
+   * Decodes a list, stopping at the empty string that terminates it.
+   *
+   * @param source Memory holding the list.
+   * @param length Number of code units to consider; defaults to the whole view.
+   */
+  public static Decode(source: ArrayBuffer | ArrayBufferView, length?: number): string[] {
+    const units = WideString.Units(source);
+    const limit = Math.min(length ?? units.length, units.length);
+    const values: string[] = [];
+
+    for (let offset = 0; offset < limit && units[offset] !== 0; ) {
+      const value = WideString.Decode(units.subarray(offset), limit - offset);
+
+      values.push(value);
+
+      offset += value.length + 1;
+    }
+
+    return values;
+  }
+
+  /**
+   * Encodes strings as a double-NUL-terminated list. An empty list encodes as two NULs.
+   *
+   * @param values Strings to encode.
+   * @throws {Error} If a string is empty or contains a NUL.
+   */
+  public static Encode(values: Iterable<string>): Uint16Array {
+    const list = [...values];
+
+    for (const value of list) {
+      if (value === '' || value.includes('\0')) {
+        throw new Error(`MultiString: ${JSON.stringify(value)} cannot be part of a double-NUL-terminated list`);
+      }
+    }
+
+    const units = new Uint16Array(
+      Math.max(
+        list.reduce((total, value) => total + value.length + 1, 1),
+        2
+      )
+    );
+
+    let offset = 0;
+
+    for (const value of list) {
+      units.set(WideString.Encode(value), offset);
+
+      offset += value.length + 1;
+    }
+
+    return units;
+  }
+
+  /**
+   * Runs the "call twice to size the buffer" pattern for exports that fill a list, such as
+   * `GetLogicalDriveStringsW`. See `WideString.Fetch` for how the result is interpreted.
+   *
+   * @param fill Calls the export with the buffer and its capacity in characters.
+   * @param capacity Initial capacity in characters.
+   */
+  public static Fetch(fill: (buffer: LPWSTR, capacity: DWORD) => number, capacity?: number): string[] {
+    return WideString.Fetch(fill, capacity, MultiString.Decode);
+  }
+
+  /**
+   * Decodes a list from native memory, such as the block returned by `GetEnvironmentStringsW`.
+   *
+   * @param pointer Address of the first string; NULL reads as an empty list.
+   */
+  public static Read(pointer: Pointer): string[] {
+    const values: string[] = [];
+
+    for (let address = pointer as number; address !== 0; ) {
+      const value = WideString.Read(address as Pointer);
+
+      if (value === '') {
+        break;
+      }
+
+      values.push(value);
+
+      address += (value.length + 1) * 2;
+    }
+
+    return values;
+  }
+}
+
+export default MultiString;
@@ -0,0 +1,150 @@
+import { type FFIFunction, FFIType, type Pointer } from 'bun:ffi';
+
+import FFIBackend from './FFIBackend';
+
+import Metadata from '../metadata/Kernel32.json';
+
+import { Pointers } from '../runtime/extensions';
+
+import type { Backend, BoundFunction } from '../types/Backend';
+import type { ExportMetadata } from '../types/Metadata';
+import type { RecordedBuffer, RecordedCall, RecordedValue, ReplayTrace } from '../types/Replay';
+
+/**
+ * Backend that records every call made through another backend, for replay with `ReplayBackend`.
+ *
+ * Each call's arguments, return value and last-error value are captured, along with the bytes
+ * the call left in any `out`/`inout` buffer argument (per `metadata/Kernel32.json`). Buffers are
+ * matched to pointer arguments through the `ptr` property, so pass `buffer.ptr` (or the buffer
+ * itself) rather than an address computed some other way. `GetLastError` is not recorded; the
+ * replayed value comes from the preceding call.
+ *
+ * `ptr` reads are tracked from construction until `stop()`, for every recorder alive at once;
+ * each buffer is held until a call receiving its pointer has been recorded. Read `ptr` again
+ * for every call that should capture the buffer.
+ *
+ * @example
+ * ```ts
+ * using recorder = new RecordingBackend();
+ *
+ * Kernel32.Configure({ backend: recorder });
+ *
+ * runToolUnderTest();
+ *
+ * await Bun.write('trace.json', JSON.stringify(recorder.trace));
+ * ```
+ */
+class RecordingBackend implements Backend, Disposable {
+  /**
+   * Recorders that have not been stopped; `ptr` reads are tracked while any remain.
+   */
+  private static readonly Recording = new Set<RecordingBackend>();
+
+  private static readonly Exports = Metadata as Readonly<Record<string, ExportMetadata>>;
+
+  private getLastError: BoundFunction | null = null;
+
+  /**
+   * Calls recorded so far, ready to be serialized with `JSON.stringify`.
+   */
+  public readonly trace: ReplayTrace = { calls: [], version: 1 };
+
+  /**
+   * @param inner Backend that performs the calls; defaults to an `FFIBackend` over `kernel32.dll`.
+   */
+  public constructor(private readonly inner: Backend = new FFIBackend()) {
+    RecordingBackend.Recording.add(this);
+    Pointers.tracked ??= new Map();
+  }
+
+  /**
+   * Whether the recorder still records calls, i.e. `stop()` has not been called.
+   */
+  public get isRecording(): boolean {
+    return RecordingBackend.Recording.has(this);
+  }
+
+  public bind<T extends Record<string, FFIFunction>>(symbols: T): { [K in keyof T]: BoundFunction } {
+    const bound = this.inner.bind(symbols);
+
+    this.getLastError ??= this.inner.bind({ GetLastError: { args: [], returns: FFIType.u32 } }).GetLastError;
+
+    return Object.fromEntries(
+      Object.entries(bound).map(([name, fn]) => [name, name === 'GetLastError' ? fn : this.record(name, symbols[name]!, fn)]) //
+    ) as { [K in keyof T]: BoundFunction };
+  }
+
+  public has(name: string): boolean {
+    return this.inner.has(name);
+  }
+
+  /**
+   * Stops recording. Later calls still reach the inner backend but are left out of `trace`.
+   * Once no recorder is left, `ptr` reads are no longer tracked and the buffers held for
+   * calls not yet made are released. Calling it again does nothing.
+   */
+  public stop(): void {
+    RecordingBackend.Recording.delete(this);
+
+    if (RecordingBackend.Recording.size === 0) {
+      Pointers.tracked = null;
+    }
+  }
+
+  public [Symbol.dispose](): void {
+    this.stop();
+  }
+
+  /**
+   * Encodes a value so that it survives `JSON.stringify`.
+   *
+   * @param value Argument or return value.
+   */
+  private static Encode(value: unknown): RecordedValue {
+    if (typeof value === 'bigint') {
+      return { bigint: value.toString() };
+    }
+
+    if (typeof value === 'number' || typeof value === 'boolean' || typeof value === 'string') {
+      return value;
+    }
+
+    return null;
+  }
+
+  private record(name: string, definition: FFIFunction, fn: BoundFunction): BoundFunction {
+    const parameters = RecordingBackend.Exports[name]?.parameters ?? [];
+
+    return (...args) => {
+      if (!this.isRecording) {
+        return fn(...args);
+      }
+
+      const views = args.map((argument, index) => {
+        if (definition.args?.[index] !== FFIType.ptr || parameters[index]?.direction === 'in') {
+          return undefined;
+        }
+
+        return ArrayBuffer.isView(argument) || argument instanceof ArrayBuffer ? argument : Pointers.tracked?.get(argument as Pointer);
+      });
+
+      const result = fn(...args);
+      const lastError = this.getLastError!() as number;
+
+      // The call is recorded below, so the buffers behind its pointers no longer need to be held.
+      args.forEach((argument, index) => definition.args?.[index] === FFIType.ptr && Pointers.tracked?.delete(argument as Pointer));
+
+      const buffers: RecordedBuffer[] = views.flatMap((view, argument) =>
+        view === undefined ? [] : [{ argument, data: Buffer.from(ArrayBuffer.isView(view) ? new Uint8Array(view.buffer, view.byteOffset, view.byteLength) : new Uint8Array(view)).toString('base64') }]
+      );
+
+      const call: RecordedCall = { api: name, arguments: args.map(RecordingBackend.Encode), buffers, lastError, result: RecordingBackend.Encode(result) };
+
+      this.trace.calls.push(call);
+
+      return result;
+    };
+  }
+}
+
+export default RecordingBackend;
@@ -0,0 +1,124 @@
+import { type FFIFunction, FFIType, type Pointer, toArrayBuffer } from 'bun:ffi';
+
+import type { Backend, BoundFunction } from '../types/Backend';
+import type { RecordedValue, ReplayTrace } from '../types/Replay';
+
+/**
+ * Backend that replays a trace captured by `RecordingBackend`, on any platform.
+ *
+ * Calls must arrive in the recorded order. Each one returns the recorded result, writes the
+ * recorded bytes into its buffer arguments, and sets the value `GetLastError` reports. Scalar
+ * arguments are compared against the recording; pointers are not, since addresses differ
+ * between runs. Any divergence throws, so the code under test behaves deterministically or fails.
+ *
+ * @example
+ * ```ts
+ * const replay = new ReplayBackend(await Bun.file('trace.json').json());
+ *
+ * Kernel32.Configure({ backend: replay });
+ *
+ * runToolUnderTest();
+ *
+ * replay.done(); // throws if recorded calls were not made
+ * ```
+ */
+class ReplayBackend implements Backend {
+  private readonly exports: Set<string>;
+
+  private lastError = 0;
+
+  private position = 0;
+
+  /**
+   * @param trace Trace produced by `RecordingBackend`.
+   */
+  public constructor(private readonly trace: ReplayTrace) {
+    this.exports = new Set(trace.calls.map(({ api }) => api));
+  }
+
+  /**
+   * Number of recorded calls not yet replayed.
+   */
+  public get remaining(): number {
+    return this.trace.calls.length - this.position;
+  }
+
+  public bind<T extends Record<string, FFIFunction>>(symbols: T): { [K in keyof T]: BoundFunction } {
+    const missing = Object.keys(symbols).find((name) => !this.has(name));
+
+    if (missing !== undefined) {
+      throw new Error(`ReplayBackend: ${missing} does not appear in the trace`);
+    }
+
+    return Object.fromEntries(
+      Object.entries(symbols).map(([name, definition]) => [name, (...args: unknown[]) => this.replay(name, definition, args)]) //
+    ) as { [K in keyof T]: BoundFunction };
+  }
+
+  /**
+   * Asserts that every recorded call has been replayed.
+   */
+  public done(): void {
+    if (this.remaining !== 0) {
+      throw new Error(`ReplayBackend: ${this.remaining} recorded call(s) were not made, starting with ${this.trace.calls[this.position]!.api}`);
+    }
+  }
+
+  public has(name: string): boolean {
+    return this.exports.has(name) || name === 'GetLastError' || name === 'SetLastError';
+  }
+
+  private static Decode(value: RecordedValue): unknown {
+    return value !== null && typeof value === 'object' ? BigInt(value.bigint) : value;
+  }
+
+  private replay(name: string, definition: FFIFunction, args: unknown[]): unknown {
+    if (name === 'GetLastError') {
+      return this.lastError;
+    }
+
+    const call = this.trace.calls[this.position];
+
+    if (call === undefined || call.api !== name) {
+      if (name === 'SetLastError') {
+        this.lastError = args[0] as number;
+
+        return;
+      }
+
+      throw new Error(`ReplayBackend: call #${this.position} was ${name}, but the trace expected ${call?.api ?? 'no more calls'}`);
+    }
+
+    call.arguments.forEach((recorded, index) => {
+      const actual = args[index];
+
+      if (definition.args?.[index] === FFIType.ptr || actual === undefined) {
+        return;
+      }
+
+      if (typeof actual === 'bigint' ? actual !== ReplayBackend.Decode(recorded) : Number(actual) !== Number(ReplayBackend.Decode(recorded))) {
+        throw new Error(`ReplayBackend: call #${this.position} to ${name} passed ${actual} as argument ${index}, but the trace recorded ${JSON.stringify(recorded)}`);
+      }
+    });
+
+    for (const { argument, data } of call.buffers) {
+      const bytes = Buffer.from(data, 'base64');
+      const target = args[argument];
+
+      if (ArrayBuffer.isView(target)) {
+        new Uint8Array(target.buffer, target.byteOffset, target.byteLength).set(bytes);
+      } else if (target instanceof ArrayBuffer) {
+        new Uint8Array(target).set(bytes);
+      } else if (typeof target === 'number' && target !== 0) {
+        new Uint8Array(toArrayBuffer(target as Pointer, 0, bytes.length)).set(bytes);
+      }
+    }
+
+    this.lastError = call.lastError;
+    this.position++;
+
+    return definition.returns === FFIType.void ? undefined : ReplayBackend.Decode(call.result);
+  }
+}
+
+export default ReplayBackend;
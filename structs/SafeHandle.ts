@@ -0,0 +1,148 @@
+import Kernel32 from './Kernel32';
+import Kernel32Checked from './Kernel32Checked';
+
+import type { Pointer } from 'bun:ffi';
+
+import type { BoundFunction } from '../types/Backend';
+import { type Handle, type HandleCloser, INVALID_HANDLE_VALUE } from '../types/Kernel32';
+
+/**
+ * Handle kind released by a closer, e.g. `HFIND` for `FindClose`.
+ */
+type HandleOf<C extends HandleCloser> = Parameters<(typeof Kernel32)[C]>[0];
+
+interface Tracked {
+  closer: HandleCloser;
+  handle: Pointer;
+}
+
+/**
+ * Owns a native handle and closes it exactly once with the export that releases it.
+ *
+ * Implements `Symbol.dispose`, so a `using` declaration closes the handle when the
+ * enclosing scope exits. The handle's kind must match the closer, so a find handle needs
+ * `'FindClose'`. NULL and `INVALID_HANDLE_VALUE` are treated as invalid: they
+ * are never closed and never reported as leaks. Closing reports failure as a `Win32Error`
+ * for closers that return a `BOOL`.
+ *
+ * Open handles are tracked by a `FinalizationRegistry`; if a `SafeHandle` is garbage-collected
+ * before `close()` is called, `SafeHandle.OnLeak` is invoked (a console warning by default).
+ * The handle itself is not closed on collection, since the owner may have shared it.
+ *
+ * @example
+ * ```ts
+ * import Kernel32, { Kernel32Checked, SafeHandle } from 'bun-kernel32';
+ *
+ * {
+ *   using file = new SafeHandle(Kernel32Checked.CreateFileW(path.ptr, FileAccess.GENERIC_READ, 0, NULL, FileCreationDisposition.OPEN_EXISTING, 0, NULL));
+ *
+ *   Kernel32.GetFileSizeEx(file.handle, size.ptr);
+ * } // CloseHandle(file.handle)
+ *
+ * using find = new SafeHandle(Kernel32.FindFirstFileW(pattern.ptr, data.ptr), 'FindClose');
+ * ```
+ */
+class SafeHandle<C extends HandleCloser = 'CloseHandle'> implements Disposable {
+  private static readonly Registry = new FinalizationRegistry<Tracked>(({ closer, handle }) => SafeHandle.OnLeak(handle, closer));
+
+  private closed = false;
+
+  /**
+   * Called when an open `SafeHandle` is garbage-collected. Replace it to collect leaks
+   * in tests or to fail loudly.
+   *
+   * @param handle Handle that was never closed.
+   * @param closer Export that would have closed it.
+   */
+  public static OnLeak = (handle: Pointer, closer: HandleCloser): void => {
+    console.warn('SafeHandle: 0x%s was garbage-collected without being closed (%s)', handle.toString(16), closer);
+  };
+
+  /**
+   * @param raw Handle to take ownership of.
+   * @param closer Export that releases `raw`; defaults to `CloseHandle`.
+   */
+  public constructor(private readonly raw: HandleOf<C>, public readonly closer: C = 'CloseHandle' as C) {
+    if (!this.isInvalid) {
+      SafeHandle.Registry.register(this, { closer, handle: raw }, this);
+    }
+  }
+
+  /**
+   * Whether a handle value is NULL or `INVALID_HANDLE_VALUE`.
+   *
+   * @param handle Handle value as returned by a native call.
+   */
+  public static IsInvalid(handle: Handle<string> | Pointer | null | undefined): boolean {
+    return !handle || handle === INVALID_HANDLE_VALUE || handle === 2 ** 64;
+  }
+
+  /**
+   * The wrapped handle, to pass to `Kernel32` methods.
+   *
+   * @throws {Error} If the handle has been closed or released.
+   */
+  public get handle(): HandleOf<C> {
+    if (this.closed) {
+      throw new Error(`SafeHandle: handle 0x${this.raw.toString(16)} has already been closed`);
+    }
+
+    return this.raw;
+  }
+
+  /**
+   * Whether `close()` or `release()` has been called.
+   */
+  public get isClosed(): boolean {
+    return this.closed;
+  }
+
+  /**
+   * Whether the wrapped value is NULL or `INVALID_HANDLE_VALUE`.
+   */
+  public get isInvalid(): boolean {
+    return SafeHandle.IsInvalid(this.raw);
+  }
+
+  /**
+   * Closes the handle with its closer. Does nothing if the handle is invalid or already closed.
+   *
+   * @throws {Win32Error} If the closer reports failure; the handle then stays open and tracked.
+   */
+  public close(): void {
+    if (this.closed) {
+      return;
+    }
+
+    if (!this.isInvalid) {
+      const closer = (Kernel32Checked as Partial<Record<HandleCloser, BoundFunction>>)[this.closer] ?? (Kernel32[this.closer] as BoundFunction);
+
+      closer(this.raw);
+    }
+
+    this.closed = true;
+
+    SafeHandle.Registry.unregister(this);
+  }
+
+  /**
+   * Gives up ownership without closing the handle.
+   *
+   * @returns The handle, which the caller is now responsible for closing.
+   */
+  public release(): HandleOf<C> {
+    const handle = this.handle;
+
+    this.closed = true;
+
+    SafeHandle.Registry.unregister(this);
+
+    return handle;
+  }
+
+  public [Symbol.dispose](): void {
+    this.close();
+  }
+}
+
+export default SafeHandle;
@@ -0,0 +1,93 @@
+import Clock from './Clock';
+
+/**
+ * Accumulating timer on the performance counter, in the manner of .NET's `Stopwatch`.
+ *
+ * A stopwatch can be stopped and resumed; `elapsed` adds up every running interval. Reuse
+ * one instance with `restart()` to time many samples without allocating.
+ *
+ * @example
+ * ```ts
+ * const stopwatch = Stopwatch.StartNew();
+ *
+ * work();
+ *
+ * stopwatch.stop();
+ * console.log(`${stopwatch.elapsed} ns`);
+ *
+ * for (let sample = 0; sample < samples.length; sample++) {
+ *   stopwatch.restart();
+ *   work();
+ *   samples[sample] = stopwatch.elapsed;
+ * }
+ * ```
+ */
+class Stopwatch {
+  private accumulated = 0n;
+
+  private started: bigint | null = null;
+
+  /**
+   * Creates a stopwatch and starts it.
+   */
+  public static StartNew(): Stopwatch {
+    const stopwatch = new Stopwatch();
+
+    stopwatch.start();
+
+    return stopwatch;
+  }
+
+  /**
+   * Total running time in nanoseconds, including the current interval if running.
+   */
+  public get elapsed(): bigint {
+    return Clock.ToNanoseconds(this.elapsedTicks);
+  }
+
+  /**
+   * Total running time in performance-counter ticks, including the current interval if running.
+   */
+  public get elapsedTicks(): bigint {
+    return this.started === null ? this.accumulated : this.accumulated + Clock.Ticks() - this.started;
+  }
+
+  public get isRunning(): boolean {
+    return this.started !== null;
+  }
+
+  /**
+   * Stops the stopwatch and clears the elapsed time.
+   */
+  public reset(): void {
+    this.accumulated = 0n;
+    this.started = null;
+  }
+
+  /**
+   * Clears the elapsed time and starts timing again.
+   */
+  public restart(): void {
+    this.accumulated = 0n;
+    this.started = Clock.Ticks();
+  }
+
+  /**
+   * Starts or resumes timing; does nothing if already running.
+   */
+  public start(): void {
+    this.started ??= Clock.Ticks();
+  }
+
+  /**
+   * Pauses timing, keeping the elapsed time; does nothing if already stopped.
+   */
+  public stop(): void {
+    if (this.started !== null) {
+      this.accumulated += Clock.Ticks() - this.started;
+      this.started = null;
+    }
+  }
+}
+
+export default Stopwatch;
@@ -0,0 +1,323 @@
+import { type Pointer, toArrayBuffer } from 'bun:ffi';
+
+import StructArray from './StructArray';
+import WideString from './WideString';
+
+import type { FieldType, StructFields, StructInit, StructView } from '../types/Struct';
+
+const Memory = Symbol('Struct.memory');
+const Offset = Symbol('Struct.offset');
+
+interface Bound {
+  [Memory]: DataView;
+  [Offset]: number;
+}
+
+/**
+ * Declarative layout of a Win32 structure or union, producing typed views over its memory.
+ *
+ * Fields are laid out in declaration order with natural alignment and trailing padding, as
+ * the 64-bit Windows ABI does (8-byte pointers and `SIZE_T`s). Field types are the scalar
+ * statics (`Struct.Uint32`, `Struct.Pointer`, ...), fixed arrays (`Struct.Array`), inline
+ * UTF-16 buffers (`Struct.WideChars`) and other structs or unions, which nest in place.
+ *
+ * A view reads and writes the underlying bytes on every property access, so it can wrap
+ * a buffer passed to an export and be read after the call.
+ *
+ * @example
+ * ```ts
+ * const COORD = Struct.Define({ X: Struct.Int16, Y: Struct.Int16 });
+ * const SMALL_RECT = Struct.Define({ Left: Struct.Int16, Top: Struct.Int16, Right: Struct.Int16, Bottom: Struct.Int16 });
+ *
+ * const CONSOLE_SCREEN_BUFFER_INFO = Struct.Define({
+ *   dwSize: COORD,
+ *   dwCursorPosition: COORD,
+ *   wAttributes: Struct.Uint16,
+ *   srWindow: SMALL_RECT,
+ *   dwMaximumWindowSize: COORD,
+ * });
+ *
+ * const info = CONSOLE_SCREEN_BUFFER_INFO.create();
+ *
+ * Kernel32.GetConsoleScreenBufferInfo(hStdOut, info.bytes.ptr);
+ *
+ * info.srWindow.Right; // 119
+ * Struct.SizeOf(CONSOLE_SCREEN_BUFFER_INFO); // 22
+ * Struct.OffsetOf(CONSOLE_SCREEN_BUFFER_INFO, 'srWindow'); // 10
+ * ```
+ */
+class Struct<F extends StructFields> implements FieldType<StructView<F>, StructInit<F>> {
+  public static readonly Float32: FieldType<number> = Struct.Scalar(
+    4,
+    (view, offset) => view.getFloat32(offset, true),
+    (view, offset, value) => view.setFloat32(offset, value, true)
+  );
+  public static readonly Float64: FieldType<number> = Struct.Scalar(
+    8,
+    (view, offset) => view.getFloat64(offset, true),
+    (view, offset, value) => view.setFloat64(offset, value, true)
+  );
+  public static readonly Int8: FieldType<number> = Struct.Scalar(
+    1,
+    (view, offset) => view.getInt8(offset),
+    (view, offset, value) => view.setInt8(offset, value)
+  );
+  public static readonly Int16: FieldType<number> = Struct.Scalar(
+    2,
+    (view, offset) => view.getInt16(offset, true),
+    (view, offset, value) => view.setInt16(offset, value, true)
+  );
+  public static readonly Int32: FieldType<number> = Struct.Scalar(
+    4,
+    (view, offset) => view.getInt32(offset, true),
+    (view, offset, value) => view.setInt32(offset, value, true)
+  );
+  public static readonly Int64: FieldType<bigint, bigint | number> = Struct.Scalar(
+    8,
+    (view, offset) => view.getBigInt64(offset, true),
+    (view, offset, value) => view.setBigInt64(offset, BigInt(value), true)
+  );
+  public static readonly Pointer: FieldType<Pointer, Pointer | bigint | number> = Struct.Scalar(
+    8,
+    (view, offset) => Number(view.getBigUint64(offset, true)) as Pointer,
+    (view, offset, value) => view.setBigUint64(offset, BigInt(value), true)
+  );
+  public static readonly Uint8: FieldType<number> = Struct.Scalar(
+    1,
+    (view, offset) => view.getUint8(offset),
+    (view, offset, value) => view.setUint8(offset, value)
+  );
+  public static readonly Uint16: FieldType<number> = Struct.Scalar(
+    2,
+    (view, offset) => view.getUint16(offset, true),
+    (view, offset, value) => view.setUint16(offset, value, true)
+  );
+  public static readonly Uint32: FieldType<number> = Struct.Scalar(
+    4,
+    (view, offset) => view.getUint32(offset, true),
+    (view, offset, value) => view.setUint32(offset, value, true)
+  );
+  public static readonly Uint64: FieldType<bigint, bigint | number> = Struct.Scalar(
+    8,
+    (view, offset) => view.getBigUint64(offset, true),
+    (view, offset, value) => view.setBigUint64(offset, BigInt(value), true)
+  );
+
+  public readonly alignment: number;
+
+  public readonly size: number;
+
+  private readonly offsets: Record<keyof F, number>;
+
+  private readonly prototype: object;
+
+  /**
+   * @param fields Field names mapped to their types, in declaration order.
+   * @param union Whether every field starts at offset 0.
+   */
+  private constructor(private readonly fields: F, union: boolean) {
+    const offsets = {} as Record<keyof F, number>;
+
+    let alignment = 1;
+    let size = 0;
+
+    for (const [name, type] of Object.entries(fields)) {
+      const offset = union ? 0 : Struct.Align(size, type.alignment);
+
+      offsets[name as keyof F] = offset;
+
+      alignment = Math.max(alignment, type.alignment);
+      size = Math.max(size, offset + type.size);
+    }
+
+    this.alignment = alignment;
+    this.offsets = offsets;
+    this.size = Struct.Align(size, alignment);
+
+    this.prototype = Object.create(null, {
+      bytes: {
+        get(this: Bound): Uint8Array {
+          return new Uint8Array(this[Memory].buffer, this[Memory].byteOffset + this[Offset], size);
+        },
+      },
+      ...Object.fromEntries(
+        Object.entries(fields).map(([name, type]) => [
+          name,
+          {
+            enumerable: true,
+            get(this: Bound): unknown {
+              return type.get(this[Memory], this[Offset] + offsets[name]!);
+            },
+            set(this: Bound, value: unknown): void {
+              type.set(this[Memory], this[Offset] + offsets[name]!, value);
+            },
+          },
+        ]) //
+      ),
+    });
+  }
+
+  /**
+   * Fixed-length array of `length` elements, e.g. `BYTE LeadByte[12]`. Reads return a live `StructArray`.
+   *
+   * @param type Element type.
+   * @param length Number of elements.
+   */
+  public static Array<T, W>(type: FieldType<T, W>, length: number): FieldType<StructArray<T, W>, Iterable<W>> {
+    return {
+      alignment: type.alignment,
+      get: (view, offset) => new StructArray(type, length, view, offset),
+      set: (view, offset, values) => {
+        const array = new StructArray(type, length, view, offset);
+
+        let index = 0;
+
+        for (const value of values) {
+          array.set(index++, value);
+        }
+      },
+      size: type.size * length,
+    };
+  }
+
+  /**
+   * Declares a structure.
+   *
+   * @param fields Field names mapped to their types, in declaration order.
+   * @throws {Error} If a field is named `bytes`, which views reserve.
+   */
+  public static Define<F extends StructFields>(fields: F): Struct<F> {
+    return Struct.Create(fields, false);
+  }
+
+  /**
+   * Byte offset of a field within its struct or union.
+   *
+   * @param type Struct or union.
+   * @param field Field name.
+   */
+  public static OffsetOf<F extends StructFields>(type: Struct<F>, field: keyof F): number {
+    return type.offsets[field];
+  }
+
+  /**
+   * Size of a type in bytes, including trailing padding (`sizeof`).
+   *
+   * @param type Any field type, struct or union.
+   */
+  public static SizeOf(type: FieldType<any, any>): number {
+    return type.size;
+  }
+
+  /**
+   * Declares a union: every field starts at offset 0 and the size is that of the largest.
+   *
+   * @param fields Member names mapped to their types.
+   * @throws {Error} If a member is named `bytes`, which views reserve.
+   */
+  public static Union<F extends StructFields>(fields: F): Struct<F> {
+    return Struct.Create(fields, true);
+  }
+
+  /**
+   * Inline NUL-terminated UTF-16 buffer of `length` characters, e.g. `WCHAR szExeFile[MAX_PATH]`.
+   *
+   * @param length Capacity in characters, including the NUL.
+   */
+  public static WideChars(length: number): FieldType<string> {
+    return {
+      alignment: 2,
+      get: (view, offset) => WideString.Decode(new Uint8Array(view.buffer, view.byteOffset + offset, length * 2)),
+      set: (view, offset, value) => {
+        if (value.length >= length) {
+          throw new RangeError(`Struct: ${value.length} characters and a NUL do not fit in WCHAR[${length}]`);
+        }
+
+        const units = new Uint16Array(length);
+
+        units.set(WideString.Encode(value));
+
+        new Uint8Array(view.buffer, view.byteOffset + offset, length * 2).set(new Uint8Array(units.buffer));
+      },
+      size: length * 2,
+    };
+  }
+
+  private static Align(offset: number, alignment: number): number {
+    return Math.ceil(offset / alignment) * alignment;
+  }
+
+  private static Create<F extends StructFields>(fields: F, union: boolean): Struct<F> {
+    if ('bytes' in fields) {
+      throw new Error('Struct: `bytes` is reserved and cannot be used as a field name');
+    }
+
+    return new Struct(fields, union);
+  }
+
+  private static Scalar<T, W = T>(size: number, get: (view: DataView, offset: number) => T, set: (view: DataView, offset: number, value: W) => void): FieldType<T, W> {
+    return { alignment: size, get, set, size };
+  }
+
+  /**
+   * Allocates zeroed memory for the struct and returns a view over it.
+   *
+   * @param init Initial field values.
+   */
+  public create(init: StructInit<F> = {}): StructView<F> {
+    const view = new DataView(new ArrayBuffer(this.size));
+
+    this.set(view, 0, init);
+
+    return this.get(view, 0);
+  }
+
+  /**
+   * Views a struct held in existing memory, without copying.
+   *
+   * @param source Memory holding the struct, e.g. a buffer an export filled.
+   * @param offset Byte offset of the struct within `source`.
+   * @throws {RangeError} If the struct does not fit.
+   */
+  public from(source: ArrayBuffer | ArrayBufferView, offset = 0): StructView<F> {
+    const view = ArrayBuffer.isView(source) ? new DataView(source.buffer, source.byteOffset, source.byteLength) : new DataView(source);
+
+    if (offset < 0 || offset + this.size > view.byteLength) {
+      throw new RangeError(`Struct: ${this.size} bytes at offset ${offset} do not fit in ${view.byteLength} bytes`);
+    }
+
+    return this.get(view, offset);
+  }
+
+  public get(view: DataView, offset: number): StructView<F> {
+    return Object.create(this.prototype, { [Memory]: { value: view }, [Offset]: { value: offset } });
+  }
+
+  /**
+   * Views a struct in native memory, without copying; writes go to that memory.
+   *
+   * @param pointer Address of the struct, e.g. one returned by an export.
+   */
+  public read(pointer: Pointer): StructView<F> {
+    return this.get(new DataView(toArrayBuffer(pointer, 0, this.size)), 0);
+  }
+
+  /**
+   * Writes the given fields; others are left unchanged.
+   *
+   * @throws {Error} If `value` names a field the struct does not have.
+   */
+  public set(view: DataView, offset: number, value: StructInit<F>): void {
+    for (const [name, field] of Object.entries(value)) {
+      if (!(name in this.fields)) {
+        throw new Error(`Struct: no field named ${name}`);
+      }
+
+      if (field !== undefined) {
+        this.fields[name]!.set(view, offset + this.offsets[name]!, field);
+      }
+    }
+  }
+}
+
+export default Struct;
@@ -0,0 +1,67 @@
+import type { FieldType } from '../types/Struct';
+
+/**
+ * Live view over a fixed-length array field of a struct, such as `BYTE LeadByte[12]`.
+ *
+ * Elements are read and written in place; nested struct elements are themselves views.
+ *
+ * @example
+ * ```ts
+ * const ranges = [...info.LeadByte]; // [0x81, 0x9f, 0xe0, 0xfc, 0, ...]
+ *
+ * info.LeadByte.set(0, 0x81);
+ * ```
+ */
+class StructArray<T, W = T> implements Iterable<T> {
+  /**
+   * @param type Element type.
+   * @param length Number of elements.
+   * @param view Memory holding the array.
+   * @param offset Byte offset of the first element within `view`.
+   */
+  public constructor(private readonly type: FieldType<T, W>, public readonly length: number, private readonly view: DataView, private readonly offset: number) {}
+
+  /**
+   * Reads an element.
+   *
+   * @param index Element index, from 0.
+   * @throws {RangeError} If `index` is out of bounds.
+   */
+  public get(index: number): T {
+    return this.type.get(this.view, this.at(index));
+  }
+
+  /**
+   * Writes an element.
+   *
+   * @param index Element index, from 0.
+   * @param value New value.
+   * @throws {RangeError} If `index` is out of bounds.
+   */
+  public set(index: number, value: W): void {
+    this.type.set(this.view, this.at(index), value);
+  }
+
+  /**
+   * Copies the elements into a plain array.
+   */
+  public toArray(): T[] {
+    return Array.from(this);
+  }
+
+  public *[Symbol.iterator](): Iterator<T> {
+    for (let index = 0; index < this.length; index++) {
+      yield this.get(index);
+    }
+  }
+
+  private at(index: number): number {
+    if (!Number.isInteger(index) || index < 0 || index >= this.length) {
+      throw new RangeError(`StructArray: index ${index} is out of bounds for length ${this.length}`);
+    }
+
+    return this.offset + index * this.type.size;
+  }
+}
+
+export default StructArray;
@@ -0,0 +1,44 @@
+/**
+ * Error thrown when an export does not exist on the running system.
+ *
+ * Typically raised for exports added in a recent Windows build (e.g. `CreateFile3` or
+ * `GetTempPath2W`) when running on an older one. Use `Kernel32.IsAvailable` to feature-detect
+ * without throwing.
+ *
+ * @example
+ * ```ts
+ * try {
+ *   Kernel32.CreateFile3(path, access, share, disposition, parameters);
+ * } catch (error) {
+ *   if (error instanceof SymbolUnavailableError) {
+ *     console.warn(error.message); // CreateFile3 is not available on this system (requires Windows build 26100 or later)
+ *   }
+ * }
+ * ```
+ */
+class SymbolUnavailableError extends Error {
+  /**
+   * Export that could not be bound, e.g. `CreateFile3`.
+   */
+  public readonly api: string;
+
+  /**
+   * Minimum Windows build that provides the export, or `null` when it predates Windows 10.
+   */
+  public readonly minimumBuild: number | null;
+
+  /**
+   * @param api Export that could not be bound.
+   * @param minimumBuild Minimum Windows build that provides it, if known.
+   * @param options Standard error options, e.g. the backend's original error as `cause`.
+   */
+  public constructor(api: string, minimumBuild: number | null, options?: ErrorOptions) {
+    super(`${api} is not available on this system${minimumBuild === null ? '' : ` (requires Windows build ${minimumBuild} or later)`}`, options);
+
+    this.api = api;
+    this.minimumBuild = minimumBuild;
+    this.name = 'SymbolUnavailableError';
+  }
+}
+
+export default SymbolUnavailableError;
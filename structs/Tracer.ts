@@ -0,0 +1,146 @@
+import { CString, type FFIFunction, FFIType, type Pointer } from 'bun:ffi';
+
+import WideString from './WideString';
+
+import Metadata from '../metadata/Kernel32.json';
+
+import type { DWORD } from '../types/Kernel32';
+import type { ExportMetadata } from '../types/Metadata';
+import type { TraceArgument, TraceEvent, TraceOptions } from '../types/Trace';
+
+/**
+ * Builds trace events for calls made through `Kernel32` and hands them to a sink.
+ *
+ * Created by `Kernel32.Configure({ trace })`; only exports that pass the filters are wrapped,
+ * so untraced exports keep calling the native function directly. Parameter names, Win32 types,
+ * directions and headers come from `metadata/Kernel32.json`. Text is only read through pointers
+ * the export takes as inputs; output buffers are shown by address, since the export may not
+ * have written a terminated string to them.
+ *
+ * @example
+ * ```ts
+ * Kernel32.Configure({ trace: { headers: ['handleapi.h'], sink: Tracer.Console } });
+ *
+ * Kernel32.CloseHandle(handle); // CloseHandle(hObject=0x1a4) = 1 [0] 0.004ms
+ * ```
+ */
+class Tracer {
+  private static readonly Exports = Metadata as Readonly<Record<string, ExportMetadata>>;
+
+  // Longest string read from a native input-string pointer, in characters.
+  private static readonly MaxString = 260;
+
+  private static readonly Strings: Record<string, 'ansi' | 'wide'> = {
+    LPCSTR: 'ansi',
+    LPCWSTR: 'wide',
+    LPSTR: 'ansi',
+    LPWSTR: 'wide',
+    PCSTR: 'ansi',
+    PCWSTR: 'wide',
+    PSTR: 'ansi',
+    PWSTR: 'wide',
+  };
+
+  /**
+   * @param options Sink and filters.
+   */
+  public constructor(private readonly options: TraceOptions) {}
+
+  /**
+   * Sink that writes one line per call to the console.
+   *
+   * @param event Event to print.
+   */
+  public static Console(event: TraceEvent): void {
+    console.debug('%s(%s) = %s [%d] %sms', event.api, event.arguments.map(({ name, value }) => `${name}=${value}`).join(', '), event.result, event.lastError, event.duration.toFixed(3));
+  }
+
+  /**
+   * Formats a value for its Win32 type.
+   *
+   * @param type Win32 type from the metadata, e.g. `HANDLE` or `LPCWSTR`.
+   * @param ffi `FFIType` the value crosses the boundary as.
+   * @param value Value passed to or returned by the native function.
+   * @param input Whether the export reads the value (`in`), so a string behind it may be read.
+   */
+  public static Format(type: string, ffi: FFIType, value: unknown, input = false): string {
+    if (value === null || value === undefined) {
+      return ffi === FFIType.void ? 'void' : 'NULL';
+    }
+
+    if (ArrayBuffer.isView(value)) {
+      const encoding = Tracer.Strings[type];
+
+      if (!input || encoding === undefined) {
+        return `<${value.constructor.name} ${value.byteLength} bytes>`;
+      }
+
+      const text = Buffer.from(value.buffer, value.byteOffset, value.byteLength).toString(encoding === 'wide' ? 'utf16le' : 'latin1');
+
+      return JSON.stringify(text.slice(0, text.indexOf('\0') === -1 ? undefined : text.indexOf('\0')));
+    }
+
+    if (typeof value === 'object' && 'X' in value && 'Y' in value) {
+      return `{ X: ${value.X}, Y: ${value.Y} }`;
+    }
+
+    if (ffi !== FFIType.ptr || typeof value !== 'number') {
+      return String(value);
+    }
+
+    if (value === 0) {
+      return 'NULL';
+    }
+
+    if (value === -1 || value === 2 ** 64) {
+      return 'INVALID_HANDLE_VALUE';
+    }
+
+    const encoding = Tracer.Strings[type];
+
+    if (input && encoding !== undefined) {
+      return JSON.stringify(encoding === 'wide' ? WideString.Read(value as Pointer, Tracer.MaxString) : new CString(value as Pointer).toString().slice(0, Tracer.MaxString));
+    }
+
+    return `0x${value.toString(16)}`;
+  }
+
+  /**
+   * Reports a completed call to the sink.
+   *
+   * @param api Export name.
+   * @param definition The export's `FFIType` signature.
+   * @param args Arguments as passed by the caller.
+   * @param result Value returned by the native function.
+   * @param lastError Last-error value read after the call.
+   * @param duration Call duration in milliseconds.
+   */
+  public emit(api: string, definition: FFIFunction, args: unknown[], result: unknown, lastError: DWORD, duration: number): void {
+    const { header, parameters, returns } = Tracer.Exports[api]!;
+
+    const traced: TraceArgument[] = parameters.map(({ direction, name, type }, index) => ({
+      name,
+      type,
+      value: Tracer.Format(type, definition.args?.[index] as FFIType, args[index], direction === 'in'),
+    }));
+
+    this.options.sink({ api, arguments: traced, duration, header, lastError, result: Tracer.Format(returns, definition.returns as FFIType, result) });
+  }
+
+  /**
+   * Whether an export passes the configured filters.
+   *
+   * @param api Export name.
+   */
+  public matches(api: string): boolean {
+    const { headers, names } = this.options;
+
+    if (headers === undefined && names === undefined) {
+      return true;
+    }
+
+    return (headers?.includes(Tracer.Exports[api]?.header ?? '') ?? false) || (names?.some((name) => (typeof name === 'string' ? name === api : name.test(api))) ?? false);
+  }
+}
+
+export default Tracer;
@@ -0,0 +1,141 @@
+import { type Pointer, read } from 'bun:ffi';
+
+import type { DWORD, LPWSTR } from '../types/Kernel32';
+
+/**
+ * UTF-16 string marshalling for the `*W` exports.
+ *
+ * Strings are copied code unit by code unit, so lone surrogates (valid in Windows file
+ * names, console titles, ...) round-trip unchanged instead of becoming U+FFFD. Everything
+ * here is plain TypeScript over typed arrays and `bun:ffi` reads, so it works on any platform.
+ *
+ * @example
+ * ```ts
+ * const handle = Kernel32.CreateFileW(WideString.Encode('C:\\temp\\log.txt').ptr, ...);
+ *
+ * const path = WideString.Fetch((buffer, capacity) => Kernel32Checked.GetModuleFileNameW(NULL, buffer, capacity));
+ * ```
+ */
+class WideString {
+  // Largest slice passed to `String.fromCharCode` at once, well under engine argument limits.
+  private static readonly Chunk = 8_192;
+
+  // Capacity `Fetch` starts with when none is given, in characters (`MAX_PATH`).
+  private static readonly InitialCapacity = 260;
+
+  /**
+   * Decodes UTF-16LE code units, stopping at the first NUL.
+   *
+   * @param source Memory holding the string.
+   * @param length Maximum number of code units to read; defaults to the whole view.
+   */
+  public static Decode(source: ArrayBuffer | ArrayBufferView, length?: number): string {
+    const units = WideString.Units(source);
+    const limit = Math.min(length ?? units.length, units.length);
+    const end = units.subarray(0, limit).indexOf(0);
+
+    return WideString.FromCodes(units.subarray(0, end === -1 ? limit : end));
+  }
+
+  /**
+   * Encodes a string as NUL-terminated UTF-16LE, ready to pass as an `LPCWSTR` via `.ptr`.
+   *
+   * @param value String to encode.
+   */
+  public static Encode(value: string): Uint16Array {
+    const units = new Uint16Array(value.length + 1);
+
+    for (let index = 0; index < value.length; index++) {
+      units[index] = value.charCodeAt(index);
+    }
+
+    return units;
+  }
+
+  /**
+   * Runs the "call twice to size the buffer" pattern and decodes the result.
+   *
+   * `fill` receives a buffer and its capacity in characters (including the NUL) and returns
+   * what the export returned. A result larger than the capacity is taken as the required size
+   * and the call is retried with that much room; a result equal to the capacity is taken as
+   * truncation (`GetModuleFileNameW`) and the capacity is doubled. Anything smaller is the
+   * length of the string written. A zero result yields `''`; pass a `Kernel32Checked` method
+   * to have failures throw instead.
+   *
+   * @param fill Calls the export with the buffer and its capacity.
+   * @param capacity Initial capacity in characters; defaults to `MAX_PATH`.
+   * @param decode Turns the filled buffer and result into a value; defaults to `WideString.Decode`.
+   */
+  public static Fetch<T = string>(
+    fill: (buffer: LPWSTR, capacity: DWORD) => number,
+    capacity: number = WideString.InitialCapacity,
+    decode: (buffer: Uint16Array, length: number) => T = WideString.Decode as (buffer: Uint16Array, length: number) => T
+  ): T {
+    for (;;) {
+      const buffer = new Uint16Array(capacity);
+      const result = fill(buffer.ptr, capacity);
+
+      if (result > capacity) {
+        capacity = result;
+      } else if (result === capacity) {
+        capacity *= 2;
+      } else {
+        return decode(buffer, result);
+      }
+    }
+  }
+
+  /**
+   * Decodes a NUL-terminated UTF-16LE string from native memory.
+   *
+   * Code units are read one at a time, so nothing past the terminator (or `length`) is touched.
+   *
+   * @param pointer Address of the first character; NULL reads as `''`.
+   * @param length Maximum number of code units to read; unbounded when omitted.
+   */
+  public static Read(pointer: Pointer, length = Infinity): string {
+    if (!pointer) {
+      return '';
+    }
+
+    const codes: number[] = [];
+
+    for (let code = length > 0 ? read.u16(pointer, 0) : 0; code !== 0; code = codes.length < length ? read.u16(pointer, codes.length * 2) : 0) {
+      codes.push(code);
+    }
+
+    return WideString.FromCodes(codes);
+  }
+
+  /**
+   * Views memory as UTF-16 code units, ignoring a trailing odd byte.
+   *
+   * A view at an odd `byteOffset` (e.g. a slice of a packed structure) cannot back a
+   * `Uint16Array`, so its bytes are copied into an aligned buffer instead.
+   *
+   * @param source Memory holding UTF-16LE text.
+   */
+  public static Units(source: ArrayBuffer | ArrayBufferView): Uint16Array {
+    if (!ArrayBuffer.isView(source)) {
+      return new Uint16Array(source, 0, source.byteLength >>> 1);
+    }
+
+    if (source.byteOffset % Uint16Array.BYTES_PER_ELEMENT !== 0) {
+      return new Uint16Array(new Uint8Array(source.buffer, source.byteOffset, source.byteLength & ~1).slice().buffer);
+    }
+
+    return new Uint16Array(source.buffer, source.byteOffset, source.byteLength >>> 1);
+  }
+
+  private static FromCodes(codes: ArrayLike<number>): string {
+    let result = '';
+
+    for (let offset = 0; offset < codes.length; offset += WideString.Chunk) {
+      result += String.fromCharCode(...Array.prototype.slice.call(codes, offset, offset + WideString.Chunk));
+    }
+
+    return result;
+  }
+}
+
+export default WideString;
@@ -0,0 +1,112 @@
+import Kernel32 from './Kernel32';
+
+import { type DWORD, FormatMessageFlags, NULL, Win32ErrorCode } from '../types/Kernel32';
+
+/**
+ * Error thrown for a failed `kernel32.dll` call.
+ *
+ * Carries the numeric Win32 error (or `HRESULT`) code, its symbolic name from
+ * `Win32ErrorCode`, the export that failed, and the system message produced by
+ * `FormatMessageW`. Names resolve from the embedded table even when `FormatMessageW`
+ * is unavailable, such as under a `FakeBackend`.
+ *
+ * @example
+ * ```ts
+ * if (!Kernel32.CloseHandle(handle)) {
+ *   throw Win32Error.FromLastError('CloseHandle');
+ * }
+ * ```
+ */
+class Win32Error extends Error {
+  /**
+   * Export that failed, e.g. `CreateFileW`.
+   */
+  public readonly api: string;
+
+  /**
+   * Win32 error code, or the unsigned `HRESULT` for exports that return one.
+   */
+  public readonly code: DWORD;
+
+  /**
+   * Symbolic name of `code`, e.g. `ERROR_FILE_NOT_FOUND`, or `null` when unknown.
+   */
+  public readonly codeName: string | null;
+
+  /**
+   * Text from `FormatMessageW`, or `null` when it could not be formatted.
+   */
+  public readonly systemMessage: string | null;
+
+  /**
+   * @param api Export that failed.
+   * @param code Win32 error code or `HRESULT`.
+   */
+  public constructor(api: string, code: DWORD) {
+    const unsigned = code >>> 0;
+    const codeName = Win32Error.Name(unsigned);
+    const systemMessage = Win32Error.FormatMessage(unsigned);
+
+    super(`${api} failed with ${codeName ?? `0x${unsigned.toString(16).padStart(8, '0')}`} (${unsigned})${systemMessage === null ? '' : `: ${systemMessage}`}`);
+
+    this.api = api;
+    this.code = unsigned;
+    this.codeName = codeName;
+    this.name = 'Win32Error';
+    this.systemMessage = systemMessage;
+  }
+
+  /**
+   * Formats a Win32 error code or `HRESULT` with `FormatMessageW`.
+   *
+   * `FormatMessageW` sets the last-error value, so the value `Kernel32.LastError` reported
+   * before the call is restored with `SetLastError` afterwards.
+   *
+   * @param code Win32 error code or `HRESULT`.
+   * @returns The system message without trailing line breaks, or `null` when unavailable.
+   */
+  public static FormatMessage(code: DWORD): string | null {
+    const buffer = Buffer.alloc(1_024);
+
+    try {
+      const lastError = Kernel32.LastError;
+
+      try {
+        const dwFlags = FormatMessageFlags.FORMAT_MESSAGE_FROM_SYSTEM | FormatMessageFlags.FORMAT_MESSAGE_IGNORE_INSERTS;
+        const length = Kernel32.FormatMessageW(dwFlags, NULL, code >>> 0, 0, buffer.ptr, buffer.length / 2, NULL);
+
+        return length === 0 ? null : buffer.toString('utf16le', 0, length * 2).trimEnd();
+      } finally {
+        Kernel32.SetLastError(lastError);
+      }
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Creates an error from the calling thread's last-error value (see `Kernel32.LastError`).
+   *
+   * @param api Export that failed.
+   */
+  public static FromLastError(api: string): Win32Error {
+    return new Win32Error(api, Kernel32.LastError);
+  }
+
+  /**
+   * Resolves the symbolic name of a Win32 error code.
+   *
+   * `HRESULT`s wrapping a Win32 error (`HRESULT_FROM_WIN32`) resolve to the wrapped name.
+   *
+   * @param code Win32 error code or `HRESULT`.
+   * @returns The name, e.g. `ERROR_ACCESS_DENIED`, or `null` when unknown.
+   */
+  public static Name(code: DWORD): string | null {
+    const unsigned = code >>> 0;
+    const win32 = (unsigned & 0xffff_0000) >>> 0 === 0x8007_0000 ? unsigned & 0x0000_ffff : unsigned;
+
+    return Win32ErrorCode[win32] ?? null;
+  }
+}
+
+export default Win32Error;
@@ -0,0 +1,173 @@
+import '../runtime/extensions';
+
+import { afterAll, afterEach, beforeAll, describe, expect, test } from 'bun:test';
+import { type Pointer, toArrayBuffer } from 'bun:ffi';
+
+import AsyncFile from '../structs/AsyncFile';
+import FakeBackend from '../structs/FakeBackend';
+import FFIBackend from '../structs/FFIBackend';
+import Kernel32 from '../structs/Kernel32';
+import Layouts from '../structs/Layouts';
+import Struct from '../structs/Struct';
+import Win32Error from '../structs/Win32Error';
+
+import { type HANDLE, Win32ErrorCode } from '../types/Kernel32';
+import { MailboxSize } from './fixtures/completions';
+
+const STATUS_CANCELLED = 0xc000_0120;
+const STATUS_END_OF_FILE = 0xc000_0011;
+
+// Packets for the completion worker; see `test/fixtures/completions.ts`.
+const Mailbox = new Float64Array(MailboxSize);
+
+const NativeWorker = globalThis.Worker;
+
+let nextHandle = 0x1a4;
+
+// Completes an operation by handing its packet to the completion worker.
+function complete(overlapped: Pointer, status: number, bytes = 0): void {
+  Mailbox.set([overlapped, status, bytes], 1 + Mailbox[0]! * 3);
+  Mailbox[0]!++;
+}
+
+// Files whose reads stay pending until cancelled, except those `reads` completes. Handles,
+// completion port calls and closed handles are recorded in `calls`.
+function files(calls: string[], reads: (lpBuffer: Pointer, lpOverlapped: Pointer) => void = () => {}): FakeBackend {
+  const backend = new FakeBackend();
+  const pending = new Map<Pointer, HANDLE>();
+  const statuses = new Map<Pointer, number>();
+
+  return backend
+    .stub('CreateFileW', () => nextHandle++ as unknown as HANDLE)
+    .stub('CreateIoCompletionPort', (FileHandle, ExistingCompletionPort) => (calls.push(`CreateIoCompletionPort(${FileHandle}, ${ExistingCompletionPort})`), 0x9000 as unknown as HANDLE))
+    .stub('CloseHandle', (hObject) => (calls.push(`CloseHandle(${hObject})`), 1))
+    .stub('ReadFile', (hFile, lpBuffer, nNumberOfBytesToRead, lpNumberOfBytesRead, lpOverlapped) => {
+      pending.set(lpOverlapped, hFile);
+      reads(lpBuffer, lpOverlapped);
+      backend.lastError = Win32ErrorCode.ERROR_IO_PENDING;
+
+      return 0;
+    })
+    .stub('CancelIoEx', (hFile, lpOverlapped) => {
+      const cancelled = Array.from(pending).filter(([overlapped, handle]) => handle === hFile && (!lpOverlapped || overlapped === lpOverlapped));
+
+      for (const [overlapped] of cancelled) {
+        pending.delete(overlapped);
+        statuses.set(overlapped, STATUS_CANCELLED);
+        complete(overlapped, STATUS_CANCELLED);
+      }
+
+      backend.lastError = cancelled.length === 0 ? Win32ErrorCode.ERROR_NOT_FOUND : 0;
+
+      return cancelled.length === 0 ? 0 : 1;
+    })
+    .stub('GetOverlappedResultEx', (hFile, lpOverlapped) => {
+      backend.lastError = statuses.get(lpOverlapped) === STATUS_CANCELLED ? Win32ErrorCode.ERROR_OPERATION_ABORTED : Win32ErrorCode.ERROR_HANDLE_EOF;
+
+      return 0;
+    });
+}
+
+// The shared port's worker is started with the first file and dequeues from `Mailbox`.
+beforeAll(() => {
+  globalThis.Worker = class extends NativeWorker {
+    public constructor(url: string | URL, options: WorkerOptions = {}) {
+      super(url, { ...options, env: { ...process.env, COMPLETIONS: String(Mailbox.ptr) }, preload: [new URL('./fixtures/completions.ts', import.meta.url).pathname] });
+    }
+  };
+});
+
+afterAll(() => {
+  globalThis.Worker = NativeWorker;
+});
+
+afterEach(() => Kernel32.Configure({ backend: new FFIBackend() }));
+
+describe('AsyncFile', () => {
+  test('associates every file with one shared completion port', async () => {
+    const calls: string[] = [];
+
+    Kernel32.Configure({ backend: files(calls) });
+
+    const first = AsyncFile.Open('C:\\first.bin');
+    const second = AsyncFile.Open('C:\\second.bin');
+    const handles = [first.handle, second.handle];
+
+    await first.close();
+    await second.close();
+
+    expect(calls).toEqual(['CreateIoCompletionPort(-1, 0)', `CreateIoCompletionPort(${handles[0]}, ${0x9000})`, `CreateIoCompletionPort(${handles[1]}, ${0x9000})`, `CloseHandle(${handles[0]})`, `CloseHandle(${handles[1]})`]);
+  });
+
+  test('settles reads from the packets the worker dequeues', async () => {
+    Kernel32.Configure({
+      backend: files([], (lpBuffer, lpOverlapped) => {
+        const { Offset: offset } = Layouts.OVERLAPPED.from(new Uint8Array(toArrayBuffer(lpOverlapped, 0, Struct.SizeOf(Layouts.OVERLAPPED)))).DUMMYUNIONNAME.DUMMYSTRUCTNAME;
+
+        if (offset === 0) {
+          new Uint8Array(toArrayBuffer(lpBuffer, 0, 3)).set([1, 2, 3]);
+        }
+
+        setTimeout(() => (offset === 0 ? complete(lpOverlapped, 0, 3) : complete(lpOverlapped, STATUS_END_OF_FILE)), 5);
+      }),
+    });
+
+    const file = AsyncFile.Open('C:\\data.bin');
+    const buffer = new Uint8Array(8);
+
+    try {
+      expect(await file.read(buffer, 0)).toBe(3);
+      expect(buffer.subarray(0, 3)).toEqual(Uint8Array.of(1, 2, 3));
+      expect(await file.read(buffer, 3)).toBe(0);
+      expect(file.inFlight).toBe(0);
+    } finally {
+      await file.close();
+    }
+  });
+
+  test('cancels a read when its signal aborts', async () => {
+    Kernel32.Configure({ backend: files([]) });
+
+    const file = AsyncFile.Open('C:\\data.bin');
+    const controller = new AbortController();
+    const reason = new Error('no longer needed');
+
+    try {
+      const read = file.read(new Uint8Array(8), 0, { signal: controller.signal });
+
+      expect(file.inFlight).toBe(1);
+
+      controller.abort(reason);
+
+      expect(await read.catch((error: unknown) => error)).toBe(reason);
+      expect(file.inFlight).toBe(0);
+      expect(await file.read(new Uint8Array(8), 0, { signal: controller.signal }).catch((error: unknown) => error)).toBe(reason);
+    } finally {
+      await file.close();
+    }
+  });
+
+  test('close cancels reads in flight before closing the handle', async () => {
+    const calls: string[] = [];
+
+    Kernel32.Configure({ backend: files(calls) });
+
+    const file = AsyncFile.Open('C:\\data.bin');
+    const handle = file.handle;
+    const reads = [file.read(new Uint8Array(8), 0), file.read(new Uint8Array(8), 8)].map((read) => read.catch((error: unknown) => error));
+
+    const closing = file.close();
+
+    expect(file.close()).toBe(closing);
+    expect(await file.read(new Uint8Array(8), 0).catch((error: unknown) => error)).toEqual(new Error('AsyncFile: the file is closing'));
+
+    await closing;
+
+    for (const error of await Promise.all(reads)) {
+      expect(error).toEqual(new Win32Error('ReadFile', Win32ErrorCode.ERROR_OPERATION_ABORTED));
+    }
+
+    expect(file.isClosed).toBe(true);
+    expect(calls).toEqual([`CreateIoCompletionPort(${handle}, ${0x9000})`, `CloseHandle(${handle})`]);
+  });
+});
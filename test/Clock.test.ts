@@ -0,0 +1,118 @@
+import '../runtime/extensions';
+
+import { afterEach, describe, expect, test } from 'bun:test';
+import { toArrayBuffer } from 'bun:ffi';
+
+import Clock from '../structs/Clock';
+import FakeBackend from '../structs/FakeBackend';
+import FFIBackend from '../structs/FFIBackend';
+import Kernel32 from '../structs/Kernel32';
+import Stopwatch from '../structs/Stopwatch';
+import Win32Error from '../structs/Win32Error';
+
+import { type HANDLE, type LPVOID, Win32ErrorCode } from '../types/Kernel32';
+
+let ticks = 0n;
+
+// Writes a 64-bit value through an out-pointer, as the Query* exports do.
+function store(pointer: LPVOID, value: bigint): number {
+  new BigUint64Array(toArrayBuffer(pointer, 0, 8))[0] = value;
+
+  return 1;
+}
+
+// A 10 MHz performance counter that reads `ticks`.
+function counter(): FakeBackend {
+  return new FakeBackend().stub('QueryPerformanceFrequency', (lpFrequency) => store(lpFrequency, 10_000_000n)).stub('QueryPerformanceCounter', (lpPerformanceCount) => store(lpPerformanceCount, ticks));
+}
+
+afterEach(() => {
+  ticks = 0n;
+
+  Kernel32.Configure({ backend: new FFIBackend() });
+});
+
+describe('Clock', () => {
+  test('reads the counter in ticks and nanoseconds', () => {
+    Kernel32.Configure({ backend: counter() });
+
+    ticks = 25n;
+
+    expect(Clock.Frequency).toBe(10_000_000n);
+    expect(Clock.Ticks()).toBe(25n);
+    expect(Clock.Now()).toBe(2_500n);
+    expect(Clock.ToNanoseconds(10_000_000n)).toBe(1_000_000_000n);
+  });
+
+  test('passes the current process and thread pseudo-handles by default', () => {
+    const handles: HANDLE[] = [];
+
+    Kernel32.Configure({
+      backend: new FakeBackend()
+        .stub('QueryProcessCycleTime', (ProcessHandle, CycleTime) => (handles.push(ProcessHandle), store(CycleTime, 7n)))
+        .stub('QueryThreadCycleTime', (ThreadHandle, CycleTime) => (handles.push(ThreadHandle), store(CycleTime, 3n))),
+    });
+
+    expect(Clock.ProcessCycles()).toBe(7n);
+    expect(Clock.ThreadCycles()).toBe(3n);
+    expect(Clock.ThreadCycles(0x1a4 as unknown as HANDLE)).toBe(3n);
+    expect(handles).toEqual([-1, -2, 0x1a4] as unknown as HANDLE[]);
+  });
+
+  test('throws when a cycle count cannot be read', () => {
+    const backend = new FakeBackend();
+
+    Kernel32.Configure({ backend: backend.stub('QueryThreadCycleTime', () => ((backend.lastError = Win32ErrorCode.ERROR_ACCESS_DENIED), 0)) });
+
+    expect(() => Clock.ThreadCycles(0x1a4 as unknown as HANDLE)).toThrow(new Win32Error('QueryThreadCycleTime', Win32ErrorCode.ERROR_ACCESS_DENIED));
+  });
+
+  test('reports the unbiased interrupt time in nanoseconds', () => {
+    Kernel32.Configure({ backend: new FakeBackend().stub('QueryUnbiasedInterruptTime', (UnbiasedTime) => store(UnbiasedTime, 15_625n)) });
+
+    expect(Clock.UnbiasedInterruptTime()).toBe(1_562_500n);
+  });
+});
+
+describe('Stopwatch', () => {
+  test('adds up running intervals only', () => {
+    Kernel32.Configure({ backend: counter() });
+
+    const stopwatch = Stopwatch.StartNew();
+
+    ticks = 10n;
+
+    expect(stopwatch.isRunning).toBe(true);
+    expect(stopwatch.elapsedTicks).toBe(10n);
+
+    stopwatch.stop();
+    ticks = 50n;
+
+    expect(stopwatch.isRunning).toBe(false);
+    expect(stopwatch.elapsedTicks).toBe(10n);
+
+    stopwatch.start();
+    stopwatch.start();
+    ticks = 55n;
+
+    expect(stopwatch.elapsedTicks).toBe(15n);
+    expect(stopwatch.elapsed).toBe(1_500n);
+  });
+
+  test('restart and reset clear the elapsed time', () => {
+    Kernel32.Configure({ backend: counter() });
+
+    const stopwatch = Stopwatch.StartNew();
+
+    ticks = 10n;
+    stopwatch.restart();
+    ticks = 12n;
+
+    expect(stopwatch.elapsedTicks).toBe(2n);
+
+    stopwatch.reset();
+
+    expect(stopwatch.isRunning).toBe(false);
+    expect(stopwatch.elapsedTicks).toBe(0n);
+  });
+});
@@ -0,0 +1,102 @@
+import '../runtime/extensions';
+
+import { afterEach, describe, expect, test } from 'bun:test';
+import { toArrayBuffer } from 'bun:ffi';
+
+import CodePage from '../structs/CodePage';
+import FakeBackend from '../structs/FakeBackend';
+import FFIBackend from '../structs/FFIBackend';
+import Kernel32 from '../structs/Kernel32';
+import SymbolUnavailableError from '../structs/SymbolUnavailableError';
+import Win32Error from '../structs/Win32Error';
+
+import { MultiByteFlags, WideCharFlags, Win32ErrorCode } from '../types/Kernel32';
+
+// Every character of code page 1252 and 437: ASCII and the 128 table entries.
+const Bytes = Uint8Array.from({ length: 0xff }, (_, index) => index + 1);
+
+// A backend whose conversions decode everything as 'N', to tell them from the built-in tables.
+function native(): FakeBackend {
+  return new FakeBackend()
+    .stub('MultiByteToWideChar', (CodePage, dwFlags, lpMultiByteStr, cbMultiByte, lpWideCharStr, cchWideChar) => {
+      if (cchWideChar !== 0) {
+        new Uint16Array(toArrayBuffer(lpWideCharStr, 0, 2))[0] = 0x4e;
+      }
+
+      return 1;
+    })
+    .stub('WideCharToMultiByte', () => 1);
+}
+
+afterEach(() => Kernel32.Configure({ backend: new FFIBackend() }));
+
+describe('CodePage fallback tables', () => {
+  test.each([1252, 437])('code page %d round-trips every byte', (id) => {
+    Kernel32.Configure({ backend: new FakeBackend() });
+
+    const codePage = new CodePage(id);
+    const text = codePage.decode(Bytes);
+
+    expect(text).toHaveLength(0xff);
+    expect(codePage.encode(text)).toEqual({ bytes: Uint8Array.of(...Bytes, 0), usedDefaultChar: false });
+  });
+
+  test('code page 1252 maps the euro sign and C1 holes as Windows does', () => {
+    Kernel32.Configure({ backend: new FakeBackend() });
+
+    expect(CodePage.Ansi.decode(Uint8Array.of(0x80, 0x81, 0x9f, 0xe9))).toBe('€\u0081Ÿé');
+    expect(CodePage.Oem.decode(Uint8Array.of(0x80, 0xb0, 0xe1))).toBe('Ç░ß');
+  });
+
+  test('replaces unmapped characters with the default character', () => {
+    Kernel32.Configure({ backend: new FakeBackend() });
+
+    expect(CodePage.Ansi.encode('a€✓')).toEqual({ bytes: Uint8Array.of(0x61, 0x80, 0x3f, 0), usedDefaultChar: true });
+    expect(CodePage.Oem.encode('€', { defaultChar: 'Ç' })).toEqual({ bytes: Uint8Array.of(0x80, 0), usedDefaultChar: true });
+    expect(CodePage.Ansi.encode('😀')).toEqual({ bytes: Uint8Array.of(0x3f, 0), usedDefaultChar: true });
+  });
+
+  test('code page 65001 round-trips through UTF-8', () => {
+    Kernel32.Configure({ backend: new FakeBackend() });
+
+    const text = 'Grüße, 世界 😀';
+    const { bytes, usedDefaultChar } = CodePage.Utf8.encode(text);
+
+    expect(usedDefaultChar).toBe(false);
+    expect(bytes.subarray(0, -1)).toEqual(new TextEncoder().encode(text));
+    expect(CodePage.Utf8.decode(bytes)).toBe(text);
+  });
+
+  test('code page 65001 rejects invalid text only when asked to', () => {
+    Kernel32.Configure({ backend: new FakeBackend() });
+
+    expect(CodePage.Utf8.decode(Uint8Array.of(0x61, 0xff))).toBe('a�');
+    expect(() => CodePage.Utf8.decode(Uint8Array.of(0x61, 0xff), { flags: MultiByteFlags.MB_ERR_INVALID_CHARS })).toThrow(new Win32Error('MultiByteToWideChar', Win32ErrorCode.ERROR_NO_UNICODE_TRANSLATION));
+    expect(() => CodePage.Utf8.encode('\ud800', { flags: WideCharFlags.WC_ERR_INVALID_CHARS })).toThrow(new Win32Error('WideCharToMultiByte', Win32ErrorCode.ERROR_NO_UNICODE_TRANSLATION));
+  });
+
+  test('describes the built-in code pages and rejects others', () => {
+    Kernel32.Configure({ backend: new FakeBackend() });
+
+    expect(CodePage.Ansi.info()).toEqual({ codePage: 1252, defaultChar: Uint8Array.of(0x3f), leadByteRanges: [], maxCharSize: 1, name: '1252  (ANSI - Latin I)', unicodeDefaultChar: '?' });
+    expect(CodePage.Utf8.info().maxCharSize).toBe(4);
+    expect(CodePage.Oem.isLeadByte(0x81)).toBe(false);
+    expect(() => new CodePage(932).decode(Uint8Array.of(0x82, 0xa0))).toThrow(SymbolUnavailableError);
+  });
+});
+
+describe('CodePage.Native', () => {
+  test('is probed again when the backend changes', () => {
+    Kernel32.Configure({ backend: native() });
+
+    expect(CodePage.Ansi.decode(Uint8Array.of(0x80))).toBe('N');
+
+    Kernel32.Configure({ backend: new FakeBackend() });
+
+    expect(CodePage.Ansi.decode(Uint8Array.of(0x80))).toBe('€');
+
+    Kernel32.Configure({ backend: native() });
+
+    expect(CodePage.Ansi.decode(Uint8Array.of(0x80))).toBe('N');
+  });
+});
@@ -0,0 +1,86 @@
+import '../runtime/extensions';
+
+import { afterEach, describe, expect, test } from 'bun:test';
+import { toArrayBuffer } from 'bun:ffi';
+
+import ConsoleModes from '../structs/ConsoleModes';
+import FakeBackend from '../structs/FakeBackend';
+import FFIBackend from '../structs/FFIBackend';
+import Kernel32 from '../structs/Kernel32';
+import Win32Error from '../structs/Win32Error';
+
+import { ConsoleInputMode, ConsoleOutputMode, type HANDLE, STD_HANDLE, Win32ErrorCode } from '../types/Kernel32';
+
+// Standard handles by `STD_HANDLE`.
+const Handles: Record<number, number> = { [STD_HANDLE.ERROR]: 0x30, [STD_HANDLE.INPUT]: 0x10, [STD_HANDLE.OUTPUT]: 0x20 };
+
+// A console whose buffers are the handles in `modes`, holding their modes.
+function fakeConsole(modes: Map<unknown, number>): FakeBackend {
+  const backend = new FakeBackend();
+
+  return backend
+    .stub('GetStdHandle', (nStdHandle) => Handles[nStdHandle] as unknown as HANDLE)
+    .stub('GetConsoleMode', (hConsoleHandle, lpMode) => {
+      if (!modes.has(hConsoleHandle)) {
+        backend.lastError = Win32ErrorCode.ERROR_INVALID_HANDLE;
+
+        return 0;
+      }
+
+      new Uint32Array(toArrayBuffer(lpMode, 0, 4))[0] = modes.get(hConsoleHandle)!;
+
+      return 1;
+    })
+    .stub('SetConsoleMode', (hConsoleHandle, dwMode) => (modes.set(hConsoleHandle, dwMode), 1));
+}
+
+afterEach(() => Kernel32.Configure({ backend: new FFIBackend() }));
+
+describe('ConsoleModes', () => {
+  test('enables and disables output modes, returning the previous mode', () => {
+    const modes = new Map<unknown, number>([[0x20, ConsoleOutputMode.ENABLE_PROCESSED_OUTPUT | ConsoleOutputMode.ENABLE_WRAP_AT_EOL_OUTPUT]]);
+
+    Kernel32.Configure({ backend: fakeConsole(modes) });
+
+    const hStdOut = ConsoleModes.StdOutput();
+    const previous: ConsoleOutputMode = ConsoleModes.Enable(hStdOut, ConsoleOutputMode.ENABLE_VIRTUAL_TERMINAL_PROCESSING, ConsoleOutputMode.DISABLE_NEWLINE_AUTO_RETURN);
+
+    expect(previous as number).toBe(0x3);
+    expect(ConsoleModes.Output.format(ConsoleModes.Get(hStdOut))).toBe('ENABLE_PROCESSED_OUTPUT | ENABLE_WRAP_AT_EOL_OUTPUT | ENABLE_VIRTUAL_TERMINAL_PROCESSING | DISABLE_NEWLINE_AUTO_RETURN');
+    expect(ConsoleModes.Disable(hStdOut, ConsoleOutputMode.ENABLE_WRAP_AT_EOL_OUTPUT) as number).toBe(0xf);
+    expect(modes.get(0x20)).toBe(0xd);
+
+    ConsoleModes.Set(hStdOut, previous);
+
+    expect(modes.get(0x20)).toBe(0x3);
+  });
+
+  test('keeps input modes to input buffers', () => {
+    const modes = new Map<unknown, number>([
+      [0x10, ConsoleInputMode.ENABLE_LINE_INPUT | ConsoleInputMode.ENABLE_ECHO_INPUT],
+      [0x20, 0],
+      [0x30, 0],
+    ]);
+
+    Kernel32.Configure({ backend: fakeConsole(modes) });
+
+    const hStdIn = ConsoleModes.StdInput();
+    const input: ConsoleInputMode = ConsoleModes.Disable(hStdIn, ConsoleInputMode.ENABLE_ECHO_INPUT);
+
+    expect(ConsoleModes.Input.decode(input)).toEqual(['ENABLE_LINE_INPUT', 'ENABLE_ECHO_INPUT']);
+    expect(ConsoleModes.Input.format(ConsoleModes.Get(hStdIn))).toBe('ENABLE_LINE_INPUT');
+
+    // @ts-expect-error an input mode does not apply to a screen buffer
+    ConsoleModes.Enable(ConsoleModes.StdError(), ConsoleInputMode.ENABLE_ECHO_INPUT);
+    // @ts-expect-error an output mode does not apply to an input buffer
+    ConsoleModes.Set(hStdIn, ConsoleOutputMode.ENABLE_PROCESSED_OUTPUT);
+    // @ts-expect-error a plain HANDLE may not be a console buffer
+    ConsoleModes.Get(0x20 as unknown as HANDLE);
+  });
+
+  test('throws when the handle is not a console', () => {
+    Kernel32.Configure({ backend: fakeConsole(new Map()) });
+
+    expect(() => ConsoleModes.Enable(ConsoleModes.StdOutput(), ConsoleOutputMode.ENABLE_VIRTUAL_TERMINAL_PROCESSING)).toThrow(new Win32Error('GetConsoleMode', Win32ErrorCode.ERROR_INVALID_HANDLE));
+  });
+});
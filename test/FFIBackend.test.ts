@@ -0,0 +1,46 @@
+import { describe, expect, test } from 'bun:test';
+import { FFIType } from 'bun:ffi';
+
+import FFIBackend from '../structs/FFIBackend';
+
+// kernel32.dll only loads on Windows.
+const Windows = process.platform === 'win32';
+
+describe('FFIBackend.close', () => {
+  test('does nothing before any export is resolved', () => {
+    const backend = new FFIBackend();
+
+    expect(() => backend.close()).not.toThrow();
+    expect(() => backend[Symbol.dispose]()).not.toThrow();
+  });
+
+  test.skipIf(Windows)('keeps no loader when the library cannot be opened', () => {
+    const backend = new FFIBackend();
+
+    expect(() => backend.has('GetTickCount')).toThrow();
+
+    backend.close();
+  });
+
+  test.if(Windows)('releases the library and loads it again on next use', () => {
+    const backend = new FFIBackend();
+
+    expect(backend.bind({ GetCurrentProcessId: { args: [], returns: FFIType.u32 } }).GetCurrentProcessId()).toBe(process.pid);
+
+    backend.close();
+    backend.close();
+
+    expect(backend.has('GetCurrentProcessId')).toBe(true);
+    expect(backend.has('NoSuchExport')).toBe(false);
+
+    backend.close();
+  });
+
+  test.if(Windows)('reports a library that cannot be loaded', () => {
+    const backend = new FFIBackend('no-such-library.dll');
+
+    expect(() => backend.has('GetTickCount')).toThrow('FFIBackend: could not load no-such-library.dll');
+
+    backend.close();
+  });
+});
@@ -0,0 +1,83 @@
+import { afterEach, describe, expect, test } from 'bun:test';
+import { FFIType } from 'bun:ffi';
+
+import FakeBackend from '../structs/FakeBackend';
+import FFIBackend from '../structs/FFIBackend';
+import Kernel32 from '../structs/Kernel32';
+
+import { type HANDLE, NULL } from '../types/Kernel32';
+
+afterEach(() => {
+  Kernel32.Configure({ backend: new FFIBackend() });
+});
+
+describe('FakeBackend', () => {
+  test('bound functions dispatch to the stub registered at call time', () => {
+    const backend = new FakeBackend().stub('GetCurrentProcessId', () => 1);
+
+    Kernel32.Configure({ backend });
+
+    expect(Kernel32.GetCurrentProcessId()).toBe(1);
+
+    backend.stub('GetCurrentProcessId', () => 2);
+
+    expect(Kernel32.GetCurrentProcessId()).toBe(2);
+
+    backend.unstub('GetCurrentProcessId');
+
+    expect(() => Kernel32.GetCurrentProcessId()).toThrow('FakeBackend: no implementation stubbed for GetCurrentProcessId');
+  });
+
+  test('refuses to bind exports without a stub', () => {
+    const backend = new FakeBackend().stub('GetTickCount', () => 0);
+
+    expect(backend.has('GetTickCount')).toBe(true);
+    expect(backend.has('GetTickCount64')).toBe(false);
+    expect(() => backend.bind({ GetTickCount64: { args: [], returns: FFIType.u64 } })).toThrow('FakeBackend: no implementation stubbed for GetTickCount64');
+  });
+
+  test('GetLastError and SetLastError default to lastError', () => {
+    const backend = new FakeBackend();
+
+    Kernel32.Configure({ backend });
+
+    Kernel32.SetLastError(5);
+
+    expect(backend.lastError).toBe(5);
+
+    backend.lastError = 6;
+
+    expect(Kernel32.GetLastError()).toBe(6);
+
+    backend.stub('GetLastError', () => 87);
+
+    expect(Kernel32.GetLastError()).toBe(87);
+  });
+
+  test('reset removes every stub and clears lastError', () => {
+    const backend = new FakeBackend().stub('GetCurrentProcessId', () => 1).stub('GetLastError', () => 87);
+
+    backend.lastError = 5;
+
+    expect(backend.reset()).toBe(backend);
+    expect(backend.lastError).toBe(0);
+    expect(backend.has('GetCurrentProcessId')).toBe(false);
+    expect(backend.has('GetLastError')).toBe(true);
+
+    Kernel32.Configure({ backend });
+
+    expect(Kernel32.GetLastError()).toBe(0);
+  });
+
+  test('stubs receive by-value COORD arguments packed into a DWORD', () => {
+    const received: number[] = [];
+
+    const backend = new FakeBackend().stub('ReadConsoleOutputW', (hConsoleOutput, lpBuffer, dwBufferSize, dwBufferCoord) => (received.push(dwBufferSize, dwBufferCoord), 1));
+
+    Kernel32.Configure({ backend });
+
+    Kernel32.ReadConsoleOutputW(NULL as HANDLE, NULL, { X: 80, Y: 25 }, { X: -1, Y: 2 }, NULL);
+
+    expect(received).toEqual([0x0019_0050, 0x0002_ffff]);
+  });
+});
@@ -0,0 +1,146 @@
+import '../runtime/extensions';
+
+import { afterEach, describe, expect, test } from 'bun:test';
+import { type Pointer, toArrayBuffer } from 'bun:ffi';
+
+import FakeBackend from '../structs/FakeBackend';
+import FFIBackend from '../structs/FFIBackend';
+import File from '../structs/File';
+import Kernel32 from '../structs/Kernel32';
+import Layouts from '../structs/Layouts';
+import Struct from '../structs/Struct';
+import Win32Error from '../structs/Win32Error';
+
+import { type HANDLE, Win32ErrorCode } from '../types/Kernel32';
+
+const Handle = 0x1a4 as unknown as HANDLE;
+
+// An in-memory file with a file pointer. Like a real one, positional reads at or past the end
+// fail with ERROR_HANDLE_EOF, while reads at the file pointer return 0 bytes.
+function memoryFile(contents: number[]): FakeBackend {
+  const backend = new FakeBackend();
+
+  let pointer = 0;
+
+  const bytes = (address: Pointer, length: number) => new Uint8Array(toArrayBuffer(address, 0, length));
+
+  const offset = (lpOverlapped: Pointer | null) => {
+    if (!lpOverlapped) {
+      return null;
+    }
+
+    const { Offset, OffsetHigh } = Layouts.OVERLAPPED.from(bytes(lpOverlapped, Struct.SizeOf(Layouts.OVERLAPPED))).DUMMYUNIONNAME.DUMMYSTRUCTNAME;
+
+    return OffsetHigh * 2 ** 32 + Offset;
+  };
+
+  const transferred = (address: Pointer, count: number) => {
+    new Uint32Array(toArrayBuffer(address, 0, 4))[0] = count;
+
+    return 1;
+  };
+
+  return backend
+    .stub('CloseHandle', () => 1)
+    .stub('ReadFile', (hFile, lpBuffer, nNumberOfBytesToRead, lpNumberOfBytesRead, lpOverlapped) => {
+      const position = offset(lpOverlapped) ?? pointer;
+
+      if (position >= contents.length && lpOverlapped) {
+        backend.lastError = Win32ErrorCode.ERROR_HANDLE_EOF;
+
+        return 0;
+      }
+
+      const read = contents.slice(position, position + nNumberOfBytesToRead);
+
+      bytes(lpBuffer, nNumberOfBytesToRead).set(read);
+      pointer = position + read.length;
+
+      return transferred(lpNumberOfBytesRead, read.length);
+    })
+    .stub('WriteFile', (hFile, lpBuffer, nNumberOfBytesToWrite, lpNumberOfBytesWritten, lpOverlapped) => {
+      const position = offset(lpOverlapped) ?? pointer;
+
+      while (contents.length < position) {
+        contents.push(0);
+      }
+
+      contents.splice(position, nNumberOfBytesToWrite, ...bytes(lpBuffer, nNumberOfBytesToWrite));
+      pointer = position + nNumberOfBytesToWrite;
+
+      return transferred(lpNumberOfBytesWritten, nNumberOfBytesToWrite);
+    });
+}
+
+afterEach(() => Kernel32.Configure({ backend: new FFIBackend() }));
+
+describe('File', () => {
+  test('reads and writes at the file pointer', () => {
+    const contents = [1, 2, 3, 4, 5];
+
+    Kernel32.Configure({ backend: memoryFile(contents) });
+
+    const file = new File(Handle);
+
+    try {
+      const buffer = new Uint8Array(3);
+
+      expect(file.read(buffer)).toBe(3);
+      expect(buffer).toEqual(Uint8Array.of(1, 2, 3));
+      expect(file.write(Uint8Array.of(9))).toBe(1);
+      expect(file.read(buffer)).toBe(1);
+      expect(buffer.subarray(0, 1)).toEqual(Uint8Array.of(5));
+      expect(file.read(buffer)).toBe(0);
+      expect(contents).toEqual([1, 2, 3, 9, 5]);
+    } finally {
+      file.close();
+    }
+  });
+
+  test('reads and writes at an offset', () => {
+    const contents = [1, 2, 3, 4, 5];
+
+    Kernel32.Configure({ backend: memoryFile(contents) });
+
+    const file = new File(Handle);
+
+    try {
+      const buffer = new Uint8Array(2);
+
+      expect(file.read(buffer, 3n)).toBe(2);
+      expect(buffer).toEqual(Uint8Array.of(4, 5));
+      expect(file.write(Uint8Array.of(7, 8), 6)).toBe(2);
+      expect(contents).toEqual([1, 2, 3, 4, 5, 0, 7, 8]);
+    } finally {
+      file.close();
+    }
+  });
+
+  test('reads 0 bytes at or past the end', () => {
+    Kernel32.Configure({ backend: memoryFile([1, 2]) });
+
+    const file = new File(Handle);
+
+    try {
+      expect(file.read(new Uint8Array(4), 2)).toBe(0);
+      expect(file.read(new Uint8Array(4), 2 ** 33)).toBe(0);
+      expect(file.read(new Uint8Array(0), 0)).toBe(0);
+    } finally {
+      file.close();
+    }
+  });
+
+  test('throws other read failures', () => {
+    const backend = new FakeBackend();
+
+    Kernel32.Configure({ backend: backend.stub('CloseHandle', () => 1).stub('ReadFile', () => ((backend.lastError = Win32ErrorCode.ERROR_ACCESS_DENIED), 0)) });
+
+    const file = new File(Handle);
+
+    try {
+      expect(() => file.read(new Uint8Array(4), 0)).toThrow(new Win32Error('ReadFile', Win32ErrorCode.ERROR_ACCESS_DENIED));
+    } finally {
+      file.close();
+    }
+  });
+});
@@ -0,0 +1,113 @@
+import { describe, expect, test } from 'bun:test';
+
+import FileTime from '../structs/FileTime';
+
+// 2020-02-29T12:34:56.789Z
+const LeapDay = 132_274_532_967_890_000n;
+
+describe('FileTime', () => {
+  describe('Date', () => {
+    test('1601-01-01 is tick 0', () => {
+      expect(FileTime.FromDate(new Date('1601-01-01T00:00:00Z'))).toBe(0n);
+      expect(FileTime.ToDate(0n).toISOString()).toBe('1601-01-01T00:00:00.000Z');
+    });
+
+    test('the Unix epoch is FileTime.UnixEpoch', () => {
+      expect(FileTime.FromDate(0)).toBe(FileTime.UnixEpoch);
+      expect(FileTime.ToDate(FileTime.UnixEpoch).getTime()).toBe(0);
+    });
+
+    test('29 February round-trips exactly', () => {
+      expect(FileTime.FromDate(new Date('2020-02-29T12:34:56.789Z'))).toBe(LeapDay);
+      expect(FileTime.ToDate(LeapDay).toISOString()).toBe('2020-02-29T12:34:56.789Z');
+    });
+
+    test('rounds down to a whole millisecond, before and after the Unix epoch', () => {
+      expect(FileTime.ToDate(LeapDay + 9_999n).toISOString()).toBe('2020-02-29T12:34:56.789Z');
+      expect(FileTime.ToDate(FileTime.UnixEpoch - 1n).getTime()).toBe(-1);
+    });
+
+    test('FileTime.Max converts to its last whole millisecond', () => {
+      expect(FileTime.ToDate(FileTime.Max).toISOString()).toBe('+030828-09-14T02:48:05.477Z');
+      expect(FileTime.FromDate(FileTime.ToDate(FileTime.Max))).toBe(FileTime.Max - 5_807n);
+    });
+
+    test('rejects dates before 1601 and invalid dates', () => {
+      expect(() => FileTime.FromDate(new Date('1600-12-31T23:59:59.999Z'))).toThrow(RangeError);
+      expect(() => FileTime.FromDate(new Date(NaN))).toThrow(RangeError);
+      expect(() => FileTime.ToDate(-1n)).toThrow(RangeError);
+      expect(() => FileTime.ToDate(FileTime.Max + 1n)).toThrow(RangeError);
+    });
+  });
+
+  describe('SYSTEMTIME', () => {
+    test('1601-01-01 was a Monday', () => {
+      expect(FileTime.ToSystemTime(0n)).toEqual({ wDay: 1, wDayOfWeek: 1, wHour: 0, wMilliseconds: 0, wMinute: 0, wMonth: 1, wSecond: 0, wYear: 1601 });
+    });
+
+    test('29 February round-trips exactly', () => {
+      const fields = { wDay: 29, wDayOfWeek: 6, wHour: 12, wMilliseconds: 789, wMinute: 34, wMonth: 2, wSecond: 56, wYear: 2020 };
+
+      expect(FileTime.ToSystemTime(LeapDay)).toEqual(fields);
+      expect(FileTime.FromSystemTime(fields)).toBe(LeapDay);
+    });
+
+    test('FileTime.Max is 30828-09-14 02:48:05.477, a Thursday', () => {
+      expect(FileTime.ToSystemTime(FileTime.Max)).toEqual({ wDay: 14, wDayOfWeek: 4, wHour: 2, wMilliseconds: 477, wMinute: 48, wMonth: 9, wSecond: 5, wYear: 30828 });
+    });
+
+    test('accepts 29 February only in leap years', () => {
+      const fields = { wDay: 29, wHour: 0, wMilliseconds: 0, wMinute: 0, wMonth: 2, wSecond: 0 };
+
+      expect(FileTime.ToSystemTime(FileTime.FromSystemTime({ ...fields, wYear: 2000 })).wDay).toBe(29);
+      expect(() => FileTime.FromSystemTime({ ...fields, wYear: 1900 })).toThrow(RangeError);
+      expect(() => FileTime.FromSystemTime({ ...fields, wYear: 2021 })).toThrow(RangeError);
+    });
+
+    test('rejects years outside 1601 to 30827', () => {
+      const fields = { wDay: 1, wHour: 0, wMilliseconds: 0, wMinute: 0, wMonth: 1, wSecond: 0 };
+
+      expect(FileTime.FromSystemTime({ ...fields, wYear: 1601 })).toBe(0n);
+      expect(() => FileTime.FromSystemTime({ ...fields, wYear: 1600 })).toThrow(RangeError);
+      expect(() => FileTime.FromSystemTime({ ...fields, wYear: 30828 })).toThrow(RangeError);
+    });
+  });
+
+  describe('DOS date/time', () => {
+    // 2020-02-29 12:34:56
+    const date = (40 << 9) | (2 << 5) | 29;
+    const time = (12 << 11) | (34 << 5) | (56 >>> 1);
+
+    test('29 February round-trips exactly at even seconds', () => {
+      expect(FileTime.FromDosDateTime(date, time)).toBe(LeapDay - 7_890_000n);
+      expect(FileTime.ToDosDateTime(LeapDay - 7_890_000n)).toEqual({ date, time });
+    });
+
+    test('rounds down to an even second', () => {
+      expect(FileTime.ToDosDateTime(LeapDay + FileTime.TicksPerSecond)).toEqual({ date, time });
+    });
+
+    test('covers 1980 to 2107', () => {
+      expect(FileTime.ToDosDateTime(FileTime.FromDosDateTime((0 << 9) | (1 << 5) | 1, 0))).toEqual({ date: (1 << 5) | 1, time: 0 });
+      expect(FileTime.ToDosDateTime(FileTime.FromDosDateTime((127 << 9) | (12 << 5) | 31, (23 << 11) | (59 << 5) | 29))).toEqual({ date: (127 << 9) | (12 << 5) | 31, time: (23 << 11) | (59 << 5) | 29 });
+      expect(() => FileTime.ToDosDateTime(0n)).toThrow(RangeError);
+      expect(() => FileTime.ToDosDateTime(FileTime.Max)).toThrow(RangeError);
+    });
+  });
+
+  describe('parts and nanoseconds', () => {
+    test('FileTime.Max splits into its two DWORDs and joins back', () => {
+      expect(FileTime.ToParts(FileTime.Max)).toEqual({ dwHighDateTime: 0x7fff_ffff, dwLowDateTime: 0xffff_ffff });
+      expect(FileTime.FromParts(FileTime.ToParts(FileTime.Max))).toBe(FileTime.Max);
+      expect(FileTime.FromParts(FileTime.ToParts(LeapDay))).toBe(LeapDay);
+    });
+
+    test('nanoseconds round-trip exactly over the whole range', () => {
+      for (const ticks of [0n, FileTime.UnixEpoch, LeapDay, FileTime.Max]) {
+        expect(FileTime.FromNanoseconds(FileTime.ToNanoseconds(ticks))).toBe(ticks);
+      }
+
+      expect(FileTime.FromInstant({ epochNanoseconds: -1n })).toBe(FileTime.UnixEpoch - 1n);
+    });
+  });
+});
@@ -0,0 +1,51 @@
+import { describe, expect, test } from 'bun:test';
+
+import Flags from '../structs/Flags';
+
+import { FileAccessRights, FileAttributes, PipeMode, StandardAccessRights } from '../types/Kernel32';
+
+const Attributes = new Flags(FileAttributes);
+const Pipes = new Flags(PipeMode);
+const Rights = new Flags<FileAccessRights | StandardAccessRights>(FileAccessRights, StandardAccessRights);
+
+describe('Flags.decode', () => {
+  test('prefers multi-bit members over the bits they contain', () => {
+    expect(Rights.decode(FileAccessRights.FILE_GENERIC_READ)).toEqual(['FILE_GENERIC_READ']);
+    expect(Rights.decode(FileAccessRights.FILE_GENERIC_READ | StandardAccessRights.DELETE)).toEqual(['DELETE', 'FILE_GENERIC_READ']);
+    expect(Rights.decode(FileAccessRights.FILE_ALL_ACCESS)).toEqual(['FILE_ALL_ACCESS']);
+    expect(Rights.decode(StandardAccessRights.SYNCHRONIZE | FileAccessRights.FILE_READ_DATA)).toEqual(['FILE_READ_DATA', 'SYNCHRONIZE']);
+  });
+
+  test('reports unknown bits as one hex remainder', () => {
+    expect(Attributes.decode(0x8000_0003)).toEqual(['FILE_ATTRIBUTE_READONLY', 'FILE_ATTRIBUTE_HIDDEN', '0x80000000']);
+    expect(Attributes.decode(-1 & ~0xffff)).toEqual(['0xffff0000']);
+  });
+
+  test('names zero by the first zero-valued member', () => {
+    expect(Pipes.decode(0)).toEqual(['PIPE_READMODE_BYTE']);
+    expect(Pipes.decode(PipeMode.PIPE_READMODE_MESSAGE | PipeMode.PIPE_TYPE_MESSAGE)).toEqual(['PIPE_READMODE_MESSAGE', 'PIPE_TYPE_MESSAGE']);
+    expect(Attributes.decode(0)).toEqual([]);
+  });
+});
+
+describe('Flags.format', () => {
+  test('joins the decoded names', () => {
+    expect(Rights.format(Rights.combine(FileAccessRights.FILE_GENERIC_READ, StandardAccessRights.DELETE))).toBe('DELETE | FILE_GENERIC_READ');
+    expect(Attributes.format(0x8000_0002)).toBe('FILE_ATTRIBUTE_HIDDEN | 0x80000000');
+    expect(Pipes.format(0)).toBe('PIPE_READMODE_BYTE');
+    expect(Attributes.format(0)).toBe('0');
+  });
+});
+
+describe('Flags', () => {
+  test('combines, tests and removes flags as unsigned values', () => {
+    const value = Attributes.combine(FileAttributes.FILE_ATTRIBUTE_HIDDEN, FileAttributes.FILE_ATTRIBUTE_ARCHIVE);
+
+    expect(value as number).toBe(0x22);
+    expect(Attributes.has(value, FileAttributes.FILE_ATTRIBUTE_HIDDEN)).toBe(true);
+    expect(Attributes.has(value, FileAttributes.FILE_ATTRIBUTE_DIRECTORY)).toBe(false);
+    expect(Pipes.has(0, PipeMode.PIPE_WAIT)).toBe(true);
+    expect(Attributes.remove(value, FileAttributes.FILE_ATTRIBUTE_HIDDEN)).toBe(FileAttributes.FILE_ATTRIBUTE_ARCHIVE);
+    expect(Rights.combine(StandardAccessRights.MAXIMUM_ALLOWED, 0x8000_0000 as FileAccessRights) as number).toBe(0x8200_0000);
+  });
+});
@@ -0,0 +1,123 @@
+import '../runtime/extensions';
+
+import { afterEach, describe, expect, test } from 'bun:test';
+import { type Pointer, toArrayBuffer } from 'bun:ffi';
+
+import FakeBackend from '../structs/FakeBackend';
+import FFIBackend from '../structs/FFIBackend';
+import IoCompletionPort from '../structs/IoCompletionPort';
+import Kernel32 from '../structs/Kernel32';
+import Layouts from '../structs/Layouts';
+import Struct from '../structs/Struct';
+import Win32Error from '../structs/Win32Error';
+
+import type { IoCompletionPacket } from '../types/IoCompletionPort';
+import { type HANDLE, Win32ErrorCode } from '../types/Kernel32';
+
+const File = 0x10 as unknown as HANDLE;
+
+let dequeueError: number = Win32ErrorCode.WAIT_TIMEOUT;
+
+// A port whose reads stay pending and whose dequeues time out until `lastError` is set to something else.
+function fake(): FakeBackend {
+  const backend = new FakeBackend();
+
+  return backend
+    .stub('CancelIoEx', () => 1)
+    .stub('CloseHandle', () => 1)
+    .stub('CreateIoCompletionPort', () => 0x9000 as unknown as HANDLE)
+    .stub('ReadFile', () => ((backend.lastError = Win32ErrorCode.ERROR_IO_PENDING), 0))
+    .stub('GetQueuedCompletionStatusEx', () => ((backend.lastError = dequeueError), 0));
+}
+
+afterEach(() => {
+  dequeueError = Win32ErrorCode.WAIT_TIMEOUT;
+
+  Kernel32.Configure({ backend: new FFIBackend() });
+});
+
+describe('IoCompletionPort', () => {
+  test('a dequeue that times out returns no packets', () => {
+    Kernel32.Configure({ backend: fake() });
+
+    expect(IoCompletionPort.Dequeue(0x9000 as unknown as HANDLE, 8, 0)).toEqual([]);
+  });
+
+  test('rejects a submit whose export fails outright', async () => {
+    const backend = fake();
+
+    Kernel32.Configure({ backend: backend.stub('ReadFile', () => ((backend.lastError = Win32ErrorCode.ERROR_ACCESS_DENIED), 0)) });
+
+    const port = IoCompletionPort.Create();
+    const error = await port.read(File, new Uint8Array(4), 0).catch((error: unknown) => error);
+
+    expect(error).toBeInstanceOf(Win32Error);
+    expect(error).toMatchObject({ api: 'ReadFile', code: Win32ErrorCode.ERROR_ACCESS_DENIED });
+    expect(port.inFlight).toBe(0);
+
+    await port.close();
+  });
+
+  test('stops running and rejects operations in flight once the port cannot be read', async () => {
+    Kernel32.Configure({ backend: fake() });
+
+    const port = IoCompletionPort.Create();
+
+    port.run();
+
+    const read = port.read(File, new Uint8Array(4), 0).catch((error: unknown) => error);
+
+    await Bun.sleep(5);
+
+    expect(port.inFlight).toBe(1);
+
+    dequeueError = Win32ErrorCode.ERROR_ABANDONED_WAIT_0;
+
+    expect(await read).toMatchObject({ api: 'GetQueuedCompletionStatusEx', code: Win32ErrorCode.ERROR_ABANDONED_WAIT_0 });
+    expect(port.isRunning).toBe(false);
+    expect(port.inFlight).toBe(0);
+
+    await port.close();
+  });
+
+  test('holds an abandoned operation until its packet is dequeued', async () => {
+    const backend = fake();
+    const packets: IoCompletionPacket[] = [];
+
+    let overlapped: Pointer | null = null;
+
+    Kernel32.Configure({ backend: backend.stub('ReadFile', (hFile, lpBuffer, nNumberOfBytesToRead, lpNumberOfBytesRead, lpOverlapped) => ((overlapped = lpOverlapped), (backend.lastError = Win32ErrorCode.ERROR_IO_PENDING), 0)) });
+
+    const port = IoCompletionPort.Create();
+
+    port.onPacket = (packet) => packets.push(packet);
+    port.run();
+
+    const read = port.read(File, new Uint8Array(4), 0).catch((error: unknown) => error);
+
+    await Bun.sleep(5);
+
+    dequeueError = Win32ErrorCode.ERROR_ABANDONED_WAIT_0;
+
+    expect(await read).toBeInstanceOf(Win32Error);
+
+    // The cancelled read's packet turns up after all, followed by the same packet again.
+    backend.stub('GetQueuedCompletionStatusEx', (CompletionPort, lpCompletionPortEntries, ulCount, ulNumEntriesRemoved) => {
+      const entry = Layouts.OVERLAPPED_ENTRY.from(new Uint8Array(toArrayBuffer(lpCompletionPortEntries, 0, Struct.SizeOf(Layouts.OVERLAPPED_ENTRY))));
+
+      entry.lpOverlapped = overlapped!;
+      entry.Internal = 0xc000_0120n;
+      new Uint32Array(toArrayBuffer(ulNumEntriesRemoved, 0, 4))[0] = 1;
+
+      return 1;
+    });
+
+    expect(port.poll()).toBe(1);
+    expect(packets).toEqual([]);
+
+    expect(port.poll()).toBe(1);
+    expect(packets).toEqual([{ bytesTransferred: 0, key: 0n, overlapped: overlapped!, status: 0xc000_0120 }]);
+
+    await port.close();
+  });
+});
@@ -0,0 +1,140 @@
+import { afterEach, describe, expect, test } from 'bun:test';
+
+import FakeBackend from '../structs/FakeBackend';
+import FFIBackend from '../structs/FFIBackend';
+import Kernel32 from '../structs/Kernel32';
+import SymbolUnavailableError from '../structs/SymbolUnavailableError';
+
+import { type HANDLE, NULL } from '../types/Kernel32';
+
+afterEach(() => {
+  Kernel32.Configure({ backend: new FFIBackend(), captureLastError: false });
+});
+
+describe('Kernel32.Configure', () => {
+  test('rebinds exports through the new backend', () => {
+    Kernel32.Configure({ backend: new FakeBackend().stub('GetCurrentProcessId', () => 1) });
+
+    expect(Kernel32.GetCurrentProcessId()).toBe(1);
+
+    Kernel32.Configure({ backend: new FakeBackend().stub('GetCurrentProcessId', () => 2) });
+
+    expect(Kernel32.GetCurrentProcessId()).toBe(2);
+  });
+
+  test('discards preloaded bindings', () => {
+    const first = new FakeBackend().stub('GetTickCount', () => 1);
+
+    Kernel32.Configure({ backend: first });
+    Kernel32.Preload(['GetTickCount']);
+
+    Kernel32.Configure({ backend: new FakeBackend().stub('GetTickCount', () => 2) });
+
+    expect(Kernel32.GetTickCount()).toBe(2);
+  });
+});
+
+describe('Kernel32.LastError', () => {
+  test('reads GetLastError when capture is off', () => {
+    const backend = new FakeBackend();
+
+    Kernel32.Configure({ backend });
+
+    backend.lastError = 5;
+
+    expect(Kernel32.LastError).toBe(5);
+  });
+
+  test('holds the value captured right after the most recent call', () => {
+    const backend = new FakeBackend();
+
+    backend.stub('CloseHandle', () => ((backend.lastError = 6), 0)).stub('GetTickCount', () => 1);
+
+    Kernel32.Configure({ backend, captureLastError: true });
+
+    Kernel32.CloseHandle(0x1a4 as unknown as HANDLE);
+    backend.lastError = 0;
+
+    expect(Kernel32.LastError).toBe(6);
+
+    Kernel32.GetTickCount();
+
+    expect(Kernel32.LastError).toBe(0);
+  });
+
+  test('is cleared by Configure', () => {
+    const backend = new FakeBackend();
+
+    backend.stub('CloseHandle', () => ((backend.lastError = 6), 0));
+
+    Kernel32.Configure({ backend, captureLastError: true });
+    Kernel32.CloseHandle(0x1a4 as unknown as HANDLE);
+    Kernel32.Configure({ backend });
+
+    expect(Kernel32.LastError).toBe(0);
+  });
+});
+
+describe('Kernel32.IsAvailable', () => {
+  test('reports whether the backend provides an export', () => {
+    Kernel32.Configure({ backend: new FakeBackend().stub('GetTickCount', () => 1) });
+
+    expect(Kernel32.IsAvailable('GetTickCount')).toBe(true);
+    expect(Kernel32.IsAvailable('GetLastError')).toBe(true);
+    expect(Kernel32.IsAvailable('CreateFile3')).toBe(false);
+  });
+
+  test('reports bound exports without asking the backend', () => {
+    const backend = new FakeBackend().stub('GetTickCount', () => 1);
+
+    Kernel32.Configure({ backend });
+    Kernel32.GetTickCount();
+    backend.unstub('GetTickCount');
+
+    expect(Kernel32.IsAvailable('GetTickCount')).toBe(true);
+  });
+});
+
+describe('SymbolUnavailableError', () => {
+  test('is thrown by a missing export, naming the build that adds it', () => {
+    Kernel32.Configure({ backend: new FakeBackend() });
+
+    let error: unknown;
+
+    try {
+      Kernel32.CreateFile3(NULL, 0, 0, 0, NULL);
+    } catch (caught) {
+      error = caught;
+    }
+
+    expect(error).toBeInstanceOf(SymbolUnavailableError);
+    expect(error).toMatchObject({ api: 'CreateFile3', minimumBuild: 26100, name: 'SymbolUnavailableError', message: 'CreateFile3 is not available on this system (requires Windows build 26100 or later)' });
+    expect((error as Error).cause).toEqual(new Error('FakeBackend: no implementation stubbed for CreateFile3'));
+  });
+
+  test('omits the build for exports that predate Windows 10', () => {
+    Kernel32.Configure({ backend: new FakeBackend() });
+
+    expect(() => Kernel32.GetTickCount()).toThrow(new SymbolUnavailableError('GetTickCount', null));
+    expect(new SymbolUnavailableError('GetTickCount', null).message).toBe('GetTickCount is not available on this system');
+  });
+});
+
+describe('Kernel32.Preload', () => {
+  test('reports the exports it bound and those bound before', () => {
+    Kernel32.Configure({ backend: new FakeBackend().stub('GetTickCount', () => 1).stub('GetCurrentProcessId', () => 2) });
+    Kernel32.GetTickCount();
+
+    expect(Kernel32.Preload(['GetTickCount', 'GetCurrentProcessId'])).toEqual({ alreadyBound: ['GetTickCount'], bound: ['GetCurrentProcessId'], missing: [] });
+    expect(Kernel32.Preload(['GetTickCount', 'GetCurrentProcessId'])).toEqual({ alreadyBound: ['GetTickCount', 'GetCurrentProcessId'], bound: [], missing: [] });
+  });
+
+  test('throws for a missing export unless told to skip it', () => {
+    Kernel32.Configure({ backend: new FakeBackend().stub('GetTickCount', () => 1) });
+
+    expect(() => Kernel32.Preload(['GetTickCount', 'CreateFile3'])).toThrow(new SymbolUnavailableError('CreateFile3', 26100));
+    expect(Kernel32.IsAvailable('GetTickCount')).toBe(true);
+    expect(Kernel32.Preload(['GetTickCount', 'CreateFile3', 'GetTempPath2W'], { skipUnavailable: true })).toEqual({ alreadyBound: [], bound: ['GetTickCount'], missing: ['CreateFile3', 'GetTempPath2W'] });
+    expect(Kernel32.GetTickCount()).toBe(1);
+  });
+});
@@ -0,0 +1,97 @@
+import { afterEach, describe, expect, test } from 'bun:test';
+
+import FakeBackend from '../structs/FakeBackend';
+import FFIBackend from '../structs/FFIBackend';
+import Kernel32 from '../structs/Kernel32';
+import Kernel32Checked from '../structs/Kernel32Checked';
+import Win32Error from '../structs/Win32Error';
+
+import { type HANDLE, NULL, STD_HANDLE, Win32ErrorCode } from '../types/Kernel32';
+
+const Handle = 0x1a4 as unknown as HANDLE;
+
+// A fake whose failing exports set `code` as the last-error value.
+function failing(code: number): FakeBackend {
+  const backend = new FakeBackend();
+
+  backend.lastError = code;
+
+  return backend;
+}
+
+afterEach(() => {
+  Kernel32.Configure({ backend: new FFIBackend() });
+});
+
+describe('Kernel32Checked', () => {
+  test('returns the result of a call that succeeds', () => {
+    Kernel32.Configure({ backend: new FakeBackend().stub('CreateFileW', () => Handle).stub('CloseHandle', () => 1) });
+
+    expect(Kernel32Checked.CreateFileW(NULL, 0, 0, NULL, 3, 0, NULL as HANDLE)).toBe(Handle);
+    expect(Kernel32Checked.CloseHandle(Handle)).toBe(1);
+  });
+
+  test('FALSE: a zero BOOL throws with the last-error value', () => {
+    Kernel32.Configure({ backend: failing(Win32ErrorCode.ERROR_INVALID_HANDLE).stub('CloseHandle', () => 0) });
+
+    expect(() => Kernel32Checked.CloseHandle(Handle)).toThrow(new Win32Error('CloseHandle', Win32ErrorCode.ERROR_INVALID_HANDLE));
+  });
+
+  test('INVALID_HANDLE_VALUE: matches the handle as bun:ffi returns it, and its signed form', () => {
+    for (const invalid of [2 ** 64, -1]) {
+      Kernel32.Configure({ backend: failing(Win32ErrorCode.ERROR_FILE_NOT_FOUND).stub('CreateFileW', () => invalid as unknown as HANDLE) });
+
+      expect(() => Kernel32Checked.CreateFileW(NULL, 0, 0, NULL, 3, 0, NULL as HANDLE)).toThrow(new Win32Error('CreateFileW', Win32ErrorCode.ERROR_FILE_NOT_FOUND));
+    }
+  });
+
+  test('INVALID_HANDLE_VALUE: NULL is a valid result', () => {
+    Kernel32.Configure({ backend: new FakeBackend().stub('CreateFileW', () => NULL as HANDLE) });
+
+    expect(Kernel32Checked.CreateFileW(NULL, 0, 0, NULL, 3, 0, NULL as HANDLE)).toBe(NULL as HANDLE);
+  });
+
+  test('INVALID_HANDLE_VALUE_OR_NULL: NULL throws ERROR_INVALID_HANDLE without reading the last error', () => {
+    Kernel32.Configure({ backend: failing(Win32ErrorCode.ERROR_ACCESS_DENIED).stub('GetStdHandle', () => null as unknown as HANDLE) });
+
+    expect(() => Kernel32Checked.GetStdHandle(STD_HANDLE.OUTPUT)).toThrow(new Win32Error('GetStdHandle', Win32ErrorCode.ERROR_INVALID_HANDLE));
+
+    Kernel32.Configure({ backend: failing(Win32ErrorCode.ERROR_ACCESS_DENIED).stub('GetStdHandle', () => (2 ** 64) as unknown as HANDLE) });
+
+    expect(() => Kernel32Checked.GetStdHandle(STD_HANDLE.OUTPUT)).toThrow(new Win32Error('GetStdHandle', Win32ErrorCode.ERROR_ACCESS_DENIED));
+  });
+
+  test('FAILED: a negative HRESULT becomes the error code', () => {
+    const E_INVALIDARG = 0x8007_0057;
+
+    Kernel32.Configure({ backend: new FakeBackend().stub('WerUnregisterFile', () => E_INVALIDARG | 0) });
+
+    expect(() => Kernel32Checked.WerUnregisterFile(NULL)).toThrow(new Win32Error('WerUnregisterFile', E_INVALIDARG));
+
+    Kernel32.Configure({ backend: new FakeBackend().stub('WerUnregisterFile', () => 1) });
+
+    expect(Kernel32Checked.WerUnregisterFile(NULL)).toBe(1);
+  });
+
+  test('ERROR_CODE: a non-zero result becomes the error code', () => {
+    Kernel32.Configure({ backend: new FakeBackend().stub('GetCurrentPackageFamilyName', () => Win32ErrorCode.ERROR_INSUFFICIENT_BUFFER) });
+
+    expect(() => Kernel32Checked.GetCurrentPackageFamilyName(NULL, NULL)).toThrow(new Win32Error('GetCurrentPackageFamilyName', Win32ErrorCode.ERROR_INSUFFICIENT_BUFFER));
+  });
+
+  test('MAXDWORD: 0xFFFFFFFF throws with the last-error value', () => {
+    Kernel32.Configure({ backend: failing(Win32ErrorCode.ERROR_PATH_NOT_FOUND).stub('GetFileAttributesW', () => 0xffff_ffff) });
+
+    expect(() => Kernel32Checked.GetFileAttributesW(NULL)).toThrow(new Win32Error('GetFileAttributesW', Win32ErrorCode.ERROR_PATH_NOT_FOUND));
+  });
+
+  test('WAIT_FAILED: 0xFFFFFFFF throws with the last-error value, other waits return', () => {
+    Kernel32.Configure({ backend: failing(Win32ErrorCode.ERROR_INVALID_HANDLE).stub('WaitForSingleObject', () => 0xffff_ffff) });
+
+    expect(() => Kernel32Checked.WaitForSingleObject(Handle, 0)).toThrow(new Win32Error('WaitForSingleObject', Win32ErrorCode.ERROR_INVALID_HANDLE));
+
+    Kernel32.Configure({ backend: new FakeBackend().stub('WaitForSingleObject', () => Win32ErrorCode.WAIT_TIMEOUT) });
+
+    expect(Kernel32Checked.WaitForSingleObject(Handle, 0)).toBe(Win32ErrorCode.WAIT_TIMEOUT);
+  });
+});
@@ -0,0 +1,41 @@
+import { describe, expect, test } from 'bun:test';
+
+import Layouts from '../structs/Layouts';
+import Struct from '../structs/Struct';
+
+import { SDK } from '../scripts/sdk';
+
+const layouts = Object.entries(Layouts) as [string, Struct<any>][];
+
+describe('Layouts', () => {
+  test('every structure has an SDK reference and every reference a structure', () => {
+    expect(layouts.map(([name]) => name).sort()).toEqual(Object.keys(SDK).sort());
+  });
+
+  describe.each(layouts)('%s', (name, layout) => {
+    const { offsets, size } = SDK[name]!;
+
+    test(`sizeof is ${size}`, () => {
+      expect(Struct.SizeOf(layout)).toBe(size);
+    });
+
+    test.each(Object.entries(offsets))('offsetof(%s) is %d', (field, offset) => {
+      expect(Struct.OffsetOf(layout, field)).toBe(offset);
+    });
+  });
+
+  test('OVERLAPPED writes Offset and OffsetHigh through the anonymous union', () => {
+    const { bytes } = Layouts.OVERLAPPED.create({ DUMMYUNIONNAME: { DUMMYSTRUCTNAME: { Offset: 0x1122_3344, OffsetHigh: 0x5566_7788 } } });
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+
+    expect([view.getUint32(16, true), view.getUint32(20, true)]).toEqual([0x1122_3344, 0x5566_7788]);
+  });
+
+  test('CONSOLE_SCREEN_BUFFER_INFO reads packed nested COORD and SMALL_RECT fields', () => {
+    const info = Layouts.CONSOLE_SCREEN_BUFFER_INFO.create({ dwMaximumWindowSize: { X: 120, Y: -1 }, srWindow: { Bottom: 24, Right: 79 } });
+    const view = new DataView(info.bytes.buffer, info.bytes.byteOffset, info.bytes.byteLength);
+
+    expect([view.getInt16(16, true), view.getInt16(18, true), view.getInt16(20, true)]).toEqual([24, 120, -1]);
+    expect(info.srWindow.Right).toBe(79);
+  });
+});
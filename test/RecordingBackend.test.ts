@@ -0,0 +1,101 @@
+import '../runtime/extensions';
+
+import { afterEach, describe, expect, test } from 'bun:test';
+import { FFIType, toArrayBuffer } from 'bun:ffi';
+
+import FakeBackend from '../structs/FakeBackend';
+import FFIBackend from '../structs/FFIBackend';
+import Kernel32 from '../structs/Kernel32';
+import RecordingBackend from '../structs/RecordingBackend';
+import ReplayBackend from '../structs/ReplayBackend';
+
+import { Pointers } from '../runtime/extensions';
+
+import { type HMODULE, NULL } from '../types/Kernel32';
+
+const Symbols = { QueryPerformanceCounter: { args: [FFIType.ptr], returns: FFIType.i32 } };
+
+const ModulePath = 'C:\\Tools\\tool.exe';
+
+afterEach(() => {
+  Kernel32.Configure({ backend: new FFIBackend() });
+});
+
+describe('RecordingBackend', () => {
+  test('tracks ptr reads only while recording', () => {
+    expect(Pointers.tracked).toBeNull();
+
+    const recorder = new RecordingBackend(new FakeBackend());
+
+    expect(Pointers.tracked).not.toBeNull();
+
+    recorder.stop();
+
+    expect(Pointers.tracked).toBeNull();
+    expect(recorder.isRecording).toBe(false);
+  });
+
+  test('captures out-buffers and releases them once the call is recorded', () => {
+    const fake = new FakeBackend().stub('QueryPerformanceCounter', () => 1);
+
+    const recorder = new RecordingBackend(fake);
+
+    try {
+      const { QueryPerformanceCounter } = recorder.bind(Symbols);
+      const counter = new BigInt64Array([42n]);
+      const pointer = counter.ptr;
+
+      expect(Pointers.tracked!.get(pointer)).toBe(counter);
+
+      QueryPerformanceCounter(pointer);
+
+      expect(Pointers.tracked!.has(pointer)).toBe(false);
+      expect(recorder.trace.calls).toEqual([{ api: 'QueryPerformanceCounter', arguments: [pointer], buffers: [{ argument: 0, data: Buffer.from(counter.buffer).toString('base64') }], lastError: 0, result: 1 }]);
+    } finally {
+      recorder.stop();
+    }
+  });
+
+  test('stops recording calls after stop()', () => {
+    const fake = new FakeBackend().stub('QueryPerformanceCounter', () => 1);
+    const recorder = new RecordingBackend(fake);
+    const { QueryPerformanceCounter } = recorder.bind(Symbols);
+
+    recorder.stop();
+
+    expect(QueryPerformanceCounter(new BigInt64Array(1).ptr)).toBe(1);
+    expect(recorder.trace.calls).toEqual([]);
+  });
+
+  test('replays the output string GetModuleFileNameW recorded', () => {
+    const fake = new FakeBackend().stub('GetModuleFileNameW', (hModule, lpFilename, nSize) => {
+      new Uint16Array(toArrayBuffer(lpFilename, 0, nSize * 2)).set([...ModulePath].map((character) => character.charCodeAt(0)).concat(0));
+
+      return ModulePath.length;
+    });
+
+    const recorder = new RecordingBackend(fake);
+
+    try {
+      Kernel32.Configure({ backend: recorder });
+
+      const recorded = new Uint16Array(260);
+
+      expect(Kernel32.GetModuleFileNameW(NULL as HMODULE, recorded.ptr, recorded.length)).toBe(ModulePath.length);
+      expect(recorder.trace.calls[0]!.buffers).toEqual([{ argument: 1, data: Buffer.from(recorded.buffer).toString('base64') }]);
+    } finally {
+      recorder.stop();
+    }
+
+    const replay = new ReplayBackend(JSON.parse(JSON.stringify(recorder.trace)));
+
+    Kernel32.Configure({ backend: replay });
+
+    const replayed = new Uint16Array(260);
+
+    expect(Kernel32.GetModuleFileNameW(NULL as HMODULE, replayed.ptr, replayed.length)).toBe(ModulePath.length);
+    expect(Buffer.from(replayed.buffer, 0, ModulePath.length * 2).toString('utf16le')).toBe(ModulePath);
+
+    replay.done();
+  });
+});
@@ -0,0 +1,134 @@
+import { afterEach, describe, expect, spyOn, test } from 'bun:test';
+
+import FakeBackend from '../structs/FakeBackend';
+import FFIBackend from '../structs/FFIBackend';
+import Kernel32 from '../structs/Kernel32';
+import SafeHandle from '../structs/SafeHandle';
+import Win32Error from '../structs/Win32Error';
+
+import { type HANDLE, INVALID_HANDLE_VALUE, NULL, Win32ErrorCode } from '../types/Kernel32';
+
+const Handle = 0x1a4 as unknown as HANDLE;
+
+// A backend whose closers record the handles they are given and succeed.
+function closing(closed: unknown[]): FakeBackend {
+  return new FakeBackend().stub('CloseHandle', (hObject) => (closed.push(hObject), 1)).stub('FindClose', (hFindFile) => (closed.push(hFindFile), 1));
+}
+
+afterEach(() => Kernel32.Configure({ backend: new FFIBackend() }));
+
+describe('SafeHandle', () => {
+  test('closes the handle once, with its closer', () => {
+    const closed: unknown[] = [];
+
+    Kernel32.Configure({ backend: closing(closed) });
+
+    const file = new SafeHandle(Handle);
+    const find = new SafeHandle(0x2c as unknown as Parameters<typeof Kernel32.FindClose>[0], 'FindClose');
+
+    file.close();
+    file.close();
+    find[Symbol.dispose]();
+
+    expect(closed).toEqual([0x1a4, 0x2c]);
+    expect(file.isClosed).toBe(true);
+    expect(() => file.handle).toThrow('SafeHandle: handle 0x1a4 has already been closed');
+  });
+
+  test('stays open when the closer fails', () => {
+    const backend = new FakeBackend();
+
+    Kernel32.Configure({ backend: backend.stub('CloseHandle', () => ((backend.lastError = Win32ErrorCode.ERROR_INVALID_HANDLE), 0)) });
+
+    const file = new SafeHandle(Handle);
+
+    expect(() => file.close()).toThrow(new Win32Error('CloseHandle', Win32ErrorCode.ERROR_INVALID_HANDLE));
+    expect(file.isClosed).toBe(false);
+    expect(file.handle).toBe(Handle);
+
+    backend.stub('CloseHandle', () => 1);
+    file.close();
+
+    expect(file.isClosed).toBe(true);
+  });
+
+  test('release gives up the handle without closing it', () => {
+    const closed: unknown[] = [];
+
+    Kernel32.Configure({ backend: closing(closed) });
+
+    const file = new SafeHandle(Handle);
+
+    expect(file.release()).toBe(Handle);
+    expect(file.isClosed).toBe(true);
+    expect(() => file.release()).toThrow('has already been closed');
+
+    file.close();
+
+    expect(closed).toEqual([]);
+  });
+
+  test('never closes NULL or INVALID_HANDLE_VALUE', () => {
+    const closed: unknown[] = [];
+
+    Kernel32.Configure({ backend: closing(closed) });
+
+    for (const raw of [NULL, INVALID_HANDLE_VALUE, (2 ** 64) as unknown as HANDLE]) {
+      const handle = new SafeHandle(raw);
+
+      expect(handle.isInvalid).toBe(true);
+
+      handle.close();
+
+      expect(handle.isClosed).toBe(true);
+    }
+
+    expect(closed).toEqual([]);
+    expect(SafeHandle.IsInvalid(Handle)).toBe(false);
+    expect(SafeHandle.IsInvalid(null)).toBe(true);
+  });
+
+  test('tracks open handles until they are closed or released', () => {
+    const register = spyOn(FinalizationRegistry.prototype, 'register');
+    const unregister = spyOn(FinalizationRegistry.prototype, 'unregister');
+
+    try {
+      Kernel32.Configure({ backend: closing([]) });
+
+      const closed = new SafeHandle(Handle);
+      const released = new SafeHandle(Handle);
+
+      new SafeHandle(NULL);
+
+      expect(register.mock.calls).toEqual([
+        [closed, { closer: 'CloseHandle', handle: Handle }, closed],
+        [released, { closer: 'CloseHandle', handle: Handle }, released],
+      ]);
+
+      closed.close();
+      released.release();
+
+      expect(unregister.mock.calls).toEqual([[closed], [released]]);
+    } finally {
+      register.mockRestore();
+      unregister.mockRestore();
+    }
+  });
+
+  test('stays tracked when the closer fails', () => {
+    const unregister = spyOn(FinalizationRegistry.prototype, 'unregister');
+
+    try {
+      Kernel32.Configure({ backend: new FakeBackend().stub('CloseHandle', () => 0) });
+
+      const file = new SafeHandle(Handle);
+
+      expect(() => file.close()).toThrow(Win32Error);
+      expect(unregister).not.toHaveBeenCalled();
+
+      file.release();
+    } finally {
+      unregister.mockRestore();
+    }
+  });
+});
@@ -0,0 +1,84 @@
+import '../runtime/extensions';
+
+import { afterEach, describe, expect, test } from 'bun:test';
+import { FFIType } from 'bun:ffi';
+
+import FakeBackend from '../structs/FakeBackend';
+import FFIBackend from '../structs/FFIBackend';
+import Kernel32 from '../structs/Kernel32';
+import Tracer from '../structs/Tracer';
+
+import { type HANDLE, type HMODULE, NULL } from '../types/Kernel32';
+import type { TraceEvent } from '../types/Trace';
+
+afterEach(() => {
+  Kernel32.Configure({ backend: new FFIBackend(), trace: null });
+});
+
+describe('Tracer', () => {
+  test('formats values by Win32 type', () => {
+    expect(Tracer.Format('HANDLE', FFIType.ptr, 0x1a4)).toBe('0x1a4');
+    expect(Tracer.Format('HANDLE', FFIType.ptr, 0)).toBe('NULL');
+    expect(Tracer.Format('HANDLE', FFIType.ptr, null)).toBe('NULL');
+    expect(Tracer.Format('HANDLE', FFIType.ptr, 2 ** 64)).toBe('INVALID_HANDLE_VALUE');
+    expect(Tracer.Format('DWORD', FFIType.u32, 87)).toBe('87');
+    expect(Tracer.Format('VOID', FFIType.void, undefined)).toBe('void');
+    expect(Tracer.Format('COORD', FFIType.u32, { X: 80, Y: 25 })).toBe('{ X: 80, Y: 25 }');
+  });
+
+  test('reads strings only from input parameters', () => {
+    const path = Buffer.from('C:\\temp\\log.txt\0', 'utf16le');
+
+    expect(Tracer.Format('LPCWSTR', FFIType.ptr, path, true)).toBe('"C:\\\\temp\\\\log.txt"');
+    expect(Tracer.Format('LPCWSTR', FFIType.ptr, path.ptr, true)).toBe('"C:\\\\temp\\\\log.txt"');
+    expect(Tracer.Format('LPWSTR', FFIType.ptr, path)).toBe(`<Buffer ${path.byteLength} bytes>`);
+    expect(Tracer.Format('LPWSTR', FFIType.ptr, path.ptr)).toBe(`0x${path.ptr.toString(16)}`);
+  });
+
+  test('emits one event per traced call', () => {
+    const events: TraceEvent[] = [];
+    const backend = new FakeBackend();
+    const path = Buffer.from('C:\\Tools\\tool.exe\0', 'utf16le');
+    const output = new Uint16Array(260);
+
+    backend
+      .stub('CreateFileW', () => 0x1a4 as unknown as HANDLE)
+      .stub('GetModuleFileNameW', () => ((backend.lastError = 122), 0))
+      .stub('GetTickCount', () => 1);
+
+    Kernel32.Configure({ backend, trace: { headers: ['fileapi.h'], names: ['GetModuleFileNameW'], sink: (event) => events.push(event) } });
+
+    Kernel32.CreateFileW(path.ptr, 0x8000_0000, 1, NULL, 3, 0x80, NULL as HANDLE);
+    Kernel32.GetModuleFileNameW(NULL as HMODULE, output.ptr, output.length);
+    Kernel32.GetTickCount();
+
+    expect(events.map(({ duration, ...event }) => event)).toEqual([
+      {
+        api: 'CreateFileW',
+        arguments: [
+          { name: 'lpFileName', type: 'LPWSTR', value: '"C:\\\\Tools\\\\tool.exe"' },
+          { name: 'dwDesiredAccess', type: 'DWORD', value: '2147483648' },
+          { name: 'dwShareMode', type: 'DWORD', value: '1' },
+          { name: 'lpSecurityAttributes', type: 'LPVOID', value: 'NULL' },
+          { name: 'dwCreationDisposition', type: 'DWORD', value: '3' },
+          { name: 'dwFlagsAndAttributes', type: 'DWORD', value: '128' },
+          { name: 'hTemplateFile', type: 'HANDLE', value: 'NULL' },
+        ],
+        header: 'fileapi.h',
+        lastError: 0,
+        result: '0x1a4',
+      },
+      {
+        api: 'GetModuleFileNameW',
+        arguments: [
+          { name: 'hModule', type: 'HMODULE', value: 'NULL' },
+          { name: 'lpFilename', type: 'LPWSTR', value: `0x${output.ptr.toString(16)}` },
+          { name: 'nSize', type: 'DWORD', value: '260' },
+        ],
+        header: 'libloaderapi.h',
+        lastError: 122,
+        result: '0',
+      },
+    ]);
+  });
+});
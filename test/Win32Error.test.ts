@@ -0,0 +1,73 @@
+import '../runtime/extensions';
+
+import { afterEach, describe, expect, test } from 'bun:test';
+import { toArrayBuffer } from 'bun:ffi';
+
+import FakeBackend from '../structs/FakeBackend';
+import FFIBackend from '../structs/FFIBackend';
+import Kernel32 from '../structs/Kernel32';
+import Win32Error from '../structs/Win32Error';
+
+import { type HANDLE, Win32ErrorCode } from '../types/Kernel32';
+
+// A fake whose `FormatMessageW` writes `text` and, like the native export, sets the last-error value.
+function formatting(text: string): FakeBackend {
+  const backend = new FakeBackend();
+
+  return backend.stub('FormatMessageW', (dwFlags, lpSource, dwMessageId, dwLanguageId, lpBuffer, nSize) => {
+    Buffer.from(toArrayBuffer(lpBuffer, 0, nSize * 2)).write(text, 'utf16le');
+
+    backend.lastError = Win32ErrorCode.ERROR_SUCCESS;
+
+    return text.length;
+  });
+}
+
+afterEach(() => {
+  Kernel32.Configure({ backend: new FFIBackend(), captureLastError: false });
+});
+
+describe('Win32Error.Name', () => {
+  test('resolves Win32 error codes', () => {
+    expect(Win32Error.Name(Win32ErrorCode.ERROR_FILE_NOT_FOUND)).toBe('ERROR_FILE_NOT_FOUND');
+    expect(Win32Error.Name(0x0000_fffe)).toBeNull();
+  });
+
+  test('resolves HRESULT_FROM_WIN32 to the wrapped code, signed or unsigned', () => {
+    expect(Win32Error.Name(0x8007_0005)).toBe('ERROR_ACCESS_DENIED');
+    expect(Win32Error.Name(0x8007_0005 | 0)).toBe('ERROR_ACCESS_DENIED');
+    expect(Win32Error.Name(0x8000_4005)).toBeNull();
+  });
+});
+
+describe('Win32Error', () => {
+  test('carries the export, code, name and system message', () => {
+    Kernel32.Configure({ backend: formatting('The handle is invalid.\r\n') });
+
+    const error = new Win32Error('CloseHandle', Win32ErrorCode.ERROR_INVALID_HANDLE);
+
+    expect(error).toMatchObject({ api: 'CloseHandle', code: 6, codeName: 'ERROR_INVALID_HANDLE', name: 'Win32Error', systemMessage: 'The handle is invalid.' });
+    expect(error.message).toBe('CloseHandle failed with ERROR_INVALID_HANDLE (6): The handle is invalid.');
+  });
+
+  test('falls back to the code when neither a name nor a message is available', () => {
+    Kernel32.Configure({ backend: new FakeBackend() });
+
+    const error = new Win32Error('CopyFile2', 0x8000_4005 | 0);
+
+    expect(error).toMatchObject({ code: 0x8000_4005, codeName: null, systemMessage: null });
+    expect(error.message).toBe('CopyFile2 failed with 0x80004005 (2147500037)');
+  });
+
+  test('leaves the captured last-error value of the failed call in place', () => {
+    const backend = formatting('The handle is invalid.');
+
+    backend.stub('CloseHandle', () => ((backend.lastError = Win32ErrorCode.ERROR_INVALID_HANDLE), 0));
+
+    Kernel32.Configure({ backend, captureLastError: true });
+
+    expect(Kernel32.CloseHandle(0x1a4 as unknown as HANDLE)).toBe(0);
+    expect(Win32Error.FromLastError('CloseHandle').code).toBe(Win32ErrorCode.ERROR_INVALID_HANDLE);
+    expect(Kernel32.LastError).toBe(Win32ErrorCode.ERROR_INVALID_HANDLE);
+  });
+});
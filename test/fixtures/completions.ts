@@ -0,0 +1,58 @@
+import '../../runtime/extensions';
+
+import { type Pointer, toArrayBuffer } from 'bun:ffi';
+
+import FakeBackend from '../../structs/FakeBackend';
+import Kernel32 from '../../structs/Kernel32';
+import Layouts from '../../structs/Layouts';
+import Struct from '../../structs/Struct';
+
+import { Win32ErrorCode } from '../../types/Kernel32';
+
+/**
+ * Preloaded into the completion port worker by `test/AsyncFile.test.ts`.
+ *
+ * The worker's `GetQueuedCompletionStatusEx` dequeues the packets the test thread appends to
+ * a shared mailbox of doubles, whose address is in `COMPLETIONS`: the number of packets
+ * written so far, then `[lpOverlapped, NTSTATUS, bytes]` for each. It times out after a few
+ * milliseconds without one, so the worker's loop keeps turning.
+ */
+export const MailboxSize = 1 + 3 * 32;
+
+if (process.env.COMPLETIONS !== undefined) {
+  const backend = new FakeBackend();
+  const mailbox = new Float64Array(toArrayBuffer(Number(process.env.COMPLETIONS), 0, MailboxSize * 8));
+  const size = Struct.SizeOf(Layouts.OVERLAPPED_ENTRY);
+
+  let dequeued = 0;
+
+  backend.stub('GetQueuedCompletionStatusEx', (CompletionPort, lpCompletionPortEntries, ulCount, ulNumEntriesRemoved) => {
+    for (let waited = 0; mailbox[0] === dequeued && waited < 10; waited++) {
+      Bun.sleepSync(1);
+    }
+
+    const count = Math.min(mailbox[0]! - dequeued, ulCount);
+
+    if (count === 0) {
+      backend.lastError = Win32ErrorCode.WAIT_TIMEOUT;
+
+      return 0;
+    }
+
+    const entries = new Uint8Array(toArrayBuffer(lpCompletionPortEntries, 0, count * size));
+
+    for (let index = 0; index < count; index++, dequeued++) {
+      const entry = Layouts.OVERLAPPED_ENTRY.from(entries, index * size);
+
+      entry.lpOverlapped = mailbox[1 + dequeued * 3]! as Pointer;
+      entry.Internal = BigInt(mailbox[2 + dequeued * 3]!);
+      entry.dwNumberOfBytesTransferred = mailbox[3 + dequeued * 3]!;
+    }
+
+    new Uint32Array(toArrayBuffer(ulNumEntriesRemoved, 0, 4))[0] = count;
+
+    return 1;
+  });
+
+  Kernel32.Configure({ backend });
+}
@@ -0,0 +1,61 @@
+import { describe, expect, test } from 'bun:test';
+import { readFileSync } from 'node:fs';
+import { join } from 'node:path';
+
+import { root } from '../scripts/ffi';
+
+const exports: Record<string, { parameters: { direction: 'in' | 'inout' | 'out'; name: string }[] }> = JSON.parse(readFileSync(join(root, 'metadata', 'Kernel32.json'), 'utf8'));
+
+// Directions of a sample of parameters, from their SDK annotations (`_In_`, `_Out_`, `_Inout_` and variants).
+const Annotated: [string, 'in' | 'inout' | 'out'][] = [
+  ['CreateFileW.lpFileName', 'in'],
+  ['DeviceIoControl.lpInBuffer', 'in'],
+  ['DeviceIoControl.lpOutBuffer', 'out'],
+  ['DeviceIoControl.lpOverlapped', 'inout'],
+  ['EnterCriticalSection.lpCriticalSection', 'inout'],
+  ['FindFirstFileW.lpFileName', 'in'],
+  ['FindFirstFileW.lpFindFileData', 'out'],
+  ['GetConsoleTitleW.lpConsoleTitle', 'out'],
+  ['GetFileAttributesW.lpFileName', 'in'],
+  ['GetFullPathNameW.lpBuffer', 'out'],
+  ['GetFullPathNameW.lpFileName', 'in'],
+  ['GetModuleFileNameW.lpFilename', 'out'],
+  ['GetPrivateProfileStringW.lpFileName', 'in'],
+  ['GetPrivateProfileStringW.lpReturnedString', 'out'],
+  ['GetSystemTimeAsFileTime.lpSystemTimeAsFileTime', 'out'],
+  ['GetTempFileNameW.lpPathName', 'in'],
+  ['GetTempFileNameW.lpTempFileName', 'out'],
+  ['lstrcatW.lpString1', 'inout'],
+  ['lstrcpyW.lpString1', 'out'],
+  ['lstrcpyW.lpString2', 'in'],
+  ['ReadConsoleOutputW.lpReadRegion', 'inout'],
+  ['ReadFile.lpBuffer', 'out'],
+  ['ReadFile.lpNumberOfBytesRead', 'out'],
+  ['SearchPathW.lpFileName', 'in'],
+  ['WriteFile.lpBuffer', 'in'],
+];
+
+// Runs a script in `--check` mode, which writes nothing and exits non-zero on stale output.
+function check(script: string): { exitCode: number; stderr: string } {
+  const { exitCode, stderr } = Bun.spawnSync([process.execPath, join(root, 'scripts', script), '--check'], { cwd: root });
+
+  return { exitCode, stderr: stderr.toString() };
+}
+
+describe('generated files', () => {
+  test('structs/Kernel32.ts and structs/Kernel32Checked.ts match the generator output', () => {
+    expect(check('generate.ts')).toEqual({ exitCode: 0, stderr: '' });
+  });
+
+  test('metadata/signatures.json matches the bindings', () => {
+    expect(check('signatures.ts')).toEqual({ exitCode: 0, stderr: '' });
+  });
+});
+
+describe('metadata/Kernel32.json', () => {
+  test.each(Annotated)('%s is %s', (parameter, direction) => {
+    const [name, parameterName] = parameter.split('.') as [string, string];
+
+    expect(exports[name]?.parameters.find(({ name }) => name === parameterName)?.direction).toBe(direction);
+  });
+});
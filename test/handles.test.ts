@@ -0,0 +1,74 @@
+import { afterEach, describe, expect, test } from 'bun:test';
+
+import FakeBackend from '../structs/FakeBackend';
+import FFIBackend from '../structs/FFIBackend';
+import Kernel32 from '../structs/Kernel32';
+import SafeHandle from '../structs/SafeHandle';
+
+import { AsHandle, type HANDLE, type HFIND, type HHEAP, type HMODULE, INVALID_HANDLE_VALUE, NULL } from '../types/Kernel32';
+
+// Each closer records the handles it is given, so the calls below also run.
+function closing(closed: unknown[]): FakeBackend {
+  const close = (handle: unknown) => (closed.push(handle), 1);
+
+  return new FakeBackend().stub('CloseHandle', close).stub('FindClose', close).stub('FreeLibrary', close).stub('HeapDestroy', close);
+}
+
+afterEach(() => Kernel32.Configure({ backend: new FFIBackend() }));
+
+describe('Handle kinds', () => {
+  test('are only accepted where their kind is expected', () => {
+    const closed: unknown[] = [];
+
+    Kernel32.Configure({ backend: closing(closed) });
+
+    const process = AsHandle<HANDLE>(0x10);
+    const find = AsHandle<HFIND>(0x20);
+    const heap = AsHandle<HHEAP>(0x30);
+    const module = AsHandle<HMODULE>(0x40);
+
+    Kernel32.CloseHandle(process);
+    Kernel32.FindClose(find);
+    Kernel32.HeapDestroy(heap);
+    Kernel32.FreeLibrary(module);
+
+    // @ts-expect-error a find handle is released by FindClose
+    Kernel32.CloseHandle(find);
+    // @ts-expect-error a heap is released by HeapDestroy
+    Kernel32.CloseHandle(heap);
+    // @ts-expect-error a process handle is not a module
+    Kernel32.FreeLibrary(process);
+    // @ts-expect-error a module is not a find handle
+    Kernel32.FindClose(module);
+    // @ts-expect-error a raw number is not a handle
+    Kernel32.CloseHandle(0x10);
+
+    expect(closed).toEqual([0x10, 0x20, 0x30, 0x40, 0x20, 0x30, 0x10, 0x40, 0x10]);
+  });
+
+  test('NULL and INVALID_HANDLE_VALUE fit every kind', () => {
+    Kernel32.Configure({ backend: closing([]) });
+
+    Kernel32.CloseHandle(NULL);
+    Kernel32.FindClose(INVALID_HANDLE_VALUE);
+    Kernel32.FreeLibrary(NULL);
+
+    expect(AsHandle<HFIND>(-1)).toBe(INVALID_HANDLE_VALUE);
+  });
+
+  test('SafeHandle takes the kind its closer releases', () => {
+    const closed: unknown[] = [];
+
+    Kernel32.Configure({ backend: closing(closed) });
+
+    new SafeHandle(AsHandle<HFIND>(0x20), 'FindClose').close();
+    new SafeHandle(AsHandle<HMODULE>(0x40), 'FreeLibrary').close();
+
+    // @ts-expect-error a find handle is not closed with CloseHandle
+    new SafeHandle(AsHandle<HFIND>(0x20)).close();
+    // @ts-expect-error a heap is not released by FindClose
+    new SafeHandle(AsHandle<HHEAP>(0x30), 'FindClose').close();
+
+    expect(closed).toEqual([0x20, 0x40, 0x20, 0x30]);
+  });
+});
@@ -0,0 +1,55 @@
+import { describe, expect, test } from 'bun:test';
+import { readFileSync } from 'node:fs';
+import { join } from 'node:path';
+
+import { chain, expected, isPointerWidth, Narrow, root } from '../scripts/ffi';
+
+interface Export {
+  parameters: { name: string; type: string }[];
+  returns: string;
+}
+
+const exports: Record<string, Export> = JSON.parse(readFileSync(join(root, 'metadata', 'Kernel32.json'), 'utf8'));
+
+const parameters = Object.entries(exports).flatMap(([name, { parameters }]) => parameters.map((parameter) => ({ export: name, ...parameter })));
+
+// Hungarian prefixes the SDK gives by-value integers: BOOL/BYTE, byte and character counts, DWORDs, LONGs, ...
+const IntegerName = /^(b|cb|cch|dw|f|l|li|n|u|ucb|ucch|ul|w)[A-Z]/;
+
+// Parameters the SDK names like integers although they point to one.
+const PointersNamedLikeIntegers = new Set([
+  'DnsHostnameToComputerNameA.nSize',
+  'DnsHostnameToComputerNameExW.nSize',
+  'DnsHostnameToComputerNameW.nSize',
+  'GetComputerNameA.nSize',
+  'GetComputerNameExA.nSize',
+  'GetComputerNameExW.nSize',
+  'GetComputerNameW.nSize',
+  'GetQueuedCompletionStatusEx.ulNumEntriesRemoved',
+  'InitOnceBeginInitialize.fPending',
+]);
+
+describe('metadata/Kernel32.json', () => {
+  test('integer parameters are not typed as pointers', () => {
+    const offenders = parameters
+      .filter(({ name, type }) => IntegerName.test(name) && chain(type).includes('Pointer'))
+      .map(({ export: name, type, ...parameter }) => `${name}.${parameter.name}: ${type}`)
+      .filter((offender) => !PointersNamedLikeIntegers.has(offender.slice(0, offender.indexOf(':'))));
+
+    expect(offenders).toEqual([]);
+  });
+
+  test('pointer-width parameters and returns resolve to 64-bit FFI types', () => {
+    const offenders = [...parameters, ...Object.entries(exports).map(([name, { returns }]) => ({ export: name, name: 'return', type: returns }))]
+      .filter(({ type }) => isPointerWidth(type) && Narrow.has(expected(type) ?? 'ptr'))
+      .map(({ export: name, type, ...parameter }) => `${name}.${parameter.name}: ${type} → ${expected(type)}`);
+
+    expect(offenders).toEqual([]);
+  });
+
+  test('every type resolves to an FFI type', () => {
+    const unresolved = parameters.filter(({ type }) => expected(type) === null).map(({ export: name, type, ...parameter }) => `${name}.${parameter.name}: ${type}`);
+
+    expect(unresolved).toEqual([]);
+  });
+});
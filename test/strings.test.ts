@@ -0,0 +1,74 @@
+import '../runtime/extensions';
+
+import { afterEach, describe, expect, test } from 'bun:test';
+
+import EnvironmentBlock from '../structs/EnvironmentBlock';
+import FakeBackend from '../structs/FakeBackend';
+import FFIBackend from '../structs/FFIBackend';
+import Kernel32 from '../structs/Kernel32';
+import MultiString from '../structs/MultiString';
+import WideString from '../structs/WideString';
+import Win32Error from '../structs/Win32Error';
+
+import { type LPWSTR, Win32ErrorCode } from '../types/Kernel32';
+
+// Copies UTF-16LE units into a byte buffer at an odd offset, as found inside packed structures.
+function unaligned(units: Uint16Array): Uint8Array {
+  const bytes = new Uint8Array(units.byteLength + 1);
+
+  bytes.set(new Uint8Array(units.buffer, units.byteOffset, units.byteLength), 1);
+
+  return bytes.subarray(1);
+}
+
+describe('WideString', () => {
+  test('round-trips lone surrogates', () => {
+    expect(WideString.Decode(WideString.Encode('a\ud800b'))).toBe('a\ud800b');
+  });
+
+  test('decodes views at an odd byte offset', () => {
+    expect(WideString.Decode(unaligned(WideString.Encode('C:\\temp')))).toBe('C:\\temp');
+    expect(WideString.Decode(new DataView(unaligned(WideString.Encode('odd')).buffer, 1), 2)).toBe('od');
+  });
+});
+
+describe('MultiString', () => {
+  test('decodes views at an odd byte offset', () => {
+    expect(MultiString.Decode(unaligned(MultiString.Encode(['C:\\', 'D:\\'])))).toEqual(['C:\\', 'D:\\']);
+  });
+});
+
+describe('EnvironmentBlock', () => {
+  afterEach(() => {
+    Kernel32.Configure({ backend: new FFIBackend() });
+  });
+
+  test('reads and frees the current environment', () => {
+    const block = EnvironmentBlock.Encode({ PATH: 'C:\\bin', TEMP: 'C:\\tmp' });
+    const freed: unknown[] = [];
+
+    Kernel32.Configure({
+      backend: new FakeBackend().stub('GetEnvironmentStringsW', () => block.ptr).stub('FreeEnvironmentStringsW', (penv) => (freed.push(penv), 1)),
+    });
+
+    expect(EnvironmentBlock.Current()).toEqual({ PATH: 'C:\\bin', TEMP: 'C:\\tmp' });
+    expect(freed).toEqual([block.ptr]);
+  });
+
+  test('throws when the environment cannot be read', () => {
+    const backend = new FakeBackend();
+    const freed: unknown[] = [];
+
+    // bun:ffi returns a NULL pointer as `null`, not 0.
+    backend.stub('GetEnvironmentStringsW', () => ((backend.lastError = Win32ErrorCode.ERROR_NOT_ENOUGH_MEMORY), null as unknown as LPWSTR)).stub('FreeEnvironmentStringsW', (penv) => (freed.push(penv), 1));
+
+    Kernel32.Configure({ backend });
+
+    expect(() => EnvironmentBlock.Current()).toThrow(new Win32Error('GetEnvironmentStringsW', Win32ErrorCode.ERROR_NOT_ENOUGH_MEMORY));
+    expect(freed).toEqual([]);
+  });
+
+  test('decodes views at an odd byte offset', () => {
+    expect(EnvironmentBlock.Decode(unaligned(EnvironmentBlock.Encode({ PATH: 'C:\\bin', TEMP: 'C:\\tmp' })))).toEqual({ PATH: 'C:\\bin', TEMP: 'C:\\tmp' });
+  });
+});
@@ -0,0 +1,101 @@
+import type { FFIFunction } from 'bun:ffi';
+
+import type Kernel32 from '../structs/Kernel32';
+
+import type { COORD, DWORD } from './Kernel32';
+import type { TraceOptions } from './Trace';
+
+/**
+ * Any callable produced by a backend for a single export.
+ */
+export type BoundFunction = (...args: unknown[]) => unknown;
+
+/**
+ * Name of any export declared in `Kernel32.Symbols`.
+ */
+export type Kernel32Symbol = keyof (typeof Kernel32)['Symbols'];
+
+/**
+ * Implementation a `FakeBackend` accepts for an export: the `Kernel32` static method's
+ * signature, except that by-value `COORD` arguments arrive packed into a `DWORD`
+ * (`Coord.Pack`), as they would reach the native export.
+ */
+export type Kernel32Stub<T extends Kernel32Symbol> = (typeof Kernel32)[T] extends (...args: infer A) => infer R ? (...args: { [K in keyof A]: A[K] extends COORD ? DWORD : A[K] }) => R : never;
+
+/**
+ * Source of native (or fake) implementations for `kernel32.dll` exports.
+ *
+ * `Kernel32` asks its configured backend to bind symbols on first use or during
+ * `Preload`; the returned functions are memoized on the class.
+ */
+export interface Backend {
+  /**
+   * Binds each export in `symbols` and returns callables keyed by export name.
+   *
+   * @param symbols Export names mapped to their `FFIType` signatures.
+   * @returns Callable implementations keyed by export name.
+   */
+  bind<T extends Record<string, FFIFunction>>(symbols: T): { [K in keyof T]: BoundFunction };
+
+  /**
+   * Whether the export exists and can be bound.
+   *
+   * `Kernel32` calls this to tell a missing export apart from other binding failures.
+   *
+   * @param name Export name.
+   */
+  has(name: string): boolean;
+}
+
+/**
+ * Options accepted by `Kernel32.Configure`.
+ */
+export interface Kernel32Options {
+  /**
+   * Backend used to bind exports. Defaults to an `FFIBackend` over `kernel32.dll`.
+   */
+  backend: Backend;
+
+  /**
+   * Record the thread's last-error value immediately after every call and expose it as
+   * `Kernel32.LastError`. Defaults to `false`.
+   */
+  captureLastError: boolean;
+
+  /**
+   * Emit a `TraceEvent` for every call to the selected exports, or `null` to stop tracing.
+   * Defaults to `null`; untraced exports are called directly, with no overhead.
+   */
+  trace: TraceOptions | null;
+}
+
+/**
+ * Options accepted by `Kernel32.Preload`.
+ */
+export interface PreloadOptions {
+  /**
+   * Leave exports missing from this system unbound and report them, instead of throwing a
+   * `SymbolUnavailableError`. Defaults to `false`.
+   */
+  skipUnavailable: boolean;
+}
+
+/**
+ * Outcome of `Kernel32.Preload`.
+ */
+export interface PreloadReport {
+  /**
+   * Exports that were already bound before the call.
+   */
+  alreadyBound: Kernel32Symbol[];
+
+  /**
+   * Exports bound by the call.
+   */
+  bound: Kernel32Symbol[];
+
+  /**
+   * Exports missing from this system; only non-empty with `skipUnavailable`.
+   */
+  missing: Kernel32Symbol[];
+}
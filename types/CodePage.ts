@@ -0,0 +1,79 @@
+import type { MultiByteFlags, WideCharFlags } from './Kernel32';
+
+/**
+ * Options accepted by `CodePage.decode`.
+ */
+export interface CodePageDecodeOptions {
+  /**
+   * `MultiByteToWideChar` flags, e.g. `MB_ERR_INVALID_CHARS` to fail on invalid input
+   * instead of substituting U+FFFD.
+   */
+  flags?: MultiByteFlags;
+}
+
+/**
+ * Options accepted by `CodePage.encode`.
+ */
+export interface CodePageEncodeOptions {
+  /**
+   * Single character substituted for characters the code page cannot represent; defaults
+   * to the code page's own default character (usually `?`). Ignored for UTF-7 and UTF-8.
+   */
+  defaultChar?: string;
+
+  /**
+   * `WideCharToMultiByte` flags, e.g. `WC_NO_BEST_FIT_CHARS` so characters without an exact
+   * mapping become the default character instead of a look-alike.
+   */
+  flags?: WideCharFlags;
+}
+
+/**
+ * Result of `CodePage.encode`.
+ */
+export interface CodePageEncoding {
+  /**
+   * Encoded text followed by a NUL byte, ready to pass as an `LPCSTR` via `.ptr`.
+   */
+  bytes: Uint8Array;
+
+  /**
+   * Whether any character was replaced by the default character. Always `false` for UTF-7 and UTF-8.
+   */
+  usedDefaultChar: boolean;
+}
+
+/**
+ * Code page details, from `GetCPInfoExW` or the built-in tables.
+ */
+export interface CodePageInfo {
+  /**
+   * Code page identifier, with `CP_ACP`/`CP_OEMCP` resolved to the actual code page.
+   */
+  codePage: number;
+
+  /**
+   * Bytes used for characters that cannot be represented.
+   */
+  defaultChar: Uint8Array;
+
+  /**
+   * Inclusive byte ranges that start a double-byte character; empty for single-byte code pages.
+   */
+  leadByteRanges: [number, number][];
+
+  /**
+   * Longest character in bytes.
+   */
+  maxCharSize: number;
+
+  /**
+   * Display name, e.g. `1252  (ANSI - Latin I)`.
+   */
+  name: string;
+
+  /**
+   * Character produced when a byte sequence cannot be translated.
+   */
+  unicodeDefaultChar: string;
+}
@@ -0,0 +1,39 @@
+import type { FileAccess, FileAccessRights, FileAttributes, FileCreationDisposition, FileFlags, FileShareMode, StandardAccessRights } from './Kernel32';
+
+/**
+ * Options accepted by `AsyncFile.read` and `AsyncFile.write`.
+ */
+export interface AsyncFileIOOptions {
+  /**
+   * Cancels the operation with `CancelIoEx` when aborted. The promise then rejects with the
+   * signal's reason, unless the operation completed first.
+   */
+  signal?: AbortSignal;
+}
+
+/**
+ * Options accepted by `File.Open` and `AsyncFile.Open`, passed to `CreateFileW`.
+ */
+export interface FileOpenOptions {
+  /**
+   * Requested access; defaults to `GENERIC_READ`. Combine generic, file-specific and
+   * standard rights with `|`.
+   */
+  access?: FileAccess | FileAccessRights | StandardAccessRights;
+
+  /**
+   * What to do when the file does or does not exist; defaults to `OPEN_EXISTING`.
+   */
+  disposition?: FileCreationDisposition;
+
+  /**
+   * `FILE_FLAG_*` flags and, for new files, `FILE_ATTRIBUTE_*` attributes; defaults to
+   * `FILE_ATTRIBUTE_NORMAL`.
+   */
+  flags?: FileAttributes | FileFlags;
+
+  /**
+   * What other opens may do while this one is open; defaults to `FILE_SHARE_READ`.
+   */
+  share?: FileShareMode;
+}
@@ -0,0 +1,66 @@
+import type { Pointer } from 'bun:ffi';
+
+/**
+ * One completion packet dequeued from an I/O completion port, from its `OVERLAPPED_ENTRY`.
+ */
+export interface IoCompletionPacket {
+  /**
+   * `dwNumberOfBytesTransferred`, or the value given to `IoCompletionPort.post`.
+   */
+  bytesTransferred: number;
+
+  /**
+   * `lpCompletionKey`: the key the handle was associated with, or the one given to `IoCompletionPort.post`.
+   */
+  key: bigint;
+
+  /**
+   * `lpOverlapped` of the operation that completed; `null` for posted packets.
+   */
+  overlapped: Pointer | null;
+
+  /**
+   * Completion status as an `NTSTATUS` (`Internal`); 0 on success.
+   */
+  status: number;
+}
+
+/**
+ * Options accepted by `IoCompletionPort.run`.
+ */
+export interface IoCompletionPortRunOptions {
+  /**
+   * Most packets dequeued by one `GetQueuedCompletionStatusEx` call; defaults to 64.
+   */
+  batchSize?: number;
+
+  /**
+   * Keep the process alive while the port runs with no operation in flight; defaults to
+   * `true`. When `false`, only operations submitted through the port hold the process open,
+   * so an idle port can be left running for the life of the process.
+   */
+  keepAlive?: boolean;
+
+  /**
+   * Dequeue on a `Worker` blocked in `GetQueuedCompletionStatusEx`, instead of polling the
+   * port from timers on the calling thread; defaults to `false`.
+   */
+  worker?: boolean;
+}
+
+/**
+ * Options accepted by `IoCompletionPort.submit`, `read` and `write`.
+ */
+export interface IoOperationOptions {
+  /**
+   * Objects the kernel reads or writes while the operation is in flight, such as buffers
+   * behind pointers passed to the export; they are kept reachable until it completes.
+   */
+  pin?: readonly object[];
+
+  /**
+   * Cancels the operation with `CancelIoEx` when aborted. The promise then rejects with the
+   * signal's reason, unless the operation completed first.
+   */
+  signal?: AbortSignal;
+}
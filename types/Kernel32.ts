@@ -1,6 +1,7 @@
 import type { Pointer } from 'bun:ffi';
 
-export const INVALID_HANDLE_VALUE = -1 as HANDLE;
+export const INVALID_HANDLE_VALUE = -1 as Handle<never>;
+export const NULL = 0 as Handle<never>;
 export const INFINITE = 0xffffffff as DWORD;
 
 export const STD_HANDLE = {
@@ -9,6 +10,22 @@ export const STD_HANDLE = {
   OUTPUT: -11 as DWORD,
 } as const;
 
+export enum CodePageIdentifier {
+  CP_ACP = 0,
+  CP_MACCP = 2,
+  CP_OEMCP = 1,
+  CP_SYMBOL = 42,
+  CP_THREAD_ACP = 3,
+  CP_UTF7 = 65_000,
+  CP_UTF8 = 65_001,
+}
+
+/**
+ * @deprecated Input and screen buffer modes share bit values, so this enum mixes them and
+ * some members alias others (`ENABLE_ECHO_INPUT` and `ENABLE_VIRTUAL_TERMINAL_PROCESSING` are
+ * both `0x4`). Use `ConsoleInputMode` or `ConsoleOutputMode`; it will be removed in the next
+ * major version.
+ */
 export enum ConsoleMode {
   DISABLE_NEWLINE_AUTO_RETURN = 0x0000_0008,
   ENABLE_ECHO_INPUT = 0x0000_0004,
@@ -26,6 +43,27 @@ export enum ConsoleMode {
   ENABLE_WRAP_AT_EOL_OUTPUT = 0x0000_0002,
 }
 
+export enum ConsoleInputMode {
+  ENABLE_AUTO_POSITION = 0x0000_0100,
+  ENABLE_ECHO_INPUT = 0x0000_0004,
+  ENABLE_EXTENDED_FLAGS = 0x0000_0080,
+  ENABLE_INSERT_MODE = 0x0000_0020,
+  ENABLE_LINE_INPUT = 0x0000_0002,
+  ENABLE_MOUSE_INPUT = 0x0000_0010,
+  ENABLE_PROCESSED_INPUT = 0x0000_0001,
+  ENABLE_QUICK_EDIT_MODE = 0x0000_0040,
+  ENABLE_VIRTUAL_TERMINAL_INPUT = 0x0000_0200,
+  ENABLE_WINDOW_INPUT = 0x0000_0008,
+}
+
+export enum ConsoleOutputMode {
+  DISABLE_NEWLINE_AUTO_RETURN = 0x0000_0008,
+  ENABLE_LVB_GRID_WORLDWIDE = 0x0000_0010,
+  ENABLE_PROCESSED_OUTPUT = 0x0000_0001,
+  ENABLE_VIRTUAL_TERMINAL_PROCESSING = 0x0000_0004,
+  ENABLE_WRAP_AT_EOL_OUTPUT = 0x0000_0002,
+}
+
 export enum CopyFileFlags {
   COPY_FILE_ALLOW_DECRYPTED_DESTINATION = 0x0000_0008,
   COPY_FILE_COPY_SYMLINK = 0x0000_0800,
@@ -35,6 +73,14 @@ export enum CopyFileFlags {
   COPY_FILE_RESTARTABLE = 0x0000_0002,
 }
 
+export enum DirectoryAccessRights {
+  FILE_ADD_FILE = 0x0000_0002,
+  FILE_ADD_SUBDIRECTORY = 0x0000_0004,
+  FILE_DELETE_CHILD = 0x0000_0040,
+  FILE_LIST_DIRECTORY = 0x0000_0001,
+  FILE_TRAVERSE = 0x0000_0020,
+}
+
 export enum DuplicateHandleOptions {
   DUPLICATE_CLOSE_SOURCE = 0x0000_0001,
   DUPLICATE_SAME_ACCESS = 0x0000_0002,
@@ -47,6 +93,21 @@ export enum FileAccess {
   GENERIC_WRITE = 0x4000_0000,
 }
 
+export enum FileAccessRights {
+  FILE_ALL_ACCESS = 0x001f_01ff,
+  FILE_APPEND_DATA = 0x0000_0004,
+  FILE_EXECUTE = 0x0000_0020,
+  FILE_GENERIC_EXECUTE = 0x0012_00a0,
+  FILE_GENERIC_READ = 0x0012_0089,
+  FILE_GENERIC_WRITE = 0x0012_0116,
+  FILE_READ_ATTRIBUTES = 0x0000_0080,
+  FILE_READ_DATA = 0x0000_0001,
+  FILE_READ_EA = 0x0000_0008,
+  FILE_WRITE_ATTRIBUTES = 0x0000_0100,
+  FILE_WRITE_DATA = 0x0000_0002,
+  FILE_WRITE_EA = 0x0000_0010,
+}
+
 export enum FileMapAccess {
   FILE_MAP_ALL_ACCESS = 0x000f_001f,
   FILE_MAP_COPY = 0x0000_0001,
@@ -98,6 +159,35 @@ export enum FileFlags {
   FILE_FLAG_WRITE_THROUGH = 0x8000_0000,
 }
 
+export enum FileInfoByHandleClass {
+  FileAlignmentInfo = 17,
+  FileAllocationInfo = 5,
+  FileAttributeTagInfo = 9,
+  FileBasicInfo = 0,
+  FileCaseSensitiveInfo = 23,
+  FileCompressionInfo = 8,
+  FileDispositionInfo = 4,
+  FileDispositionInfoEx = 21,
+  FileEndOfFileInfo = 6,
+  FileFullDirectoryInfo = 14,
+  FileFullDirectoryRestartInfo = 15,
+  FileIdBothDirectoryInfo = 10,
+  FileIdBothDirectoryRestartInfo = 11,
+  FileIdExtdDirectoryInfo = 19,
+  FileIdExtdDirectoryRestartInfo = 20,
+  FileIdInfo = 18,
+  FileIoPriorityHintInfo = 12,
+  FileNameInfo = 2,
+  FileNormalizedNameInfo = 24,
+  FileRemoteProtocolInfo = 13,
+  FileRenameInfo = 3,
+  FileRenameInfoEx = 22,
+  FileStandardInfo = 1,
+  FileStorageInfo = 16,
+  FileStreamInfo = 7,
+  MaximumFileInfoByHandleClass = 25,
+}
+
 export enum FilePointerMoveMethod {
   FILE_BEGIN = 0,
   FILE_CURRENT = 1,
@@ -132,6 +222,39 @@ export enum HeapCreateFlags {
   HEAP_NO_SERIALIZE = 0x0000_0001,
 }
 
+export enum JobObjectLimitFlags {
+  JOB_OBJECT_LIMIT_ACTIVE_PROCESS = 0x0000_0008,
+  JOB_OBJECT_LIMIT_AFFINITY = 0x0000_0010,
+  JOB_OBJECT_LIMIT_BREAKAWAY_OK = 0x0000_0800,
+  JOB_OBJECT_LIMIT_CPU_RATE_CONTROL = 0x0004_0000,
+  JOB_OBJECT_LIMIT_DIE_ON_UNHANDLED_EXCEPTION = 0x0000_0400,
+  JOB_OBJECT_LIMIT_IO_RATE_CONTROL = 0x0008_0000,
+  JOB_OBJECT_LIMIT_JOB_MEMORY = 0x0000_0200,
+  JOB_OBJECT_LIMIT_JOB_MEMORY_LOW = 0x0000_8000,
+  JOB_OBJECT_LIMIT_JOB_READ_BYTES = 0x0001_0000,
+  JOB_OBJECT_LIMIT_JOB_TIME = 0x0000_0004,
+  JOB_OBJECT_LIMIT_JOB_WRITE_BYTES = 0x0002_0000,
+  JOB_OBJECT_LIMIT_KILL_ON_JOB_CLOSE = 0x0000_2000,
+  JOB_OBJECT_LIMIT_NET_RATE_CONTROL = 0x0010_0000,
+  JOB_OBJECT_LIMIT_PRESERVE_JOB_TIME = 0x0000_0040,
+  JOB_OBJECT_LIMIT_PRIORITY_CLASS = 0x0000_0020,
+  JOB_OBJECT_LIMIT_PROCESS_MEMORY = 0x0000_0100,
+  JOB_OBJECT_LIMIT_PROCESS_TIME = 0x0000_0002,
+  JOB_OBJECT_LIMIT_SCHEDULING_CLASS = 0x0000_0080,
+  JOB_OBJECT_LIMIT_SILENT_BREAKAWAY_OK = 0x0000_1000,
+  JOB_OBJECT_LIMIT_SUBSET_AFFINITY = 0x0000_4000,
+  JOB_OBJECT_LIMIT_WORKINGSET = 0x0000_0001,
+}
+
+/**
+ * Names the SDK gives to `JobObjectLimitFlags` values that already have one, kept out of the
+ * enum so that each value maps back to a single member.
+ */
+export const JobObjectLimitAliases = {
+  JOB_OBJECT_LIMIT_JOB_MEMORY_HIGH: JobObjectLimitFlags.JOB_OBJECT_LIMIT_JOB_MEMORY,
+  JOB_OBJECT_LIMIT_RATE_CONTROL: JobObjectLimitFlags.JOB_OBJECT_LIMIT_CPU_RATE_CONTROL,
+} as const;
+
 export enum LoadLibraryFlags {
   DONT_RESOLVE_DLL_REFERENCES = 0x0000_0001,
   LOAD_IGNORE_CODE_AUTHZ_LEVEL = 0x0000_0010,
@@ -146,6 +269,115 @@ export enum LoadLibraryFlags {
   LOAD_WITH_ALTERED_SEARCH_PATH = 0x0000_0008,
 }
 
+export enum LocaleInfoType {
+  LOCALE_ALLOW_NEUTRAL_NAMES = 0x0800_0000,
+  LOCALE_ICALENDARTYPE = 0x0000_1009,
+  LOCALE_ICURRDIGITS = 0x0000_0019,
+  LOCALE_ICURRENCY = 0x0000_001b,
+  LOCALE_IDEFAULTANSICODEPAGE = 0x0000_1004,
+  LOCALE_IDEFAULTCODEPAGE = 0x0000_000b,
+  LOCALE_IDEFAULTMACCODEPAGE = 0x0000_1011,
+  LOCALE_IDIALINGCODE = 0x0000_0005,
+  LOCALE_IDIGITS = 0x0000_0011,
+  LOCALE_IFIRSTDAYOFWEEK = 0x0000_100c,
+  LOCALE_IFIRSTWEEKOFYEAR = 0x0000_100d,
+  LOCALE_IGEOID = 0x0000_005b,
+  LOCALE_ILANGUAGE = 0x0000_0001,
+  LOCALE_ILZERO = 0x0000_0012,
+  LOCALE_IMEASURE = 0x0000_000d,
+  LOCALE_INEGCURR = 0x0000_001c,
+  LOCALE_INEGNUMBER = 0x0000_1010,
+  LOCALE_IREADINGLAYOUT = 0x0000_0070,
+  LOCALE_NOUSEROVERRIDE = 0x8000_0000,
+  LOCALE_RETURN_GENITIVE_NAMES = 0x1000_0000,
+  LOCALE_RETURN_NUMBER = 0x2000_0000,
+  LOCALE_S1159 = 0x0000_0028,
+  LOCALE_S2359 = 0x0000_0029,
+  LOCALE_SABBREVDAYNAME1 = 0x0000_0031,
+  LOCALE_SABBREVDAYNAME2 = 0x0000_0032,
+  LOCALE_SABBREVDAYNAME3 = 0x0000_0033,
+  LOCALE_SABBREVDAYNAME4 = 0x0000_0034,
+  LOCALE_SABBREVDAYNAME5 = 0x0000_0035,
+  LOCALE_SABBREVDAYNAME6 = 0x0000_0036,
+  LOCALE_SABBREVDAYNAME7 = 0x0000_0037,
+  LOCALE_SABBREVMONTHNAME1 = 0x0000_0044,
+  LOCALE_SABBREVMONTHNAME10 = 0x0000_004d,
+  LOCALE_SABBREVMONTHNAME11 = 0x0000_004e,
+  LOCALE_SABBREVMONTHNAME12 = 0x0000_004f,
+  LOCALE_SABBREVMONTHNAME2 = 0x0000_0045,
+  LOCALE_SABBREVMONTHNAME3 = 0x0000_0046,
+  LOCALE_SABBREVMONTHNAME4 = 0x0000_0047,
+  LOCALE_SABBREVMONTHNAME5 = 0x0000_0048,
+  LOCALE_SABBREVMONTHNAME6 = 0x0000_0049,
+  LOCALE_SABBREVMONTHNAME7 = 0x0000_004a,
+  LOCALE_SABBREVMONTHNAME8 = 0x0000_004b,
+  LOCALE_SABBREVMONTHNAME9 = 0x0000_004c,
+  LOCALE_SCURRENCY = 0x0000_0014,
+  LOCALE_SDAYNAME1 = 0x0000_002a,
+  LOCALE_SDAYNAME2 = 0x0000_002b,
+  LOCALE_SDAYNAME3 = 0x0000_002c,
+  LOCALE_SDAYNAME4 = 0x0000_002d,
+  LOCALE_SDAYNAME5 = 0x0000_002e,
+  LOCALE_SDAYNAME6 = 0x0000_002f,
+  LOCALE_SDAYNAME7 = 0x0000_0030,
+  LOCALE_SDECIMAL = 0x0000_000e,
+  LOCALE_SDURATION = 0x0000_005d,
+  LOCALE_SENGCURRNAME = 0x0000_1007,
+  LOCALE_SENGLISHCOUNTRYNAME = 0x0000_1002,
+  LOCALE_SENGLISHDISPLAYNAME = 0x0000_0072,
+  LOCALE_SENGLISHLANGUAGENAME = 0x0000_1001,
+  LOCALE_SGROUPING = 0x0000_0010,
+  LOCALE_SINTLSYMBOL = 0x0000_0015,
+  LOCALE_SISO3166CTRYNAME = 0x0000_005a,
+  LOCALE_SISO3166CTRYNAME2 = 0x0000_0068,
+  LOCALE_SISO639LANGNAME = 0x0000_0059,
+  LOCALE_SISO639LANGNAME2 = 0x0000_0067,
+  LOCALE_SLIST = 0x0000_000c,
+  LOCALE_SLOCALIZEDCOUNTRYNAME = 0x0000_0006,
+  LOCALE_SLOCALIZEDDISPLAYNAME = 0x0000_0002,
+  LOCALE_SLOCALIZEDLANGUAGENAME = 0x0000_006f,
+  LOCALE_SLONGDATE = 0x0000_0020,
+  LOCALE_SMONDECIMALSEP = 0x0000_0016,
+  LOCALE_SMONGROUPING = 0x0000_0018,
+  LOCALE_SMONTHNAME1 = 0x0000_0038,
+  LOCALE_SMONTHNAME10 = 0x0000_0041,
+  LOCALE_SMONTHNAME11 = 0x0000_0042,
+  LOCALE_SMONTHNAME12 = 0x0000_0043,
+  LOCALE_SMONTHNAME2 = 0x0000_0039,
+  LOCALE_SMONTHNAME3 = 0x0000_003a,
+  LOCALE_SMONTHNAME4 = 0x0000_003b,
+  LOCALE_SMONTHNAME5 = 0x0000_003c,
+  LOCALE_SMONTHNAME6 = 0x0000_003d,
+  LOCALE_SMONTHNAME7 = 0x0000_003e,
+  LOCALE_SMONTHNAME8 = 0x0000_003f,
+  LOCALE_SMONTHNAME9 = 0x0000_0040,
+  LOCALE_SMONTHOUSANDSEP = 0x0000_0017,
+  LOCALE_SNAME = 0x0000_005c,
+  LOCALE_SNATIVECOUNTRYNAME = 0x0000_0008,
+  LOCALE_SNATIVECURRNAME = 0x0000_1008,
+  LOCALE_SNATIVEDIGITS = 0x0000_0013,
+  LOCALE_SNATIVEDISPLAYNAME = 0x0000_0073,
+  LOCALE_SNATIVELANGUAGENAME = 0x0000_0004,
+  LOCALE_SNEGATIVESIGN = 0x0000_0051,
+  LOCALE_SOPENTYPELANGUAGETAG = 0x0000_007a,
+  LOCALE_SPARENT = 0x0000_006d,
+  LOCALE_SPERCENT = 0x0000_0076,
+  LOCALE_SPOSITIVESIGN = 0x0000_0050,
+  LOCALE_SSCRIPTS = 0x0000_006c,
+  LOCALE_SSHORTDATE = 0x0000_001f,
+  LOCALE_SSHORTTIME = 0x0000_0079,
+  LOCALE_SSORTNAME = 0x0000_1013,
+  LOCALE_STHOUSAND = 0x0000_000f,
+  LOCALE_STIMEFORMAT = 0x0000_1003,
+  LOCALE_SYEARMONTH = 0x0000_1006,
+  LOCALE_USE_CP_ACP = 0x4000_0000,
+}
+
+export enum LockFileFlags {
+  LOCKFILE_EXCLUSIVE_LOCK = 0x0000_0002,
+  LOCKFILE_FAIL_IMMEDIATELY = 0x0000_0001,
+}
+
 export enum MemoryAllocationType {
   MEM_COMMIT = 0x0000_1000,
   MEM_DECOMMIT = 0x0000_4000,
@@ -182,6 +414,13 @@ export enum MoveFileFlags {
   MOVEFILE_WRITE_THROUGH = 0x0000_0008,
 }
 
+export enum MultiByteFlags {
+  MB_COMPOSITE = 0x0000_0002,
+  MB_ERR_INVALID_CHARS = 0x0000_0008,
+  MB_PRECOMPOSED = 0x0000_0001,
+  MB_USEGLYPHCHARS = 0x0000_0004,
+}
+
 export enum PipeAccessFlags {
   PIPE_ACCESS_DUPLEX = 0x0000_0003,
   PIPE_ACCESS_INBOUND = 0x0000_0001,
@@ -215,15 +454,31 @@ export enum ProcessAccessRights {
 }
 
 export enum ProcessCreationFlags {
+  ABOVE_NORMAL_PRIORITY_CLASS = 0x0000_8000,
+  BELOW_NORMAL_PRIORITY_CLASS = 0x0000_4000,
+  CREATE_BREAKAWAY_FROM_JOB = 0x0100_0000,
   CREATE_DEFAULT_ERROR_MODE = 0x0400_0000,
   CREATE_NEW_CONSOLE = 0x0000_0010,
   CREATE_NEW_PROCESS_GROUP = 0x0000_0200,
   CREATE_NO_WINDOW = 0x0800_0000,
+  CREATE_PRESERVE_CODE_AUTHZ_LEVEL = 0x0200_0000,
+  CREATE_PROTECTED_PROCESS = 0x0004_0000,
+  CREATE_SECURE_PROCESS = 0x0040_0000,
+  CREATE_SEPARATE_WOW_VDM = 0x0000_0800,
+  CREATE_SHARED_WOW_VDM = 0x0000_1000,
   CREATE_SUSPENDED = 0x0000_0004,
   CREATE_UNICODE_ENVIRONMENT = 0x0000_0400,
   DEBUG_ONLY_THIS_PROCESS = 0x0000_0002,
   DEBUG_PROCESS = 0x0000_0001,
   DETACHED_PROCESS = 0x0000_0008,
+  EXTENDED_STARTUPINFO_PRESENT = 0x0008_0000,
+  HIGH_PRIORITY_CLASS = 0x0000_0080,
+  IDLE_PRIORITY_CLASS = 0x0000_0040,
+  INHERIT_PARENT_AFFINITY = 0x0001_0000,
+  NORMAL_PRIORITY_CLASS = 0x0000_0020,
+  PROCESS_MODE_BACKGROUND_BEGIN = 0x0010_0000,
+  PROCESS_MODE_BACKGROUND_END = 0x0020_0000,
+  REALTIME_PRIORITY_CLASS = 0x0000_0100,
 }
 
 export enum SectionAttributes {
@@ -235,6 +490,29 @@ export enum SectionAttributes {
   SEC_WRITECOMBINE = 0x4000_0000,
 }
 
+export enum StandardAccessRights {
+  ACCESS_SYSTEM_SECURITY = 0x0100_0000,
+  DELETE = 0x0001_0000,
+  MAXIMUM_ALLOWED = 0x0200_0000,
+  READ_CONTROL = 0x0002_0000,
+  SPECIFIC_RIGHTS_ALL = 0x0000_ffff,
+  STANDARD_RIGHTS_ALL = 0x001f_0000,
+  STANDARD_RIGHTS_REQUIRED = 0x000f_0000,
+  SYNCHRONIZE = 0x0010_0000,
+  WRITE_DAC = 0x0004_0000,
+  WRITE_OWNER = 0x0008_0000,
+}
+
+/**
+ * Names the SDK gives to `StandardAccessRights` values that already have one, kept out of
+ * the enum so that each value maps back to a single member.
+ */
+export const StandardAccessRightsAliases = {
+  STANDARD_RIGHTS_EXECUTE: StandardAccessRights.READ_CONTROL,
+  STANDARD_RIGHTS_READ: StandardAccessRights.READ_CONTROL,
+  STANDARD_RIGHTS_WRITE: StandardAccessRights.READ_CONTROL,
+} as const;
+
 export enum StartupInfoFlags {
   STARTF_FORCEOFFFEEDBACK = 0x0000_0080,
   STARTF_FORCEONFEEDBACK = 0x0000_0040,
@@ -310,6 +588,262 @@ export enum WaitResult {
   WAIT_TIMEOUT = 0x0000_0102,
 }
 
+export enum WideCharFlags {
+  WC_COMPOSITECHECK = 0x0000_0200,
+  WC_DEFAULTCHAR = 0x0000_0040,
+  WC_DISCARDNS = 0x0000_0010,
+  WC_ERR_INVALID_CHARS = 0x0000_0080,
+  WC_NO_BEST_FIT_CHARS = 0x0000_0400,
+  WC_SEPCHARS = 0x0000_0020,
+}
+
+export enum Win32ErrorCode {
+  ERROR_ABANDONED_WAIT_0 = 735,
+  ERROR_ACCESS_DENIED = 5,
+  ERROR_ALREADY_EXISTS = 183,
+  ERROR_ALREADY_INITIALIZED = 1247,
+  ERROR_ARENA_TRASHED = 7,
+  ERROR_ARITHMETIC_OVERFLOW = 534,
+  ERROR_ATOMIC_LOCKS_NOT_SUPPORTED = 174,
+  ERROR_BADDB = 1009,
+  ERROR_BADKEY = 1010,
+  ERROR_BAD_ARGUMENTS = 160,
+  ERROR_BAD_COMMAND = 22,
+  ERROR_BAD_ENVIRONMENT = 10,
+  ERROR_BAD_EXE_FORMAT = 193,
+  ERROR_BAD_FORMAT = 11,
+  ERROR_BAD_LENGTH = 24,
+  ERROR_BAD_NETPATH = 53,
+  ERROR_BAD_NET_NAME = 67,
+  ERROR_BAD_PATHNAME = 161,
+  ERROR_BAD_PIPE = 230,
+  ERROR_BAD_UNIT = 20,
+  ERROR_BROKEN_PIPE = 109,
+  ERROR_BUFFER_OVERFLOW = 111,
+  ERROR_BUSY = 170,
+  ERROR_BUSY_DRIVE = 142,
+  ERROR_CALL_NOT_IMPLEMENTED = 120,
+  ERROR_CANCELLED = 1223,
+  ERROR_CANNOT_COPY = 266,
+  ERROR_CANNOT_MAKE = 82,
+  ERROR_CANTOPEN = 1011,
+  ERROR_CANTREAD = 1012,
+  ERROR_CANTWRITE = 1013,
+  ERROR_CANT_ACCESS_FILE = 1920,
+  ERROR_CANT_RESOLVE_FILENAME = 1921,
+  ERROR_CHILD_NOT_COMPLETE = 129,
+  ERROR_COMMITMENT_LIMIT = 1455,
+  ERROR_CONNECTION_ABORTED = 1236,
+  ERROR_CONNECTION_REFUSED = 1225,
+  ERROR_CRC = 23,
+  ERROR_CURRENT_DIRECTORY = 16,
+  ERROR_DELETE_PENDING = 303,
+  ERROR_DEPENDENT_SERVICES_RUNNING = 1051,
+  ERROR_DEVICE_IN_USE = 2404,
+  ERROR_DEVICE_NOT_CONNECTED = 1167,
+  ERROR_DEV_NOT_EXIST = 55,
+  ERROR_DIRECTORY = 267,
+  ERROR_DIRECT_ACCESS_HANDLE = 130,
+  ERROR_DIR_NOT_EMPTY = 145,
+  ERROR_DISK_CORRUPT = 1393,
+  ERROR_DISK_FULL = 112,
+  ERROR_DLL_INIT_FAILED = 1114,
+  ERROR_DLL_NOT_FOUND = 1157,
+  ERROR_DRIVER_BLOCKED = 1275,
+  ERROR_DUP_NAME = 52,
+  ERROR_EAS_NOT_SUPPORTED = 282,
+  ERROR_ELEVATION_REQUIRED = 740,
+  ERROR_ENVVAR_NOT_FOUND = 203,
+  ERROR_EXE_MACHINE_TYPE_MISMATCH = 216,
+  ERROR_FILENAME_EXCED_RANGE = 206,
+  ERROR_FILE_CORRUPT = 1392,
+  ERROR_FILE_EXISTS = 80,
+  ERROR_FILE_INVALID = 1006,
+  ERROR_FILE_NOT_FOUND = 2,
+  ERROR_FILE_TOO_LARGE = 223,
+  ERROR_FUNCTION_FAILED = 1627,
+  ERROR_GEN_FAILURE = 31,
+  ERROR_HANDLE_DISK_FULL = 39,
+  ERROR_HANDLE_EOF = 38,
+  ERROR_INSUFFICIENT_BUFFER = 122,
+  ERROR_INTERNAL_ERROR = 1359,
+  ERROR_INTERRUPT = 95,
+  ERROR_INVALID_ACCESS = 12,
+  ERROR_INVALID_ADDRESS = 487,
+  ERROR_INVALID_BLOCK = 9,
+  ERROR_INVALID_CATEGORY = 117,
+  ERROR_INVALID_DATA = 13,
+  ERROR_INVALID_DRIVE = 15,
+  ERROR_INVALID_EA_NAME = 254,
+  ERROR_INVALID_EXE_SIGNATURE = 191,
+  ERROR_INVALID_FLAGS = 1004,
+  ERROR_INVALID_FLAG_NUMBER = 186,
+  ERROR_INVALID_FUNCTION = 1,
+  ERROR_INVALID_HANDLE = 6,
+  ERROR_INVALID_INDEX = 1413,
+  ERROR_INVALID_LEVEL = 124,
+  ERROR_INVALID_NAME = 123,
+  ERROR_INVALID_OPERATION = 4317,
+  ERROR_INVALID_ORDINAL = 182,
+  ERROR_INVALID_OWNER = 1307,
+  ERROR_INVALID_PARAMETER = 87,
+  ERROR_INVALID_SID = 1337,
+  ERROR_INVALID_TARGET_HANDLE = 114,
+  ERROR_INVALID_THREAD_ID = 1444,
+  ERROR_INVALID_USER_BUFFER = 1784,
+  ERROR_INVALID_WINDOW_HANDLE = 1400,
+  ERROR_IO_DEVICE = 1117,
+  ERROR_IO_INCOMPLETE = 996,
+  ERROR_IO_PENDING = 997,
+  ERROR_LOCKED = 212,
+  ERROR_LOCK_FAILED = 167,
+  ERROR_LOCK_VIOLATION = 33,
+  ERROR_LOGON_FAILURE = 1326,
+  ERROR_MAX_THRDS_REACHED = 164,
+  ERROR_MOD_NOT_FOUND = 126,
+  ERROR_MORE_DATA = 234,
+  ERROR_MR_MID_NOT_FOUND = 317,
+  ERROR_MUI_FILE_NOT_FOUND = 15100,
+  ERROR_NEGATIVE_SEEK = 131,
+  ERROR_NETNAME_DELETED = 64,
+  ERROR_NETWORK_ACCESS_DENIED = 65,
+  ERROR_NETWORK_BUSY = 54,
+  ERROR_NETWORK_UNREACHABLE = 1231,
+  ERROR_NOACCESS = 998,
+  ERROR_NOT_ALL_ASSIGNED = 1300,
+  ERROR_NOT_A_REPARSE_POINT = 4390,
+  ERROR_NOT_DOS_DISK = 26,
+  ERROR_NOT_ENOUGH_MEMORY = 8,
+  ERROR_NOT_ENOUGH_QUOTA = 1816,
+  ERROR_NOT_FOUND = 1168,
+  ERROR_NOT_LOCKED = 158,
+  ERROR_NOT_OWNER = 288,
+  ERROR_NOT_READY = 21,
+  ERROR_NOT_SAME_DEVICE = 17,
+  ERROR_NOT_SUPPORTED = 50,
+  ERROR_NO_DATA = 232,
+  ERROR_NO_MORE_FILES = 18,
+  ERROR_NO_MORE_ITEMS = 259,
+  ERROR_NO_PROC_SLOTS = 89,
+  ERROR_NO_SYSTEM_RESOURCES = 1450,
+  ERROR_NO_TOKEN = 1008,
+  ERROR_NO_UNICODE_TRANSLATION = 1113,
+  ERROR_OLD_WIN_VERSION = 1150,
+  ERROR_OPEN_FAILED = 110,
+  ERROR_OPERATION_ABORTED = 995,
+  ERROR_OUTOFMEMORY = 14,
+  ERROR_OUT_OF_PAPER = 28,
+  ERROR_PARTIAL_COPY = 299,
+  ERROR_PATH_NOT_FOUND = 3,
+  ERROR_PIPE_BUSY = 231,
+  ERROR_PIPE_CONNECTED = 535,
+  ERROR_PIPE_LISTENING = 536,
+  ERROR_PIPE_LOCAL = 229,
+  ERROR_PIPE_NOT_CONNECTED = 233,
+  ERROR_POSSIBLE_DEADLOCK = 1131,
+  ERROR_PRIVILEGE_NOT_HELD = 1314,
+  ERROR_PROCESS_ABORTED = 1067,
+  ERROR_PROC_NOT_FOUND = 127,
+  ERROR_READ_FAULT = 30,
+  ERROR_REM_NOT_LIST = 51,
+  ERROR_REQUEST_ABORTED = 1235,
+  ERROR_RESOURCE_DATA_NOT_FOUND = 1812,
+  ERROR_RESOURCE_LANG_NOT_FOUND = 1815,
+  ERROR_RESOURCE_NAME_NOT_FOUND = 1814,
+  ERROR_RESOURCE_TYPE_NOT_FOUND = 1813,
+  ERROR_REVISION_MISMATCH = 1306,
+  ERROR_SCOPE_NOT_FOUND = 318,
+  ERROR_SECTOR_NOT_FOUND = 27,
+  ERROR_SEEK = 25,
+  ERROR_SEEK_ON_DEVICE = 132,
+  ERROR_SEM_NOT_FOUND = 187,
+  ERROR_SEM_TIMEOUT = 121,
+  ERROR_SERVICE_DOES_NOT_EXIST = 1060,
+  ERROR_SHARING_BUFFER_EXCEEDED = 36,
+  ERROR_SHARING_VIOLATION = 32,
+  ERROR_SHUTDOWN_IN_PROGRESS = 1115,
+  ERROR_STACK_OVERFLOW = 1001,
+  ERROR_SUCCESS = 0,
+  ERROR_TIMEOUT = 1460,
+  ERROR_TOO_MANY_OPEN_FILES = 4,
+  ERROR_TOO_MANY_POSTS = 298,
+  ERROR_TOO_MANY_SEMAPHORES = 100,
+  ERROR_TOO_MANY_SEM_REQUESTS = 103,
+  ERROR_UNRECOGNIZED_VOLUME = 1005,
+  ERROR_USER_MAPPED_FILE = 1224,
+  ERROR_VIRUS_INFECTED = 225,
+  ERROR_WAIT_NO_CHILDREN = 128,
+  ERROR_WRITE_FAULT = 29,
+  ERROR_WRITE_PROTECT = 19,
+  ERROR_WRONG_DISK = 34,
+  WAIT_TIMEOUT = 258,
+}
+
+declare const ConsoleKind: unique symbol;
+declare const HandleKind: unique symbol;
+
+/**
+ * A pointer-sized handle of one kind, e.g. `Handle<'HFIND'>`.
+ *
+ * Kinds are distinct types, so a handle can only be passed where its kind is expected:
+ * `CloseHandle(findHandle)` and `FreeLibrary(processHandle)` do not compile. `NULL` and
+ * `INVALID_HANDLE_VALUE` are `Handle<never>` and fit every kind. Use `AsHandle` to treat
+ * a raw `Pointer` (read from a struct, returned by another DLL, ...) as a handle.
+ */
+export type Handle<K extends string> = Pointer & { readonly [HandleKind]: K };
+
+/**
+ * Reinterprets a raw pointer as a handle of a given kind, without any check.
+ *
+ * @example
+ * ```ts
+ * const hProcess = AsHandle<HANDLE>(read.ptr(processInformation.ptr, 0));
+ * ```
+ */
+export function AsHandle<T extends Handle<string>>(pointer: Pointer | number): T {
+  return pointer as T;
+}
+
+/**
+ * How an export reports failure through its return value:
+ *
+ * - `ERROR_CODE`: returns a non-zero Win32 error code.
+ * - `FAILED`: returns a negative `HRESULT`.
+ * - `FALSE`: returns a zero `BOOL`/`BOOLEAN`.
+ * - `INVALID_HANDLE_VALUE`: returns `INVALID_HANDLE_VALUE`.
+ * - `INVALID_HANDLE_VALUE_OR_NULL`: returns `INVALID_HANDLE_VALUE`, or NULL without setting the
+ *   last-error value when there is no handle to return (`GetStdHandle`).
+ * - `MAXDWORD`: returns `0xFFFFFFFF` (e.g. `INVALID_FILE_ATTRIBUTES`, `TLS_OUT_OF_INDEXES`).
+ * - `NULL`: returns a NULL pointer or handle.
+ * - `WAIT_FAILED`: returns `WAIT_FAILED`.
+ * - `ZERO`: returns a zero count, length or identifier.
+ */
+export type FailureConvention = 'ERROR_CODE' | 'FAILED' | 'FALSE' | 'INVALID_HANDLE_VALUE' | 'INVALID_HANDLE_VALUE_OR_NULL' | 'MAXDWORD' | 'NULL' | 'WAIT_FAILED' | 'ZERO';
+
+/**
+ * Export that releases a handle or pointer returned by another export, taking it as its only argument.
+ *
+ * Used by `SafeHandle` to close what it wraps.
+ */
+export type HandleCloser =
+  | 'CloseHandle'
+  | 'ClosePseudoConsole'
+  | 'CloseThreadpool'
+  | 'CloseThreadpoolCleanupGroup'
+  | 'CloseThreadpoolIo'
+  | 'CloseThreadpoolTimer'
+  | 'CloseThreadpoolWait'
+  | 'CloseThreadpoolWork'
+  | 'DeleteBoundaryDescriptor'
+  | 'FindClose'
+  | 'FindCloseChangeNotification'
+  | 'FindVolumeClose'
+  | 'FindVolumeMountPointClose'
+  | 'FreeLibrary'
+  | 'HeapDestroy'
+  | 'ReleaseActCtx'
+  | 'UnmapViewOfFile';
+
 export type ACCESS_MASK = number;
 export type BOOL = number;
 export type BOOLEAN = number;
@@ -318,27 +852,21 @@ export type BYTE = number;
 export type CHAR = number;
 export type CONDITION_VARIABLE = Pointer;
 export type CONSOLE_SCREEN_BUFFER_INFO = Pointer;
-export type COORD = Pointer;
+export type COORD = { X: SHORT; Y: SHORT };
 export type CRITICAL_SECTION = Pointer;
 export type DWORD = number;
 export type DWORD_PTR = bigint;
 export type DWORDLONG = bigint;
 export type LCID = DWORD;
 export type FILETIME = Pointer;
-export type HANDLE = Pointer;
-export type HGLOBAL = Pointer;
-export type HINSTANCE = Pointer;
-export type HLOCAL = Pointer;
-export type HMODULE = Pointer;
-export type HPCON = Pointer;
-export type HWND = Pointer;
-export type HRSRC = Pointer;
 export type INT = number;
 export type INT_PTR = bigint;
 export type LARGE_INTEGER = bigint;
 export type LONG = number;
 export type LONG_PTR = bigint;
+export type LONGLONG = bigint;
 export type LPARAM = LONG_PTR;
+export type PSID = Pointer;
 export type WPARAM = UINT_PTR;
 export type HRESULT = LONG;
 export type LPBOOL = Pointer;
@@ -394,6 +922,7 @@ export type LPWIN32_FIND_DATAW = Pointer;
 export type LPWSTR = Pointer;
 export type LRESULT = LONG_PTR;
 export type MODULEENTRY32W = Pointer;
+export type PBAD_MEMORY_CALLBACK_ROUTINE = Pointer;
 export type PBOOL = Pointer;
 export type PBYTE = Pointer;
 export type PCONDITION_VARIABLE = Pointer;
@@ -440,6 +969,40 @@ export type USHORT = number;
 export type VOID = void;
 export type WAITORTIMERCALLBACK = Pointer;
 export type WCHAR = number;
+
+// Handle kinds. `HFIND*` and `HHEAP` are not SDK typedefs: the SDK declares these as `HANDLE`,
+// but they are released by `FindClose`/`FindVolumeClose`/`FindVolumeMountPointClose`/`HeapDestroy`
+// rather than `CloseHandle`. `HCONSOLEINPUT` and `HCONSOLEOUTPUT` are `HANDLE`s known to be a
+// console input or screen buffer, so console-mode helpers can tell which mode flags apply.
+export type HANDLE = Handle<'HANDLE'>;
+export type HCONSOLEINPUT = HANDLE & { readonly [ConsoleKind]: 'input' };
+export type HCONSOLEOUTPUT = HANDLE & { readonly [ConsoleKind]: 'output' };
+export type HCURSOR = Handle<'HCURSOR'>;
+export type HFIND = Handle<'HFIND'>;
+export type HFINDVOLUME = Handle<'HFINDVOLUME'>;
+export type HFINDVOLUMEMOUNTPOINT = Handle<'HFINDVOLUMEMOUNTPOINT'>;
+export type HGLOBAL = Handle<'HGLOBAL'>;
+export type HHEAP = Handle<'HHEAP'>;
+export type HICON = Handle<'HICON'>;
+export type HINSTANCE = HMODULE;
+export type HLOCAL = Handle<'HLOCAL'>;
+export type HMODULE = Handle<'HMODULE'>;
+export type HPALETTE = Handle<'HPALETTE'>;
+export type HPCON = Handle<'HPCON'>;
+export type HPSS = Handle<'HPSS'>;
+export type HPSSWALK = Handle<'HPSSWALK'>;
+export type HRSRC = Handle<'HRSRC'>;
+export type HSAVEDUILANGUAGES = Handle<'HSAVEDUILANGUAGES'>;
+export type HWND = Handle<'HWND'>;
+export type PACKAGE_VIRTUALIZATION_CONTEXT_HANDLE = Handle<'PACKAGE_VIRTUALIZATION_CONTEXT_HANDLE'>;
+export type PTP_CALLBACK_INSTANCE = Handle<'PTP_CALLBACK_INSTANCE'>;
+export type PTP_CLEANUP_GROUP = Handle<'PTP_CLEANUP_GROUP'>;
+export type PTP_IO = Handle<'PTP_IO'>;
+export type PTP_POOL = Handle<'PTP_POOL'>;
+export type PTP_TIMER = Handle<'PTP_TIMER'>;
+export type PTP_WAIT = Handle<'PTP_WAIT'>;
+export type PTP_WORK = Handle<'PTP_WORK'>;
+
 // Locale/codepage enumeration callbacks
 export type CODEPAGE_ENUMPROC = Pointer;
 export type LOCALE_ENUMPROCA = Pointer;
@@ -462,3 +1025,34 @@ export type ENUMRESNAMEPROCA = Pointer;
 export type ENUMRESNAMEPROCW = Pointer;
 export type ENUMRESTYPEPROCA = Pointer;
 export type ENUMRESTYPEPROCW = Pointer;
+
+// Callback typedefs used by thread pool, fiber, exception and enumeration APIs
+export type APPLICATION_RECOVERY_CALLBACK = Pointer;
+export type CALINFO_ENUMPROCA = Pointer;
+export type CALINFO_ENUMPROCEXA = Pointer;
+export type CALINFO_ENUMPROCEXEX = Pointer;
+export type CALINFO_ENUMPROCEXW = Pointer;
+export type CALINFO_ENUMPROCW = Pointer;
+export type DATEFMT_ENUMPROCA = Pointer;
+export type DATEFMT_ENUMPROCEXA = Pointer;
+export type DATEFMT_ENUMPROCEXEX = Pointer;
+export type DATEFMT_ENUMPROCEXW = Pointer;
+export type DATEFMT_ENUMPROCW = Pointer;
+export type LANGGROUPLOCALE_ENUMPROCA = Pointer;
+export type LANGGROUPLOCALE_ENUMPROCW = Pointer;
+export type LPFIBER_START_ROUTINE = Pointer;
+export type LPTOP_LEVEL_EXCEPTION_FILTER = Pointer;
+export type OOBE_COMPLETED_CALLBACK = Pointer;
+export type PAPCFUNC = Pointer;
+export type PENUM_PAGE_FILE_CALLBACKA = Pointer;
+export type PENUM_PAGE_FILE_CALLBACKW = Pointer;
+export type PFLS_CALLBACK_FUNCTION = Pointer;
+export type PGET_RUNTIME_FUNCTION_CALLBACK = Pointer;
+export type PINIT_ONCE_FN = Pointer;
+export type PSECURE_MEMORY_CACHE_CALLBACK = Pointer;
+export type PTP_SIMPLE_CALLBACK = Pointer;
+export type PTP_TIMER_CALLBACK = Pointer;
+export type PTP_WAIT_CALLBACK = Pointer;
+export type PTP_WIN32_IO_CALLBACK = Pointer;
+export type PTP_WORK_CALLBACK = Pointer;
+export type PVECTORED_EXCEPTION_HANDLER = Pointer;
@@ -0,0 +1,40 @@
+/**
+ * One parameter of an export described in `metadata/Kernel32.json`.
+ */
+export interface ExportParameter {
+  /**
+   * Whether the export reads (`in`), writes (`out`) or both reads and writes (`inout`) through
+   * the parameter, from its SDK annotation.
+   */
+  direction: 'in' | 'inout' | 'out';
+
+  /**
+   * Parameter name, e.g. `lpFileName`.
+   */
+  name: string;
+
+  /**
+   * Win32 type, e.g. `LPCWSTR`.
+   */
+  type: string;
+}
+
+/**
+ * Description of one export in `metadata/Kernel32.json`.
+ */
+export interface ExportMetadata {
+  /**
+   * SDK header that declares the export, e.g. `fileapi.h`.
+   */
+  header: string;
+
+  /**
+   * Parameters, in order.
+   */
+  parameters: ExportParameter[];
+
+  /**
+   * Win32 return type, e.g. `BOOL`.
+   */
+  returns: string;
+}
@@ -0,0 +1,61 @@
+import type { DWORD } from './Kernel32';
+
+/**
+ * JSON-safe encoding of a value crossing the FFI boundary.
+ *
+ * `bigint`s (`SIZE_T`, `LARGE_INTEGER`, ...) are encoded as `{ bigint: '<decimal>' }`.
+ */
+export type RecordedValue = number | boolean | string | null | { bigint: string };
+
+/**
+ * Bytes a native call left in a buffer passed as an `out` or `inout` argument.
+ */
+export interface RecordedBuffer {
+  /**
+   * Index of the argument that pointed at the buffer.
+   */
+  argument: number;
+
+  /**
+   * Buffer contents after the call, base64-encoded.
+   */
+  data: string;
+}
+
+/**
+ * One call captured by `RecordingBackend`.
+ */
+export interface RecordedCall {
+  /**
+   * Export that was called.
+   */
+  api: string;
+
+  /**
+   * Arguments as passed; pointers are recorded but not compared on replay.
+   */
+  arguments: RecordedValue[];
+
+  /**
+   * Buffers the call wrote into.
+   */
+  buffers: RecordedBuffer[];
+
+  /**
+   * Thread last-error value read immediately after the call.
+   */
+  lastError: DWORD;
+
+  /**
+   * Value returned by the export.
+   */
+  result: RecordedValue;
+}
+
+/**
+ * A recorded call sequence, as written by `RecordingBackend` and read by `ReplayBackend`.
+ */
+export interface ReplayTrace {
+  calls: RecordedCall[];
+  version: 1;
+}
@@ -0,0 +1,46 @@
+/**
+ * How a value of some type is laid out in memory and read or written there.
+ *
+ * `T` is what reads produce; `W` is what writes (and `create` initializers) accept.
+ */
+export interface FieldType<T = unknown, W = T> {
+  /**
+   * Required alignment in bytes.
+   */
+  readonly alignment: number;
+
+  /**
+   * Size in bytes, including trailing padding.
+   */
+  readonly size: number;
+
+  /**
+   * Reads the value at `offset`.
+   */
+  get(view: DataView, offset: number): T;
+
+  /**
+   * Writes `value` at `offset`.
+   */
+  set(view: DataView, offset: number, value: W): void;
+}
+
+/**
+ * Field names mapped to their types, in declaration order.
+ */
+export type StructFields = Record<string, FieldType<any, any>>;
+
+/**
+ * Initial values accepted by `Struct.create`; omitted fields stay zero.
+ */
+export type StructInit<F extends StructFields> = { [K in keyof F]?: F[K] extends FieldType<any, infer W> ? W : never };
+
+/**
+ * Typed view over a struct's memory: each field reads and writes the underlying bytes.
+ */
+export type StructView<F extends StructFields> = { -readonly [K in keyof F]: F[K] extends FieldType<infer T, any> ? T : never } & {
+  /**
+   * The struct's bytes, e.g. to pass `view.bytes.ptr` to an export.
+   */
+  readonly bytes: Uint8Array;
+};
@@ -0,0 +1,74 @@
+import type { DWORD, LONG, USHORT } from './Kernel32';
+
+/**
+ * FAT timestamp as used by `DosDateTimeToFileTime` and `FileTimeToDosDateTime`.
+ */
+export interface DosDateTime {
+  /**
+   * Day (bits 0-4), month (bits 5-8) and years since 1980 (bits 9-15).
+   */
+  date: USHORT;
+
+  /**
+   * Seconds divided by 2 (bits 0-4), minute (bits 5-10) and hour (bits 11-15).
+   */
+  time: USHORT;
+}
+
+/**
+ * The two halves of a `FILETIME`, as laid out in memory.
+ */
+export interface FileTimeParts {
+  dwHighDateTime: DWORD;
+  dwLowDateTime: DWORD;
+}
+
+/**
+ * Anything exposing nanoseconds since the Unix epoch, such as a `Temporal.Instant`.
+ */
+export interface InstantLike {
+  readonly epochNanoseconds: bigint;
+}
+
+/**
+ * The two halves of a `LARGE_INTEGER`, as laid out in memory.
+ */
+export interface LargeIntegerParts {
+  /**
+   * High 32 bits, signed.
+   */
+  HighPart: LONG;
+
+  /**
+   * Low 32 bits, unsigned.
+   */
+  LowPart: DWORD;
+}
+
+/**
+ * Fields of a `SYSTEMTIME`.
+ */
+export interface SystemTimeFields {
+  wDay: USHORT;
+
+  /**
+   * 0 for Sunday through 6 for Saturday. Ignored on input, as `SystemTimeToFileTime` does.
+   */
+  wDayOfWeek: USHORT;
+
+  wHour: USHORT;
+  wMilliseconds: USHORT;
+  wMinute: USHORT;
+
+  /**
+   * 1 for January through 12 for December.
+   */
+  wMonth: USHORT;
+
+  wSecond: USHORT;
+
+  /**
+   * 1601 through 30827.
+   */
+  wYear: USHORT;
+}
@@ -0,0 +1,85 @@
+import type { DWORD } from './Kernel32';
+
+/**
+ * One argument of a traced call.
+ */
+export interface TraceArgument {
+  /**
+   * Parameter name, e.g. `lpFileName`.
+   */
+  name: string;
+
+  /**
+   * Win32 type, e.g. `LPCWSTR`.
+   */
+  type: string;
+
+  /**
+   * Value formatted for its Win32 type: quoted text for input strings, hex for pointers
+   * and handles, `NULL`, `INVALID_HANDLE_VALUE`, or the plain number.
+   */
+  value: string;
+}
+
+/**
+ * Structured record of a single traced call.
+ */
+export interface TraceEvent {
+  /**
+   * Export that was called, e.g. `CreateFileW`.
+   */
+  api: string;
+
+  /**
+   * Arguments, in declaration order.
+   */
+  arguments: TraceArgument[];
+
+  /**
+   * Wall-clock duration of the native call, in milliseconds.
+   */
+  duration: number;
+
+  /**
+   * Header that declares the export, e.g. `fileapi.h`.
+   */
+  header: string;
+
+  /**
+   * Thread last-error value read immediately after the call.
+   */
+  lastError: DWORD;
+
+  /**
+   * Return value formatted for the export's return type.
+   */
+  result: string;
+}
+
+/**
+ * Receives trace events; called synchronously after every traced call.
+ */
+export type TraceSink = (event: TraceEvent) => void;
+
+/**
+ * Options accepted by `Kernel32.Configure({ trace })`.
+ *
+ * With neither `headers` nor `names`, every export is traced; otherwise an export is traced
+ * if it matches either list.
+ */
+export interface TraceOptions {
+  /**
+   * Header groups to trace, e.g. `['fileapi.h', 'handleapi.h']`.
+   */
+  headers?: string[];
+
+  /**
+   * Export names to trace, as exact names or patterns, e.g. `['CloseHandle', /^CreateFile/]`.
+   */
+  names?: (string | RegExp)[];
+
+  /**
+   * Destination for trace events.
+   */
+  sink: TraceSink;
+}